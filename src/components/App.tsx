@@ -1,6 +1,9 @@
 import { useEffect, useLayoutEffect } from 'react'
 import { Canvas } from './Canvas/Canvas'
 import { FloatingPreview } from './FloatingPreview/FloatingPreview'
+import { Inspector } from './Inspector/Inspector'
+import { DiagnosticsPanel } from './Diagnostics/DiagnosticsPanel'
+import { HistoryPanel } from './History/HistoryPanel'
 import { Toolbar } from './Toolbar/Toolbar'
 import { ModifierBar } from './ModifierBar/ModifierBar'
 import { Notifications } from './Notifications/Notifications'
@@ -44,6 +47,9 @@ function AppContent() {
           <Canvas />
         </ErrorBoundary>
         <FloatingPreview />
+        <Inspector />
+        <DiagnosticsPanel />
+        <HistoryPanel />
       </div>
       <Toolbar />
       <ModifierBar />
@@ -9,15 +9,22 @@ import { useThemeStore } from '../../stores/themeStore'
 import { useCanvasInteraction } from './useCanvasInteraction'
 import { renderGrid, renderMirrorAxis } from './renderers/GridRenderer'
 import { renderShapes, renderSelectedTangentHandles } from './renderers/ShapeRenderer'
-import { renderPath } from './renderers/PathRenderer'
+import { renderPath, renderBooleanOutline } from './renderers/PathRenderer'
 import { renderMeasurements } from './renderers/MeasurementRenderer'
 import { renderHandleValues } from './renderers/HandleValueRenderer'
 import { renderTooltips, renderScalePivotMarker } from './renderers/TooltipRenderer'
 import { renderSmartGuides } from './renderers/SmartGuidesRenderer'
+import { renderDiagnostics } from './renderers/DiagnosticsRenderer'
+import { renderAreaProperties } from './renderers/AreaPropertiesRenderer'
 import { hasActiveAnimations } from './renderers/opacityAnimation'
 import { drawPlusIconCanvas } from '../icons/Icons'
 import { reportError } from '../../stores/notificationStore'
 import { fitToView } from '../../utils/viewportActions'
+import { useDiagnostics } from '../../hooks/useDiagnostics'
+import { useBooleanOutlines } from '../../hooks/useBooleanOutlines'
+import { useAreaProperties } from '../../hooks/useAreaProperties'
+import { getLayerOf, isOnVisibleLayer } from '../../utils/layers'
+import { fromDocumentUnits } from '../../utils/units'
 import { startMeasure, endMeasure, markFrame, getFPS, getAvgFrameTime, isProfilerEnabled, trackMemory, getMemoryUsageMB } from '../../utils/profiler'
 import styles from './Canvas.module.css'
 
@@ -77,11 +84,15 @@ export function Canvas() {
   // Store subscriptions
   const shapes = useDocumentStore(state => state.shapes)
   const shapeOrder = useDocumentStore(state => state.shapeOrder)
+  const paths = useDocumentStore(state => state.paths)
+  const layers = useDocumentStore(state => state.layers)
+  const units = useDocumentStore(state => state.units)
   const globalStretch = useDocumentStore(state => state.globalStretch)
   const closedPath = useDocumentStore(state => state.closedPath)
   const useStartPoint = useDocumentStore(state => state.useStartPoint)
   const useEndPoint = useDocumentStore(state => state.useEndPoint)
   const mirrorConfig = useDocumentStore(state => state.mirrorConfig)
+  const arrayConfig = useDocumentStore(state => state.arrayConfig)
   const pan = useViewportStore(state => state.pan)
   const zoom = useViewportStore(state => state.zoom)
   const selectedIds = useSelectionStore(state => state.selectedIds)
@@ -93,11 +104,20 @@ export function Canvas() {
   const mouseWorldPos = useSelectionStore(state => state.mouseWorldPos)
   const modifierKeys = useSelectionStore(state => state.modifierKeys)
   const gridSize = useSettingsStore(state => state.gridSize)
+  // Grid size is in document units; snapping uses the same world spacing
+  const gridSpacing = fromDocumentUnits(gridSize, units)
   const showGrid = useSettingsStore(state => state.showGrid)
   const measurementMode = useSettingsStore(state => state.measurementMode)
   const isolatePath = useSettingsStore(state => state.isolatePath)
   const snapToGrid = useSettingsStore(state => state.snapToGrid)
   const smartGuides = useSettingsStore(state => state.smartGuides)
+  const showDiagnostics = useSettingsStore(state => state.showDiagnostics)
+  const diagnostics = useDiagnostics(showDiagnostics)
+  const booleanOutlines = useBooleanOutlines()
+  const showCentroid = useSettingsStore(state => state.showCentroid)
+  const showArea = useSettingsStore(state => state.showArea)
+  const showInertia = useSettingsStore(state => state.showInertia)
+  const areaProperties = useAreaProperties(showCentroid || showArea || showInertia)
   const theme = useThemeStore(state => state.theme)
   
   // Debug state - subscribe to trigger re-render when debug settings change
@@ -108,6 +128,7 @@ export function Canvas() {
     showPathOrder: state.showPathOrder,
     showCircleCenters: state.showCircleCenters,
     showMirrorPlaneNumbers: state.showMirrorPlaneNumbers,
+    showCurvatureComb: state.showCurvatureComb,
   }))
   
   // Profiling state
@@ -164,10 +185,33 @@ export function Canvas() {
       ctx.translate(pan.x, pan.y)
       ctx.scale(zoom, zoom)
       
+      // Every path on a shown layer, drawn with its layer's style
+      const renderPaths = () => {
+        for (const path of paths) {
+          const layer = getLayerOf(path, layers)
+          if (layer && !layer.visible) continue
+          renderPath(
+            ctx, shapes, path.shapeOrder, zoom, globalStretch, path.closedPath, path.useStartPoint, path.useEndPoint,
+            layer?.style.stroke ?? theme.pathStroke, path.mirrorConfig, path.arrayConfig, layer?.style.fill, layer?.style.strokeWidth,
+            path.offsets
+          )
+        }
+        // Boolean outlines over their generators, in the accent color unless their layer sets one
+        for (const { outline, pathData } of booleanOutlines) {
+          const layer = getLayerOf(outline, layers)
+          if (layer && !layer.visible) continue
+          renderBooleanOutline(
+            ctx, pathData, zoom, layer?.style.stroke ?? theme.accent, layer?.style.fill ?? theme.accent, layer?.style.strokeWidth
+          )
+        }
+      }
+      // Shapes on hidden layers are not drawn (paths still wrap around them)
+      const visibleShapes = shapes.filter(shape => isOnVisibleLayer(shape, layers))
+      
       // In isolate mode, only render the path - skip everything else
       if (isolatePath) {
         startMeasure('path (isolated)')
-        renderPath(ctx, shapes, shapeOrder, zoom, globalStretch, closedPath, useStartPoint, useEndPoint, theme.pathStroke, mirrorConfig)
+        renderPaths()
         endMeasure('path (isolated)')
         ctx.restore()
         lastRenderErrorRef.current = null
@@ -180,16 +224,17 @@ export function Canvas() {
       // Grid will appear on subsequent renders
       if (showGrid && !isFirstRender) {
         startMeasure('grid')
-        renderGrid(ctx, canvas.width, canvas.height, pan, zoom, gridSize, theme.gridColor)
+        renderGrid(ctx, canvas.width, canvas.height, pan, zoom, gridSpacing, theme.gridColor)
         endMeasure('grid')
       }
       if (isFirstRender) mark('grid-skipped')
       
       // Draw mirror axis if any circle has mirroring enabled
-      const hasMirroredCircles = shapes.some(s => s.type === 'circle' && s.mirrored)
+      const hasMirroredCircles = shapes.some(s => s.mirrored)
       if (hasMirroredCircles) {
         startMeasure('mirrorAxis')
-        renderMirrorAxis(ctx, canvas.width, canvas.height, pan, zoom, theme.gridColor, mirrorConfig, debugSettings.showMirrorPlaneNumbers)
+        const originActive = hoverTarget?.type === 'mirror-origin' || dragState?.mode === 'mirror-origin'
+        renderMirrorAxis(ctx, canvas.width, canvas.height, pan, zoom, theme.gridColor, mirrorConfig, debugSettings.showMirrorPlaneNumbers, originActive)
         endMeasure('mirrorAxis')
         if (isFirstRender) mark('mirrorAxis')
       }
@@ -197,7 +242,7 @@ export function Canvas() {
       // Shapes first (below path)
       // Returns set of circle IDs with visible UI (for hiding overlapping measurements)
       startMeasure('shapes')
-      const circlesWithVisibleUI = renderShapes(ctx, shapes, selectedIds, hoveredId, hoverTarget, theme, zoom, shapeOrder, mirrorConfig, measurementMode, mouseWorldPos)
+      const circlesWithVisibleUI = renderShapes(ctx, visibleShapes, selectedIds, hoveredId, hoverTarget, theme, zoom, shapeOrder, mirrorConfig, arrayConfig, measurementMode, mouseWorldPos)
       endMeasure('shapes')
       if (isFirstRender) mark('shapes')
       
@@ -238,10 +283,19 @@ export function Canvas() {
       
       // Path on top of shapes
       startMeasure('path')
-      renderPath(ctx, shapes, shapeOrder, zoom, globalStretch, closedPath, useStartPoint, useEndPoint, theme.pathStroke, mirrorConfig)
+      // Every path in the document (order and settings of the active one are used for editing)
+      renderPaths()
       endMeasure('path')
       if (isFirstRender) mark('path')
       
+      // Centroid, area and inertia of the active closed path
+      if (areaProperties) {
+        renderAreaProperties(ctx, areaProperties, { centroid: showCentroid, area: showArea, inertia: showInertia }, zoom, units, theme.accent)
+      }
+      
+      // Problems the diagnostics panel lists
+      renderDiagnostics(ctx, diagnostics, zoom)
+      
       // Smart guides during drag operations
       if (dragState?.mode === 'move' && activeGuides.length > 0) {
         renderSmartGuides(ctx, activeGuides, canvas.width, canvas.height, pan, zoom, theme.smartGuide)
@@ -249,7 +303,7 @@ export function Canvas() {
       
       // Tangent handles on top of path (for selected circles)
       startMeasure('handles')
-      renderSelectedTangentHandles(ctx, shapes, selectedIds, hoverTarget, shapeOrder, theme, zoom, closedPath, useStartPoint, useEndPoint, mirrorConfig)
+      renderSelectedTangentHandles(ctx, shapes, selectedIds, hoverTarget, shapeOrder, theme, zoom, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
       endMeasure('handles')
       if (isFirstRender) mark('handles')
       
@@ -268,7 +322,9 @@ export function Canvas() {
         closedPath,
         useStartPoint,
         useEndPoint,
-        mirrorConfig
+        mirrorConfig,
+        arrayConfig,
+        units
       )
       
       // Tooltips for interactive elements (only when not dragging)
@@ -285,11 +341,14 @@ export function Canvas() {
           useStartPoint,
           useEndPoint,
           mirrorConfig,
+          arrayConfig,
           modifierKeys,
           mouseWorldPos,
           snapToGrid,
           smartGuides,
-          selectedIds.length
+          selectedIds.length,
+          units,
+          gridSpacing
         )
       }
       
@@ -301,7 +360,7 @@ export function Canvas() {
       // Measurements on top of everything
       if (measurementMode !== 'clean') {
         startMeasure('measurements')
-        renderMeasurements(ctx, shapes, shapeOrder, measurementMode, zoom, closedPath, useStartPoint, useEndPoint, mirrorConfig, circlesWithVisibleUI)
+        renderMeasurements(ctx, shapes, shapeOrder, measurementMode, zoom, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, circlesWithVisibleUI, units)
         endMeasure('measurements')
       }
       
@@ -371,7 +430,7 @@ export function Canvas() {
     }
     
     console.log(`%c[Canvas] render() completed in ${(performance.now() - renderStart).toFixed(1)}ms`, 'color: #00ff88;')
-  }, [shapes, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, pan, zoom, selectedIds, hoveredId, hoverTarget, dragState, clickPreview, activeGuides, mouseWorldPos, gridSize, showGrid, measurementMode, isolatePath, debugSettings, theme, showPerformanceOverlay])
+  }, [shapes, shapeOrder, paths, layers, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, pan, zoom, selectedIds, hoveredId, hoverTarget, dragState, clickPreview, activeGuides, mouseWorldPos, gridSpacing, units, showGrid, measurementMode, isolatePath, debugSettings, theme, showPerformanceOverlay, diagnostics, booleanOutlines, areaProperties, showCentroid, showArea, showInertia])
   
   // Helper to draw performance overlay
   function drawPerformanceOverlay(ctx: CanvasRenderingContext2D, width: number, _height: number) {
@@ -179,6 +179,7 @@ export function getCursorForTarget(
     case 'exit-offset':
     case 'entry-length':
     case 'exit-length':
+    case 'mirror-origin':
       return 'grab'
     case 'entry-offset-slot':
     case 'exit-offset-slot':
@@ -0,0 +1,110 @@
+import type { DocumentUnits } from '../../../types'
+import { principalMoments, type AreaProperties } from '../../../geometry/areaProperties'
+import { formatLength, formatLengthPower } from '../../../utils/units'
+
+/**
+ * Area Properties Renderer
+ *
+ * Markers for the area properties of the active closed path: the centroid as
+ * a quartered circle, the area as a label above it, and the second moments
+ * as the principal axes with the inertia ellipse (the uniform ellipse with
+ * the same area, centroid and second moments as the path).
+ */
+
+// Marker styling (sizes in screen pixels)
+const CENTROID_RADIUS = 7
+const LINE_WIDTH = 1.5
+const AXIS_DASH = 5
+const LABEL_GAP = 16
+// Principal axes run this far past the inertia ellipse
+const AXIS_OVERSHOOT = 1.25
+
+export interface AreaMarkers {
+  centroid: boolean
+  area: boolean
+  inertia: boolean
+}
+
+/**
+ * Render area property markers on the canvas
+ *
+ * @param ctx - Canvas rendering context (already transformed to world coordinates)
+ * @param properties - Area properties of the active path
+ * @param markers - Which markers to draw
+ * @param zoom - Current zoom level (markers keep a constant screen size)
+ * @param units - Document units for the labels
+ * @param color - Marker color
+ */
+export function renderAreaProperties(
+  ctx: CanvasRenderingContext2D,
+  properties: AreaProperties,
+  markers: AreaMarkers,
+  zoom: number,
+  units: DocumentUnits,
+  color: string
+): void {
+  const uiScale = 1 / zoom
+  const { x, y } = properties.centroid
+
+  ctx.save()
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = LINE_WIDTH * uiScale
+  ctx.font = `${11 * uiScale}px monospace`
+  ctx.textAlign = 'center'
+
+  if (markers.inertia) {
+    const { major, minor, angle } = principalMoments(properties)
+    const area = Math.abs(properties.area)
+    // A uniform ellipse with semi-axes a, b has second moments area·a²/4 and area·b²/4
+    const a = 2 * Math.sqrt(Math.max(0, major) / area)
+    const b = 2 * Math.sqrt(Math.max(0, minor) / area)
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+
+    ctx.beginPath()
+    ctx.ellipse(x, y, a, b, angle, 0, Math.PI * 2)
+    ctx.stroke()
+
+    ctx.setLineDash([AXIS_DASH * uiScale, AXIS_DASH * uiScale])
+    ctx.beginPath()
+    ctx.moveTo(x - cos * a * AXIS_OVERSHOOT, y - sin * a * AXIS_OVERSHOOT)
+    ctx.lineTo(x + cos * a * AXIS_OVERSHOOT, y + sin * a * AXIS_OVERSHOOT)
+    ctx.moveTo(x + sin * b * AXIS_OVERSHOOT, y - cos * b * AXIS_OVERSHOOT)
+    ctx.lineTo(x - sin * b * AXIS_OVERSHOOT, y + cos * b * AXIS_OVERSHOOT)
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    // Principal moments at the end of the major axis
+    ctx.textBaseline = 'bottom'
+    const labelX = x + cos * a * AXIS_OVERSHOOT
+    const labelY = y + sin * a * AXIS_OVERSHOOT - 4 * uiScale
+    ctx.fillText(`I₁ ${formatLengthPower(major, units, 4)}`, labelX, labelY - 13 * uiScale)
+    ctx.fillText(`I₂ ${formatLengthPower(minor, units, 4)}`, labelX, labelY)
+  }
+
+  if (markers.centroid) {
+    // Quartered circle, the usual centre of gravity symbol
+    const r = CENTROID_RADIUS * uiScale
+    ctx.beginPath()
+    ctx.arc(x, y, r, 0, Math.PI * 2)
+    ctx.stroke()
+    for (const start of [0, Math.PI]) {
+      ctx.beginPath()
+      ctx.moveTo(x, y)
+      ctx.arc(x, y, r, start, start + Math.PI / 2)
+      ctx.closePath()
+      ctx.fill()
+    }
+    ctx.textBaseline = 'top'
+    ctx.fillText(`${formatLength(x, units)}, ${formatLength(y, units)}`, x, y + LABEL_GAP * uiScale)
+  }
+
+  if (markers.area) {
+    ctx.textBaseline = 'bottom'
+    ctx.font = `bold ${12 * uiScale}px monospace`
+    ctx.fillText(`A ${formatLengthPower(properties.area, units, 2)}`, x, y - LABEL_GAP * uiScale)
+  }
+
+  ctx.restore()
+}
@@ -0,0 +1,69 @@
+import type { Diagnostic } from '../../../geometry/diagnostics'
+
+/**
+ * Diagnostics Renderer
+ *
+ * Marks each problem the diagnostics pass found: a ring with an exclamation
+ * mark at the problem, and a dashed line across gaps where a connector is
+ * missing. Errors are red, warnings amber.
+ */
+
+// Marker styling (sizes in screen pixels)
+const MARKER_RADIUS = 9
+const MARKER_LINE_WIDTH = 2
+const GAP_LINE_WIDTH = 1.5
+const GAP_DASH = 6
+const ERROR_COLOR = '#ff4d4d'
+const WARNING_COLOR = '#caba6a'
+
+/**
+ * Render diagnostic markers on the canvas
+ *
+ * @param ctx - Canvas rendering context (already transformed to world coordinates)
+ * @param diagnostics - Problems to mark
+ * @param zoom - Current zoom level (markers keep a constant screen size)
+ */
+export function renderDiagnostics(
+  ctx: CanvasRenderingContext2D,
+  diagnostics: Diagnostic[],
+  zoom: number
+): void {
+  if (diagnostics.length === 0) return
+  const uiScale = 1 / zoom
+
+  ctx.save()
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.font = `bold ${12 * uiScale}px monospace`
+
+  // Warnings first so errors at the same spot stay on top
+  const ordered = [...diagnostics].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'warning' ? -1 : 1))
+
+  for (const diagnostic of ordered) {
+    const color = diagnostic.severity === 'error' ? ERROR_COLOR : WARNING_COLOR
+
+    if (diagnostic.gap) {
+      ctx.beginPath()
+      ctx.moveTo(diagnostic.gap.from.x, diagnostic.gap.from.y)
+      ctx.lineTo(diagnostic.gap.to.x, diagnostic.gap.to.y)
+      ctx.setLineDash([GAP_DASH * uiScale, GAP_DASH * uiScale])
+      ctx.strokeStyle = color
+      ctx.lineWidth = GAP_LINE_WIDTH * uiScale
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    const { x, y } = diagnostic.point
+    ctx.beginPath()
+    ctx.arc(x, y, MARKER_RADIUS * uiScale, 0, Math.PI * 2)
+    ctx.fillStyle = '#000000aa'
+    ctx.fill()
+    ctx.strokeStyle = color
+    ctx.lineWidth = MARKER_LINE_WIDTH * uiScale
+    ctx.stroke()
+    ctx.fillStyle = color
+    ctx.fillText('!', x, y)
+  }
+
+  ctx.restore()
+}
@@ -3,8 +3,10 @@ import {
   GRID_LEVEL_MULTIPLIER,
   GRID_MIN_SCREEN_SPACING,
   GRID_IDEAL_SCREEN_SPACING,
-  GRID_DOT_RADIUS_SCREEN
+  GRID_DOT_RADIUS_SCREEN,
+  MIRROR_ORIGIN_RADIUS
 } from '../../../constants'
+import { mirrorOrigin, isCyclicSymmetry, mirrorSectorCount } from '../../../geometry/path'
 
 /**
  * GPU-optimized multi-level dot grid renderer using cached tile patterns
@@ -352,10 +354,14 @@ function smoothstep(t: number): number {
  * Render mirror axis lines when mirroring is active.
  * Draws dashed lines for each reflection plane in the mirror configuration.
  * 
- * With N planes, draws N lines through the origin at angles:
+ * With N planes, draws N lines through the mirror origin at angles:
  * startAngle, startAngle + π/N, startAngle + 2π/N, ...
  * 
- * Uses grid color (not accent) since it's non-interactive
+ * Cyclic symmetry has no planes, so it draws the N sector boundaries as rays
+ * from the origin at startAngle, startAngle + 2π/N, ...
+ * 
+ * Uses grid color (not accent) for the planes; the origin gets a ring that
+ * can be dragged to move the center of symmetry, filled while hovered or dragged
  */
 export function renderMirrorAxis(
   ctx: CanvasRenderingContext2D,
@@ -365,17 +371,19 @@ export function renderMirrorAxis(
   zoom: number,
   gridColor: string = '#2a2a2a',
   config: MirrorConfig = { planeCount: 1, startAngle: 0 },
-  showPlaneNumbers: boolean = false
+  showPlaneNumbers: boolean = false,
+  originActive: boolean = false
 ) {
   const { planeCount, startAngle } = config
   
   if (planeCount <= 0) return
   
-  // Calculate visible area extent (max distance from origin visible)
-  const worldLeft = -pan.x / zoom
-  const worldRight = (canvasWidth - pan.x) / zoom
-  const worldTop = -pan.y / zoom
-  const worldBottom = (canvasHeight - pan.y) / zoom
+  // Calculate visible area extent (max distance from the mirror origin visible)
+  const origin = mirrorOrigin(config)
+  const worldLeft = -pan.x / zoom - origin.x
+  const worldRight = (canvasWidth - pan.x) / zoom - origin.x
+  const worldTop = -pan.y / zoom - origin.y
+  const worldBottom = (canvasHeight - pan.y) / zoom - origin.y
   
   // Calculate the maximum extent we need to draw (diagonal of visible area)
   const maxExtent = Math.max(
@@ -391,15 +399,18 @@ export function renderMirrorAxis(
   const rgb = parseColor(gridColor)
   
   ctx.save()
+  // Everything below is drawn relative to the mirror origin
+  ctx.translate(origin.x, origin.y)
   
   // Dashed line style - uses grid color with higher opacity for visibility
   ctx.setLineDash([12 * uiScale, 6 * uiScale])
   ctx.strokeStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.6)`
   ctx.lineWidth = 2 * uiScale
   
-  // Draw each reflection plane
-  const sectorAngle = Math.PI / planeCount
-  const sectorCount = 2 * planeCount
+  // Draw each reflection plane (or sector boundary ray for cyclic symmetry)
+  const cyclic = isCyclicSymmetry(config)
+  const sectorCount = mirrorSectorCount(config)
+  const sectorAngle = (2 * Math.PI) / sectorCount
   
   for (let i = 0; i < planeCount; i++) {
     const planeAngle = startAngle + i * sectorAngle
@@ -410,9 +421,10 @@ export function renderMirrorAxis(
     const dirX = Math.cos(planeAngle)  // Direction along the line
     const dirY = Math.sin(planeAngle)
     
-    // Draw line from -maxExtent to +maxExtent along this direction
+    // Draw line from -maxExtent to +maxExtent along this direction (rays start at the origin)
+    const lineStart = cyclic ? 0 : -maxExtent
     ctx.beginPath()
-    ctx.moveTo(-dirX * maxExtent, -dirY * maxExtent)
+    ctx.moveTo(dirX * lineStart, dirY * lineStart)
     ctx.lineTo(dirX * maxExtent, dirY * maxExtent)
     ctx.stroke()
     
@@ -436,8 +448,10 @@ export function renderMirrorAxis(
       ctx.fillText(planeLabel, labelX, labelY)
       
       // Also label on the opposite side
-      ctx.strokeText(planeLabel, -labelX, -labelY)
-      ctx.fillText(planeLabel, -labelX, -labelY)
+      if (!cyclic) {
+        ctx.strokeText(planeLabel, -labelX, -labelY)
+        ctx.fillText(planeLabel, -labelX, -labelY)
+      }
       ctx.restore()
     }
   }
@@ -461,7 +475,7 @@ export function renderMirrorAxis(
       const labelY = Math.sin(sectorCenterAngle) * sectorLabelDist
       
       // Draw sector label with different color
-      const isOdd = s % 2 === 1
+      const isOdd = !cyclic && s % 2 === 1
       ctx.fillStyle = isOdd ? '#ff00ff' : '#00ffff'  // Magenta for odd (reflected), cyan for even (rotated)
       ctx.strokeStyle = '#000000'
       ctx.lineWidth = 3 * uiScale
@@ -478,7 +492,7 @@ export function renderMirrorAxis(
         const planeIdx = ((s + 1) / 2) % planeCount
         transformLabel = `(refl P${planeIdx})`
       } else {
-        const rotDeg = Math.round((s * 180) / planeCount)
+        const rotDeg = Math.round((s * 360) / sectorCount)
         transformLabel = `(rot ${rotDeg}°)`
       }
       ctx.strokeText(transformLabel, labelX, labelY + 16 * uiScale)
@@ -486,8 +500,19 @@ export function renderMirrorAxis(
     }
   }
   
-  // Draw center marker at origin
+  // Draggable ring around the center marker
   ctx.setLineDash([])
+  ctx.beginPath()
+  ctx.arc(0, 0, MIRROR_ORIGIN_RADIUS * uiScale, 0, Math.PI * 2)
+  ctx.lineWidth = 1.5 * uiScale
+  ctx.strokeStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.8)`
+  ctx.stroke()
+  if (originActive) {
+    ctx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.3)`
+    ctx.fill()
+  }
+  
+  // Draw center marker at origin
   ctx.font = `${11 * uiScale}px system-ui, sans-serif`
   ctx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.8)`
   ctx.textAlign = 'center'
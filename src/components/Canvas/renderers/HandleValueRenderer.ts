@@ -1,6 +1,8 @@
-import type { Shape, CircleShape, Point, CanvasTheme, HoverTarget, DragMode, MirrorConfig } from '../../../types'
+import type { Shape, Point, CanvasTheme, HoverTarget, DragMode, MirrorConfig, ArrayConfig, DocumentUnits } from '../../../types'
 import { computeTangentHandleInfo, TangentHandleInfo } from './ShapeRenderer'
 import { expandMirroredCircles } from '../../../geometry/path'
+import { getTangentShape } from '../../../geometry/shapes/registry'
+import { DEFAULT_UNITS, formatLength } from '../../../utils/units'
 
 /**
  * Configuration for handle value labels
@@ -34,16 +36,16 @@ function formatAngle(radians: number): string {
 }
 
 /**
- * Format a position as (x, y)
+ * Format a position as (x, y) in document units
  */
-function formatPosition(point: Point): string {
-  return `${formatValue(point.x)}, ${formatValue(point.y)}`
+function formatPosition(point: Point, units: DocumentUnits): string {
+  return `${formatLength(point.x, units)}, ${formatLength(point.y, units)}`
 }
 
 /**
  * Format a tangent length multiplier
  */
-function formatLength(length: number): string {
+function formatMultiplier(length: number): string {
   return `${formatValue(length, 2)}×`
 }
 
@@ -52,9 +54,10 @@ function formatLength(length: number): string {
  */
 function getHandleValueInfo(
   hoverTarget: HoverTarget,
-  shape: CircleShape | null,
+  shape: Shape | null,
   tangentInfo: TangentHandleInfo | null,
-  dragMode: DragMode
+  dragMode: DragMode,
+  units: DocumentUnits
 ): { text: string; position: Point; anchor: 'above' | 'below' | 'left' | 'right' } | null {
   if (!shape) return null
 
@@ -65,7 +68,7 @@ function getHandleValueInfo(
     case 'shape-body':
     case 'move':
       return {
-        text: formatPosition(shape.center),
+        text: formatPosition(shape.center, units),
         position: shape.center,
         anchor: 'above'
       }
@@ -73,13 +76,17 @@ function getHandleValueInfo(
     case 'shape-edge':
     case 'scale':
       // Position the label at the edge being hovered/scaled
-      return {
-        text: `r: ${formatValue(shape.radius)}`,
-        position: {
-          x: shape.center.x + shape.radius,
-          y: shape.center.y
-        },
-        anchor: 'right'
+      {
+        const shapeKind = getTangentShape(shape)
+        const bounds = shapeKind.getBounds(shape)
+        return {
+          text: shapeKind.formatSize(shape, value => formatLength(value, units)),
+          position: {
+            x: bounds.x + bounds.width,
+            y: shape.center.y
+          },
+          anchor: 'right'
+        }
       }
 
     case 'entry-offset':
@@ -107,7 +114,7 @@ function getHandleValueInfo(
       if (!tangentInfo) return null
       const entryLength = shape.entryTangentLength ?? 1.0
       return {
-        text: formatLength(entryLength),
+        text: formatMultiplier(entryLength),
         position: tangentInfo.entryLengthHandle,
         anchor: 'above'
       }
@@ -117,7 +124,7 @@ function getHandleValueInfo(
       if (!tangentInfo) return null
       const exitLength = shape.exitTangentLength ?? 1.0
       return {
-        text: formatLength(exitLength),
+        text: formatMultiplier(exitLength),
         position: tangentInfo.exitLengthHandle,
         anchor: 'above'
       }
@@ -226,7 +233,9 @@ export function renderHandleValues(
   closedPath: boolean = true,
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
-  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 }
+  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig,
+  units: DocumentUnits = DEFAULT_UNITS
 ) {
   const uiScale = 1 / zoom
 
@@ -235,7 +244,7 @@ export function renderHandleValues(
   if (!interactedId) return
 
   const shape = shapes.find(s => s.id === interactedId)
-  if (!shape || shape.type !== 'circle') return
+  if (!shape) return
 
   // Only show values for selected shapes or while dragging
   const isSelected = selectedIds.includes(interactedId)
@@ -263,8 +272,7 @@ export function renderHandleValues(
 
   // Compute tangent info if needed
   let tangentInfo: TangentHandleInfo | null = null
-  const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
-  const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, shapeOrder, mirrorConfig, arrayConfig)
   
   if (hoverTarget?.type?.includes('offset') || 
       hoverTarget?.type?.includes('length') ||
@@ -273,7 +281,7 @@ export function renderHandleValues(
   }
 
   // Get value info for the current interaction
-  const valueInfo = getHandleValueInfo(hoverTarget, shape, tangentInfo, dragMode)
+  const valueInfo = getHandleValueInfo(hoverTarget, shape, tangentInfo, dragMode, units)
   if (!valueInfo) return
 
   // Draw the label
@@ -1,6 +1,8 @@
-import type { Shape, CircleShape, MeasurementMode, LineSegment, BezierSegment, ArcSegment, EllipseArcSegment, MirrorConfig } from '../../../types'
+import type { Shape, MeasurementMode, LineSegment, BezierSegment, ArcSegment, EllipseArcSegment, MirrorConfig, ArrayConfig, DocumentUnits } from '../../../types'
 import { computeTangentHull } from '../../../geometry/path'
+import { createPathSampler } from '../../../geometry/arcLength'
 import { MEASUREMENT_LABEL_OFFSET, MIN_CIRCLES } from '../../../constants'
+import { DEFAULT_UNITS, formatLength } from '../../../utils/units'
 
 // Cache for measurement CSS values
 let measureCssCache: { textColor: string } | null = null
@@ -29,6 +31,7 @@ export function invalidateMeasurementStyleCache() {
  * Render measurements on the canvas
  * 
  * @param circlesWithVisibleUI - Set of circle IDs that have their UI visible (skip overlapping measurements)
+ * @param units - Document units the labels are shown in
  */
 export function renderMeasurements(
   ctx: CanvasRenderingContext2D,
@@ -40,7 +43,9 @@ export function renderMeasurements(
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
   mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
-  circlesWithVisibleUI: Set<string> = new Set()
+  arrayConfig?: ArrayConfig,
+  circlesWithVisibleUI: Set<string> = new Set(),
+  units: DocumentUnits = DEFAULT_UNITS
 ) {
   if (mode === 'clean') return
   
@@ -55,7 +60,7 @@ export function renderMeasurements(
   ctx.textAlign = 'left'
   ctx.textBaseline = 'middle'
   
-  const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
+  const circles = shapes
   
   // Build a map of circle ID to center for quickly finding which circle an arc belongs to
   const circleByCenter = new Map<string, string>()
@@ -67,7 +72,7 @@ export function renderMeasurements(
   
   // Render path measurements
   if (circles.length >= MIN_CIRCLES) {
-    const pathData = computeTangentHull(circles, order, 0, closed, useStartPoint, useEndPoint, mirrorConfig)
+    const pathData = computeTangentHull(circles, order, 0, closed, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
     
     // Segment lengths (only in detailed mode)
     if (mode === 'detailed') {
@@ -76,10 +81,10 @@ export function renderMeasurements(
       const arcs = pathData.segments.filter((s): s is ArcSegment => s.type === 'arc')
       const ellipseArcs = pathData.segments.filter((s): s is EllipseArcSegment => s.type === 'ellipse-arc')
       
-      renderSegmentLengths(ctx, lines, textColor, uiScale)
-      renderBezierLengths(ctx, beziers, textColor, uiScale)
-      renderArcLengths(ctx, arcs, textColor, uiScale, circlesWithVisibleUI, circleByCenter)
-      renderEllipseArcLengths(ctx, ellipseArcs, textColor, uiScale, circlesWithVisibleUI, circleByCenter)
+      renderSegmentLengths(ctx, lines, textColor, uiScale, units)
+      renderBezierLengths(ctx, beziers, textColor, uiScale, units)
+      renderArcLengths(ctx, arcs, textColor, uiScale, units, circlesWithVisibleUI, circleByCenter)
+      renderEllipseArcLengths(ctx, ellipseArcs, textColor, uiScale, units, circlesWithVisibleUI, circleByCenter)
     }
   }
 }
@@ -88,7 +93,8 @@ function renderSegmentLengths(
   ctx: CanvasRenderingContext2D,
   lines: LineSegment[],
   color: string,
-  uiScale: number
+  uiScale: number,
+  units: DocumentUnits
 ) {
   ctx.fillStyle = color
   ctx.strokeStyle = color
@@ -132,7 +138,7 @@ function renderSegmentLengths(
     const labelX = midX + perpX
     const labelY = midY + perpY
     
-    const lengthText = line.length.toFixed(1)
+    const lengthText = formatLength(line.length, units)
     
     // Measure text width to create gap for text
     const textMetrics = ctx.measureText(lengthText)
@@ -180,70 +186,12 @@ function renderSegmentLengths(
   }
 }
 
-/**
- * Calculate a point on a cubic bezier curve at parameter t (0-1)
- */
-function bezierPoint(
-  start: { x: number; y: number },
-  cp1: { x: number; y: number },
-  cp2: { x: number; y: number },
-  end: { x: number; y: number },
-  t: number
-): { x: number; y: number } {
-  const mt = 1 - t
-  const mt2 = mt * mt
-  const mt3 = mt2 * mt
-  const t2 = t * t
-  const t3 = t2 * t
-  
-  return {
-    x: mt3 * start.x + 3 * mt2 * t * cp1.x + 3 * mt * t2 * cp2.x + t3 * end.x,
-    y: mt3 * start.y + 3 * mt2 * t * cp1.y + 3 * mt * t2 * cp2.y + t3 * end.y
-  }
-}
-
-/**
- * Calculate the tangent (derivative) of a cubic bezier curve at parameter t
- */
-function bezierTangent(
-  start: { x: number; y: number },
-  cp1: { x: number; y: number },
-  cp2: { x: number; y: number },
-  end: { x: number; y: number },
-  t: number
-): { x: number; y: number } {
-  const mt = 1 - t
-  const mt2 = mt * mt
-  const t2 = t * t
-  
-  return {
-    x: 3 * mt2 * (cp1.x - start.x) + 6 * mt * t * (cp2.x - cp1.x) + 3 * t2 * (end.x - cp2.x),
-    y: 3 * mt2 * (cp1.y - start.y) + 6 * mt * t * (cp2.y - cp1.y) + 3 * t2 * (end.y - cp2.y)
-  }
-}
-
-/**
- * Calculate the normal (perpendicular) at a point on a bezier curve
- */
-function bezierNormal(
-  start: { x: number; y: number },
-  cp1: { x: number; y: number },
-  cp2: { x: number; y: number },
-  end: { x: number; y: number },
-  t: number
-): { x: number; y: number } {
-  const tangent = bezierTangent(start, cp1, cp2, end, t)
-  const len = Math.sqrt(tangent.x * tangent.x + tangent.y * tangent.y)
-  if (len === 0) return { x: 0, y: -1 }
-  // Rotate tangent 90 degrees counterclockwise for normal
-  return { x: -tangent.y / len, y: tangent.x / len }
-}
-
 function renderBezierLengths(
   ctx: CanvasRenderingContext2D,
   beziers: BezierSegment[],
   color: string,
-  uiScale: number
+  uiScale: number,
+  units: DocumentUnits
 ) {
   ctx.fillStyle = color
   ctx.strokeStyle = color
@@ -254,16 +202,14 @@ function renderBezierLengths(
   const offset = MEASUREMENT_LABEL_OFFSET * uiScale
   
   for (const bezier of beziers) {
-    // Get the midpoint of the curve (t = 0.5)
-    const midPoint = bezierPoint(bezier.start, bezier.cp1, bezier.cp2, bezier.end, 0.5)
-    
-    // Get the tangent at the midpoint for text rotation
-    const tangent = bezierTangent(bezier.start, bezier.cp1, bezier.cp2, bezier.end, 0.5)
-    const tangentLen = Math.sqrt(tangent.x * tangent.x + tangent.y * tangent.y)
-    if (tangentLen === 0) continue
+    // Measure along the curve by arc length so the label sits at its true middle
+    const sampler = createPathSampler({ segments: [bezier], totalLength: bezier.length })
+    if (!sampler || sampler.length === 0) continue
+    const length = sampler.length
+    const mid = sampler.sampleAt(length / 2)
     
     // Calculate the angle of the tangent for text
-    let textAngle = Math.atan2(tangent.y, tangent.x)
+    let textAngle = Math.atan2(mid.tangent.y, mid.tangent.x)
     
     // Normalize angle so text is never upside down
     if (textAngle > Math.PI / 2) {
@@ -273,76 +219,47 @@ function renderBezierLengths(
     }
     
     // Calculate perpendicular offset for label position
-    const midNormal = bezierNormal(bezier.start, bezier.cp1, bezier.cp2, bezier.end, 0.5)
-    const labelX = midPoint.x + midNormal.x * offset
-    const labelY = midPoint.y + midNormal.y * offset
+    const labelX = mid.point.x + mid.normal.x * offset
+    const labelY = mid.point.y + mid.normal.y * offset
     
-    const lengthText = bezier.length.toFixed(1)
+    const lengthText = formatLength(length, units)
     const textMetrics = ctx.measureText(lengthText)
     const textWidth = textMetrics.width
     const textPadding = 4 * uiScale
     const halfTextWidth = textWidth / 2 + textPadding
     
-    // Find t values where the curve is halfTextWidth away from the label (for text gap)
-    // We approximate by finding t values based on arc length proportion
-    const gapStartT = Math.max(0, 0.5 - halfTextWidth / bezier.length)
-    const gapEndT = Math.min(1, 0.5 + halfTextWidth / bezier.length)
+    // Distances along the curve where the gap for the text starts and ends
+    const gapStart = Math.max(0, length / 2 - halfTextWidth)
+    const gapEnd = Math.min(length, length / 2 + halfTextWidth)
     
     ctx.lineWidth = lineWidth
     
-    // Draw offset bezier curve from start to gap start
-    ctx.beginPath()
+    // Draw the offset curve between two distances along the bezier
     const numSegments = 20
-    for (let i = 0; i <= numSegments; i++) {
-      const t = (i / numSegments) * gapStartT
-      const pt = bezierPoint(bezier.start, bezier.cp1, bezier.cp2, bezier.end, t)
-      const normal = bezierNormal(bezier.start, bezier.cp1, bezier.cp2, bezier.end, t)
-      const ox = pt.x + normal.x * offset
-      const oy = pt.y + normal.y * offset
-      if (i === 0) {
-        ctx.moveTo(ox, oy)
-      } else {
-        ctx.lineTo(ox, oy)
-      }
-    }
-    ctx.stroke()
-    
-    // Draw offset bezier curve from gap end to end
-    ctx.beginPath()
-    for (let i = 0; i <= numSegments; i++) {
-      const t = gapEndT + (i / numSegments) * (1 - gapEndT)
-      const pt = bezierPoint(bezier.start, bezier.cp1, bezier.cp2, bezier.end, t)
-      const normal = bezierNormal(bezier.start, bezier.cp1, bezier.cp2, bezier.end, t)
-      const ox = pt.x + normal.x * offset
-      const oy = pt.y + normal.y * offset
-      if (i === 0) {
-        ctx.moveTo(ox, oy)
-      } else {
-        ctx.lineTo(ox, oy)
+    const drawOffsetCurve = (from: number, to: number) => {
+      ctx.beginPath()
+      for (let i = 0; i <= numSegments; i++) {
+        const { point, normal } = sampler.sampleAt(from + (to - from) * (i / numSegments))
+        const ox = point.x + normal.x * offset
+        const oy = point.y + normal.y * offset
+        if (i === 0) {
+          ctx.moveTo(ox, oy)
+        } else {
+          ctx.lineTo(ox, oy)
+        }
       }
+      ctx.stroke()
     }
-    ctx.stroke()
+    drawOffsetCurve(0, gapStart)
+    drawOffsetCurve(gapEnd, length)
     
     // Draw connecting lines from main curve to measurement line at start and end
-    const startNormal = bezierNormal(bezier.start, bezier.cp1, bezier.cp2, bezier.end, 0)
-    const startCapX = bezier.start.x + startNormal.x * offset
-    const startCapY = bezier.start.y + startNormal.y * offset
-    
-    // Line from curve start to measurement line start
-    ctx.beginPath()
-    ctx.moveTo(bezier.start.x, bezier.start.y)
-    ctx.lineTo(startCapX, startCapY)
-    ctx.stroke()
-    
-    const endNormal = bezierNormal(bezier.start, bezier.cp1, bezier.cp2, bezier.end, 1)
-    const endCapX = bezier.end.x + endNormal.x * offset
-    const endCapY = bezier.end.y + endNormal.y * offset
-    
-    // Line from curve end to measurement line end
-    ctx.beginPath()
-    ctx.moveTo(bezier.end.x, bezier.end.y)
-    ctx.lineTo(endCapX, endCapY)
-    ctx.stroke()
+    for (const end of [sampler.sampleAt(0), sampler.sampleAt(length)]) {
+      ctx.beginPath()
+      ctx.moveTo(end.point.x, end.point.y)
+      ctx.lineTo(end.point.x + end.normal.x * offset, end.point.y + end.normal.y * offset)
+      ctx.stroke()
+    }
     
     // Draw text
     ctx.save()
@@ -358,6 +275,7 @@ function renderArcLengths(
   arcs: ArcSegment[],
   color: string,
   uiScale: number,
+  units: DocumentUnits,
   circlesWithVisibleUI: Set<string> = new Set(),
   circleByCenter: Map<string, string> = new Map()
 ) {
@@ -406,7 +324,7 @@ function renderArcLengths(
     const labelX = arc.center.x + measureRadius * Math.cos(midAngle)
     const labelY = arc.center.y + measureRadius * Math.sin(midAngle)
     
-    const lengthText = arc.length.toFixed(1)
+    const lengthText = formatLength(arc.length, units)
     const textMetrics = ctx.measureText(lengthText)
     const textWidth = textMetrics.width
     const textPadding = 4 * uiScale
@@ -486,7 +404,7 @@ function renderArcLengths(
       const angleArcRadius = Math.min(arc.radius * 0.4, 40 * uiScale) // Smaller arc for angle label
       const angleDegrees = (arcSpan * 180 / Math.PI)
       const angleText = angleDegrees.toFixed(1) + '°'
-      const radiusText = arc.radius.toFixed(0)
+      const radiusText = formatLength(arc.radius, units)
       
       // Measure text widths for gaps
       const angleTextMetrics = ctx.measureText(angleText)
@@ -649,6 +567,7 @@ function renderEllipseArcLengths(
   ellipseArcs: EllipseArcSegment[],
   color: string,
   uiScale: number,
+  units: DocumentUnits,
   circlesWithVisibleUI: Set<string> = new Set(),
   circleByCenter: Map<string, string> = new Map()
 ) {
@@ -704,7 +623,7 @@ function renderEllipseArcLengths(
     const labelX = midPoint.x + midNormal.x * offset
     const labelY = midPoint.y + midNormal.y * offset
     
-    const lengthText = arc.length.toFixed(1)
+    const lengthText = formatLength(arc.length, units)
     const textMetrics = ctx.measureText(lengthText)
     const textWidth = textMetrics.width
     const textPadding = 4 * uiScale
@@ -792,7 +711,7 @@ function renderEllipseArcLengths(
       const arcSpan = Math.abs(endAngle - startAngle)
       const angleDegrees = (arcSpan * 180 / Math.PI)
       const angleText = angleDegrees.toFixed(1) + '°'
-      const radiusText = arc.radiusX.toFixed(0) + '×' + arc.radiusY.toFixed(0)
+      const radiusText = formatLength(arc.radiusX, units) + ' × ' + formatLength(arc.radiusY, units)
       
       // Measure text widths for gaps
       const angleTextMetrics = ctx.measureText(angleText)
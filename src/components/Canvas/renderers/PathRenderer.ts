@@ -1,15 +1,31 @@
-import type { Shape, CircleShape, ArcSegment, EllipseArcSegment, LineSegment, BezierSegment, PathSegment, MirrorConfig } from '../../../types'
+import type { Shape, ArcSegment, EllipseArcSegment, LineSegment, BezierSegment, PathSegment, PathData, MirrorConfig, ArrayConfig } from '../../../types'
 import { computeTangentHull, expandMirroredCircles } from '../../../geometry/path'
+import { offsetPathData } from '../../../geometry/offset'
+import { sampleCurvature, findJunctions, findCurvatureSpikes } from '../../../geometry/curvature'
 import { pointOnCircle } from '../../../geometry/math'
+import { getTangentShape } from '../../../geometry/shapes/registry'
 import { useDebugStore } from '../../../stores/debugStore'
 import { PATH_LABEL_OFFSET } from '../../../constants'
 
 // Default path width in pixels (constant screen size)
 const DEFAULT_PATH_WIDTH = 6
+// Offset outlines are drawn thin and dashed (pixels)
+const OFFSET_PATH_WIDTH = 1.5
+const OFFSET_DASH = 6
+// Boolean outlines: stroke width (pixels) and fill opacity
+const BOOLEAN_PATH_WIDTH = 3
+const BOOLEAN_FILL_ALPHA = 0.2
+// Curvature comb: samples per segment, tooth length (pixels) at the tightest
+// arc, and the cap for connector spikes that curve tighter still
+const COMB_SAMPLES = 16
+const COMB_TOOTH_LENGTH = 40
+const COMB_TOOTH_MAX = 80
 
 /**
  * Render the tangent hull path around the shapes.
  * Stretch deforms circular arcs into elliptical arcs.
+ * An optional fill is drawn under the stroke; strokeWidthScale multiplies the
+ * default screen width. Offset outlines at the given distances are drawn dashed.
  */
 export function renderPath(
   ctx: CanvasRenderingContext2D,
@@ -21,20 +37,18 @@ export function renderPath(
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
   pathStroke: string = '#ffffff',
-  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 }
+  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig,
+  pathFill?: string,
+  strokeWidthScale: number = 1,
+  offsets: number[] = []
 ) {
-  // Count circles without creating new array (avoid GC)
-  let circleCount = 0
-  for (let i = 0; i < shapes.length; i++) {
-    if (shapes[i].type === 'circle') circleCount++
-  }
-  
-  if (circleCount < 2) return
+  if (shapes.length < 2) return
   
   // Pass shapes directly - computeTangentHull handles filtering internally
-  const circles = shapes as CircleShape[]
+  const circles = shapes
   
-  const pathData = computeTangentHull(circles, order, globalStretch, closed, useStartPoint, useEndPoint, mirrorConfig)
+  const pathData = computeTangentHull(circles, order, globalStretch, closed, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
   
   if (pathData.segments.length === 0) return
   
@@ -42,17 +56,88 @@ export function renderPath(
   const uiScale = 1 / zoom
   
   ctx.strokeStyle = pathStroke
-  ctx.lineWidth = DEFAULT_PATH_WIDTH * uiScale // Constant screen width
+  ctx.lineWidth = DEFAULT_PATH_WIDTH * strokeWidthScale * uiScale // Constant screen width
   ctx.lineCap = 'round'
   ctx.lineJoin = 'round'
   
   // Draw the complete path by iterating through segments in order
   ctx.beginPath()
+  tracePathSegments(ctx, pathData.segments)
+  
+  // Only close the path if it's meant to loop
+  if (closed) {
+    ctx.closePath()
+  }
+  if (pathFill) {
+    ctx.fillStyle = pathFill
+    ctx.fill()
+  }
+  ctx.stroke()
+  
+  // Debug visualizations
+  const debug = useDebugStore.getState()
+  // Get expanded shapes and order (including array and mirror copies) for debug visualization
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, order, mirrorConfig, arrayConfig)
+  renderDebugInfo(ctx, pathData.segments, expandedShapes, expandedOrder, debug, zoom)
+  if (debug.showCurvatureComb) {
+    renderCurvatureComb(ctx, pathData, closed, zoom)
+  }
+  
+  // Offset outlines: thin dashed lines in the path color
+  if (offsets.length > 0) {
+    ctx.save()
+    ctx.lineWidth = OFFSET_PATH_WIDTH * uiScale
+    ctx.setLineDash([OFFSET_DASH * uiScale, OFFSET_DASH * uiScale])
+    ctx.strokeStyle = pathStroke
+    for (const offset of offsets) {
+      const offsetData = offsetPathData(pathData, offset, closed)
+      ctx.beginPath()
+      tracePathSegments(ctx, offsetData.segments)
+      if (closed) ctx.closePath()
+      ctx.stroke()
+    }
+    ctx.restore()
+  }
+}
+
+/**
+ * Render a derived outline (a boolean result): each loop is a closed sub-path,
+ * filled translucent with the even-odd rule so holes stay open, then stroked
+ */
+export function renderBooleanOutline(
+  ctx: CanvasRenderingContext2D,
+  pathData: PathData,
+  zoom: number,
+  stroke: string,
+  fill: string,
+  strokeWidthScale: number = 1
+) {
+  if (pathData.segments.length === 0) return
   
+  ctx.save()
+  ctx.beginPath()
+  tracePathSegments(ctx, pathData.segments)
+  ctx.globalAlpha = BOOLEAN_FILL_ALPHA
+  ctx.fillStyle = fill
+  ctx.fill('evenodd')
+  ctx.globalAlpha = 1
+  ctx.strokeStyle = stroke
+  ctx.lineWidth = BOOLEAN_PATH_WIDTH * strokeWidthScale / zoom
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  ctx.stroke()
+  ctx.restore()
+}
+
+/**
+ * Add path segments to the current canvas path, starting a new sub-path where
+ * a segment needs one
+ */
+function tracePathSegments(ctx: CanvasRenderingContext2D, segments: PathSegment[]) {
   let started = false
   
-  for (let i = 0; i < pathData.segments.length; i++) {
-    const seg = pathData.segments[i]
+  for (let i = 0; i < segments.length; i++) {
+    const seg = segments[i]
     
     // Check if this segment needs to start a new sub-path (due to skipped invalid tangent)
     const needsMoveTo = seg.needsMoveTo || !started
@@ -120,18 +205,6 @@ export function renderPath(
       )
     }
   }
-  
-  // Only close the path if it's meant to loop
-  if (closed) {
-    ctx.closePath()
-  }
-  ctx.stroke()
-  
-  // Debug visualizations
-  const debug = useDebugStore.getState()
-  // Get expanded shapes and order (including mirrored circles) for debug visualization
-  const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, order, mirrorConfig)
-  renderDebugInfo(ctx, pathData.segments, expandedShapes, expandedOrder, debug, zoom)
 }
 
 /**
@@ -140,7 +213,7 @@ export function renderPath(
 function renderDebugInfo(
   ctx: CanvasRenderingContext2D,
   segments: PathSegment[],
-  circles: CircleShape[],
+  circles: Shape[],
   order: string[],
   debug: {
     showTangentPoints: boolean
@@ -299,7 +372,8 @@ function renderDebugInfo(
       ctx.fillText(coordText, circle.center.x + 5 * uiScale, circle.center.y - 5 * uiScale)
       
       // Radius
-      ctx.fillText(`r=${Math.round(circle.radius)}`, circle.center.x + 5 * uiScale, circle.center.y + 12 * uiScale)
+      const radiusText = getTangentShape(circle).formatSize(circle, value => `${Math.round(value)}`)
+      ctx.fillText(radiusText, circle.center.x + 5 * uiScale, circle.center.y + 12 * uiScale)
     }
   }
   
@@ -314,7 +388,7 @@ function renderDebugInfo(
       
       const arc = seg as ArcSegment
       // Find matching circle (inline to avoid filter)
-      let circle: CircleShape | undefined
+      let circle: Shape | undefined
       for (let j = 0; j < circles.length; j++) {
         const c = circles[j]
         if (Math.abs(c.center.x - arc.center.x) < 1 && Math.abs(c.center.y - arc.center.y) < 1) {
@@ -365,3 +439,99 @@ function renderDebugInfo(
     }
   }
 }
+
+/**
+ * Curvature comb: teeth on the outside of every bend, proportional to the
+ * curvature, joined by an envelope. Junctions where the curvature jumps (G1,
+ * e.g. line into arc) and corners (G0) are ringed and labelled, smooth (G2)
+ * junctions get a small dot, and connectors whose curvature spikes are marked
+ * with the tightest radius they reach.
+ */
+function renderCurvatureComb(
+  ctx: CanvasRenderingContext2D,
+  pathData: PathData,
+  closed: boolean,
+  zoom: number
+) {
+  const uiScale = 1 / zoom
+  const samples = sampleCurvature(pathData, COMB_SAMPLES)
+  
+  // Scale teeth to the tightest arc so a connector spike doesn't flatten the comb
+  let reference = 0
+  let overall = 0
+  pathData.segments.forEach((seg, i) => {
+    for (const sample of samples[i]) {
+      const k = Math.abs(sample.curvature)
+      overall = Math.max(overall, k)
+      if (seg.type === 'arc' || seg.type === 'ellipse-arc') reference = Math.max(reference, k)
+    }
+  })
+  reference = reference || overall
+  
+  ctx.save()
+  ctx.lineWidth = 1 * uiScale
+  
+  if (reference > 0) {
+    const scale = COMB_TOOTH_LENGTH * uiScale / reference
+    const maxTooth = COMB_TOOTH_MAX * uiScale
+    
+    for (const segmentSamples of samples) {
+      // Tooth tips point away from the centre of curvature (left normal is towards it)
+      const tips = segmentSamples.map(({ point, tangent, curvature }) => {
+        const length = Math.max(-maxTooth, Math.min(maxTooth, curvature * scale))
+        return { x: point.x + tangent.y * length, y: point.y - tangent.x * length }
+      })
+      
+      ctx.strokeStyle = '#00ccff66'
+      ctx.beginPath()
+      segmentSamples.forEach(({ point }, j) => {
+        ctx.moveTo(point.x, point.y)
+        ctx.lineTo(tips[j].x, tips[j].y)
+      })
+      ctx.stroke()
+      
+      ctx.strokeStyle = '#00ccff'
+      ctx.beginPath()
+      tips.forEach((tip, j) => j === 0 ? ctx.moveTo(tip.x, tip.y) : ctx.lineTo(tip.x, tip.y))
+      ctx.stroke()
+    }
+  }
+  
+  const fontSize = Math.round(10 * uiScale)
+  ctx.font = `bold ${fontSize}px monospace`
+  
+  // Junction continuity
+  for (const junction of findJunctions(pathData, closed)) {
+    const { point, continuity } = junction
+    if (continuity === 'G2') {
+      ctx.fillStyle = '#00ff00'
+      ctx.beginPath()
+      ctx.arc(point.x, point.y, 2.5 * uiScale, 0, Math.PI * 2)
+      ctx.fill()
+      continue
+    }
+    const color = continuity === 'G0' ? '#ff0000' : '#ff8800'
+    ctx.strokeStyle = color
+    ctx.lineWidth = 2 * uiScale
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, 6 * uiScale, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.fillStyle = color
+    ctx.fillText(continuity, point.x + 8 * uiScale, point.y - 8 * uiScale)
+  }
+  
+  // Connector spikes
+  for (const spike of findCurvatureSpikes(pathData)) {
+    const { point } = spike
+    ctx.strokeStyle = '#ff00ff'
+    ctx.lineWidth = 2 * uiScale
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, 9 * uiScale, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.fillStyle = '#ff00ff'
+    const radius = 1 / Math.abs(spike.curvature)
+    ctx.fillText(`spike r=${radius < 10 ? radius.toFixed(1) : Math.round(radius)}`, point.x + 11 * uiScale, point.y + 4 * uiScale)
+  }
+  
+  ctx.restore()
+}
@@ -1,5 +1,5 @@
-import type { Shape, CircleShape, Point, CanvasTheme, HoverTarget, MirrorConfig } from '../../../types'
-import { getMirroredCircles, getMirrorsForCircle, expandMirroredCircles } from '../../../geometry/path'
+import type { Shape, Point, CanvasTheme, HoverTarget, MirrorConfig, ArrayConfig } from '../../../types'
+import { getMirroredCircles, expandMirroredCircles, sourceShapeId } from '../../../geometry/path'
 import { drawMirrorIconCanvas, drawDeleteIconCanvas } from '../../icons/Icons'
 import { buildIdSet } from '../../../utils/objectPool'
 import {
@@ -10,7 +10,8 @@ import {
   ACTION_ROW_OFFSET,
   ACTION_ICON_SIZE,
   ACTION_ICON_SPACING,
-  MIRRORED_OPACITY
+  MIRRORED_OPACITY,
+  PIN_MARKER_SIZE
 } from '../../../constants'
 
 // Re-export hit testing functions for backwards compatibility
@@ -35,8 +36,9 @@ export {
   type TangentHandleType
 } from './hitTesting'
 
-import { getDotPosition, computeTangentHandleInfo, getIndexDotOpacity, getDirectionRingOpacity, isMouseInCircleUIZone } from './hitTesting'
+import { getDotPosition, computeTangentHandleInfo, getIndexDotOpacity, getDirectionRingOpacity, isMouseInCircleUIZone, getShapeUIRadius, getShapeBottomExtent } from './hitTesting'
 import type { MeasurementMode } from '../../../types'
+import { getTangentShape } from '../../../geometry/shapes/registry'
 
 /**
  * Render all shapes on the canvas
@@ -56,6 +58,7 @@ export function renderShapes(
   zoom: number = 1,
   shapeOrder: string[] = [],
   mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig,
   measurementMode: MeasurementMode = 'clean',
   mouseWorldPos: Point | null = null
 ): Set<string> {
@@ -67,19 +70,15 @@ export function renderShapes(
   // Only count shapes in shapeOrder (excludes mirror shapes)
   const totalShapes = shapeOrder.length
   
-  // Count circles without creating new array (avoid GC)
-  let circleCount = 0
-  for (let i = 0; i < shapes.length; i++) {
-    if (shapes[i].type === 'circle') circleCount++
-  }
-  const canDelete = circleCount > 2
+  // Deletion is allowed while more than 2 shapes remain
+  const canDelete = shapes.length > 2
   
   // Determine if we're in detailed measurement mode (where UI hiding applies)
   const isDetailedMeasureMode = measurementMode === 'detailed'
   
   // Sort shapes by radius (largest first) so smaller circles are drawn on top
   // This ensures no circle is ever entirely hidden by another
-  const sortedShapes = [...shapes].sort((a, b) => b.radius - a.radius)
+  const sortedShapes = [...shapes].sort((a, b) => getShapeUIRadius(b) - getShapeUIRadius(a))
   
   // Two-pass rendering:
   // Pass 1: Draw non-selected shapes (underneath), largest first
@@ -87,32 +86,30 @@ export function renderShapes(
     const shape = sortedShapes[i]
     if (selectedSet.has(shape.id)) continue // Skip selected, draw later
     
-    if (shape.type === 'circle') {
-      const shapeIndex = shapeOrder.indexOf(shape.id)
-      const isInOrder = shapeIndex >= 0
-      
-      // In detailed measure mode, check if mouse is hovering near this circle's UI zone
-      const mouseInUIZone = isDetailedMeasureMode && isMouseInCircleUIZone(shape, mouseWorldPos)
-      const hideUIForMeasure = isDetailedMeasureMode && !mouseInUIZone
-      
-      // Track circles with visible UI for measurement hiding
-      if (isDetailedMeasureMode && mouseInUIZone) {
-        circlesWithVisibleUI.add(shape.id)
-      }
-      
-      renderCircle(ctx, shape, {
-        theme,
-        isSelected: false,
-        isHovered: shape.id === hoveredId,
-        hoverTarget,
-        zoom,
-        shapeIndex: isInOrder ? shapeIndex : undefined,
-        totalShapes: isInOrder ? totalShapes : undefined,
-        canDelete,
-        isMirrored: shape.mirrored ?? false,
-        hideUIForMeasure
-      })
+    const shapeIndex = shapeOrder.indexOf(shape.id)
+    const isInOrder = shapeIndex >= 0
+    
+    // In detailed measure mode, check if mouse is hovering near this circle's UI zone
+    const mouseInUIZone = isDetailedMeasureMode && isMouseInCircleUIZone(shape, mouseWorldPos)
+    const hideUIForMeasure = isDetailedMeasureMode && !mouseInUIZone
+    
+    // Track circles with visible UI for measurement hiding
+    if (isDetailedMeasureMode && mouseInUIZone) {
+      circlesWithVisibleUI.add(shape.id)
     }
+    
+    renderCircle(ctx, shape, {
+      theme,
+      isSelected: false,
+      isHovered: shape.id === hoveredId,
+      hoverTarget,
+      zoom,
+      shapeIndex: isInOrder ? shapeIndex : undefined,
+      totalShapes: isInOrder ? totalShapes : undefined,
+      canDelete,
+      isMirrored: shape.mirrored ?? false,
+      hideUIForMeasure
+    })
   }
   
   // Pass 2: Draw selected shapes (on top), largest first
@@ -120,51 +117,44 @@ export function renderShapes(
     const shape = sortedShapes[i]
     if (!selectedSet.has(shape.id)) continue // Skip non-selected
     
-    if (shape.type === 'circle') {
-      const shapeIndex = shapeOrder.indexOf(shape.id)
-      const isInOrder = shapeIndex >= 0
-      
-      // In detailed measure mode, check if mouse is hovering near this circle's UI zone
-      const mouseInUIZone = isDetailedMeasureMode && isMouseInCircleUIZone(shape, mouseWorldPos)
-      const hideUIForMeasure = isDetailedMeasureMode && !mouseInUIZone
-      
-      // Track circles with visible UI for measurement hiding
-      if (isDetailedMeasureMode && mouseInUIZone) {
-        circlesWithVisibleUI.add(shape.id)
-      }
-      
-      renderCircle(ctx, shape, {
-        theme,
-        isSelected: true,
-        isHovered: shape.id === hoveredId,
-        hoverTarget,
-        zoom,
-        shapeIndex: isInOrder ? shapeIndex : undefined,
-        totalShapes: isInOrder ? totalShapes : undefined,
-        canDelete,
-        isMirrored: shape.mirrored ?? false,
-        hideUIForMeasure
-      })
+    const shapeIndex = shapeOrder.indexOf(shape.id)
+    const isInOrder = shapeIndex >= 0
+    
+    // In detailed measure mode, check if mouse is hovering near this circle's UI zone
+    const mouseInUIZone = isDetailedMeasureMode && isMouseInCircleUIZone(shape, mouseWorldPos)
+    const hideUIForMeasure = isDetailedMeasureMode && !mouseInUIZone
+    
+    // Track circles with visible UI for measurement hiding
+    if (isDetailedMeasureMode && mouseInUIZone) {
+      circlesWithVisibleUI.add(shape.id)
     }
+    
+    renderCircle(ctx, shape, {
+      theme,
+      isSelected: true,
+      isHovered: shape.id === hoveredId,
+      hoverTarget,
+      zoom,
+      shapeIndex: isInOrder ? shapeIndex : undefined,
+      totalShapes: isInOrder ? totalShapes : undefined,
+      canDelete,
+      isMirrored: shape.mirrored ?? false,
+      hideUIForMeasure
+    })
   }
   
-  // Get mirrored ghost circles for circles with mirrored=true
+  // Get ghost circles for array copies and for circles with mirrored=true
   // Draw these on top of all regular circles so they're always visible
   // Note: getMirroredCircles filters duplicates only for first/last circles in path order
-  const mirroredCircles = getMirroredCircles(shapes as CircleShape[], mirrorConfig, shapeOrder)
+  const mirroredCircles = getMirroredCircles(shapes, mirrorConfig, shapeOrder, arrayConfig)
   
   // Sort mirrored circles by radius (largest first) to maintain consistent draw order
-  const sortedMirroredCircles = [...mirroredCircles].sort((a, b) => b.radius - a.radius)
+  const sortedMirroredCircles = [...mirroredCircles].sort((a, b) => getShapeUIRadius(b) - getShapeUIRadius(a))
   
   for (let i = 0; i < sortedMirroredCircles.length; i++) {
     const mirrorCircle = sortedMirroredCircles[i]
     // Find the original circle to get its hover/selection state
-    // Mirror IDs can be: _mirror, _mirror_v, _mirror_h, or _mirror_both
-    const originalId = mirrorCircle.id
-      .replace('_mirror_both', '')
-      .replace('_mirror_v', '')
-      .replace('_mirror_h', '')
-      .replace('_mirror', '')
+    const originalId = sourceShapeId(mirrorCircle.id)
     const isOriginalSelected = selectedIds.includes(originalId)
     const isOriginalHovered = originalId === hoveredId
     
@@ -174,6 +164,33 @@ export function renderShapes(
   return circlesWithVisibleUI
 }
 
+/**
+ * Begin a new path tracing the shape's outline.
+ * Pins have no outline, so they get a fixed screen-size diamond marker instead.
+ */
+function traceShapeOutline(ctx: CanvasRenderingContext2D, shape: Shape, zoom: number) {
+  ctx.beginPath()
+  if (getTangentShape(shape).isPoint) {
+    const size = PIN_MARKER_SIZE / zoom
+    ctx.moveTo(shape.center.x, shape.center.y - size)
+    ctx.lineTo(shape.center.x + size, shape.center.y)
+    ctx.lineTo(shape.center.x, shape.center.y + size)
+    ctx.lineTo(shape.center.x - size, shape.center.y)
+    ctx.closePath()
+    return
+  }
+  for (const seg of getTangentShape(shape).getFullOutline(shape, true)) {
+    if (seg.type === 'arc') {
+      ctx.arc(seg.center.x, seg.center.y, seg.radius, seg.startAngle, seg.endAngle, seg.counterclockwise)
+    } else if (seg.type === 'ellipse-arc') {
+      ctx.ellipse(seg.center.x, seg.center.y, seg.radiusX, seg.radiusY, seg.rotation, seg.startAngle, seg.endAngle, seg.counterclockwise)
+    } else {
+      ctx.lineTo(seg.end.x, seg.end.y)
+    }
+  }
+  ctx.closePath()
+}
+
 /**
  * Render a mirrored ghost circle
  * Uses the same styles as the original but with reduced opacity
@@ -181,7 +198,7 @@ export function renderShapes(
  */
 function renderMirroredCircle(
   ctx: CanvasRenderingContext2D,
-  circle: CircleShape,
+  circle: Shape,
   originalId: string,
   theme: CanvasTheme,
   zoom: number,
@@ -189,7 +206,6 @@ function renderMirroredCircle(
   isOriginalHovered: boolean = false,
   hoverTarget: HoverTarget = null
 ) {
-  const { center, radius } = circle
   const uiScale = 1 / zoom
   
   // Check hover states on the original (mirrored circle mirrors its counterpart's state)
@@ -202,8 +218,7 @@ function renderMirroredCircle(
   ctx.globalAlpha = MIRRORED_OPACITY
   
   // Draw filled circle
-  ctx.beginPath()
-  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2)
+  traceShapeOutline(ctx, circle, zoom)
   ctx.fillStyle = theme.fill
   ctx.fill()
   
@@ -237,22 +252,21 @@ export function renderSelectedTangentHandles(
   closedPath: boolean = true,
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
-  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 }
+  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig
 ) {
-  const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
+  const circles = shapes
   const selectedCircles = circles.filter(c => selectedIds.includes(c.id))
   
-  // Get expanded shapes and order (including mirrored circles)
-  const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+  // Get expanded shapes and order (including array and mirror copies)
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig, arrayConfig)
   
-  // First render ghost handles for mirrored versions of selected circles
-  for (const circle of selectedCircles) {
-    if (circle.mirrored) {
-      // Get all mirrors for this circle using the generic system
-      const mirrors = getMirrorsForCircle(circle, mirrorConfig)
-      for (const mirror of mirrors) {
-        renderGhostTangentHandles(ctx, mirror, expandedShapes, expandedOrder, theme, zoom, closedPath, useStartPoint, useEndPoint)
-      }
+  // First render ghost handles for the copies of selected circles on the path
+  const selectedSet = new Set(selectedIds)
+  for (const copy of expandedShapes) {
+    const sourceId = sourceShapeId(copy.id)
+    if (sourceId !== copy.id && selectedSet.has(sourceId)) {
+      renderGhostTangentHandles(ctx, copy, expandedShapes, expandedOrder, theme, zoom, closedPath, useStartPoint, useEndPoint)
     }
   }
   
@@ -277,10 +291,11 @@ interface CircleRenderOptions {
 
 function renderCircle(
   ctx: CanvasRenderingContext2D,
-  circle: CircleShape,
+  circle: Shape,
   options: CircleRenderOptions
 ) {
-  const { center, radius } = circle
+  const { center } = circle
+  const radius = getShapeUIRadius(circle)
   const { theme, isSelected, isHovered, hoverTarget, zoom, shapeIndex, totalShapes, canDelete = true, isMirrored = false, hideUIForMeasure = false } = options
   
   const uiScale = 1 / zoom
@@ -298,8 +313,7 @@ function renderCircle(
   else if (isHovered) stroke = theme.strokeHover
   
   // Draw filled circle
-  ctx.beginPath()
-  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2)
+  traceShapeOutline(ctx, circle, zoom)
   ctx.fillStyle = theme.fill
   ctx.fill()
   
@@ -325,7 +339,7 @@ function renderCircle(
   
   // Draw action row (mirror + delete icons) when selected, positioned below the circle
   if (isSelected) {
-    const rowY = center.y + radius + ACTION_ROW_OFFSET * uiScale
+    const rowY = center.y + getShapeBottomExtent(circle) + ACTION_ROW_OFFSET * uiScale
     drawActionRow(ctx, { x: center.x, y: rowY }, theme, zoom, canDelete, isMirrored, isMirrorHovered, isDeleteHovered)
   }
 }
@@ -345,22 +359,25 @@ function renderCircle(
  */
 function drawDirectionRing(
   ctx: CanvasRenderingContext2D,
-  circle: CircleShape,
+  circle: Shape,
   theme: CanvasTheme,
   zoom: number,
   isHovered: boolean,
   isGhost: boolean = false,
   isSelected: boolean = false
 ) {
-  const { center, radius, direction, id } = circle
+  const { direction, id } = circle
   const pathGoesClockwise = (direction ?? 'cw') === 'cw'
+  const radius = getShapeUIRadius(circle)
   
   // Calculate animated opacity based on zoom threshold
   const opacity = getDirectionRingOpacity(id, radius, zoom)
   if (opacity <= 0) return  // Fully faded out, skip rendering
   
   const uiScale = 1 / zoom
-  const ringRadius = radius * DIRECTION_RING_RADIUS
+  // The ring follows the shape's outline, scaled towards the center
+  const shapeKind = getTangentShape(circle)
+  const ringShape = shapeKind.scale(circle, DIRECTION_RING_RADIUS)
   
   ctx.save()
   
@@ -386,7 +403,7 @@ function drawDirectionRing(
   
   // Calculate chevron count based on circumference
   // Target: chevrons every ~10-12 pixels of screen space for denser coverage
-  const circumference = 2 * Math.PI * ringRadius * zoom
+  const circumference = shapeKind.getPerimeter(ringShape) * zoom
   const numChevrons = Math.max(12, Math.min(72, Math.floor(circumference / CHEVRON_TARGET_SPACING)))
   
   // Chevron size matches the selectable ring width - always proportional to radius
@@ -400,16 +417,16 @@ function drawDirectionRing(
   // Draw all chevrons in a single batched path for performance
   ctx.beginPath()
   for (let i = 0; i < numChevrons; i++) {
-    const t = i / numChevrons
-    const angle = t * Math.PI * 2  // Full circle
+    const t = i / numChevrons  // Fraction of the way around the ring
     
-    const cx = center.x + ringRadius * Math.cos(angle)
-    const cy = center.y + ringRadius * Math.sin(angle)
+    const { point, tangentAngle: forwardAngle } = shapeKind.pointAtPerimeter(ringShape, t)
+    const cx = point.x
+    const cy = point.y
     
-    // Chevron points in direction of flow (tangent to circle)
+    // Chevron points in direction of flow (tangent to the ring)
     const tangentAngle = pathGoesClockwise 
-      ? angle + Math.PI / 2 
-      : angle - Math.PI / 2
+      ? forwardAngle 
+      : forwardAngle + Math.PI
     
     // Chevron arms angle - slightly more open for better visibility
     const armAngle = Math.PI * 0.7
@@ -664,8 +681,8 @@ function drawSlot(
  */
 function renderTangentHandles(
   ctx: CanvasRenderingContext2D,
-  circle: CircleShape,
-  circles: CircleShape[],
+  circle: Shape,
+  circles: Shape[],
   shapeOrder: string[],
   hoverTarget: HoverTarget,
   theme: CanvasTheme,
@@ -807,8 +824,8 @@ function renderTangentHandles(
  */
 function renderGhostTangentHandles(
   ctx: CanvasRenderingContext2D,
-  circle: CircleShape,
-  circles: CircleShape[],
+  circle: Shape,
+  circles: Shape[],
   shapeOrder: string[],
   theme: CanvasTheme,
   zoom: number,
@@ -1,9 +1,11 @@
-import type { Shape, CircleShape, Point, CanvasTheme, HoverTarget, MirrorConfig } from '../../../types'
+import type { Shape, Point, CanvasTheme, HoverTarget, MirrorConfig, ArrayConfig, DocumentUnits } from '../../../types'
 import type { ModifierKeys } from '../../../stores/selectionStore'
-import { getDotPosition, computeTangentHandleInfo } from './hitTesting'
+import { getDotPosition, computeTangentHandleInfo, getEdgeRadiusToward, getShapeUIRadius, getShapeBottomExtent } from './hitTesting'
 import { expandMirroredCircles } from '../../../geometry/path'
-import { ACTION_ROW_OFFSET, ACTION_ICON_SPACING, POSITION_SNAP_INCREMENT } from '../../../constants'
+import { getTangentShape } from '../../../geometry/shapes/registry'
+import { ACTION_ROW_OFFSET, ACTION_ICON_SPACING, DEFAULT_GRID_SIZE } from '../../../constants'
 import { normalize, subtract, snapPointToGrid } from '../../../geometry/math'
+import { DEFAULT_UNITS, formatLength } from '../../../utils/units'
 
 /**
  * Configuration for tooltip labels
@@ -55,8 +57,10 @@ function isModifierActive(modifierText: string, modifierKeys: ModifierKeys | und
 /**
  * Calculate the exact opposite point on the circle from the cursor
  */
-function findExactOppositePoint(circle: CircleShape, cursor: Point): Point {
-  const { center, radius } = circle
+function findExactOppositePoint(circle: Shape, cursor: Point): Point {
+  const { center } = circle
+  // Circles and ellipses are centrally symmetric, so the edge distance is the same both ways
+  const radius = getEdgeRadiusToward(circle, cursor)
   const dir = normalize(subtract(cursor, center))
   // Return the point on the opposite side
   return {
@@ -134,7 +138,7 @@ interface TooltipContent {
  */
 function getTooltipInfo(
   hoverTarget: HoverTarget,
-  shape: CircleShape | null,
+  shape: Shape | null,
   shapes: Shape[],
   shapeOrder: string[],
   zoom: number,
@@ -142,8 +146,10 @@ function getTooltipInfo(
   useStartPoint: boolean,
   useEndPoint: boolean,
   mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig,
   mouseWorldPos: Point | null = null,
-  selectedCount: number = 1
+  selectedCount: number = 1,
+  units: DocumentUnits = DEFAULT_UNITS
 ): { content: TooltipContent; position: Point; anchor: 'above' | 'below' | 'left' | 'right' } | null {
   if (!hoverTarget || !shape) return null
 
@@ -151,8 +157,7 @@ function getTooltipInfo(
   
   // Helper to get tangent info
   const getTangentInfo = () => {
-    const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
-    const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+    const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, shapeOrder, mirrorConfig, arrayConfig)
     return computeTangentHandleInfo(shape, expandedShapes, expandedOrder, closedPath, useStartPoint, useEndPoint)
   }
 
@@ -166,17 +171,18 @@ function getTooltipInfo(
         const dy = mouseWorldPos.y - shape.center.y
         const dist = Math.sqrt(dx * dx + dy * dy)
         if (dist > 0) {
+          const edgeRadius = getEdgeRadiusToward(shape, mouseWorldPos)
           edgePosition = {
-            x: shape.center.x + (dx / dist) * shape.radius,
-            y: shape.center.y + (dy / dist) * shape.radius
+            x: shape.center.x + (dx / dist) * edgeRadius,
+            y: shape.center.y + (dy / dist) * edgeRadius
           }
         } else {
           // Fallback to top of circle if cursor is exactly at center
-          edgePosition = { x: shape.center.x, y: shape.center.y - shape.radius }
+          edgePosition = { x: shape.center.x, y: shape.center.y - getShapeBottomExtent(shape) }
         }
       } else {
         // Fallback to top of circle
-        edgePosition = { x: shape.center.x, y: shape.center.y - shape.radius }
+        edgePosition = { x: shape.center.x, y: shape.center.y - getShapeBottomExtent(shape) }
       }
       
       // Build modifiers list - only show "scale all" when multiple circles are selected
@@ -187,7 +193,7 @@ function getTooltipInfo(
       
       return {
         content: {
-          value: `r: ${shape.radius}`,
+          value: getTangentShape(shape).formatSize(shape, value => formatLength(value, units)),
           action: 'Drag to scale',
           modifiers: scaleModifiers
         },
@@ -274,14 +280,14 @@ function getTooltipInfo(
         },
         position: {
           x: shape.center.x,
-          y: shape.center.y - shape.radius * 0.81
+          y: shape.center.y - getShapeUIRadius(shape) * 0.81
         },
         anchor: 'above'
       }
     }
 
     case 'delete-icon': {
-      const rowY = shape.center.y + shape.radius + ACTION_ROW_OFFSET * uiScale
+      const rowY = shape.center.y + getShapeBottomExtent(shape) + ACTION_ROW_OFFSET * uiScale
       return {
         content: {
           action: 'Delete circle',
@@ -296,7 +302,7 @@ function getTooltipInfo(
     }
 
     case 'mirror-icon': {
-      const rowY = shape.center.y + shape.radius + ACTION_ROW_OFFSET * uiScale
+      const rowY = shape.center.y + getShapeBottomExtent(shape) + ACTION_ROW_OFFSET * uiScale
       const isMirrored = shape.mirrored ?? false
       return {
         content: {
@@ -348,7 +354,7 @@ function getTooltipInfo(
       // Position above the center of the circle
       const position = {
         x: shape.center.x,
-        y: shape.center.y - shape.radius * 0.3
+        y: shape.center.y - getShapeUIRadius(shape) * 0.3
       }
       
       return {
@@ -550,11 +556,14 @@ export function renderTooltips(
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
   mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig,
   modifierKeys?: ModifierKeys,
   mouseWorldPos: Point | null = null,
   snapToGrid: boolean = false,
   _smartGuides: boolean = false,
-  selectedCount: number = 1
+  selectedCount: number = 1,
+  units: DocumentUnits = DEFAULT_UNITS,
+  snapSpacing: number = DEFAULT_GRID_SIZE  // World spacing of the drawn grid
 ) {
   // Only show tooltips when not dragging
   if (!hoverTarget || !hoveredId) return
@@ -563,7 +572,7 @@ export function renderTooltips(
 
   // Get the shape being hovered
   const shape = shapes.find(s => s.id === hoveredId)
-  if (!shape || shape.type !== 'circle') return
+  if (!shape) return
 
   // Draw pivot marker when Alt is held while hovering over scale handle
   if (hoverTarget.type === 'shape-edge' && mouseWorldPos && modifierKeys?.alt) {
@@ -571,7 +580,7 @@ export function renderTooltips(
     let pivotPoint = findExactOppositePoint(shape, mouseWorldPos)
     // Snap to grid if snapping is enabled
     if (snapToGrid) {
-      pivotPoint = snapPointToGrid(pivotPoint, POSITION_SNAP_INCREMENT)
+      pivotPoint = snapPointToGrid(pivotPoint, snapSpacing)
     }
     drawPivotMarker(ctx, pivotPoint, theme, uiScale, true)
   }
@@ -587,8 +596,10 @@ export function renderTooltips(
     useStartPoint,
     useEndPoint,
     mirrorConfig,
+    arrayConfig,
     mouseWorldPos,
-    selectedCount
+    selectedCount,
+    units
   )
   
   if (!tooltipInfo) return
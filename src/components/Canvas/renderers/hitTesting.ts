@@ -3,9 +3,10 @@
  * Extracted from ShapeRenderer.ts for better code organization
  */
 
-import type { CircleShape, Point } from '../../../types'
-import { distance, pointOnCircle } from '../../../geometry/math'
-import { getTangentForDirections } from '../../../geometry/tangent'
+import type { Shape, Point } from '../../../types'
+import { distance } from '../../../geometry/math'
+import { getShapeTangentForDirections, pointOnShape } from '../../../geometry/tangent'
+import { getTangentShape } from '../../../geometry/shapes/registry'
 import {
   EDGE_OUTER,
   EDGE_INNER,
@@ -24,10 +25,40 @@ import {
   INDEX_DOT_FADE_THRESHOLD,
   DIRECTION_RING_FADE_THRESHOLD,
   DIRECTION_RING_SIZE_MULTIPLIER,
-  MIN_SCALE_SCREEN_DIAMETER
+  MIN_SCALE_SCREEN_DIAMETER,
+  PIN_HIT_RADIUS
 } from '../../../constants'
 import { getAnimatedOpacity } from './opacityAnimation'
 
+// ============================================================================
+// SHAPE EXTENTS
+// ============================================================================
+
+/**
+ * Size used to scale and fade the in-shape UI (direction ring, index dots).
+ * Always fits inside the shape (e.g. the smaller semi-axis of an ellipse).
+ */
+export function getShapeUIRadius(shape: Shape): number {
+  return getTangentShape(shape).getUIRadius(shape)
+}
+
+/**
+ * Distance from the shape's center to its edge in the direction of a point.
+ * Zone tests compare against this so they follow the shape's outline.
+ */
+export function getEdgeRadiusToward(shape: Shape, point: Point): number {
+  const towardAngle = Math.atan2(point.y - shape.center.y, point.x - shape.center.x)
+  return getTangentShape(shape).getRadiusAtAngle(shape, towardAngle)
+}
+
+/**
+ * Distance from the shape's center to the bottom of its bounds
+ */
+export function getShapeBottomExtent(shape: Shape): number {
+  const bounds = getTangentShape(shape).getBounds(shape)
+  return bounds.y + bounds.height - shape.center.y
+}
+
 // ============================================================================
 // UI ELEMENT VISIBILITY (fade based on zoom)
 // ============================================================================
@@ -183,12 +214,13 @@ export function isDirectionRingInteractable(radius: number, zoom: number): boole
  * @returns true if mouse is near enough to show UI
  */
 export function isMouseInCircleUIZone(
-  circle: CircleShape,
+  circle: Shape,
   mousePos: Point | null
 ): boolean {
   if (!mousePos) return false
   
-  const { center, radius } = circle
+  const { center } = circle
+  const radius = getEdgeRadiusToward(circle, mousePos)
   const dx = mousePos.x - center.x
   const dy = mousePos.y - center.y
   const dist = Math.sqrt(dx * dx + dy * dy)
@@ -220,14 +252,15 @@ export function isScalingInteractable(radius: number, zoom: number): boolean {
  * Returns false if circle is too small on screen for scaling
  */
 export function isOnEdgeZone(
-  circle: CircleShape,
+  circle: Shape,
   point: Point,
   zoom: number = 1
 ): boolean {
-  const { center, radius } = circle
+  const { center } = circle
+  const radius = getEdgeRadiusToward(circle, point)
   
   // Disable edge zone when circle is too small on screen
-  if (!isScalingInteractable(radius, zoom)) {
+  if (!isScalingInteractable(getShapeUIRadius(circle), zoom)) {
     return false
   }
   
@@ -250,21 +283,28 @@ export function isOnEdgeZone(
  * actively used for another interaction.
  */
 export function isInBodyZone(
-  circle: CircleShape,
+  circle: Shape,
   point: Point,
   zoom: number = 1
 ): boolean {
-  const { center, radius } = circle
+  const { center } = circle
+  const radius = getEdgeRadiusToward(circle, point)
+  const uiRadius = getShapeUIRadius(circle)
   const dx = point.x - center.x
   const dy = point.y - center.y
   const dist = Math.sqrt(dx * dx + dy * dy)
   
+  // Pins have no body: grab them within a fixed screen distance of the marker
+  if (getTangentShape(circle).isPoint) {
+    return dist <= PIN_HIT_RADIUS / zoom
+  }
+  
   // Determine outer boundary based on which zones are interactable
   let outerBoundary: number
-  if (!isScalingInteractable(radius, zoom)) {
+  if (!isScalingInteractable(uiRadius, zoom)) {
     // Scaling disabled: body zone expands to include edge zone
     outerBoundary = EDGE_OUTER
-  } else if (!isDirectionRingInteractable(radius, zoom)) {
+  } else if (!isDirectionRingInteractable(uiRadius, zoom)) {
     // Direction ring faded: body zone expands to include direction ring area
     outerBoundary = DIRECTION_RING_OUTER
   } else {
@@ -281,14 +321,15 @@ export function isInBodyZone(
  * Returns false if the direction ring has faded out due to zoom level
  */
 export function isOnDirectionRing(
-  circle: CircleShape,
+  circle: Shape,
   point: Point,
   zoom: number = 1
 ): boolean {
-  const { center, radius } = circle
+  const { center } = circle
+  const radius = getEdgeRadiusToward(circle, point)
   
   // Check if direction ring is interactable at this zoom level
-  if (!isDirectionRingInteractable(radius, zoom)) {
+  if (!isDirectionRingInteractable(getShapeUIRadius(circle), zoom)) {
     return false
   }
   
@@ -312,9 +353,9 @@ export const isOnDirectionArrow = isOnDirectionRing
 /**
  * Get the Y position of the action row for a circle
  */
-function getActionRowY(circle: CircleShape, zoom: number): number {
+function getActionRowY(circle: Shape, zoom: number): number {
   const uiScale = 1 / zoom
-  return circle.center.y + circle.radius + ACTION_ROW_OFFSET * uiScale
+  return circle.center.y + getShapeBottomExtent(circle) + ACTION_ROW_OFFSET * uiScale
 }
 
 /**
@@ -322,7 +363,7 @@ function getActionRowY(circle: CircleShape, zoom: number): number {
  * Action row is positioned below the circle
  */
 export function isOnDeleteIcon(
-  circle: CircleShape,
+  circle: Shape,
   point: Point,
   zoom: number,
   _hasOrderControls: boolean = true  // Legacy param, kept for API compatibility
@@ -343,7 +384,7 @@ export function isOnDeleteIcon(
  * Action row is positioned below the circle
  */
 export function isOnMirrorIcon(
-  circle: CircleShape,
+  circle: Shape,
   point: Point,
   zoom: number
 ): boolean {
@@ -419,13 +460,13 @@ export function getDotPosition(
  * the nearest dot.
  */
 export function getIndexDotAt(
-  circle: CircleShape,
+  circle: Shape,
   point: Point,
   totalShapes: number,
   zoom: number
 ): number | null {
   // Check if index dots are interactable at this zoom level
-  if (!areIndexDotsInteractable(circle.radius, zoom, totalShapes)) {
+  if (!areIndexDotsInteractable(getShapeUIRadius(circle), zoom, totalShapes)) {
     return null
   }
   
@@ -518,13 +559,16 @@ export interface TangentHandleInfo {
  * Compute tangent handle information for a circle in the path
  */
 export function computeTangentHandleInfo(
-  circle: CircleShape,
-  circles: CircleShape[],
+  circle: Shape,
+  circles: Shape[],
   shapeOrder: string[],
   closedPath: boolean = true,
   useStartPoint: boolean = true,
   useEndPoint: boolean = true
 ): TangentHandleInfo | null {
+  // A pin's contact points are its center, so there is nothing to offset
+  if (getTangentShape(circle).isPoint) return null
+  
   const orderIndex = shapeOrder.indexOf(circle.id)
   if (orderIndex === -1) return null
   
@@ -546,15 +590,8 @@ export function computeTangentHandleInfo(
   
   const clockwise = (circle.direction ?? 'cw') === 'cw'
   
-  const entryTangent = getTangentForDirections(
-    prevCircle.center, prevCircle.radius, prevCircle.direction ?? 'cw',
-    circle.center, circle.radius, circle.direction ?? 'cw'
-  )
-  
-  const exitTangent = getTangentForDirections(
-    circle.center, circle.radius, circle.direction ?? 'cw',
-    nextCircle.center, nextCircle.radius, nextCircle.direction ?? 'cw'
-  )
+  const entryTangent = getShapeTangentForDirections(prevCircle, circle)
+  const exitTangent = getShapeTangentForDirections(circle, nextCircle)
   
   if (!entryTangent || !exitTangent) return null
   
@@ -580,11 +617,11 @@ export function computeTangentHandleInfo(
   const entryAngle = baseEntryAngle + entryOffsetAmount * offsetDir
   const exitAngle = baseExitAngle + exitOffsetAmount * offsetDir
   
-  const entryPoint = pointOnCircle(circle.center, circle.radius, entryAngle)
-  const exitPoint = pointOnCircle(circle.center, circle.radius, exitAngle)
+  const entryPoint = pointOnShape(circle, entryAngle)
+  const exitPoint = pointOnShape(circle, exitAngle)
   
-  const rawEntryPoint = pointOnCircle(circle.center, circle.radius, baseEntryAngle)
-  const rawExitPoint = pointOnCircle(circle.center, circle.radius, baseExitAngle)
+  const rawEntryPoint = pointOnShape(circle, baseEntryAngle)
+  const rawExitPoint = pointOnShape(circle, baseExitAngle)
   
   const hasEntryOffset = Math.abs(entryOffsetAmount) > 0.001
   const hasExitOffset = Math.abs(exitOffsetAmount) > 0.001
@@ -673,8 +710,8 @@ export type TangentHandleType =
   | null
 
 export function getTangentHandleAt(
-  circle: CircleShape,
-  circles: CircleShape[],
+  circle: Shape,
+  circles: Shape[],
   shapeOrder: string[],
   point: Point,
   tolerance: number,
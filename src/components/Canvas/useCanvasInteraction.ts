@@ -16,15 +16,19 @@ import {
   computeTangentHandleInfo, 
   type TangentHandleType 
 } from './renderers/ShapeRenderer'
+import { getEdgeRadiusToward } from './renderers/hitTesting'
+import { normalAngleToward } from '../../geometry/tangent'
+import { getTangentShape } from '../../geometry/shapes/registry'
+import { isOnEditableLayer } from '../../utils/layers'
+import { fromDocumentUnits } from '../../utils/units'
 import { snapPointToGrid, snapToGrid, distance, angle, normalize, subtract } from '../../geometry/math'
-import { expandMirroredCircles, findPathSegmentAt, findClosestPointOnPath, calculateNonOverlappingRadius } from '../../geometry/path'
+import { expandMirroredCircles, findPathSegmentAt, findClosestPointOnPath, calculateNonOverlappingRadius, mirrorOrigin } from '../../geometry/path'
 import { calculateConstraintAxes, constrainToNearestAxis } from '../../geometry/axisConstraint'
-import type { Point, CircleShape, DragMode, HoverTarget, MarqueeMode, Rect } from '../../types'
+import type { Point, Shape, CircleShape, DragMode, HoverTarget, MarqueeMode, Rect } from '../../types'
 import {
   HANDLE_TOLERANCE,
   PATH_HIT_TOLERANCE,
   DRAG_THRESHOLD,
-  POSITION_SNAP_INCREMENT,
   RADIUS_SNAP_INCREMENT,
   OFFSET_SNAP_THRESHOLD,
   OFFSET_SNAP_INCREMENT,
@@ -92,21 +96,26 @@ function getTouchCenter(t1: { x: number; y: number }, t2: { x: number; y: number
 }
 
 /**
- * Check if a circle intersects with a rectangle
- * Uses circle-AABB intersection test
+ * Check if a shape intersects with a rectangle
  */
-function circleIntersectsRect(circle: CircleShape, rect: Rect): boolean {
-  // Find closest point on rectangle to circle center
-  const closestX = Math.max(rect.x, Math.min(circle.center.x, rect.x + rect.width))
-  const closestY = Math.max(rect.y, Math.min(circle.center.y, rect.y + rect.height))
-  
-  // Calculate distance from closest point to circle center
-  const dx = circle.center.x - closestX
-  const dy = circle.center.y - closestY
-  const distSquared = dx * dx + dy * dy
-  
-  // Circle intersects if closest point is within radius
-  return distSquared <= circle.radius * circle.radius
+function circleIntersectsRect(circle: Shape, rect: Rect): boolean {
+  return getTangentShape(circle).intersectsRect(circle, rect)
+}
+
+/**
+ * Size that scale drags operate on (e.g. the radius of a circle or the
+ * X semi-axis of an ellipse)
+ */
+function getScaleRadius(shape: Shape): number {
+  return getTangentShape(shape).getScaleRadius(shape)
+}
+
+/**
+ * Build the update that sets a shape's scale radius (see getScaleRadius).
+ * The shape's other sizes scale along with it.
+ */
+function scaleRadiusUpdate(shape: Shape, radius: number): Partial<Shape> {
+  return getTangentShape(shape).scale(shape, radius / getScaleRadius(shape))
 }
 
 /**
@@ -124,8 +133,10 @@ function getMarqueeMode(e: MouseEvent | KeyboardEvent): MarqueeMode {
 /**
  * Calculate the exact opposite point on the circle from the cursor
  */
-function findExactOppositePoint(circle: CircleShape, cursor: Point): Point {
-  const { center, radius } = circle
+function findExactOppositePoint(circle: Shape, cursor: Point): Point {
+  const { center } = circle
+  // Circles and ellipses are centrally symmetric, so the edge distance is the same both ways
+  const radius = getEdgeRadiusToward(circle, cursor)
   const dir = normalize(subtract(cursor, center))
   // Return the point on the opposite side
   return {
@@ -137,10 +148,10 @@ function findExactOppositePoint(circle: CircleShape, cursor: Point): Point {
 /**
  * Find the closest circle to a given point
  */
-function findClosestCircle(circles: CircleShape[], point: Point): CircleShape | null {
+function findClosestCircle(circles: Shape[], point: Point): Shape | null {
   if (circles.length === 0) return null
   
-  let closestCircle: CircleShape | null = null
+  let closestCircle: Shape | null = null
   let minDist = Infinity
   
   for (const circle of circles) {
@@ -165,6 +176,10 @@ export function useCanvasInteraction(
   const useStartPoint = useDocumentStore(state => state.useStartPoint)
   const useEndPoint = useDocumentStore(state => state.useEndPoint)
   const mirrorConfig = useDocumentStore(state => state.mirrorConfig)
+  const arrayConfig = useDocumentStore(state => state.arrayConfig)
+  const setMirrorConfig = useDocumentStore(state => state.setMirrorConfig)
+  const layers = useDocumentStore(state => state.layers)
+  const activeLayerId = useDocumentStore(state => state.activeLayerId)
   const updateShape = useDocumentStore(state => state.updateShape)
   const updateShapes = useDocumentStore(state => state.updateShapes)
   const removeShape = useDocumentStore(state => state.removeShape)
@@ -199,20 +214,30 @@ export function useCanvasInteraction(
   const setModifierKeys = useSelectionStore(state => state.setModifierKeys)
   
   const snapToGridEnabled = useSettingsStore(state => state.snapToGrid)
+  const gridSize = useSettingsStore(state => state.gridSize)
+  const units = useDocumentStore(state => state.units)
+  // Snap to the grid as drawn (its size is in document units)
+  const snapSpacing = fromDocumentUnits(gridSize, units)
   const smartGuidesEnabled = useSettingsStore(state => state.smartGuides)
   
-  // Memoize circles array to avoid repeated filtering
-  const circles = useMemo(
-    () => shapes.filter((s): s is CircleShape => s.type === 'circle'),
-    [shapes]
-  )
+  // Every shape is a tangent generator (circles and ellipses)
+  const circles = shapes
   
-  // Memoize constraint axes based on mirror configuration
-  const constraintAxes = useMemo(
-    () => calculateConstraintAxes(mirrorConfig),
-    [mirrorConfig]
+  // Shapes on hidden or locked layers cannot be picked or marquee selected
+  const editableShapes = useMemo(
+    () => shapes.filter(shape => isOnEditableLayer(shape, layers)),
+    [shapes, layers]
   )
   
+  // New shapes go on the active layer, so it must be shown and unlocked
+  const canAddShapes = useMemo(() => {
+    const activeLayer = layers.find(layer => layer.id === activeLayerId)
+    return !activeLayer || (activeLayer.visible && !activeLayer.locked)
+  }, [layers, activeLayerId])
+  
+  // The mirror origin can be dragged while the mirror planes are drawn
+  const canDragMirrorOrigin = mirrorConfig.planeCount > 0 && shapes.some(s => s.mirrored)
+  
   // Track space key state for panning
   const spaceKeyHeld = useRef(false)
   // Track active panning state
@@ -270,18 +295,18 @@ export function useCanvasInteraction(
   
   // Find what's at a position and return detailed hover info
   const findTargetAt = useCallback((worldPos: Point): { 
-    shape: CircleShape | null
+    shape: Shape | null
     hoverTarget: HoverTarget
     tangentHandle: TangentHandleType
   } => {
     const handleTolerance = HANDLE_TOLERANCE / zoom
     
     // Get expanded shapes/order (including mirrored circles)
-    const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+    const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig, arrayConfig)
     
     // First check tangent handles on selected shapes (highest priority)
-    for (const shape of shapes) {
-      if (shape.type === 'circle' && selectedIds.includes(shape.id)) {
+    for (const shape of editableShapes) {
+      if (selectedIds.includes(shape.id)) {
         const tangentHandle = getTangentHandleAt(shape, expandedShapes, expandedOrder, worldPos, handleTolerance, closedPath, useStartPoint, useEndPoint)
         if (tangentHandle) {
           const hoverTarget: HoverTarget = { 
@@ -294,50 +319,52 @@ export function useCanvasInteraction(
     }
     
     // Check index dots and action row icons on all circles
-    for (const shape of shapes) {
-      if (shape.type === 'circle') {
-        // Check index dot grid (always visible)
-        const dotIndex = getIndexDotAt(shape, worldPos, shapeOrder.length, zoom)
-        if (dotIndex !== null) {
+    for (const shape of editableShapes) {
+      // Check index dot grid (always visible)
+      const dotIndex = getIndexDotAt(shape, worldPos, shapeOrder.length, zoom)
+      if (dotIndex !== null) {
+        return { 
+          shape, 
+          hoverTarget: { type: 'index-dot', shapeId: shape.id, dotIndex }, 
+          tangentHandle: null 
+        }
+      }
+      
+      // Check action row icons (only on selected shapes)
+      if (selectedIds.includes(shape.id)) {
+        // Check mirror icon (always available)
+        if (isOnMirrorIcon(shape, worldPos, zoom)) {
           return { 
             shape, 
-            hoverTarget: { type: 'index-dot', shapeId: shape.id, dotIndex }, 
+            hoverTarget: { type: 'mirror-icon', shapeId: shape.id }, 
             tangentHandle: null 
           }
         }
         
-        // Check action row icons (only on selected shapes)
-        if (selectedIds.includes(shape.id)) {
-          // Check mirror icon (always available)
-          if (isOnMirrorIcon(shape, worldPos, zoom)) {
-            return { 
-              shape, 
-              hoverTarget: { type: 'mirror-icon', shapeId: shape.id }, 
-              tangentHandle: null 
-            }
-          }
-          
-          // Check delete icon (only if more than 2 circles exist)
-          const circleCount = shapes.filter(s => s.type === 'circle').length
-          if (circleCount > 2 && isOnDeleteIcon(shape, worldPos, zoom, true)) {
-            return { 
-              shape, 
-              hoverTarget: { type: 'delete-icon', shapeId: shape.id }, 
-              tangentHandle: null 
-            }
+        // Check delete icon (only if more than 2 shapes exist)
+        if (shapes.length > 2 && isOnDeleteIcon(shape, worldPos, zoom, true)) {
+          return { 
+            shape, 
+            hoverTarget: { type: 'delete-icon', shapeId: shape.id }, 
+            tangentHandle: null 
           }
         }
       }
     }
     
+    // Mirror origin handle (above shape bodies, so it stays reachable under a shape)
+    if (canDragMirrorOrigin && distance(worldPos, mirrorOrigin(mirrorConfig)) <= handleTolerance) {
+      return { shape: null, hoverTarget: { type: 'mirror-origin' }, tangentHandle: null }
+    }
+    
     // Helper to check a single shape
     // All hit zones are proportional to radius for consistent behavior at any size/zoom
     // Hit zones from outside to inside:
     // 1. Edge zone (92-108% radius) - for scaling
     // 2. Direction ring (70-92% radius) - for toggling direction
     // 3. Body zone (< 70% radius, or up to 92% when direction ring is faded) - for moving
-    const checkShape = (shape: CircleShape): { 
-      shape: CircleShape
+    const checkShape = (shape: Shape): { 
+      shape: Shape
       hoverTarget: HoverTarget
       tangentHandle: TangentHandleType
     } | null => {
@@ -372,25 +399,25 @@ export function useCanvasInteraction(
     }
     
     // Check selected shapes first (they're rendered on top)
-    for (let i = shapes.length - 1; i >= 0; i--) {
-      const shape = shapes[i]
-      if (shape.type === 'circle' && selectedIds.includes(shape.id)) {
+    for (let i = editableShapes.length - 1; i >= 0; i--) {
+      const shape = editableShapes[i]
+      if (selectedIds.includes(shape.id)) {
         const hit = checkShape(shape)
         if (hit) return hit
       }
     }
     
     // Then check non-selected shapes
-    for (let i = shapes.length - 1; i >= 0; i--) {
-      const shape = shapes[i]
-      if (shape.type === 'circle' && !selectedIds.includes(shape.id)) {
+    for (let i = editableShapes.length - 1; i >= 0; i--) {
+      const shape = editableShapes[i]
+      if (!selectedIds.includes(shape.id)) {
         const hit = checkShape(shape)
         if (hit) return hit
       }
     }
     
     return { shape: null, hoverTarget: null, tangentHandle: null }
-  }, [shapes, circles, shapeOrder, zoom, selectedIds, closedPath, useStartPoint, useEndPoint])
+  }, [shapes, editableShapes, circles, shapeOrder, zoom, selectedIds, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, canDragMirrorOrigin])
   
   // Store the scale cursor angle for dynamic rotation
   const scaleCursorAngle = useRef<number>(0)
@@ -420,9 +447,10 @@ export function useCanvasInteraction(
       // Double-clicked on a shape, don't create new circle
       return
     }
+    if (!canAddShapes) return
     
     // Check if click is on a path segment (connector lines/beziers)
-    const pathHit = findPathSegmentAt(circles, shapeOrder, worldPos, PATH_HIT_TOLERANCE / zoom, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig)
+    const pathHit = findPathSegmentAt(circles, shapeOrder, worldPos, PATH_HIT_TOLERANCE / zoom, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
     
     if (pathHit) {
       // Calculate non-overlapping radius (reuse the existing circles array from scope)
@@ -455,7 +483,7 @@ export function useCanvasInteraction(
     
     // Double-click on empty space - create circle at click position
     // Use findClosestPointOnPath to determine where to insert in the path order
-    const closestPathHit = findClosestPointOnPath(circles, shapeOrder, worldPos, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig)
+    const closestPathHit = findClosestPointOnPath(circles, shapeOrder, worldPos, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
     
     // Calculate non-overlapping radius at the click position
     const radius = calculateNonOverlappingRadius(worldPos, circles)
@@ -482,7 +510,7 @@ export function useCanvasInteraction(
     
     // Select the new circle
     select(newCircle.id, false)
-  }, [canvasRef, getWorldPos, findTargetAt, shapes, circles, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, zoom, insertShapeAt, select, clearClickPreview])
+  }, [canvasRef, getWorldPos, findTargetAt, canAddShapes, shapes, circles, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, zoom, insertShapeAt, select, clearClickPreview])
 
   // Mouse down handler
   const handleMouseDown = useCallback((e: MouseEvent) => {
@@ -570,6 +598,17 @@ export function useCanvasInteraction(
         return
       }
       
+      // Right click on the mirror origin: move it back to the world origin
+      if (hit.hoverTarget?.type === 'mirror-origin') {
+        e.preventDefault()
+        rightClickDragged.current = true // Suppress context menu
+        setMirrorConfig({ ...mirrorConfig, origin: undefined })
+        setTimeout(() => {
+          rightClickDragged.current = false
+        }, 0)
+        return
+      }
+      
       // No handle hit - proceed with pan behavior
       const startPan = { ...pan }
       const startPos = { x: e.clientX, y: e.clientY }
@@ -616,6 +655,19 @@ export function useCanvasInteraction(
     if (e.button === 0) {
       const hit = findTargetAt(worldPos)
       
+      // Drag the mirror origin
+      if (hit.hoverTarget?.type === 'mirror-origin') {
+        setDragState({
+          mode: 'mirror-origin',
+          shapeId: '',
+          startPoint: worldPos,
+          startCenter: mirrorOrigin(mirrorConfig),
+          startRadius: 0
+        })
+        canvas.style.cursor = 'grabbing'
+        return
+      }
+      
       if (hit.shape) {
         const { shape, hoverTarget, tangentHandle } = hit
         
@@ -624,7 +676,7 @@ export function useCanvasInteraction(
           if (e.shiftKey && selectedIds.length > 1) {
             // Delete all selected shapes
             for (const id of selectedIds) {
-              removeShape(id)
+              if (editableShapes.some(s => s.id === id)) removeShape(id)
             }
           } else {
             removeShape(shape.id)
@@ -638,7 +690,7 @@ export function useCanvasInteraction(
           if (e.shiftKey && selectedIds.length > 1) {
             // Toggle mirror on all selected shapes
             for (const id of selectedIds) {
-              toggleMirror(id)
+              if (editableShapes.some(s => s.id === id)) toggleMirror(id)
             }
           } else {
             toggleMirror(shape.id)
@@ -667,7 +719,7 @@ export function useCanvasInteraction(
           if (e.shiftKey && selectedIds.length > 1) {
             // Toggle direction on all selected shapes
             for (const id of selectedIds) {
-              toggleDirection(id)
+              if (editableShapes.some(s => s.id === id)) toggleDirection(id)
             }
           } else {
             toggleDirection(shape.id)
@@ -677,7 +729,7 @@ export function useCanvasInteraction(
         
         // Click on tangent handle: start tangent dragging
         if (tangentHandle) {
-          const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+          const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig, arrayConfig)
           const info = computeTangentHandleInfo(shape, expandedShapes, expandedOrder, closedPath, useStartPoint, useEndPoint)
           
           let mode: DragMode = null
@@ -730,7 +782,7 @@ export function useCanvasInteraction(
               shapeId: shape.id,
               startPoint: worldPos,
               startCenter: { ...shape.center },
-              startRadius: shape.radius,
+              startRadius: getScaleRadius(shape),
               startAngle,
               startOffset,
               startOtherOffset,
@@ -769,7 +821,7 @@ export function useCanvasInteraction(
           scaleAnchor = findExactOppositePoint(shape, worldPos)
           // Snap anchor to grid if snapping is enabled
           if (snapToGridEnabled) {
-            scaleAnchor = snapPointToGrid(scaleAnchor, POSITION_SNAP_INCREMENT)
+            scaleAnchor = snapPointToGrid(scaleAnchor, snapSpacing)
           }
         }
         
@@ -780,8 +832,9 @@ export function useCanvasInteraction(
             // Clicking on a selected shape in a multi-selection: move all selected shapes
             shapeStarts = new Map()
             for (const id of selectedIds) {
-              const s = shapes.find(sh => sh.id === id)
-              if (s && s.type === 'circle') {
+              // Shapes selected before their layer was locked or hidden stay put
+              const s = editableShapes.find(sh => sh.id === id)
+              if (s) {
                 shapeStarts.set(id, { ...s.center })
               }
             }
@@ -795,9 +848,9 @@ export function useCanvasInteraction(
         if (mode === 'scale' && isAlreadySelected && selectedIds.length > 1) {
           shapeRadii = new Map()
           for (const id of selectedIds) {
-            const s = shapes.find(sh => sh.id === id)
-            if (s && s.type === 'circle') {
-              shapeRadii.set(id, { radius: s.radius, center: { ...s.center } })
+            const s = editableShapes.find(sh => sh.id === id)
+            if (s) {
+              shapeRadii.set(id, { radius: getScaleRadius(s), center: { ...s.center } })
             }
           }
         }
@@ -805,19 +858,22 @@ export function useCanvasInteraction(
         // If clicking on unselected shape (without shift), replace selection
         if (!isAlreadySelected) {
           select(shape.id, false)
+          // Shapes from another path switch editing to that path
+          useDocumentStore.getState().activatePathOfShape(shape.id)
         }
         
         // For scale mode, clamp the start point to be exactly on the circle edge
         let startPoint = worldPos
         if (isEdge) {
           const dirToMouse = normalize(subtract(worldPos, shape.center))
+          const edgeRadius = getEdgeRadiusToward(shape, worldPos)
           startPoint = {
-            x: shape.center.x + dirToMouse.x * shape.radius,
-            y: shape.center.y + dirToMouse.y * shape.radius
+            x: shape.center.x + dirToMouse.x * edgeRadius,
+            y: shape.center.y + dirToMouse.y * edgeRadius
           }
           // Snap the clamped point to grid if snapping is enabled
           if (snapToGridEnabled) {
-            startPoint = snapPointToGrid(startPoint, POSITION_SNAP_INCREMENT)
+            startPoint = snapPointToGrid(startPoint, snapSpacing)
           }
         }
         
@@ -826,7 +882,7 @@ export function useCanvasInteraction(
           shapeId: shape.id,
           startPoint,
           startCenter: { ...shape.center },
-          startRadius: shape.radius,
+          startRadius: getScaleRadius(shape),
           shapeStarts,
           shapeRadii,
           scaleAnchor
@@ -883,7 +939,7 @@ export function useCanvasInteraction(
             }
             
             // Find all circles that intersect with the marquee rectangle
-            const intersectingIds = circles
+            const intersectingIds = editableShapes
               .filter(circle => circleIntersectsRect(circle, rect))
               .map(circle => circle.id)
             
@@ -942,7 +998,7 @@ export function useCanvasInteraction(
             // Show click preview for double-click circle creation
             // But only if this wasn't a deselect click (no prior selection)
             if (!e.shiftKey && !e.altKey && !hadSelection) {
-              const pathHit = findPathSegmentAt(circles, shapeOrder, startWorldPos, PATH_HIT_TOLERANCE / zoom, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig)
+              const pathHit = findPathSegmentAt(circles, shapeOrder, startWorldPos, PATH_HIT_TOLERANCE / zoom, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
               const previewRadius = calculateNonOverlappingRadius(pathHit ? pathHit.point : startWorldPos, circles)
               const previewPosition = pathHit ? pathHit.point : startWorldPos
               showClickPreview(previewPosition, previewRadius)
@@ -954,7 +1010,7 @@ export function useCanvasInteraction(
         window.addEventListener('mouseup', handleEmptySpaceUp)
       }
     }
-  }, [canvasRef, getWorldPos, isPanning, pan, setPan, findTargetAt, select, selectAll, clearSelection, setDragState, toggleDirection, toggleMirror, removeShape, shapes, shapeOrder, selectedIds, circles, zoom, globalStretch, closedPath, useStartPoint, useEndPoint, showClickPreview, clearClickPreview])
+  }, [canvasRef, getWorldPos, isPanning, pan, setPan, findTargetAt, select, selectAll, clearSelection, setDragState, toggleDirection, toggleMirror, removeShape, shapes, shapeOrder, selectedIds, circles, editableShapes, zoom, globalStretch, closedPath, useStartPoint, useEndPoint, showClickPreview, clearClickPreview, mirrorConfig, arrayConfig, setMirrorConfig, snapToGridEnabled, snapSpacing])
   
   // Mouse move handler
   const handleMouseMove = useCallback((e: MouseEvent) => {
@@ -973,8 +1029,20 @@ export function useCanvasInteraction(
         return
       }
       
+      if (dragState.mode === 'mirror-origin') {
+        let origin = {
+          x: dragState.startCenter.x + worldPos.x - dragState.startPoint.x,
+          y: dragState.startCenter.y + worldPos.y - dragState.startPoint.y
+        }
+        if (snapToGridEnabled) {
+          origin = snapPointToGrid(origin, snapSpacing)
+        }
+        setMirrorConfig({ ...mirrorConfig, origin })
+        return
+      }
+      
       const shape = shapes.find(s => s.id === dragState.shapeId)
-      if (!shape || shape.type !== 'circle') return
+      if (!shape) return
       
       if (dragState.mode === 'move') {
         let dx = worldPos.x - dragState.startPoint.x
@@ -982,7 +1050,7 @@ export function useCanvasInteraction(
         
         // Apply axis constraint if Shift is held
         if (e.shiftKey) {
-          const constrainedDelta = constrainToNearestAxis({ x: dx, y: dy }, constraintAxes)
+          const constrainedDelta = constrainToNearestAxis({ x: dx, y: dy }, calculateConstraintAxes(mirrorConfig, dragState.startCenter))
           dx = constrainedDelta.x
           dy = constrainedDelta.y
         }
@@ -994,11 +1062,11 @@ export function useCanvasInteraction(
           // Compute smart guides if enabled (but not when axis-constrained)
           if (smartGuidesEnabled && !e.shiftKey) {
             // Build preview positions for smart guides
-            const draggedCirclesPreviews: CircleShape[] = []
+            const draggedCirclesPreviews: Shape[] = []
             const draggedIds = new Set(dragState.shapeStarts.keys())
             
             for (const [id, startCenter] of dragState.shapeStarts) {
-              const originalShape = shapes.find(s => s.id === id) as CircleShape | undefined
+              const originalShape = shapes.find(s => s.id === id)
               if (originalShape) {
                 draggedCirclesPreviews.push({
                   ...originalShape,
@@ -1015,7 +1083,7 @@ export function useCanvasInteraction(
             
             // Compute smart guides (threshold in world coords)
             const smartGuideThreshold = SMART_GUIDE_SNAP_THRESHOLD / zoom
-            const result = computeSmartGuides(draggedCirclesPreviews, otherCircles, smartGuideThreshold)
+            const result = computeSmartGuides(draggedCirclesPreviews, otherCircles, smartGuideThreshold, mirrorOrigin(mirrorConfig))
             setActiveGuides(result.guides)
             snapOffset = result.snapOffset
           } else {
@@ -1023,7 +1091,7 @@ export function useCanvasInteraction(
           }
           
           // Apply updates with smart guide snapping
-          const updates = new Map<string, Partial<CircleShape>>()
+          const updates = new Map<string, Partial<Shape>>()
           
           for (const [id, startCenter] of dragState.shapeStarts) {
             let newCenter = {
@@ -1032,7 +1100,7 @@ export function useCanvasInteraction(
             }
             
             if (snapToGridEnabled) {
-              newCenter = snapPointToGrid(newCenter, POSITION_SNAP_INCREMENT)
+              newCenter = snapPointToGrid(newCenter, snapSpacing)
             }
             
             updates.set(id, { center: newCenter })
@@ -1051,7 +1119,7 @@ export function useCanvasInteraction(
             // Get the dragged circle with preview position
             const draggedCircle = circles.find(c => c.id === dragState.shapeId)
             if (draggedCircle) {
-              const draggedCirclePreview: CircleShape = {
+              const draggedCirclePreview: Shape = {
                 ...draggedCircle,
                 center: newCenter
               }
@@ -1061,7 +1129,7 @@ export function useCanvasInteraction(
               
               // Compute smart guides (threshold in world coords)
               const smartGuideThreshold = SMART_GUIDE_SNAP_THRESHOLD / zoom
-              const { guides, snapOffset } = computeSmartGuides([draggedCirclePreview], otherCircles, smartGuideThreshold)
+              const { guides, snapOffset } = computeSmartGuides([draggedCirclePreview], otherCircles, smartGuideThreshold, mirrorOrigin(mirrorConfig))
               setActiveGuides(guides)
               
               // Apply smart guide snapping
@@ -1075,18 +1143,20 @@ export function useCanvasInteraction(
           }
           
           if (snapToGridEnabled) {
-            newCenter = snapPointToGrid(newCenter, POSITION_SNAP_INCREMENT)
+            newCenter = snapPointToGrid(newCenter, snapSpacing)
           }
           
           updateShape(dragState.shapeId, { center: newCenter })
         }
       } else if (dragState.mode === 'scale') {
         const anchor = dragState.scaleAnchor
+        // Ratio of scale radius to edge distance along the drag direction (1 for circles)
+        const edgeToScaleRadius = getScaleRadius(shape) / getEdgeRadiusToward(shape, dragState.startPoint)
         
         if (!anchor) {
           // Center-based scaling (default behavior)
           // The center stays fixed, radius is distance from cursor to center
-          const distFromCenter = distance(worldPos, dragState.startCenter)
+          const distFromCenter = distance(worldPos, dragState.startCenter) * edgeToScaleRadius
           let newRadius = Math.max(5, distFromCenter)
           
           if (snapToGridEnabled) {
@@ -1104,12 +1174,13 @@ export function useCanvasInteraction(
                   scaledRadius = snapToGrid(scaledRadius, RADIUS_SNAP_INCREMENT)
                   scaledRadius = Math.max(RADIUS_SNAP_INCREMENT, scaledRadius)
                 }
-                updateShape(id, { radius: scaledRadius })
+                const target = shapes.find(s => s.id === id)
+                if (target) updateShape(id, scaleRadiusUpdate(target, scaledRadius))
               }
             })
           }
           
-          updateShape(dragState.shapeId, { radius: newRadius })
+          updateShape(dragState.shapeId, scaleRadiusUpdate(shape, newRadius))
         } else {
           // Anchor-based scaling (Alt key)
           // The anchor point stays fixed, scaling only along the line from anchor to start point
@@ -1131,12 +1202,12 @@ export function useCanvasInteraction(
           
           // Snap the projected point to grid if enabled
           if (snapToGridEnabled) {
-            projectedPoint = snapPointToGrid(projectedPoint, POSITION_SNAP_INCREMENT)
+            projectedPoint = snapPointToGrid(projectedPoint, snapSpacing)
           }
           
           // New diameter = distance from anchor to projected point
           // New radius = half that
-          const distToProjected = distance(projectedPoint, anchor)
+          const distToProjected = distance(projectedPoint, anchor) * edgeToScaleRadius
           let newRadius = Math.max(5, distToProjected / 2)
           
           // Center is midpoint between anchor and projected point
@@ -1157,15 +1228,16 @@ export function useCanvasInteraction(
                   scaledRadius = snapToGrid(scaledRadius, RADIUS_SNAP_INCREMENT)
                   scaledRadius = Math.max(RADIUS_SNAP_INCREMENT, scaledRadius)
                 }
-                updateShape(id, { radius: scaledRadius })
+                const target = shapes.find(s => s.id === id)
+                if (target) updateShape(id, scaleRadiusUpdate(target, scaledRadius))
               }
             })
           }
           
-          updateShape(dragState.shapeId, { center: newCenter, radius: newRadius })
+          updateShape(dragState.shapeId, { ...scaleRadiusUpdate(shape, newRadius), center: newCenter })
         }
       } else if (dragState.mode === 'tangent-entry-offset' || dragState.mode === 'tangent-exit-offset') {
-        const angleToMouse = angle(shape.center, worldPos)
+        const angleToMouse = normalAngleToward(shape, worldPos)
         const clockwise = (shape.direction ?? 'cw') === 'cw'
         const offsetDir = clockwise ? 1 : -1
         
@@ -1233,7 +1305,7 @@ export function useCanvasInteraction(
           setExitOffset(shape.id, offsetValue)
         }
       } else if (dragState.mode === 'tangent-entry-length' || dragState.mode === 'tangent-exit-length') {
-        const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+        const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig, arrayConfig)
         const info = computeTangentHandleInfo(shape, expandedShapes, expandedOrder, closedPath, useStartPoint, useEndPoint)
         
         if (info) {
@@ -1339,7 +1411,7 @@ export function useCanvasInteraction(
     setHovered(hit.shape?.id ?? null)
     setMouseWorldPos(worldPos)
     canvas.style.cursor = getCursor(hit.hoverTarget, false)
-  }, [canvasRef, getWorldPos, dragState, shapes, circles, shapeOrder, updateShape, updateShapes, snapToGridEnabled, findTargetAt, getCursor, setHovered, setHoverTarget, setMouseWorldPos, setEntryOffset, setExitOffset, setEntryTangentLength, setExitTangentLength, selectAll, setDragState, constraintAxes, smartGuidesEnabled, zoom, closedPath, useStartPoint, useEndPoint, mirrorConfig, setActiveGuides, clearActiveGuides])
+  }, [canvasRef, getWorldPos, dragState, shapes, circles, shapeOrder, updateShape, updateShapes, snapToGridEnabled, snapSpacing, findTargetAt, getCursor, setHovered, setHoverTarget, setMouseWorldPos, setEntryOffset, setExitOffset, setEntryTangentLength, setExitTangentLength, selectAll, setDragState, setMirrorConfig, smartGuidesEnabled, zoom, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, setActiveGuides, clearActiveGuides])
   
   // Mouse up handler
   const handleMouseUp = useCallback(() => {
@@ -1469,9 +1541,10 @@ export function useCanvasInteraction(
           // Double-tapped on a shape, don't create new circle
           return
         }
+        if (!canAddShapes) return
         
         // Check if tap is on a path segment
-        const pathHit = findPathSegmentAt(circles, shapeOrder, worldPos, PATH_HIT_TOLERANCE / zoom, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig)
+        const pathHit = findPathSegmentAt(circles, shapeOrder, worldPos, PATH_HIT_TOLERANCE / zoom, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
         
         if (pathHit) {
           const radius = calculateNonOverlappingRadius(pathHit.point, circles)
@@ -1488,7 +1561,7 @@ export function useCanvasInteraction(
         }
         
         // Double-tap on empty space - create circle
-        const closestPathHit = findClosestPointOnPath(circles, shapeOrder, worldPos, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig)
+        const closestPathHit = findClosestPointOnPath(circles, shapeOrder, worldPos, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
         const radius = calculateNonOverlappingRadius(worldPos, circles)
         const closestCircle = findClosestCircle(circles, worldPos)
         const circleCount = shapes.filter(s => s.type === 'circle').length
@@ -1552,7 +1625,7 @@ export function useCanvasInteraction(
         // Handle tangent handle drag
         if (tangentHandle && !tangentHandle.includes('slot')) {
           e.preventDefault()
-          const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+          const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig, arrayConfig)
           const info = computeTangentHandleInfo(shape, expandedShapes, expandedOrder, closedPath, useStartPoint, useEndPoint)
           
           let mode: DragMode = null
@@ -1588,7 +1661,7 @@ export function useCanvasInteraction(
               shapeId: shape.id,
               startPoint: worldPos,
               startCenter: { ...shape.center },
-              startRadius: shape.radius,
+              startRadius: getScaleRadius(shape),
               startAngle,
               startOffset,
               startOtherOffset,
@@ -1625,7 +1698,7 @@ export function useCanvasInteraction(
         if (isEdge && altPressed) {
           scaleAnchor = findExactOppositePoint(shape, worldPos)
           if (snapToGridEnabled) {
-            scaleAnchor = snapPointToGrid(scaleAnchor, POSITION_SNAP_INCREMENT)
+            scaleAnchor = snapPointToGrid(scaleAnchor, snapSpacing)
           }
         }
         
@@ -1635,8 +1708,8 @@ export function useCanvasInteraction(
           if (isAlreadySelected && selectedIds.length > 1) {
             shapeStarts = new Map()
             for (const id of selectedIds) {
-              const s = shapes.find(sh => sh.id === id)
-              if (s && s.type === 'circle') {
+              const s = editableShapes.find(sh => sh.id === id)
+              if (s) {
                 shapeStarts.set(id, { ...s.center })
               }
             }
@@ -1648,26 +1721,28 @@ export function useCanvasInteraction(
         if (mode === 'scale' && isAlreadySelected && selectedIds.length > 1) {
           shapeRadii = new Map()
           for (const id of selectedIds) {
-            const s = shapes.find(sh => sh.id === id)
-            if (s && s.type === 'circle') {
-              shapeRadii.set(id, { radius: s.radius, center: { ...s.center } })
+            const s = editableShapes.find(sh => sh.id === id)
+            if (s) {
+              shapeRadii.set(id, { radius: getScaleRadius(s), center: { ...s.center } })
             }
           }
         }
         
         if (!isAlreadySelected) {
           select(shape.id, false)
+          useDocumentStore.getState().activatePathOfShape(shape.id)
         }
         
         let startPoint = worldPos
         if (isEdge) {
           const dirToTouch = normalize(subtract(worldPos, shape.center))
+          const edgeRadius = getEdgeRadiusToward(shape, worldPos)
           startPoint = {
-            x: shape.center.x + dirToTouch.x * shape.radius,
-            y: shape.center.y + dirToTouch.y * shape.radius
+            x: shape.center.x + dirToTouch.x * edgeRadius,
+            y: shape.center.y + dirToTouch.y * edgeRadius
           }
           if (snapToGridEnabled) {
-            startPoint = snapPointToGrid(startPoint, POSITION_SNAP_INCREMENT)
+            startPoint = snapPointToGrid(startPoint, snapSpacing)
           }
         }
         
@@ -1676,7 +1751,7 @@ export function useCanvasInteraction(
           shapeId: shape.id,
           startPoint,
           startCenter: { ...shape.center },
-          startRadius: shape.radius,
+          startRadius: getScaleRadius(shape),
           shapeStarts,
           shapeRadii,
           scaleAnchor
@@ -1693,7 +1768,7 @@ export function useCanvasInteraction(
         clearClickPreview()
       }
     }
-  }, [canvasRef, zoom, pan, findTargetAt, getWorldPosFromScreen, shapes, circles, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, selectedIds, select, clearSelection, setDragState, removeShape, toggleMirror, toggleDirection, reorderShapes, insertShapeAt, clearClickPreview, snapToGridEnabled, modifierKeys])
+  }, [canvasRef, zoom, pan, findTargetAt, getWorldPosFromScreen, shapes, circles, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, selectedIds, select, clearSelection, setDragState, removeShape, toggleMirror, toggleDirection, reorderShapes, insertShapeAt, canAddShapes, clearClickPreview, snapToGridEnabled, snapSpacing, modifierKeys, editableShapes])
   
   // Touch move handler
   const handleTouchMove = useCallback((e: TouchEvent) => {
@@ -1768,7 +1843,7 @@ export function useCanvasInteraction(
       const worldPos = getWorldPosFromScreen(touch.clientX, touch.clientY)
       const shape = shapes.find(s => s.id === dragState.shapeId)
       
-      if (!shape || shape.type !== 'circle') return
+      if (!shape) return
       
       if (dragState.mode === 'move') {
         let dx = worldPos.x - dragState.startPoint.x
@@ -1777,20 +1852,20 @@ export function useCanvasInteraction(
         // Apply axis constraint if Shift is held (via ModifierBar on touch devices)
         const shiftPressed = modifierKeys.shift
         if (shiftPressed) {
-          const constrainedDelta = constrainToNearestAxis({ x: dx, y: dy }, constraintAxes)
+          const constrainedDelta = constrainToNearestAxis({ x: dx, y: dy }, calculateConstraintAxes(mirrorConfig, dragState.startCenter))
           dx = constrainedDelta.x
           dy = constrainedDelta.y
         }
         
         if (dragState.shapeStarts && dragState.shapeStarts.size > 0) {
-          const updates = new Map<string, Partial<CircleShape>>()
+          const updates = new Map<string, Partial<Shape>>()
           for (const [id, startCenter] of dragState.shapeStarts) {
             let newCenter = {
               x: startCenter.x + dx,
               y: startCenter.y + dy
             }
             if (snapToGridEnabled) {
-              newCenter = snapPointToGrid(newCenter, POSITION_SNAP_INCREMENT)
+              newCenter = snapPointToGrid(newCenter, snapSpacing)
             }
             updates.set(id, { center: newCenter })
           }
@@ -1801,17 +1876,19 @@ export function useCanvasInteraction(
             y: dragState.startCenter.y + dy
           }
           if (snapToGridEnabled) {
-            newCenter = snapPointToGrid(newCenter, POSITION_SNAP_INCREMENT)
+            newCenter = snapPointToGrid(newCenter, snapSpacing)
           }
           updateShape(dragState.shapeId, { center: newCenter })
         }
       } else if (dragState.mode === 'scale') {
         const anchor = dragState.scaleAnchor
+        // Ratio of scale radius to edge distance along the drag direction (1 for circles)
+        const edgeToScaleRadius = getScaleRadius(shape) / getEdgeRadiusToward(shape, dragState.startPoint)
         const shiftPressed = modifierKeys.shift
         
         if (!anchor) {
           // Center-based scaling (default)
-          const distFromCenter = distance(worldPos, dragState.startCenter)
+          const distFromCenter = distance(worldPos, dragState.startCenter) * edgeToScaleRadius
           let newRadius = Math.max(5, distFromCenter)
           if (snapToGridEnabled) {
             newRadius = snapToGrid(newRadius, RADIUS_SNAP_INCREMENT)
@@ -1828,12 +1905,13 @@ export function useCanvasInteraction(
                   scaledRadius = snapToGrid(scaledRadius, RADIUS_SNAP_INCREMENT)
                   scaledRadius = Math.max(RADIUS_SNAP_INCREMENT, scaledRadius)
                 }
-                updateShape(id, { radius: scaledRadius })
+                const target = shapes.find(s => s.id === id)
+                if (target) updateShape(id, scaleRadiusUpdate(target, scaledRadius))
               }
             })
           }
           
-          updateShape(dragState.shapeId, { radius: newRadius })
+          updateShape(dragState.shapeId, scaleRadiusUpdate(shape, newRadius))
         } else {
           // Anchor-based scaling (Alt key)
           const axisDir = normalize(subtract(dragState.startPoint, anchor))
@@ -1846,10 +1924,10 @@ export function useCanvasInteraction(
           }
           
           if (snapToGridEnabled) {
-            projectedPoint = snapPointToGrid(projectedPoint, POSITION_SNAP_INCREMENT)
+            projectedPoint = snapPointToGrid(projectedPoint, snapSpacing)
           }
           
-          const distToProjected = distance(projectedPoint, anchor)
+          const distToProjected = distance(projectedPoint, anchor) * edgeToScaleRadius
           let newRadius = Math.max(5, distToProjected / 2)
           
           let newCenter = {
@@ -1867,15 +1945,16 @@ export function useCanvasInteraction(
                   scaledRadius = snapToGrid(scaledRadius, RADIUS_SNAP_INCREMENT)
                   scaledRadius = Math.max(RADIUS_SNAP_INCREMENT, scaledRadius)
                 }
-                updateShape(id, { radius: scaledRadius })
+                const target = shapes.find(s => s.id === id)
+                if (target) updateShape(id, scaleRadiusUpdate(target, scaledRadius))
               }
             })
           }
           
-          updateShape(dragState.shapeId, { center: newCenter, radius: newRadius })
+          updateShape(dragState.shapeId, { ...scaleRadiusUpdate(shape, newRadius), center: newCenter })
         }
       } else if (dragState.mode === 'tangent-entry-offset' || dragState.mode === 'tangent-exit-offset') {
-        const angleToTouch = angle(shape.center, worldPos)
+        const angleToTouch = normalAngleToward(shape, worldPos)
         const clockwise = (shape.direction ?? 'cw') === 'cw'
         const offsetDir = clockwise ? 1 : -1
         const baseAngle = dragState.startAngle ?? 0
@@ -1895,7 +1974,7 @@ export function useCanvasInteraction(
           setExitOffset(shape.id, offsetValue)
         }
       } else if (dragState.mode === 'tangent-entry-length' || dragState.mode === 'tangent-exit-length') {
-        const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig)
+        const { expandedShapes, expandedOrder } = expandMirroredCircles(circles, shapeOrder, mirrorConfig, arrayConfig)
         const info = computeTangentHandleInfo(shape, expandedShapes, expandedOrder, closedPath, useStartPoint, useEndPoint)
         
         if (info) {
@@ -1935,7 +2014,7 @@ export function useCanvasInteraction(
         }
       }
     }
-  }, [canvasRef, dragState, shapes, circles, shapeOrder, updateShape, updateShapes, snapToGridEnabled, getWorldPosFromScreen, zoom, pan, setPan, zoomBy, closedPath, useStartPoint, useEndPoint, mirrorConfig, setEntryOffset, setExitOffset, setEntryTangentLength, setExitTangentLength, modifierKeys, constraintAxes])
+  }, [canvasRef, dragState, shapes, circles, shapeOrder, updateShape, updateShapes, snapToGridEnabled, snapSpacing, getWorldPosFromScreen, zoom, pan, setPan, zoomBy, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig, setEntryOffset, setExitOffset, setEntryTangentLength, setExitTangentLength, modifierKeys])
   
   // Touch end handler
   const handleTouchEnd = useCallback((e: TouchEvent) => {
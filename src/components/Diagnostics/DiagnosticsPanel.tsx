@@ -0,0 +1,71 @@
+import { useDocumentStore } from '../../stores/documentStore'
+import { useSelectionStore } from '../../stores/selectionStore'
+import { useSettingsStore } from '../../stores/settingsStore'
+import { useDiagnostics } from '../../hooks/useDiagnostics'
+import { centerOn } from '../../utils/viewportActions'
+import type { Diagnostic } from '../../geometry/diagnostics'
+import styles from './DiagnosticsPanel.module.css'
+
+/**
+ * Make the diagnostic's path active, select the shapes involved and bring
+ * the problem into view
+ */
+function jumpTo(diagnostic: Diagnostic) {
+  const { activePathId, setActivePath } = useDocumentStore.getState()
+  if (diagnostic.pathId !== activePathId) setActivePath(diagnostic.pathId)
+  useSelectionStore.getState().selectAll(diagnostic.shapeIds)
+  centerOn(diagnostic.point)
+}
+
+/**
+ * Problems found in the document's paths (missing tangents, self-crossings,
+ * degenerate arcs, open mirror seams). Clicking one jumps to it.
+ */
+export function DiagnosticsPanel() {
+  const isVisible = useSettingsStore(state => state.showDiagnostics)
+  const setIsVisible = useSettingsStore(state => state.setShowDiagnostics)
+  const paths = useDocumentStore(state => state.paths)
+  const diagnostics = useDiagnostics(isVisible)
+
+  if (!isVisible) return null
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length
+  const warningCount = diagnostics.length - errorCount
+  const pathName = (id: string) => paths.find(path => path.id === id)?.name ?? ''
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.header}>
+        <span className={styles.title}>DIAGNOSTICS</span>
+        {diagnostics.length > 0 && (
+          <span className={styles.count}>
+            <span className={styles.error}>{errorCount}</span> · <span className={styles.warning}>{warningCount}</span>
+          </span>
+        )}
+        <button className={styles.closeButton} onClick={() => setIsVisible(false)} title="Close diagnostics">
+          ×
+        </button>
+      </div>
+      {diagnostics.length === 0 ? (
+        <div className={styles.empty}>No problems found</div>
+      ) : (
+        <div className={styles.list}>
+          {diagnostics.map((diagnostic, index) => (
+            <button
+              key={index}
+              className={styles.row}
+              onClick={() => jumpTo(diagnostic)}
+              title="Select the shapes involved and center the view on the problem"
+            >
+              <span className={`${styles.icon} ${diagnostic.severity === 'error' ? styles.error : styles.warning}`}>!</span>
+              <span className={styles.message}>
+                {diagnostic.message}
+                {paths.length > 1 && <span className={styles.pathName}>{pathName(diagnostic.pathId)}</span>}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
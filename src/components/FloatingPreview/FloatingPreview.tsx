@@ -1,10 +1,13 @@
 import { useState, useRef, useCallback, useMemo, useEffect } from 'react'
 import { useDocumentStore } from '../../stores/documentStore'
 import { useSettingsStore } from '../../stores/settingsStore'
-import { computeTangentHull } from '../../geometry/path'
-import { pathSegmentsToSvgPath, calculatePathBounds, exportSvg } from '../../utils/fileIO'
+import { computePathHulls } from '../../geometry/path'
+import { computePathOffsets } from '../../geometry/offset'
+import { computeBooleanOutlines } from '../../geometry/boolean'
+import { isOnVisibleLayer } from '../../utils/layers'
+import { pathSegmentsToSvgPath, calculatePathBounds, exportSvg, exportDxf } from '../../utils/fileIO'
+import { defaultDxfUnits, type DxfUnits } from '../../utils/dxf'
 import { MIN_CIRCLES } from '../../constants'
-import type { CircleShape } from '../../types'
 import styles from './FloatingPreview.module.css'
 
 // Startup timing
@@ -28,12 +31,11 @@ const DEFAULT_HEIGHT = 200
 
 export function FloatingPreview() {
   const shapes = useDocumentStore(state => state.shapes)
-  const shapeOrder = useDocumentStore(state => state.shapeOrder)
+  const paths = useDocumentStore(state => state.paths)
+  const layers = useDocumentStore(state => state.layers)
   const globalStretch = useDocumentStore(state => state.globalStretch)
-  const closedPath = useDocumentStore(state => state.closedPath)
-  const useStartPoint = useDocumentStore(state => state.useStartPoint)
-  const useEndPoint = useDocumentStore(state => state.useEndPoint)
-  const mirrorConfig = useDocumentStore(state => state.mirrorConfig)
+  const booleans = useDocumentStore(state => state.booleans)
+  const documentDxfUnits = useDocumentStore(state => defaultDxfUnits(state.units))
   
   const isVisible = useSettingsStore(state => state.showSvgPreview)
   const setIsVisible = useSettingsStore(state => state.setShowSvgPreview)
@@ -44,6 +46,12 @@ export function FloatingPreview() {
   const [isResizing, setIsResizing] = useState<string | null>(null)
   const [strokeWidth, setStrokeWidth] = useState(2)
   const [showFill, setShowFill] = useState(false)
+  const [dxfUnits, setDxfUnits] = useState<DxfUnits>(documentDxfUnits)
+  
+  // Export in the document's unit, as the File menu does, until picked otherwise
+  useEffect(() => {
+    setDxfUnits(documentDxfUnits)
+  }, [documentDxfUnits])
   
   const windowRef = useRef<HTMLDivElement>(null)
   const dragStartRef = useRef<{ x: number; y: number; posX: number; posY: number }>({ x: 0, y: 0, posX: 0, posY: 0 })
@@ -51,23 +59,25 @@ export function FloatingPreview() {
 
   const svgData = useMemo(() => {
     const start = performance.now()
-    const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
+    const circles = shapes
     if (circles.length < MIN_CIRCLES) return null
     
-    const pathData = computeTangentHull(
-      circles,
-      shapeOrder,
-      globalStretch,
-      closedPath,
-      useStartPoint,
-      useEndPoint,
-      mirrorConfig
-    )
+    const hulls = computePathHulls(circles, paths.filter(path => isOnVisibleLayer(path, layers)), globalStretch)
+      .filter(({ pathData }) => pathData.segments.length > 0)
+    const booleanOutlines = computeBooleanOutlines(
+      circles, paths, booleans.filter(outline => isOnVisibleLayer(outline, layers)), globalStretch
+    ).filter(({ pathData }) => pathData.segments.length > 0)
     
-    if (pathData.segments.length === 0) return null
+    if (hulls.length === 0 && booleanOutlines.length === 0) return null
     
-    const svgPathD = pathSegmentsToSvgPath(pathData.segments, closedPath)
-    const bounds = calculatePathBounds(pathData.segments)
+    const pathDs = hulls.map(({ path, pathData }) => pathSegmentsToSvgPath(pathData.segments, path.closedPath))
+    // Offset outlines are previewed unfilled, as they are exported
+    const offsets = hulls.flatMap(({ path, pathData }) =>
+      computePathOffsets(pathData, path).map(offsetData => ({ path, pathData: offsetData }))
+    )
+    const offsetDs = offsets.map(({ path, pathData }) => pathSegmentsToSvgPath(pathData.segments, path.closedPath))
+    const booleanDs = booleanOutlines.map(({ pathData }) => pathSegmentsToSvgPath(pathData.segments, true))
+    const bounds = calculatePathBounds([...hulls, ...offsets, ...booleanOutlines].flatMap(({ pathData }) => pathData.segments))
     
     const baseWidth = bounds.maxX - bounds.minX
     const baseHeight = bounds.maxY - bounds.minY
@@ -88,14 +98,16 @@ export function FloatingPreview() {
     const viewBoxHeight = bounds.maxY - bounds.minY + padding * 2
     
     const result = {
-      pathD: svgPathD,
+      pathDs,
+      offsetDs,
+      booleanDs,
       viewBox: `${viewBoxX.toFixed(3)} ${viewBoxY.toFixed(3)} ${viewBoxWidth.toFixed(3)} ${viewBoxHeight.toFixed(3)}`,
       scaledStrokeWidth
     }
     
     console.log(`%c[FloatingPreview] svgData computed in ${(performance.now() - start).toFixed(1)}ms`, 'color: #ffd93d;')
     return result
-  }, [shapes, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig, strokeWidth])
+  }, [shapes, paths, layers, globalStretch, booleans, strokeWidth])
 
   // Drag handlers
   const handleDragStart = useCallback((e: React.MouseEvent) => {
@@ -192,6 +204,10 @@ export function FloatingPreview() {
     })
   }, [strokeWidth, showFill])
 
+  const handleExportDxf = useCallback(() => {
+    exportDxf({ units: dxfUnits })
+  }, [dxfUnits])
+
   // Set up global mouse listeners for drag and resize
   useEffect(() => {
     if (isDragging) {
@@ -245,14 +261,40 @@ export function FloatingPreview() {
               className={styles.svgPreview}
               preserveAspectRatio="xMidYMid meet"
             >
-              <path 
-                d={svgData.pathD}
-                fill={showFill ? "currentColor" : "none"}
-                stroke="currentColor"
-                strokeWidth={svgData.scaledStrokeWidth}
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
+              {svgData.pathDs.map((pathD, i) => (
+                <path 
+                  key={i}
+                  d={pathD}
+                  fill={showFill ? "currentColor" : "none"}
+                  stroke="currentColor"
+                  strokeWidth={svgData.scaledStrokeWidth}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              ))}
+              {svgData.offsetDs.map((pathD, i) => (
+                <path 
+                  key={`offset-${i}`}
+                  d={pathD}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={svgData.scaledStrokeWidth}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              ))}
+              {svgData.booleanDs.map((pathD, i) => (
+                <path 
+                  key={`boolean-${i}`}
+                  d={pathD}
+                  fill={showFill ? "currentColor" : "none"}
+                  fillRule="evenodd"
+                  stroke="currentColor"
+                  strokeWidth={svgData.scaledStrokeWidth}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              ))}
             </svg>
           </div>
         ) : (
@@ -297,6 +339,27 @@ export function FloatingPreview() {
         >
           Export SVG
         </button>
+        
+        {/* DXF export (true arcs and lines for CNC / laser) */}
+        <div className={styles.exportRow}>
+          <select
+            className={styles.unitSelect}
+            value={dxfUnits}
+            onChange={(e) => setDxfUnits(e.target.value as DxfUnits)}
+            title="DXF units (converted from the document units)"
+          >
+            <option value="mm">mm</option>
+            <option value="inch">inch</option>
+          </select>
+          <button 
+            className={`${styles.exportButton} ${styles.exportButtonInline}`}
+            onClick={handleExportDxf}
+            disabled={!svgData}
+            title="Export DXF with arcs, lines, ellipses and splines"
+          >
+            Export DXF
+          </button>
+        </div>
       </div>
       
       {/* Resize handles */}
@@ -19,8 +19,14 @@ import { useViewportStore, screenToWorld } from '../../stores/viewportStore'
 import { useCanvasStore } from '../../stores/canvasStore'
 import { ShapeListItem } from './ShapeListItem'
 import { PathInfo } from './PathInfo'
+import { PathList } from './PathList'
+import { LayerList } from './LayerList'
+import { VariableList } from './VariableList'
 import { SvgPreview } from './SvgPreview'
 import { createCircle } from '../../geometry/shapes/Circle'
+import { createEllipse } from '../../geometry/shapes/Ellipse'
+import { createRoundedRect, createRegularPolygon } from '../../geometry/shapes/RoundedPolygon'
+import { createPin } from '../../geometry/shapes/Pin'
 import styles from './HierarchyPanel.module.css'
 import { DEFAULT_CIRCLE_RADIUS, DND_ACTIVATION_DISTANCE } from '../../constants'
 
@@ -29,6 +35,7 @@ export function HierarchyPanel() {
   const shapeOrder = useDocumentStore(state => state.shapeOrder)
   const reorderShapes = useDocumentStore(state => state.reorderShapes)
   const addShape = useDocumentStore(state => state.addShape)
+  const addShapeToPath = useDocumentStore(state => state.addShapeToPath)
   
   // Viewport state for positioning new circles
   const pan = useViewportStore(state => state.pan)
@@ -56,6 +63,12 @@ export function HierarchyPanel() {
       .filter((s): s is NonNullable<typeof s> => s !== undefined)
   }, [shapeOrder, shapeMap])
   
+  // Shapes that belong only to other paths, offered for sharing with the active path
+  const otherShapes = useMemo(() => {
+    const inActivePath = new Set(shapeOrder)
+    return shapes.filter(s => !inActivePath.has(s.id))
+  }, [shapes, shapeOrder])
+  
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event
     
@@ -82,8 +95,70 @@ export function HierarchyPanel() {
     addShape(newCircle)
   }
   
+  const handleAddEllipse = () => {
+    const screenCenter = { x: canvasWidth / 2, y: canvasHeight / 2 }
+    const worldCenter = screenToWorld(screenCenter, pan, zoom)
+    
+    // Create ellipse at viewport center with default radii
+    const newEllipse = createEllipse(
+      worldCenter,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      `Ellipse ${shapes.length + 1}`
+    )
+    addShape(newEllipse)
+  }
+  
+  const handleAddRoundedRect = () => {
+    const screenCenter = { x: canvasWidth / 2, y: canvasHeight / 2 }
+    const worldCenter = screenToWorld(screenCenter, pan, zoom)
+    
+    // Create rounded rect at viewport center with default size and corner radius
+    const newRect = createRoundedRect(
+      worldCenter,
+      undefined,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      `Rect ${shapes.length + 1}`
+    )
+    addShape(newRect)
+  }
+  
+  const handleAddPolygon = () => {
+    const screenCenter = { x: canvasWidth / 2, y: canvasHeight / 2 }
+    const worldCenter = screenToWorld(screenCenter, pan, zoom)
+    
+    // Create rounded regular polygon at viewport center with default sides and size
+    const newPolygon = createRegularPolygon(
+      worldCenter,
+      undefined,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      `Polygon ${shapes.length + 1}`
+    )
+    addShape(newPolygon)
+  }
+  
+  const handleAddPin = () => {
+    const screenCenter = { x: canvasWidth / 2, y: canvasHeight / 2 }
+    const worldCenter = screenToWorld(screenCenter, pan, zoom)
+    
+    // Create a sharp-cornered pin at viewport center
+    const newPin = createPin(worldCenter, undefined, undefined, `Pin ${shapes.length + 1}`)
+    addShape(newPin)
+  }
+  
   return (
     <div className={styles.panel}>
+      <LayerList />
+      <PathList />
+      <VariableList />
       <PathInfo />
       
       <div className={styles.header}>
@@ -105,11 +180,47 @@ export function HierarchyPanel() {
             ))}
           </SortableContext>
         </DndContext>
+        
+        {otherShapes.length > 0 && (
+          <>
+            <div className={styles.sectionLabel}>In other paths</div>
+            {otherShapes.map(shape => (
+              <div key={shape.id} className={styles.item}>
+                <div className={styles.mainRow}>
+                  <div className={styles.itemContent}>
+                    <span className={styles.name}>{shape.name}</span>
+                  </div>
+                  <button
+                    className={`${styles.actionButton} ${styles.actionButtonRight}`}
+                    onClick={() => addShapeToPath(shape.id)}
+                    title="Use this shape in the active path too"
+                  >
+                    + Add
+                  </button>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
       </div>
       
-      <button className={styles.addButton} onClick={handleAddCircle}>
-        + Add Circle
-      </button>
+      <div className={styles.addRow}>
+        <button className={styles.addButton} onClick={handleAddCircle}>
+          + Add Circle
+        </button>
+        <button className={styles.addButton} onClick={handleAddEllipse}>
+          + Add Ellipse
+        </button>
+        <button className={styles.addButton} onClick={handleAddRoundedRect}>
+          + Add Rect
+        </button>
+        <button className={styles.addButton} onClick={handleAddPolygon}>
+          + Add Polygon
+        </button>
+        <button className={styles.addButton} onClick={handleAddPin}>
+          + Add Pin
+        </button>
+      </div>
       
       <SvgPreview />
     </div>
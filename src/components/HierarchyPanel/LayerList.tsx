@@ -0,0 +1,235 @@
+import { useState, useRef, useEffect } from 'react'
+import { X as DeleteIcon, Eye, EyeOff, Lock, Unlock } from 'lucide-react'
+import { useDocumentStore } from '../../stores/documentStore'
+import type { Layer } from '../../types'
+import { getLayerOf } from '../../utils/layers'
+import styles from './HierarchyPanel.module.css'
+
+// Colors offered when a layer style is first turned on
+const DEFAULT_LAYER_STROKE = '#ffffff'
+const DEFAULT_LAYER_FILL = '#4a4a4a'
+
+interface LayerListItemProps {
+  layer: Layer
+  isActive: boolean
+  canDelete: boolean
+}
+
+function LayerListItem({ layer, isActive, canDelete }: LayerListItemProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [editName, setEditName] = useState(layer.name)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const setActiveLayer = useDocumentStore(state => state.setActiveLayer)
+  const renameLayer = useDocumentStore(state => state.renameLayer)
+  const removeLayer = useDocumentStore(state => state.removeLayer)
+  const toggleLayerVisible = useDocumentStore(state => state.toggleLayerVisible)
+  const toggleLayerLocked = useDocumentStore(state => state.toggleLayerLocked)
+  const setLayerStyle = useDocumentStore(state => state.setLayerStyle)
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus()
+      inputRef.current.select()
+    }
+  }, [isEditing])
+
+  const handleDoubleClick = () => {
+    setEditName(layer.name)
+    setIsEditing(true)
+  }
+
+  const handleNameChange = () => {
+    if (editName.trim()) {
+      renameLayer(layer.id, editName.trim())
+    }
+    setIsEditing(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleNameChange()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
+
+  const handleToggleVisible = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    toggleLayerVisible(layer.id)
+  }
+
+  const handleToggleLocked = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    toggleLayerLocked(layer.id)
+  }
+
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    removeLayer(layer.id)
+  }
+
+  return (
+    <div
+      className={`${styles.item} ${isActive ? styles.selected : ''}`}
+      onClick={() => setActiveLayer(layer.id)}
+    >
+      <div className={styles.mainRow}>
+        <div className={styles.buttonGroup}>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonLeft}`}
+            onClick={handleToggleVisible}
+            title={layer.visible ? 'Hide layer' : 'Show layer'}
+          >
+            {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+          </button>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonLeft}`}
+            onClick={handleToggleLocked}
+            title={layer.locked ? 'Unlock layer' : 'Lock layer (no canvas selection)'}
+          >
+            {layer.locked ? <Lock size={14} /> : <Unlock size={14} />}
+          </button>
+        </div>
+
+        <div className={styles.itemContent} onDoubleClick={handleDoubleClick}>
+          {isEditing ? (
+            <input
+              ref={inputRef}
+              type="text"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              onBlur={handleNameChange}
+              onKeyDown={handleKeyDown}
+              className={styles.nameInput}
+            />
+          ) : (
+            <span className={styles.name}>{layer.name}</span>
+          )}
+        </div>
+
+        {canDelete && (
+          <div className={styles.buttonGroup}>
+            <button
+              className={`${styles.actionButton} ${styles.actionButtonRight}`}
+              onClick={handleDelete}
+              title="Delete layer (its shapes and paths move to the first layer)"
+            >
+              <DeleteIcon size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Style of the active layer's paths */}
+      {isActive && (
+        <div className={styles.tensionSection} onClick={(e) => e.stopPropagation()}>
+          <div className={styles.tensionRow}>
+            <label className={styles.tensionCheckbox} title="Use a layer stroke color instead of the theme color">
+              <input
+                type="checkbox"
+                checked={layer.style.stroke !== undefined}
+                onChange={(e) => setLayerStyle(layer.id, { stroke: e.target.checked ? DEFAULT_LAYER_STROKE : undefined })}
+              />
+              <span className={styles.tensionLabelSmall}>Stroke</span>
+            </label>
+            {layer.style.stroke !== undefined && (
+              <input
+                type="color"
+                value={layer.style.stroke}
+                onChange={(e) => setLayerStyle(layer.id, { stroke: e.target.value })}
+                className={styles.layerColor}
+              />
+            )}
+            <label className={styles.tensionCheckbox} title="Fill this layer's paths">
+              <input
+                type="checkbox"
+                checked={layer.style.fill !== undefined}
+                onChange={(e) => setLayerStyle(layer.id, { fill: e.target.checked ? DEFAULT_LAYER_FILL : undefined })}
+              />
+              <span className={styles.tensionLabelSmall}>Fill</span>
+            </label>
+            {layer.style.fill !== undefined && (
+              <input
+                type="color"
+                value={layer.style.fill}
+                onChange={(e) => setLayerStyle(layer.id, { fill: e.target.value })}
+                className={styles.layerColor}
+              />
+            )}
+          </div>
+          <div className={styles.tensionRow}>
+            <span className={styles.tensionLabelSmall}>Width</span>
+            <input
+              type="range"
+              min="0"
+              max="400"
+              value={Math.round((layer.style.strokeWidth ?? 1) * 100)}
+              onChange={(e) => setLayerStyle(layer.id, { strokeWidth: parseInt(e.target.value) / 100 })}
+              className={styles.tensionSliderSmall}
+              title="Stroke width relative to the default"
+            />
+            <span className={styles.tensionValueSmall}>
+              {(layer.style.strokeWidth ?? 1).toFixed(2)}×
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * List of the document's layers. The active layer receives new shapes and
+ * paths and shows its style controls.
+ */
+export function LayerList() {
+  const layers = useDocumentStore(state => state.layers)
+  const activeLayerId = useDocumentStore(state => state.activeLayerId)
+  const addLayer = useDocumentStore(state => state.addLayer)
+
+  return (
+    <div className={styles.pathList}>
+      <div className={styles.pathListHeader}>
+        <span className={styles.title}>LAYERS</span>
+        <button className={styles.actionButton} onClick={addLayer} title="Add a new layer">
+          + New
+        </button>
+      </div>
+      {layers.map(layer => (
+        <LayerListItem
+          key={layer.id}
+          layer={layer}
+          isActive={layer.id === activeLayerId}
+          canDelete={layers.length > 1}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface LayerSelectProps {
+  value: string | undefined
+  onChange: (layerId: string) => void
+}
+
+/**
+ * Dropdown for moving a shape or path to another layer
+ */
+export function LayerSelect({ value, onChange }: LayerSelectProps) {
+  const layers = useDocumentStore(state => state.layers)
+
+  return (
+    <select
+      className={styles.layerSelect}
+      value={getLayerOf({ layerId: value }, layers)?.id}
+      onChange={(e) => onChange(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      title="Layer"
+    >
+      {layers.map(layer => (
+        <option key={layer.id} value={layer.id}>{layer.name}</option>
+      ))}
+    </select>
+  )
+}
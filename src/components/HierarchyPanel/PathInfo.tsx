@@ -1,9 +1,12 @@
-import { useMemo } from 'react'
+import { useMemo, useState, useEffect } from 'react'
 import { useDocumentStore } from '../../stores/documentStore'
 import { computeTangentHull } from '../../geometry/path'
 import { PathModeIcon, type PathMode } from '../icons/Icons'
 import { MIN_CIRCLES } from '../../constants'
-import type { CircleShape } from '../../types'
+import { LENGTH_UNITS, formatLength, formatLengthPower, unitSuffix, toDocumentUnits, fromDocumentUnits } from '../../utils/units'
+import { evaluateExpression } from '../../utils/expression'
+import { useAreaProperties } from '../../hooks/useAreaProperties'
+import type { LengthUnit } from '../../types'
 import styles from './HierarchyPanel.module.css'
 
 // Human-readable mode names for tooltip
@@ -15,6 +18,180 @@ const pathModeLabels: Record<PathMode, string> = {
   'closed': 'Closed loop'
 }
 
+/**
+ * Document unit and scale (how long one world unit is in that unit)
+ */
+function UnitsRows() {
+  const units = useDocumentStore(state => state.units)
+  const setUnits = useDocumentStore(state => state.setUnits)
+  const [scaleText, setScaleText] = useState(`${units.scale}`)
+
+  useEffect(() => {
+    setScaleText(`${units.scale}`)
+  }, [units.scale])
+
+  const commitScale = () => {
+    const scale = parseFloat(scaleText)
+    if (scale > 0) {
+      setUnits({ scale })
+    } else {
+      setScaleText(`${units.scale}`)
+    }
+  }
+
+  return (
+    <>
+      <div className={styles.pathInfoRow}>
+        <span>Units</span>
+        <select
+          className={styles.layerSelect}
+          value={units.unit}
+          onChange={(e) => setUnits({ unit: e.target.value as LengthUnit })}
+          title="Unit lengths are measured and exported in"
+        >
+          {LENGTH_UNITS.map(u => (
+            <option key={u.unit} value={u.unit}>{u.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className={styles.pathInfoRow}>
+        <span>Scale</span>
+        <span title="Length of one canvas unit">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={scaleText}
+            onChange={(e) => setScaleText(e.target.value)}
+            onBlur={commitScale}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitScale() }}
+            className={styles.unitScaleInput}
+          />
+          <span className={styles.pathInfoValue}> {unitSuffix(units.unit)}</span>
+        </span>
+      </div>
+    </>
+  )
+}
+
+/**
+ * Area, centroid and second moments of the active path, while it is closed
+ */
+function AreaRows() {
+  const units = useDocumentStore(state => state.units)
+  const properties = useAreaProperties()
+  if (!properties) return null
+
+  const { area, centroid, ixx, iyy, ixy } = properties
+  return (
+    <>
+      <div className={styles.pathInfoRow}>
+        <span title="Positive when the path runs clockwise; figure-8 lobes wound the other way subtract">Area</span>
+        <span className={styles.pathInfoValue}>{formatLengthPower(area, units, 2)}</span>
+      </div>
+      <div className={styles.pathInfoRow}>
+        <span>Centroid</span>
+        <span className={styles.pathInfoValue}>{formatLength(centroid.x, units)}, {formatLength(centroid.y, units)}</span>
+      </div>
+      <div className={styles.pathInfoRow}>
+        <span title="Second moment of area about the horizontal axis through the centroid">Ix</span>
+        <span className={styles.pathInfoValue}>{formatLengthPower(ixx, units, 4)}</span>
+      </div>
+      <div className={styles.pathInfoRow}>
+        <span title="Second moment of area about the vertical axis through the centroid">Iy</span>
+        <span className={styles.pathInfoValue}>{formatLengthPower(iyy, units, 4)}</span>
+      </div>
+      <div className={styles.pathInfoRow}>
+        <span title="Product of inertia about the centroid">Ixy</span>
+        <span className={styles.pathInfoValue}>{formatLengthPower(ixy, units, 4)}</span>
+      </div>
+    </>
+  )
+}
+
+interface OffsetInputProps {
+  value: number  // Document units
+  onCommit: (value: number) => void
+}
+
+function OffsetInput({ value, onCommit }: OffsetInputProps) {
+  const [text, setText] = useState(`${+value.toFixed(4)}`)
+
+  useEffect(() => {
+    setText(`${+value.toFixed(4)}`)
+  }, [value])
+
+  const commit = () => {
+    try {
+      onCommit(evaluateExpression(text))
+    } catch {
+      setText(`${+value.toFixed(4)}`)
+    }
+  }
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit() }}
+      className={styles.unitScaleInput}
+    />
+  )
+}
+
+/**
+ * Offset outlines of the active path (binding channels, router templates,
+ * tool compensation), drawn dashed and exported as extra paths
+ */
+function OffsetRows() {
+  const activePathId = useDocumentStore(state => state.activePathId)
+  const path = useDocumentStore(state => state.paths.find(p => p.id === state.activePathId))
+  const units = useDocumentStore(state => state.units)
+  const setPathOffsets = useDocumentStore(state => state.setPathOffsets)
+
+  const offsets = path?.offsets ?? []
+  const suffix = unitSuffix(units.unit)
+
+  const setOffset = (index: number, value: number) => {
+    // A zero offset is the path itself, so it removes the offset
+    const next = offsets.map((offset, i) => i === index ? fromDocumentUnits(value, units) : offset)
+    setPathOffsets(activePathId, next.filter(offset => offset !== 0))
+  }
+
+  return (
+    <>
+      <div className={styles.pathInfoRow}>
+        <span title="Positive offsets grow outward, negative ones shrink inward">Offsets</span>
+        <button
+          className={styles.actionButton}
+          onClick={() => setPathOffsets(activePathId, [...offsets, fromDocumentUnits(1, units)])}
+          title="Add an offset outline"
+        >
+          + Offset
+        </button>
+      </div>
+      {offsets.map((offset, index) => (
+        <div key={index} className={styles.pathInfoRow}>
+          <span className={styles.pathInfoValue}>{offset > 0 ? 'Outward' : 'Inward'}</span>
+          <span>
+            <OffsetInput value={toDocumentUnits(offset, units)} onCommit={(value) => setOffset(index, value)} />
+            <span className={styles.pathInfoValue}> {suffix} </span>
+            <button
+              className={styles.actionButton}
+              onClick={() => setPathOffsets(activePathId, offsets.filter((_, i) => i !== index))}
+              title="Remove offset"
+            >
+              ×
+            </button>
+          </span>
+        </div>
+      ))}
+    </>
+  )
+}
+
 export function PathInfo() {
   const shapes = useDocumentStore(state => state.shapes)
   const shapeOrder = useDocumentStore(state => state.shapeOrder)
@@ -22,7 +199,9 @@ export function PathInfo() {
   const useStartPoint = useDocumentStore(state => state.useStartPoint)
   const useEndPoint = useDocumentStore(state => state.useEndPoint)
   const mirrorConfig = useDocumentStore(state => state.mirrorConfig)
+  const arrayConfig = useDocumentStore(state => state.arrayConfig)
   const cyclePathMode = useDocumentStore(state => state.cyclePathMode)
+  const units = useDocumentStore(state => state.units)
   
   // Derive current path mode from state
   const pathMode: PathMode = closedPath ? 'closed' 
@@ -32,17 +211,20 @@ export function PathInfo() {
     : 'tangent'
   
   const pathData = useMemo(() => {
-    const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
+    const circles = shapes
     if (circles.length < MIN_CIRCLES) return null
-    return computeTangentHull(circles, shapeOrder, 0, closedPath, useStartPoint, useEndPoint, mirrorConfig)
-  }, [shapes, shapeOrder, closedPath, useStartPoint, useEndPoint, mirrorConfig])
+    return computeTangentHull(circles, shapeOrder, 0, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
+  }, [shapes, shapeOrder, closedPath, useStartPoint, useEndPoint, mirrorConfig, arrayConfig])
 
   if (!pathData) {
     return (
       <div className={styles.pathInfo}>
         <div className={styles.pathInfoTitle}>PATH</div>
         <div className={styles.pathInfoContent}>
-          Add at least {MIN_CIRCLES} circle to create a path
+          <div className={styles.pathInfoRow}>
+            Add at least {MIN_CIRCLES} circle to create a path
+          </div>
+          <UnitsRows />
         </div>
       </div>
     )
@@ -63,6 +245,13 @@ export function PathInfo() {
             </button>
           </div>
         </div>
+        <div className={styles.pathInfoRow}>
+          <span>Length</span>
+          <span className={styles.pathInfoValue}>{formatLength(pathData.totalLength, units)}</span>
+        </div>
+        <AreaRows />
+        <OffsetRows />
+        <UnitsRows />
       </div>
     </div>
   )
@@ -0,0 +1,126 @@
+import { useState, useRef, useEffect } from 'react'
+import { X as DeleteIcon } from 'lucide-react'
+import { useDocumentStore } from '../../stores/documentStore'
+import type { PathConfig } from '../../types'
+import { LayerSelect } from './LayerList'
+import styles from './HierarchyPanel.module.css'
+
+interface PathListItemProps {
+  path: PathConfig
+  isActive: boolean
+  canDelete: boolean
+}
+
+function PathListItem({ path, isActive, canDelete }: PathListItemProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [editName, setEditName] = useState(path.name)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const setActivePath = useDocumentStore(state => state.setActivePath)
+  const renamePath = useDocumentStore(state => state.renamePath)
+  const removePath = useDocumentStore(state => state.removePath)
+  const setPathLayer = useDocumentStore(state => state.setPathLayer)
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus()
+      inputRef.current.select()
+    }
+  }, [isEditing])
+
+  const handleDoubleClick = () => {
+    setEditName(path.name)
+    setIsEditing(true)
+  }
+
+  const handleNameChange = () => {
+    if (editName.trim()) {
+      renamePath(path.id, editName.trim())
+    }
+    setIsEditing(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleNameChange()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
+
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    removePath(path.id)
+  }
+
+  return (
+    <div
+      className={`${styles.item} ${isActive ? styles.selected : ''}`}
+      onClick={() => setActivePath(path.id)}
+    >
+      <div className={styles.mainRow}>
+        <div className={styles.itemContent} onDoubleClick={handleDoubleClick}>
+          {isEditing ? (
+            <input
+              ref={inputRef}
+              type="text"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              onBlur={handleNameChange}
+              onKeyDown={handleKeyDown}
+              className={styles.nameInput}
+            />
+          ) : (
+            <span className={styles.name}>{path.name}</span>
+          )}
+          <span className={styles.radius}>{path.shapeOrder.length} shapes</span>
+        </div>
+        
+        {isActive && (
+          <LayerSelect value={path.layerId} onChange={(layerId) => setPathLayer(path.id, layerId)} />
+        )}
+
+        {canDelete && (
+          <div className={styles.buttonGroup}>
+            <button
+              className={`${styles.actionButton} ${styles.actionButtonRight}`}
+              onClick={handleDelete}
+              title="Delete path (and shapes no other path uses)"
+            >
+              <DeleteIcon size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * List of the document's paths. Clicking a path makes it the one the shape
+ * list, path settings and canvas handles edit.
+ */
+export function PathList() {
+  const paths = useDocumentStore(state => state.paths)
+  const activePathId = useDocumentStore(state => state.activePathId)
+  const addPath = useDocumentStore(state => state.addPath)
+
+  return (
+    <div className={styles.pathList}>
+      <div className={styles.pathListHeader}>
+        <span className={styles.title}>PATHS</span>
+        <button className={styles.actionButton} onClick={addPath} title="Add a new empty path">
+          + New
+        </button>
+      </div>
+      {paths.map(path => (
+        <PathListItem
+          key={path.id}
+          path={path}
+          isActive={path.id === activePathId}
+          canDelete={paths.length > 1}
+        />
+      ))}
+    </div>
+  )
+}
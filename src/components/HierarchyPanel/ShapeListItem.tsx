@@ -3,9 +3,13 @@ import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { useDocumentStore } from '../../stores/documentStore'
 import { useSelectionStore } from '../../stores/selectionStore'
-import { FlipHorizontal2 as MirrorIcon, X as DeleteIcon } from 'lucide-react'
-import type { Shape, CircleShape } from '../../types'
-import { MIN_CIRCLES } from '../../constants'
+import { FlipHorizontal2 as MirrorIcon, X as DeleteIcon, Scissors as SeamIcon, MoveHorizontal as SeamCrossIcon, Merge as SeamWrapIcon } from 'lucide-react'
+import type { Shape } from '../../types'
+import { MIN_CIRCLES, MIN_POLYGON_SIDES, MAX_POLYGON_SIDES, MAX_PIN_FILLET } from '../../constants'
+import { getEffectiveCornerRadius, getInscribedRadius } from '../../geometry/shapes/RoundedPolygon'
+import { getTangentShape } from '../../geometry/shapes/registry'
+import { LayerSelect } from './LayerList'
+import { formatLength } from '../../utils/units'
 import styles from './HierarchyPanel.module.css'
 
 interface ShapeListItemProps {
@@ -20,13 +24,20 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
   
   const shapes = useDocumentStore(state => state.shapes)
   const removeShape = useDocumentStore(state => state.removeShape)
+  const removeShapeFromPath = useDocumentStore(state => state.removeShapeFromPath)
+  const paths = useDocumentStore(state => state.paths)
+  const activePathId = useDocumentStore(state => state.activePathId)
   const renameShape = useDocumentStore(state => state.renameShape)
   const toggleDirection = useDocumentStore(state => state.toggleDirection)
   const toggleMirror = useDocumentStore(state => state.toggleMirror)
+  const cycleSeam = useDocumentStore(state => state.cycleSeam)
+  const units = useDocumentStore(state => state.units)
   const setEntryOffset = useDocumentStore(state => state.setEntryOffset)
   const setExitOffset = useDocumentStore(state => state.setExitOffset)
   const setEntryTangentLength = useDocumentStore(state => state.setEntryTangentLength)
   const setExitTangentLength = useDocumentStore(state => state.setExitTangentLength)
+  const updateShape = useDocumentStore(state => state.updateShape)
+  const setShapeLayer = useDocumentStore(state => state.setShapeLayer)
   
   const selectedIds = useSelectionStore(state => state.selectedIds)
   const select = useSelectionStore(state => state.select)
@@ -84,6 +95,11 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
     removeShape(shape.id)
   }
   
+  const handleRemoveFromPath = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    removeShapeFromPath(shape.id)
+  }
+  
   const handleToggleDirection = (e: React.MouseEvent) => {
     e.stopPropagation()
     toggleDirection(shape.id)
@@ -94,14 +110,17 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
     toggleMirror(shape.id)
   }
   
-  const radiusDisplay = shape.type === 'circle' 
-    ? `r: ${shape.radius % 1 === 0 ? shape.radius : shape.radius.toFixed(1)}`
-    : ''
+  const handleCycleSeam = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    cycleSeam(shape.id)
+  }
+  
+  const radiusDisplay = getTangentShape(shape).formatSize(shape, r => formatLength(r, units))
   
-  const direction = shape.type === 'circle' ? shape.direction : 'cw'
+  const direction = shape.direction
   
-  // Get circle for tangent controls
-  const circle = shape.type === 'circle' ? shape as CircleShape : null
+  // Every shape carries the tangent settings
+  const circle = shape
   
   // Tangent offset values (in degrees for display)
   const entryOffsetDegrees = ((circle?.entryOffset ?? 0) * 180 / Math.PI)
@@ -161,6 +180,22 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
     setExitTangentLength(shape.id, undefined)
   }
   
+  // Handlers for rounded polygon geometry
+  const handleCornerRadiusChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    e.stopPropagation()
+    updateShape(shape.id, { cornerRadius: parseInt(e.target.value) })
+  }
+  
+  const handleSidesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    e.stopPropagation()
+    updateShape(shape.id, { sides: parseInt(e.target.value) })
+  }
+  
+  const handleFilletChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    e.stopPropagation()
+    updateShape(shape.id, { fillet: parseInt(e.target.value) })
+  }
+  
   const toggleAdvanced = (e: React.MouseEvent) => {
     e.stopPropagation()
     setShowAdvanced(!showAdvanced)
@@ -173,8 +208,10 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
   const isExitTangentLengthDefault = exitTangentLength === 1.0
   
   // Can only delete if more than MIN_CIRCLES exist (must keep at least MIN_CIRCLES)
-  const circleCount = shapes.filter(s => s.type === 'circle').length
-  const canDelete = circleCount > MIN_CIRCLES
+  const canDelete = shapes.length > MIN_CIRCLES
+  
+  // Shared shapes can be dropped from this path while other paths keep them
+  const isShared = paths.some(p => p.id !== activePathId && p.shapeOrder.includes(shape.id))
   
   return (
     <div
@@ -222,6 +259,28 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
             <MirrorIcon size={14} />
           </button>
           
+          {circle?.mirrored && (
+            <button
+              className={`${styles.actionButton} ${circle.seam ? styles.actionButtonActive : ''}`}
+              onClick={handleCycleSeam}
+              title={
+                circle.seam === 'cross' ? 'Mirror seam: crosses straight to its copy (click to wrap)'
+                  : circle.seam === 'wrap' ? 'Mirror seam: wraps once on the plane (click to clear)'
+                  : 'Make the path cross the mirror plane here (click to set)'
+              }
+            >
+              {circle.seam === 'cross' ? <SeamCrossIcon size={14} />
+                : circle.seam === 'wrap' ? <SeamWrapIcon size={14} />
+                : <SeamIcon size={14} />}
+            </button>
+          )}
+          
+          {isShared && (
+            <button className={styles.actionButton} onClick={handleRemoveFromPath} title="Remove from this path (other paths keep it)">
+              −
+            </button>
+          )}
+          
           {canDelete && (
             <button className={styles.actionButton} onClick={handleDelete} title="Delete shape">
               <DeleteIcon size={14} />
@@ -230,8 +289,8 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
         </div>
       </div>
       
-      {/* Advanced controls for circles */}
-      {shape.type === 'circle' && (
+      {/* Advanced controls (offsets and tangent lengths) */}
+      {(
         <div className={styles.tensionSection} onClick={(e) => e.stopPropagation()}>
           {/* Toggle for advanced settings */}
           <div className={styles.tensionRow}>
@@ -248,6 +307,75 @@ export function ShapeListItem({ shape }: ShapeListItemProps) {
           {/* Advanced: Offset and tangent length controls */}
           {showAdvanced && (
             <div className={styles.advancedTension}>
+              <div className={styles.tensionRow}>
+                <span className={styles.tensionLabelSmall}>Layer</span>
+                <LayerSelect value={shape.layerId} onChange={(layerId) => setShapeLayer(shape.id, layerId)} />
+              </div>
+              
+              {/* Rounded polygon geometry */}
+              {shape.type === 'rounded-polygon' && (
+                <>
+                  <div className={styles.sectionLabel}>Shape</div>
+                  
+                  <div className={styles.tensionRow}>
+                    <span className={styles.tensionLabelSmall}>Corner</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max={Math.floor(getInscribedRadius(shape))}
+                      value={Math.round(getEffectiveCornerRadius(shape))}
+                      onChange={handleCornerRadiusChange}
+                      className={styles.tensionSliderSmall}
+                      title="Corner radius: how rounded the corners are"
+                    />
+                    <span className={styles.tensionValueSmall}>
+                      {Math.round(getEffectiveCornerRadius(shape))}
+                    </span>
+                  </div>
+                  
+                  {shape.polygon === 'regular' && (
+                    <div className={styles.tensionRow}>
+                      <span className={styles.tensionLabelSmall}>Sides</span>
+                      <input
+                        type="range"
+                        min={MIN_POLYGON_SIDES}
+                        max={MAX_POLYGON_SIDES}
+                        value={shape.sides}
+                        onChange={handleSidesChange}
+                        className={styles.tensionSliderSmall}
+                        title="Number of sides"
+                      />
+                      <span className={styles.tensionValueSmall}>
+                        {shape.sides}
+                      </span>
+                    </div>
+                  )}
+                </>
+              )}
+              
+              {/* Pin corner */}
+              {shape.type === 'pin' && (
+                <>
+                  <div className={styles.sectionLabel}>Corner</div>
+                  
+                  <div className={styles.tensionRow}>
+                    <span className={styles.tensionLabelSmall}>Fillet</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max={MAX_PIN_FILLET}
+                      value={shape.fillet}
+                      onChange={handleFilletChange}
+                      className={styles.tensionSliderSmall}
+                      title="Fillet radius: 0 keeps the corner sharp"
+                    />
+                    <span className={styles.tensionValueSmall}>
+                      {Math.round(shape.fillet)}
+                    </span>
+                  </div>
+                </>
+              )}
+              
               {/* Entry section */}
               <div className={styles.sectionLabel}>Entry</div>
               
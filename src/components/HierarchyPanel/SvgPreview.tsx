@@ -1,40 +1,36 @@
 import { useMemo, useState } from 'react'
 import { useDocumentStore } from '../../stores/documentStore'
-import { computeTangentHull } from '../../geometry/path'
+import { computePathHulls } from '../../geometry/path'
+import { computePathOffsets } from '../../geometry/offset'
+import { isOnVisibleLayer } from '../../utils/layers'
 import { pathSegmentsToSvgPath, calculatePathBounds } from '../../utils/fileIO'
 import { MIN_CIRCLES } from '../../constants'
-import type { CircleShape } from '../../types'
 import styles from './HierarchyPanel.module.css'
 
 export function SvgPreview() {
   const [showFill, setShowFill] = useState(false)
   
   const shapes = useDocumentStore(state => state.shapes)
-  const shapeOrder = useDocumentStore(state => state.shapeOrder)
+  const paths = useDocumentStore(state => state.paths)
+  const layers = useDocumentStore(state => state.layers)
   const globalStretch = useDocumentStore(state => state.globalStretch)
-  const closedPath = useDocumentStore(state => state.closedPath)
-  const useStartPoint = useDocumentStore(state => state.useStartPoint)
-  const useEndPoint = useDocumentStore(state => state.useEndPoint)
-  const mirrorConfig = useDocumentStore(state => state.mirrorConfig)
   
   const svgData = useMemo(() => {
-    const circles = shapes.filter((s): s is CircleShape => s.type === 'circle')
+    const circles = shapes
     if (circles.length < MIN_CIRCLES) return null
     
-    const pathData = computeTangentHull(
-      circles,
-      shapeOrder,
-      globalStretch,
-      closedPath,
-      useStartPoint,
-      useEndPoint,
-      mirrorConfig
-    )
+    const hulls = computePathHulls(circles, paths.filter(path => isOnVisibleLayer(path, layers)), globalStretch)
+      .filter(({ pathData }) => pathData.segments.length > 0)
     
-    if (pathData.segments.length === 0) return null
+    if (hulls.length === 0) return null
     
-    const svgPathD = pathSegmentsToSvgPath(pathData.segments, closedPath)
-    const bounds = calculatePathBounds(pathData.segments)
+    const pathDs = hulls.map(({ path, pathData }) => pathSegmentsToSvgPath(pathData.segments, path.closedPath))
+    // Offset outlines are previewed unfilled, as they are exported
+    const offsets = hulls.flatMap(({ path, pathData }) =>
+      computePathOffsets(pathData, path).map(offsetData => ({ path, pathData: offsetData }))
+    )
+    const offsetDs = offsets.map(({ path, pathData }) => pathSegmentsToSvgPath(pathData.segments, path.closedPath))
+    const bounds = calculatePathBounds([...hulls, ...offsets].flatMap(({ pathData }) => pathData.segments))
     
     // Add some padding
     const padding = 10
@@ -44,12 +40,13 @@ export function SvgPreview() {
     const viewBoxHeight = bounds.maxY - bounds.minY + padding * 2
     
     return {
-      pathD: svgPathD,
+      pathDs,
+      offsetDs,
       viewBox: `${viewBoxX.toFixed(3)} ${viewBoxY.toFixed(3)} ${viewBoxWidth.toFixed(3)} ${viewBoxHeight.toFixed(3)}`,
       width: viewBoxWidth,
       height: viewBoxHeight
     }
-  }, [shapes, shapeOrder, globalStretch, closedPath, useStartPoint, useEndPoint, mirrorConfig])
+  }, [shapes, paths, layers, globalStretch])
   
   if (!svgData) {
     return (
@@ -83,15 +80,30 @@ export function SvgPreview() {
           className={styles.svgPreview}
           preserveAspectRatio="xMidYMid meet"
         >
-          <path 
-            d={svgData.pathD}
-            fill={showFill ? "currentColor" : "none"}
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            vectorEffect="non-scaling-stroke"
-          />
+          {svgData.pathDs.map((pathD, i) => (
+            <path 
+              key={i}
+              d={pathD}
+              fill={showFill ? "currentColor" : "none"}
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {svgData.offsetDs.map((pathD, i) => (
+            <path 
+              key={`offset-${i}`}
+              d={pathD}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
         </svg>
       </div>
     </div>
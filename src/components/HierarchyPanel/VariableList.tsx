@@ -0,0 +1,130 @@
+import { useState, useMemo } from 'react'
+import { X as DeleteIcon } from 'lucide-react'
+import { useDocumentStore } from '../../stores/documentStore'
+import { useNotificationStore } from '../../stores/notificationStore'
+import type { Variable } from '../../types'
+import { evaluateVariables, renameError } from '../../utils/variables'
+import styles from './HierarchyPanel.module.css'
+
+interface VariableCellProps {
+  value: string
+  className: string
+  title: string
+  onCommit: (value: string) => void
+}
+
+/**
+ * Text input that commits on blur or Enter and reverts on Escape
+ */
+function VariableCell({ value, className, title, onCommit }: VariableCellProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft === null) return
+    setDraft(null)
+    if (draft.trim() !== value) onCommit(draft.trim())
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commit()
+    } else if (e.key === 'Escape') {
+      setDraft(null)
+    }
+  }
+
+  return (
+    <input
+      type="text"
+      className={className}
+      value={draft ?? value}
+      onFocus={() => setDraft(value)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      title={title}
+      spellCheck={false}
+    />
+  )
+}
+
+interface VariableRowProps {
+  variable: Variable
+  value: number | undefined
+  error: string | undefined
+}
+
+function VariableRow({ variable, value, error }: VariableRowProps) {
+  const updateVariable = useDocumentStore(state => state.updateVariable)
+  const removeVariable = useDocumentStore(state => state.removeVariable)
+
+  const handleRename = (name: string) => {
+    const error = renameError(useDocumentStore.getState().variables, variable.id, name)
+    if (error) {
+      useNotificationStore.getState().warning(`Can't rename ${variable.name}`, error)
+      return
+    }
+    updateVariable(variable.id, { name })
+  }
+
+  return (
+    <div className={styles.variableRow}>
+      <VariableCell
+        value={variable.name}
+        className={styles.variableName}
+        title="Name (renaming updates every expression that uses it)"
+        onCommit={handleRename}
+      />
+      <span className={styles.variableEquals}>=</span>
+      <VariableCell
+        value={variable.expression}
+        className={styles.variableExpression}
+        title="Expression, e.g. 0.55 * scaleLength"
+        onCommit={(expression) => updateVariable(variable.id, { expression })}
+      />
+      <span
+        className={`${styles.variableValue} ${error ? styles.variableError : ''}`}
+        title={error ?? 'Current value'}
+      >
+        {error ? '⚠' : `${+(value ?? 0).toFixed(4)}`}
+      </span>
+      <button
+        className={`${styles.actionButton} ${styles.actionButtonRight}`}
+        onClick={() => removeVariable(variable.id)}
+        title="Delete variable (bound fields keep their last values)"
+      >
+        <DeleteIcon size={14} />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Table of the document's named variables. Circle fields set to an
+ * expression over them in the inspector update whenever they change.
+ */
+export function VariableList() {
+  const variables = useDocumentStore(state => state.variables)
+  const addVariable = useDocumentStore(state => state.addVariable)
+
+  const { values, errors } = useMemo(() => evaluateVariables(variables), [variables])
+
+  return (
+    <div className={styles.pathList}>
+      <div className={styles.pathListHeader}>
+        <span className={styles.title}>VARIABLES</span>
+        <button className={styles.actionButton} onClick={addVariable} title="Add a new variable">
+          + New
+        </button>
+      </div>
+      {variables.map(variable => (
+        <VariableRow
+          key={variable.id}
+          variable={variable}
+          value={values[variable.name]}
+          error={errors[variable.id]}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef } from 'react'
+import { useHistoryStore, childrenOf, type HistoryEntry } from '../../stores/historyStore'
+import { useSettingsStore } from '../../stores/settingsStore'
+import styles from './HistoryPanel.module.css'
+
+interface HistoryRow {
+  entry: HistoryEntry
+  depth: number        // How many branches off the first line of edits
+  startsBranch: boolean // Made after undoing past its parent's first child
+}
+
+/**
+ * Entries in tree order: each entry, then its first branch at the same
+ * depth and later branches (made after undoing) indented below it
+ */
+function flattenTree(entries: Record<number, HistoryEntry>, rootId: number): HistoryRow[] {
+  const rows: HistoryRow[] = []
+  const visit = (id: number, depth: number, startsBranch: boolean) => {
+    rows.push({ entry: entries[id], depth, startsBranch })
+    childrenOf(entries, id).forEach((child, index) => visit(child.id, index === 0 ? depth : depth + 1, index > 0))
+  }
+  visit(rootId, 0, false)
+  return rows
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+/**
+ * The undo tree as a list. Edits made after undoing start a branch instead
+ * of discarding what was undone; clicking any entry restores it.
+ */
+export function HistoryPanel() {
+  const isVisible = useSettingsStore(state => state.showHistory)
+  const setIsVisible = useSettingsStore(state => state.setShowHistory)
+  const entries = useHistoryStore(state => state.entries)
+  const rootId = useHistoryStore(state => state.rootId)
+  const currentId = useHistoryStore(state => state.currentId)
+  const jumpTo = useHistoryStore(state => state.jumpTo)
+  const currentRowRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    currentRowRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [currentId, isVisible])
+
+  if (!isVisible || rootId === null) return null
+
+  const rows = flattenTree(entries, rootId)
+  // Entries the document has been through to get where it is
+  const done = new Set<number>()
+  for (let id = currentId; id !== null; id = entries[id].parentId) done.add(id)
+  const branchCount = rows.filter(row => childrenOf(entries, row.entry.id).length > 1).length
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.header}>
+        <span className={styles.title}>HISTORY</span>
+        <span className={styles.count}>
+          {rows.length - 1} step{rows.length === 2 ? '' : 's'}
+          {branchCount > 0 && ` · ${branchCount} fork${branchCount === 1 ? '' : 's'}`}
+        </span>
+        <button className={styles.closeButton} onClick={() => setIsVisible(false)} title="Close history">
+          ×
+        </button>
+      </div>
+      <div className={styles.list}>
+        {rows.map(({ entry, depth, startsBranch }) => (
+          <button
+            key={entry.id}
+            ref={entry.id === currentId ? currentRowRef : undefined}
+            className={`${styles.row} ${entry.id === currentId ? styles.current : ''} ${done.has(entry.id) ? '' : styles.undone}`}
+            style={{ paddingLeft: 12 + depth * 12 }}
+            onClick={() => jumpTo(entry.id)}
+            title="Restore the document to this point"
+          >
+            <span className={styles.marker}>{startsBranch ? '↳' : '•'}</span>
+            <span className={styles.label}>{entry.label}</span>
+            <span className={styles.time}>{formatTime(entry.time)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { useDocumentStore } from '../../stores/documentStore'
+import { useNotificationStore } from '../../stores/notificationStore'
+import type { Shape, Constraint, ConstraintType } from '../../types'
+import { CONSTRAINT_LABELS, canConstrain, createConstraint, constraintError } from '../../geometry/constraints'
+import { toDocumentUnits, fromDocumentUnits, unitSuffix } from '../../utils/units'
+import { parseFieldEdit, applyFieldEdit } from '../../utils/expression'
+import styles from './Inspector.module.css'
+
+// Constraints further off than this (world units) are shown as unsatisfied
+const UNSATISFIED_TOLERANCE = 0.01
+
+const CONSTRAINT_TYPES = Object.keys(CONSTRAINT_LABELS) as ConstraintType[]
+
+interface ConstraintRowProps {
+  constraint: Constraint
+}
+
+function ConstraintRow({ constraint }: ConstraintRowProps) {
+  const shapes = useDocumentStore(state => state.shapes)
+  const paths = useDocumentStore(state => state.paths)
+  const units = useDocumentStore(state => state.units)
+  const removeConstraint = useDocumentStore(state => state.removeConstraint)
+  const setConstraintValue = useDocumentStore(state => state.setConstraintValue)
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const names = constraint.shapeIds.map(id => shapes.find(s => s.id === id)?.name ?? '?').join(' – ')
+  const error = constraintError(constraint, shapes, paths)
+  const unsatisfied = error !== null && error > UNSATISFIED_TOLERANCE
+  const display = constraint.value !== undefined ? `${+toDocumentUnits(constraint.value, units).toFixed(4)}` : ''
+
+  const commit = () => {
+    if (draft === null || constraint.value === undefined) return
+    setDraft(null)
+    try {
+      const edit = parseFieldEdit(draft)
+      if (!edit) return
+      const value = applyFieldEdit(edit, toDocumentUnits(constraint.value, units))
+      if (value >= 0) setConstraintValue(constraint.id, fromDocumentUnits(value, units))
+    } catch (e) {
+      useNotificationStore.getState().warning('Invalid distance', (e as Error).message)
+    }
+  }
+
+  return (
+    <div className={styles.constraintRow} title={unsatisfied ? 'Cannot be satisfied together with the other constraints' : names}>
+      <span className={`${styles.constraintName} ${unsatisfied ? styles.constraintBroken : ''}`}>
+        {unsatisfied ? '⚠ ' : ''}{CONSTRAINT_LABELS[constraint.type]}
+        {constraint.internal ? ' (inside)' : ''}
+      </span>
+      {constraint.value !== undefined && (
+        <>
+          <input
+            type="text"
+            inputMode="decimal"
+            className={styles.input}
+            value={draft ?? display}
+            onFocus={(e) => { setDraft(display); e.currentTarget.select() }}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') commit() }}
+            spellCheck={false}
+          />
+          <span className={styles.suffix}>{unitSuffix(units.unit)}</span>
+        </>
+      )}
+      <button className={styles.removeButton} onClick={() => removeConstraint(constraint.id)} title="Remove constraint">
+        ×
+      </button>
+    </div>
+  )
+}
+
+interface ConstraintListProps {
+  selected: Shape[]
+}
+
+/**
+ * Constraints on the selected shapes, with buttons to add the ones that fit
+ * the selection (one shape, or two)
+ */
+export function ConstraintList({ selected }: ConstraintListProps) {
+  const constraints = useDocumentStore(state => state.constraints)
+  const addConstraint = useDocumentStore(state => state.addConstraint)
+
+  const selectedIds = new Set(selected.map(shape => shape.id))
+  const related = constraints.filter(c => c.shapeIds.some(id => selectedIds.has(id)))
+  const available = CONSTRAINT_TYPES.filter(type => canConstrain(type, selected))
+
+  if (related.length === 0 && available.length === 0) return null
+
+  return (
+    <div className={styles.constraints}>
+      <div className={styles.sectionTitle}>CONSTRAINTS</div>
+      {related.map(constraint => (
+        <ConstraintRow key={constraint.id} constraint={constraint} />
+      ))}
+      {available.length > 0 && (
+        <div className={styles.constraintButtons}>
+          {available.map(type => (
+            <button
+              key={type}
+              className={styles.constraintButton}
+              onClick={() => addConstraint(createConstraint(type, selected))}
+              title={`Add a ${CONSTRAINT_LABELS[type].toLowerCase()} constraint`}
+            >
+              + {CONSTRAINT_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
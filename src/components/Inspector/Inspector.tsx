@@ -0,0 +1,282 @@
+import { useState, useMemo, useRef } from 'react'
+import { useDocumentStore } from '../../stores/documentStore'
+import { useSelectionStore } from '../../stores/selectionStore'
+import { useSettingsStore } from '../../stores/settingsStore'
+import { useNotificationStore } from '../../stores/notificationStore'
+import type { Shape, DocumentUnits, ExpressionField } from '../../types'
+import { getTangentShape } from '../../geometry/shapes/registry'
+import { toDocumentUnits, fromDocumentUnits, unitSuffix } from '../../utils/units'
+import { parseFieldEdit, applyFieldEdit, expressionIdentifiers, type FieldEdit } from '../../utils/expression'
+import { EXPRESSION_FIELDS, evaluateVariables, expressionErrors } from '../../utils/variables'
+import { MIN_CIRCLE_RADIUS, DEFAULT_TANGENT_LENGTH, MIN_TANGENT_LENGTH, MAX_TANGENT_LENGTH } from '../../constants'
+import { ConstraintList } from './ConstraintList'
+import styles from './Inspector.module.css'
+
+// Two shapes' values closer than this show as one value instead of "mixed"
+const SAME_VALUE_EPSILON = 1e-6
+
+/**
+ * One numeric property the inspector edits. Values are in display units
+ * (document units, degrees, percent). `get` returns null for shapes the
+ * property does not apply to. Fields with a `binding` can be driven by an
+ * expression over the document variables on circles.
+ */
+interface InspectorField {
+  key: string
+  label: string
+  title: string
+  suffix: (units: DocumentUnits) => string
+  get: (shape: Shape, units: DocumentUnits) => number | null
+  set: (shape: Shape, value: number, units: DocumentUnits) => Partial<Shape>
+  binding?: ExpressionField
+}
+
+// The default length is stored as unset, like the sliders do
+const tangentLengthUpdate = (percent: number) => {
+  const mult = Math.max(MIN_TANGENT_LENGTH, Math.min(MAX_TANGENT_LENGTH, percent / 100))
+  return mult === DEFAULT_TANGENT_LENGTH ? undefined : mult
+}
+
+const FIELDS: InspectorField[] = [
+  {
+    key: 'x',
+    label: 'X',
+    title: 'Center X',
+    suffix: units => unitSuffix(units.unit),
+    binding: 'centerX',
+    ...EXPRESSION_FIELDS.centerX
+  },
+  {
+    key: 'y',
+    label: 'Y',
+    title: 'Center Y',
+    suffix: units => unitSuffix(units.unit),
+    binding: 'centerY',
+    ...EXPRESSION_FIELDS.centerY
+  },
+  {
+    key: 'radius',
+    label: 'R',
+    title: 'Radius (scales the shape about its center)',
+    suffix: units => unitSuffix(units.unit),
+    binding: 'radius',
+    get: (shape, units) => {
+      const kind = getTangentShape(shape)
+      return kind.isPoint ? null : toDocumentUnits(kind.getScaleRadius(shape), units)
+    },
+    set: (shape, value, units) => {
+      const kind = getTangentShape(shape)
+      const radius = Math.max(MIN_CIRCLE_RADIUS, fromDocumentUnits(value, units))
+      return kind.scale(shape, radius / kind.getScaleRadius(shape))
+    }
+  },
+  {
+    key: 'entryOffset',
+    label: 'In°',
+    title: 'Entry offset in degrees',
+    suffix: () => '°',
+    binding: 'entryOffset',
+    ...EXPRESSION_FIELDS.entryOffset
+  },
+  {
+    key: 'exitOffset',
+    label: 'Out°',
+    title: 'Exit offset in degrees',
+    suffix: () => '°',
+    binding: 'exitOffset',
+    ...EXPRESSION_FIELDS.exitOffset
+  },
+  {
+    key: 'stretch',
+    label: 'Str%',
+    title: 'Stretch in percent (-100 to 100)',
+    suffix: () => '%',
+    binding: 'stretch',
+    ...EXPRESSION_FIELDS.stretch
+  },
+  {
+    key: 'entryLength',
+    label: 'In%',
+    title: 'Entry tangent length in percent',
+    suffix: () => '%',
+    get: shape => (shape.entryTangentLength ?? DEFAULT_TANGENT_LENGTH) * 100,
+    set: (_shape, value) => ({ entryTangentLength: tangentLengthUpdate(value) })
+  },
+  {
+    key: 'exitLength',
+    label: 'Out%',
+    title: 'Exit tangent length in percent',
+    suffix: () => '%',
+    get: shape => (shape.exitTangentLength ?? DEFAULT_TANGENT_LENGTH) * 100,
+    set: (_shape, value) => ({ exitTangentLength: tangentLengthUpdate(value) })
+  },
+  {
+    key: 'curvatureBlend',
+    label: 'Bl%',
+    title: 'Curvature blend in percent: eases the connectors into the arc with curvature-continuous (G2) curves (0 = plain tangent join)',
+    suffix: () => '%',
+    get: shape => (shape.curvatureBlend ?? 0) * 100,
+    set: (_shape, value) => {
+      const blend = Math.max(0, Math.min(1, value / 100))
+      return { curvatureBlend: blend === 0 ? undefined : blend }
+    }
+  }
+]
+
+/**
+ * The value shared by every shape, or null when they differ
+ */
+function commonValue(values: number[]): number | null {
+  if (values.length === 0) return null
+  return values.every(v => Math.abs(v - values[0]) < SAME_VALUE_EPSILON) ? values[0] : null
+}
+
+/**
+ * The expression every shape binds a field to, or null when they differ or
+ * some are unbound
+ */
+function commonExpression(shapes: Shape[], field: ExpressionField): string | null {
+  const expressions = shapes.map(shape => shape.type === 'circle' ? shape.expressions?.[field] : undefined)
+  const first = expressions[0]
+  return first !== undefined && expressions.every(e => e === first) ? first : null
+}
+
+interface InspectorRowProps {
+  field: InspectorField
+  shapes: Shape[]
+  units: DocumentUnits
+  scope: Record<string, number>  // Variable values
+}
+
+function InspectorRow({ field, shapes, units, scope }: InspectorRowProps) {
+  const updateShapes = useDocumentStore(state => state.updateShapes)
+  const setShapeExpressions = useDocumentStore(state => state.setShapeExpressions)
+  const [draft, setDraft] = useState<string | null>(null)
+  // Set by Escape so the blur that follows does not commit the draft
+  const cancelledRef = useRef(false)
+
+  const applicable = shapes.filter(shape => field.get(shape, units) !== null)
+  const value = commonValue(applicable.map(shape => field.get(shape, units) as number))
+  const display = value !== null ? `${+value.toFixed(4)}` : ''
+  const binding = field.binding
+  const expression = binding ? commonExpression(applicable, binding) : null
+  const bindingError = binding
+    ? applicable.map(shape => expressionErrors(shape, scope)[binding]).find(e => e !== undefined)
+    : undefined
+
+  const commit = () => {
+    if (cancelledRef.current) {
+      cancelledRef.current = false
+      return
+    }
+    if (draft === null) return
+    setDraft(null)
+
+    let edit: FieldEdit | null
+    try {
+      edit = parseFieldEdit(draft, scope)
+    } catch (error) {
+      useNotificationStore.getState().warning(`Invalid ${field.title.toLowerCase()}`, (error as Error).message)
+      return
+    }
+    if (!edit) return
+
+    // An expression over variables binds the field on circles, so it follows the variables
+    const circles = applicable.filter(shape => shape.type === 'circle')
+    if (binding && edit.kind === 'absolute' && expressionIdentifiers(edit.expression).length > 0 && circles.length > 0) {
+      setShapeExpressions(new Map(circles.map(shape => [shape.id, { [binding]: edit.expression }])))
+      return
+    }
+
+    // One batch update, so the edit is a single undo step. A typed value
+    // replaces any expression the field was bound to.
+    const updates = new Map<string, Partial<Shape>>()
+    for (const shape of applicable) {
+      const current = field.get(shape, units) as number
+      const update = field.set(shape, applyFieldEdit(edit, current), units)
+      if (binding && shape.type === 'circle' && shape.expressions?.[binding] !== undefined) {
+        const { [binding]: _unbound, ...expressions } = shape.expressions
+        updates.set(shape.id, { ...update, expressions: Object.keys(expressions).length > 0 ? expressions : undefined })
+      } else {
+        updates.set(shape.id, update)
+      }
+    }
+    updateShapes(updates)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commit()
+    } else if (e.key === 'Escape') {
+      cancelledRef.current = true
+      setDraft(null)
+      e.currentTarget.blur()
+    }
+  }
+
+  const title = bindingError
+    ? `${field.title}: ${bindingError}`
+    : expression !== null ? `${field.title} = ${expression}` : field.title
+
+  return (
+    <label className={styles.row} title={title}>
+      <span className={styles.label}>{field.label}</span>
+      <input
+        type="text"
+        inputMode="decimal"
+        className={`${styles.input} ${expression !== null ? styles.bound : ''} ${bindingError ? styles.boundBroken : ''}`}
+        value={draft ?? display}
+        placeholder={applicable.length > 0 ? 'mixed' : '—'}
+        disabled={applicable.length === 0}
+        onFocus={(e) => { setDraft(expression !== null ? `=${expression}` : display); e.currentTarget.select() }}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+      />
+      <span className={styles.suffix}>{field.suffix(units)}</span>
+    </label>
+  )
+}
+
+/**
+ * Numeric fields for the selected shapes. Accepts expressions ("=120/2") and
+ * relative edits ("+5", "*2") applied to each selected shape.
+ */
+export function Inspector() {
+  const shapes = useDocumentStore(state => state.shapes)
+  const units = useDocumentStore(state => state.units)
+  const variables = useDocumentStore(state => state.variables)
+  const selectedIds = useSelectionStore(state => state.selectedIds)
+  const isVisible = useSettingsStore(state => state.showInspector)
+  const setIsVisible = useSettingsStore(state => state.setShowInspector)
+
+  const selected = useMemo(
+    () => shapes.filter(shape => selectedIds.includes(shape.id)),
+    [shapes, selectedIds]
+  )
+
+  const scope = useMemo(() => evaluateVariables(variables).values, [variables])
+
+  if (!isVisible || selected.length === 0) return null
+
+  return (
+    <div className={styles.inspector}>
+      <div className={styles.header}>
+        <span className={styles.title}>
+          {selected.length === 1 ? selected[0].name.toUpperCase() : `${selected.length} SHAPES`}
+        </span>
+        <button className={styles.closeButton} onClick={() => setIsVisible(false)} title="Close inspector">
+          ×
+        </button>
+      </div>
+      <div className={styles.content}>
+        {FIELDS.map(field => (
+          <InspectorRow key={field.key} field={field} shapes={selected} units={units} scope={scope} />
+        ))}
+        <div className={styles.hint}>=expr sets a value (variables bind it) · +5 -5 *2 /2 change each shape</div>
+        <ConstraintList selected={selected} />
+      </div>
+    </div>
+  )
+}
@@ -1,25 +1,40 @@
 import { useState } from 'react'
 import { Menu } from './Menu'
 import { MenuItem } from './MenuItem'
-import { createNewDocument, saveDocument, loadDocument, exportSvg, loadPreset } from '../../utils/fileIO'
+import { createNewDocument, saveDocument, loadDocument, importSvg, exportSvg, exportDxf, loadPreset } from '../../utils/fileIO'
 import { fitToView, resetView } from '../../utils/viewportActions'
+import { promptPathOffsets, promptPathArray, promptBooleanOutline } from '../../utils/pathActions'
 import { useDocumentStore } from '../../stores/documentStore'
 import { useSettingsStore } from '../../stores/settingsStore'
 import { useDebugStore } from '../../stores/debugStore'
 import { useHistoryStore, undo, redo } from '../../stores/historyStore'
 import { useThemeStore } from '../../stores/themeStore'
 import { presets } from '../../utils/presets'
+import { defaultDxfUnits, dxfUnitsLabel } from '../../utils/dxf'
 import { themeList } from '../../themes'
 import styles from './MenuBar.module.css'
 
 export function MenuBar() {
   const [openMenu, setOpenMenu] = useState<string | null>(null)
   const fileName = useDocumentStore(state => state.fileName)
+  const dxfUnits = useDocumentStore(state => defaultDxfUnits(state.units))
   const toggleSnap = useSettingsStore(state => state.toggleSnap)
   const cycleMeasurementMode = useSettingsStore(state => state.cycleMeasurementMode)
   const toggleGrid = useSettingsStore(state => state.toggleGrid)
   const showSvgPreview = useSettingsStore(state => state.showSvgPreview)
   const toggleSvgPreview = useSettingsStore(state => state.toggleSvgPreview)
+  const showInspector = useSettingsStore(state => state.showInspector)
+  const toggleInspector = useSettingsStore(state => state.toggleInspector)
+  const showDiagnostics = useSettingsStore(state => state.showDiagnostics)
+  const toggleDiagnostics = useSettingsStore(state => state.toggleDiagnostics)
+  const showHistory = useSettingsStore(state => state.showHistory)
+  const toggleHistory = useSettingsStore(state => state.toggleHistory)
+  const showCentroid = useSettingsStore(state => state.showCentroid)
+  const toggleCentroid = useSettingsStore(state => state.toggleCentroid)
+  const showArea = useSettingsStore(state => state.showArea)
+  const toggleArea = useSettingsStore(state => state.toggleArea)
+  const showInertia = useSettingsStore(state => state.showInertia)
+  const toggleInertia = useSettingsStore(state => state.toggleInertia)
   
   // History state
   const canUndo = useHistoryStore(state => state.canUndo)
@@ -33,6 +48,7 @@ export function MenuBar() {
   const showCircleCenters = useDebugStore(state => state.showCircleCenters)
   const showArcDirection = useDebugStore(state => state.showArcDirection)
   const showMirrorPlaneNumbers = useDebugStore(state => state.showMirrorPlaneNumbers)
+  const showCurvatureComb = useDebugStore(state => state.showCurvatureComb)
   const toggleTangentPoints = useDebugStore(state => state.toggleTangentPoints)
   const toggleTangentLabels = useDebugStore(state => state.toggleTangentLabels)
   const toggleArcAngles = useDebugStore(state => state.toggleArcAngles)
@@ -40,6 +56,7 @@ export function MenuBar() {
   const toggleCircleCenters = useDebugStore(state => state.toggleCircleCenters)
   const toggleArcDirection = useDebugStore(state => state.toggleArcDirection)
   const toggleMirrorPlaneNumbers = useDebugStore(state => state.toggleMirrorPlaneNumbers)
+  const toggleCurvatureComb = useDebugStore(state => state.toggleCurvatureComb)
   const resetDebug = useDebugStore(state => state.resetDebug)
   
   // Profiling state
@@ -77,11 +94,36 @@ export function MenuBar() {
     closeMenu()
   }
   
+  const handleImportSvg = () => {
+    importSvg()
+    closeMenu()
+  }
+  
+  const handlePathOffsets = () => {
+    closeMenu()
+    promptPathOffsets()
+  }
+  
+  const handlePathArray = () => {
+    closeMenu()
+    promptPathArray()
+  }
+  
+  const handleBooleanOutline = () => {
+    closeMenu()
+    promptBooleanOutline()
+  }
+  
   const handleExportSvg = () => {
     exportSvg()
     closeMenu()
   }
   
+  const handleExportDxf = () => {
+    exportDxf()
+    closeMenu()
+  }
+  
   const handleLoadPreset = (presetIndex: number) => {
     const preset = presets[presetIndex]
     if (preset) {
@@ -110,6 +152,36 @@ export function MenuBar() {
     closeMenu()
   }
   
+  const handleToggleInspector = () => {
+    toggleInspector()
+    closeMenu()
+  }
+  
+  const handleToggleDiagnostics = () => {
+    toggleDiagnostics()
+    closeMenu()
+  }
+  
+  const handleToggleHistory = () => {
+    toggleHistory()
+    closeMenu()
+  }
+  
+  const handleToggleCentroid = () => {
+    toggleCentroid()
+    closeMenu()
+  }
+  
+  const handleToggleArea = () => {
+    toggleArea()
+    closeMenu()
+  }
+  
+  const handleToggleInertia = () => {
+    toggleInertia()
+    closeMenu()
+  }
+  
   const handleFitToView = () => {
     fitToView()
     closeMenu()
@@ -156,6 +228,11 @@ export function MenuBar() {
     closeMenu()
   }
   
+  const handleToggleCurvatureComb = () => {
+    toggleCurvatureComb()
+    closeMenu()
+  }
+  
   const handleResetDebug = () => {
     resetDebug()
     closeMenu()
@@ -225,7 +302,12 @@ export function MenuBar() {
           <MenuItem label="Open..." shortcut="⌘O" onClick={handleLoad} />
           <MenuItem label="Save" shortcut="⌘S" onClick={handleSave} />
           <div style={{ height: 1, background: 'var(--menu-border)', margin: '4px 0' }} />
+          <MenuItem label="Import SVG..." onClick={handleImportSvg} />
           <MenuItem label="Export SVG..." shortcut="⌘E" onClick={handleExportSvg} />
+          <MenuItem label={`Export DXF (${dxfUnitsLabel(dxfUnits)})...`} onClick={handleExportDxf} />
+          <MenuItem label="Path Offsets..." onClick={handlePathOffsets} />
+          <MenuItem label="Path Array..." onClick={handlePathArray} />
+          <MenuItem label="Boolean Outline..." onClick={handleBooleanOutline} />
           <div style={{ height: 1, background: 'var(--menu-border)', margin: '4px 0' }} />
           <div style={{ padding: '4px 12px', color: 'var(--text-muted)', fontSize: '11px' }}>
             Test Presets
@@ -266,6 +348,30 @@ export function MenuBar() {
             label={`${showSvgPreview ? '✓ ' : '   '}SVG Preview Window`} 
             onClick={handleToggleSvgPreview} 
           />
+          <MenuItem 
+            label={`${showInspector ? '✓ ' : '   '}Inspector`}
+            onClick={handleToggleInspector} 
+          />
+          <MenuItem 
+            label={`${showDiagnostics ? '✓ ' : '   '}Diagnostics`}
+            onClick={handleToggleDiagnostics} 
+          />
+          <MenuItem 
+            label={`${showHistory ? '✓ ' : '   '}History`}
+            onClick={handleToggleHistory} 
+          />
+          <MenuItem 
+            label={`${showCentroid ? '✓ ' : '   '}Centroid`}
+            onClick={handleToggleCentroid} 
+          />
+          <MenuItem 
+            label={`${showArea ? '✓ ' : '   '}Area`}
+            onClick={handleToggleArea} 
+          />
+          <MenuItem 
+            label={`${showInertia ? '✓ ' : '   '}Inertia Ellipse`}
+            onClick={handleToggleInertia} 
+          />
         </Menu>
         
         <Menu
@@ -317,6 +423,10 @@ export function MenuBar() {
             label={`${showMirrorPlaneNumbers ? '✓ ' : '   '}Mirror Planes/Sectors`} 
             onClick={handleToggleMirrorPlaneNumbers} 
           />
+          <MenuItem 
+            label={`${showCurvatureComb ? '✓ ' : '   '}Curvature Comb`} 
+            onClick={handleToggleCurvatureComb} 
+          />
           <div style={{ height: 1, background: 'var(--menu-border)', margin: '4px 0' }} />
           <div style={{ padding: '4px 12px', color: 'var(--text-muted)', fontSize: '11px' }}>
             Performance
@@ -1,13 +1,15 @@
 import { useState, useRef, useEffect, ReactNode, useCallback } from 'react'
 import { useSettingsStore } from '../../stores/settingsStore'
 import { useIsTouchDevice } from '../../hooks/useIsTouchDevice'
-import { useDocumentStore, MIRROR_PRESETS } from '../../stores/documentStore'
+import { useDocumentStore, MIRROR_PRESETS, findMirrorPresetIndex } from '../../stores/documentStore'
 import { useDebugStore } from '../../stores/debugStore'
 import { useHistoryStore, undo, redo } from '../../stores/historyStore'
 import { useThemeStore } from '../../stores/themeStore'
 import { fitToView } from '../../utils/viewportActions'
-import { createNewDocument, saveDocument, loadDocument, exportSvg, loadPreset } from '../../utils/fileIO'
+import { promptPathOffsets, promptPathArray, promptBooleanOutline } from '../../utils/pathActions'
+import { createNewDocument, saveDocument, loadDocument, importSvg, exportSvg, exportDxf, loadPreset } from '../../utils/fileIO'
 import { presets } from '../../utils/presets'
+import { defaultDxfUnits, dxfUnitsLabel } from '../../utils/dxf'
 import { themeList } from '../../themes'
 import { 
   Magnet as MagnetIcon,
@@ -29,6 +31,7 @@ import {
   FourWayMirrorIcon,
   SixWayMirrorIcon,
   EightWayMirrorIcon,
+  RotationalSymmetryIcon,
   type PathMode 
 } from '../icons/Icons'
 import { Tooltip } from '../Tooltip/Tooltip'
@@ -39,12 +42,11 @@ import type { MirrorConfig } from '../../types'
  * Get the display name for a mirror configuration
  */
 function getMirrorPresetName(config: MirrorConfig): string {
-  const preset = MIRROR_PRESETS.find(p => 
-    p.config.planeCount === config.planeCount && 
-    Math.abs(p.config.startAngle - config.startAngle) < 0.001
-  )
-  if (preset) return preset.name
-  return `${config.planeCount * 2}-way (${Math.round(config.startAngle * 180 / Math.PI)}°)`
+  const presetIndex = findMirrorPresetIndex(config)
+  if (presetIndex !== -1) return MIRROR_PRESETS[presetIndex].name
+  const startDegrees = Math.round(config.startAngle * 180 / Math.PI)
+  if (config.symmetry === 'cyclic') return `${config.planeCount}-fold rotation (${startDegrees}°)`
+  return `${config.planeCount * 2}-way (${startDegrees}°)`
 }
 
 /**
@@ -56,6 +58,9 @@ function getMirrorIcon(config: MirrorConfig) {
   if (planeCount === 0) {
     // No mirroring
     return <NoMirrorIcon size={20} />
+  } else if (config.symmetry === 'cyclic') {
+    // Rotation only: one spoke per sector
+    return <RotationalSymmetryIcon size={20} folds={planeCount} />
   } else if (planeCount === 1) {
     // 2-way: vertical or horizontal icon based on angle
     // startAngle = π/2 means vertical plane (left-right symmetry)
@@ -185,6 +190,18 @@ export function Toolbar() {
   const setIsolatePath = useSettingsStore(state => state.setIsolatePath)
   const showSvgPreview = useSettingsStore(state => state.showSvgPreview)
   const toggleSvgPreview = useSettingsStore(state => state.toggleSvgPreview)
+  const showInspector = useSettingsStore(state => state.showInspector)
+  const toggleInspector = useSettingsStore(state => state.toggleInspector)
+  const showDiagnostics = useSettingsStore(state => state.showDiagnostics)
+  const toggleDiagnostics = useSettingsStore(state => state.toggleDiagnostics)
+  const showHistory = useSettingsStore(state => state.showHistory)
+  const toggleHistory = useSettingsStore(state => state.toggleHistory)
+  const showCentroid = useSettingsStore(state => state.showCentroid)
+  const toggleCentroid = useSettingsStore(state => state.toggleCentroid)
+  const showArea = useSettingsStore(state => state.showArea)
+  const toggleArea = useSettingsStore(state => state.toggleArea)
+  const showInertia = useSettingsStore(state => state.showInertia)
+  const toggleInertia = useSettingsStore(state => state.toggleInertia)
   
   // Toggle isolate on touch devices (instead of hold)
   const handleIsolateToggle = useCallback(() => {
@@ -199,6 +216,7 @@ export function Toolbar() {
   const shapes = useDocumentStore(state => state.shapes)
   const cyclePathMode = useDocumentStore(state => state.cyclePathMode)
   const cycleMirrorPreset = useDocumentStore(state => state.cycleMirrorPreset)
+  const dxfUnits = useDocumentStore(state => defaultDxfUnits(state.units))
   
   // Derive current path mode from state
   const pathMode: PathMode = closedPath ? 'closed' 
@@ -228,6 +246,7 @@ export function Toolbar() {
   const showCircleCenters = useDebugStore(state => state.showCircleCenters)
   const showArcDirection = useDebugStore(state => state.showArcDirection)
   const showMirrorPlaneNumbers = useDebugStore(state => state.showMirrorPlaneNumbers)
+  const showCurvatureComb = useDebugStore(state => state.showCurvatureComb)
   const toggleTangentPoints = useDebugStore(state => state.toggleTangentPoints)
   const toggleTangentLabels = useDebugStore(state => state.toggleTangentLabels)
   const toggleArcAngles = useDebugStore(state => state.toggleArcAngles)
@@ -235,6 +254,7 @@ export function Toolbar() {
   const toggleCircleCenters = useDebugStore(state => state.toggleCircleCenters)
   const toggleArcDirection = useDebugStore(state => state.toggleArcDirection)
   const toggleMirrorPlaneNumbers = useDebugStore(state => state.toggleMirrorPlaneNumbers)
+  const toggleCurvatureComb = useDebugStore(state => state.toggleCurvatureComb)
   const resetDebug = useDebugStore(state => state.resetDebug)
   const profilingEnabled = useDebugStore(state => state.profilingEnabled)
   const showPerformanceOverlay = useDebugStore(state => state.showPerformanceOverlay)
@@ -248,7 +268,7 @@ export function Toolbar() {
   const setTheme = useThemeStore(state => state.setTheme)
   
   // Check if any shape has mirroring enabled
-  const hasMirroredShapes = shapes.some(s => s.type === 'circle' && s.mirrored)
+  const hasMirroredShapes = shapes.some(s => s.mirrored)
   
   const closeMenu = () => setOpenMenu(null)
   const toggleMenu = (menu: string) => setOpenMenu(openMenu === menu ? null : menu)
@@ -257,7 +277,12 @@ export function Toolbar() {
   const handleNew = () => { createNewDocument(); closeMenu() }
   const handleSave = () => { saveDocument(); closeMenu() }
   const handleLoad = () => { loadDocument(); closeMenu() }
+  const handleImportSvg = () => { importSvg(); closeMenu() }
   const handleExportSvg = () => { exportSvg(); closeMenu() }
+  const handleExportDxf = () => { exportDxf(); closeMenu() }
+  const handlePathOffsets = () => { closeMenu(); promptPathOffsets() }
+  const handlePathArray = () => { closeMenu(); promptPathArray() }
+  const handleBooleanOutline = () => { closeMenu(); promptBooleanOutline() }
   const handleLoadPreset = (index: number) => {
     const preset = presets[index]
     if (preset) loadPreset(preset)
@@ -285,7 +310,12 @@ export function Toolbar() {
           <MenuItem label="Open..." shortcut="⌘O" onClick={handleLoad} />
           <MenuItem label="Save" shortcut="⌘S" onClick={handleSave} />
           <MenuDivider />
+          <MenuItem label="Import SVG..." onClick={handleImportSvg} />
           <MenuItem label="Export SVG..." shortcut="⌘E" onClick={handleExportSvg} />
+          <MenuItem label={`Export DXF (${dxfUnitsLabel(dxfUnits)})...`} onClick={handleExportDxf} />
+          <MenuItem label="Path Offsets..." onClick={handlePathOffsets} />
+          <MenuItem label="Path Array..." onClick={handlePathArray} />
+          <MenuItem label="Boolean Outline..." onClick={handleBooleanOutline} />
           <MenuDivider />
           <MenuLabel>Test Presets</MenuLabel>
           {presets.map((preset, index) => (
@@ -421,6 +451,30 @@ export function Toolbar() {
             label={`${showSvgPreview ? '✓ ' : '   '}SVG Preview Window`} 
             onClick={handleToggleSetting(toggleSvgPreview)} 
           />
+          <MenuItem 
+            label={`${showInspector ? '✓ ' : '   '}Inspector`} 
+            onClick={handleToggleSetting(toggleInspector)} 
+          />
+          <MenuItem 
+            label={`${showDiagnostics ? '✓ ' : '   '}Diagnostics`} 
+            onClick={handleToggleSetting(toggleDiagnostics)} 
+          />
+          <MenuItem 
+            label={`${showHistory ? '✓ ' : '   '}History`} 
+            onClick={handleToggleSetting(toggleHistory)} 
+          />
+          <MenuItem 
+            label={`${showCentroid ? '✓ ' : '   '}Centroid`} 
+            onClick={handleToggleSetting(toggleCentroid)} 
+          />
+          <MenuItem 
+            label={`${showArea ? '✓ ' : '   '}Area`} 
+            onClick={handleToggleSetting(toggleArea)} 
+          />
+          <MenuItem 
+            label={`${showInertia ? '✓ ' : '   '}Inertia Ellipse`} 
+            onClick={handleToggleSetting(toggleInertia)} 
+          />
           
           <MenuDivider />
           <MenuLabel>Theme</MenuLabel>
@@ -462,6 +516,10 @@ export function Toolbar() {
             label={`${showMirrorPlaneNumbers ? '✓ ' : '   '}Mirror Planes/Sectors`} 
             onClick={handleToggleSetting(toggleMirrorPlaneNumbers)} 
           />
+          <MenuItem 
+            label={`${showCurvatureComb ? '✓ ' : '   '}Curvature Comb`} 
+            onClick={handleToggleSetting(toggleCurvatureComb)} 
+          />
           <MenuItem label="Hide All Debug" onClick={handleToggleSetting(resetDebug)} />
           
           <MenuDivider />
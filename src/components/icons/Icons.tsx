@@ -382,6 +382,58 @@ export function EightWayMirrorIcon({ size = 16, className, color = 'currentColor
   )
 }
 
+interface RotationalSymmetryIconProps extends IconProps {
+  folds: number
+}
+
+/**
+ * Rotational Symmetry Icon - A turning arrow ringed by one spoke per sector
+ * (N-fold rotation without reflection)
+ */
+export function RotationalSymmetryIcon({ size = 16, className, color = 'currentColor', folds }: RotationalSymmetryIconProps) {
+  // Spokes start at the top and run clockwise, one per sector
+  const spokes = Array.from({ length: Math.max(folds, 1) }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / Math.max(folds, 1)
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    return `M${(12 + 8 * cos).toFixed(3)} ${(12 + 8 * sin).toFixed(3)} L${(12 + 11 * cos).toFixed(3)} ${(12 + 11 * sin).toFixed(3)}`
+  })
+  return (
+    <svg 
+      width={size} 
+      height={size} 
+      viewBox="0 0 24 24" 
+      fill="none" 
+      className={className}
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      {/* Three-quarter turn, clockwise from the top */}
+      <path 
+        d="M12 7 A5 5 0 1 1 7 12" 
+        stroke={color} 
+        strokeWidth="2" 
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      {/* Arrowhead */}
+      <path 
+        d="M5 14 L7 12 L9 14" 
+        stroke={color} 
+        strokeWidth="2" 
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      {/* Sector spokes */}
+      <path 
+        d={spokes.join(' ')} 
+        stroke={color} 
+        strokeWidth="2" 
+        strokeLinecap="round"
+      />
+    </svg>
+  )
+}
+
 /**
  * Open Path Icon - Open path with both arcs (legacy, uses PathModeIcon)
  */
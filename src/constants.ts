@@ -30,7 +30,6 @@ export const GRID_DOT_RADIUS_SCREEN = 1.2     // Dot size in screen pixels
 // SNAPPING
 // ============================================================================
 
-export const POSITION_SNAP_INCREMENT = 10
 export const SMART_GUIDE_SNAP_THRESHOLD = 8  // Screen pixels for smart guide alignment
 export const RADIUS_SNAP_INCREMENT = 10
 export const OFFSET_SNAP_THRESHOLD = 0.05     // Snap offset to 0 when below this
@@ -47,6 +46,25 @@ export const MIN_CIRCLE_RADIUS = 5
 export const MIN_CIRCLES = 1                 // Minimum number of circles required for a path
 export const DUPLICATE_OFFSET = { x: 20, y: 20 }
 
+// Ellipse defaults (new ellipses are wider than tall)
+export const DEFAULT_ELLIPSE_RADIUS_X = 70
+export const DEFAULT_ELLIPSE_RADIUS_Y = 45
+
+// Rounded polygon defaults
+export const DEFAULT_ROUNDED_RECT_WIDTH = 140
+export const DEFAULT_ROUNDED_RECT_HEIGHT = 90
+export const DEFAULT_POLYGON_SIDES = 6
+export const DEFAULT_POLYGON_CIRCUMRADIUS = 70
+export const DEFAULT_CORNER_RADIUS = 20
+export const MIN_POLYGON_SIDES = 3
+export const MAX_POLYGON_SIDES = 12
+
+// Pin defaults (zero-radius generators)
+export const DEFAULT_PIN_FILLET = 0          // Sharp corner
+export const MAX_PIN_FILLET = 200            // Upper end of the fillet slider
+export const PIN_MARKER_SIZE = 6             // Half-size of the pin marker (screen px)
+export const PIN_HIT_RADIUS = 10             // Click radius around a pin (screen px)
+
 // Non-overlapping radius calculation
 export const NON_OVERLAP_MIN_RADIUS = 40
 export const NON_OVERLAP_MAX_RADIUS = 120
@@ -111,6 +129,7 @@ export const CHEVRON_PROPORTIONAL_SIZE = 0.136 // As fraction of radius - matche
 // ============================================================================
 
 export const HANDLE_TOLERANCE = 12           // Hit detection for handles (screen px)
+export const MIRROR_ORIGIN_RADIUS = 7        // Mirror origin handle (screen px)
 export const PATH_HIT_TOLERANCE = 15         // Hit detection for path segments (screen px)
 export const DRAG_THRESHOLD = 3              // Minimum movement to start drag
 export const DELETE_ICON_SIZE = 6            // Size of delete X icon
@@ -141,7 +160,7 @@ export const MIRRORED_OPACITY = 0.35
 // HISTORY
 // ============================================================================
 
-export const MAX_HISTORY = 50
+export const MAX_HISTORY = 200  // Entries kept across every branch of the undo tree
 export const HISTORY_DEBOUNCE_MS = 300
 
 // ============================================================================
@@ -154,6 +173,14 @@ export const PATH_LABEL_OFFSET = 20          // Offset for path labels
 // Cursor quantization
 export const CURSOR_ANGLE_INCREMENT = 15     // Degrees between cached cursors
 
+// ============================================================================
+// IMPORT & EXPORT
+// ============================================================================
+
+export const DEFAULT_IMPORT_TOLERANCE = 1    // Max distance (px) between the SVG outline and the fitted path
+export const PX_PER_INCH = 96                // Document pixels are CSS pixels when exporting to real units
+export const MM_PER_INCH = 25.4
+
 // ============================================================================
 // DND KIT
 // ============================================================================
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import type { PathData, PathSegment } from '../types'
+import { segmentLength, createPathSampler } from './arcLength'
+
+// Perimeter of an ellipse with semi-axes 2 and 1 (complete elliptic integral)
+const ELLIPSE_2_1_PERIMETER = 9.688448220547675
+
+describe('segmentLength', () => {
+  it('measures lines and circular arcs exactly', () => {
+    expect(segmentLength({ type: 'line', start: { x: 0, y: 0 }, end: { x: 30, y: 40 }, length: 0 })).toBe(50)
+    const arc: PathSegment = {
+      type: 'arc', center: { x: 0, y: 0 }, radius: 10, startAngle: 0, endAngle: Math.PI / 2, counterclockwise: false, length: 0
+    }
+    expect(segmentLength(arc)).toBeCloseTo(5 * Math.PI, 12)
+    expect(segmentLength({ ...arc, counterclockwise: true })).toBeCloseTo(15 * Math.PI, 12)
+  })
+
+  it('integrates elliptical arcs to the exact perimeter', () => {
+    for (const rotation of [0, 0.7]) {
+      const half: PathSegment = {
+        type: 'ellipse-arc', center: { x: 5, y: -3 }, radiusX: 40, radiusY: 20, rotation,
+        startAngle: 0, endAngle: Math.PI, counterclockwise: false, length: 0
+      }
+      expect(segmentLength(half)).toBeCloseTo(20 * ELLIPSE_2_1_PERIMETER / 2, 8)
+    }
+  })
+
+  it('measures a bezier along a straight line as its chord', () => {
+    const bezier: PathSegment = {
+      type: 'bezier', start: { x: 0, y: 0 }, cp1: { x: 10, y: 0 }, cp2: { x: 20, y: 0 }, end: { x: 90, y: 0 }, length: 0
+    }
+    expect(segmentLength(bezier)).toBeCloseTo(90, 9)
+  })
+})
+
+describe('createPathSampler', () => {
+  // A 100 line, a half circle of radius 50 and a straight bezier back
+  const path: PathData = {
+    segments: [
+      { type: 'line', start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 100 },
+      { type: 'arc', center: { x: 100, y: 50 }, radius: 50, startAngle: -Math.PI / 2, endAngle: Math.PI / 2, counterclockwise: false, length: 50 * Math.PI },
+      { type: 'bezier', start: { x: 100, y: 100 }, cp1: { x: 90, y: 100 }, cp2: { x: 80, y: 100 }, end: { x: 0, y: 100 }, length: 100 }
+    ],
+    totalLength: 200 + 50 * Math.PI
+  }
+  const sampler = createPathSampler(path)!
+  const arcEnd = 100 + 50 * Math.PI
+
+  it('returns null for an empty path', () => {
+    expect(createPathSampler({ segments: [], totalLength: 0 })).toBeNull()
+  })
+
+  it('measures the whole path', () => {
+    expect(sampler.length).toBeCloseTo(200 + 50 * Math.PI, 8)
+  })
+
+  it('finds points by distance along each segment', () => {
+    expect(sampler.pointAt(40)).toEqual({ x: 40, y: 0 })
+    const quarter = sampler.pointAt(100 + 25 * Math.PI)
+    expect(quarter.x).toBeCloseTo(150, 8)
+    expect(quarter.y).toBeCloseTo(50, 8)
+    // The bezier's parameter runs unevenly; distance along it does not
+    const onBezier = sampler.pointAt(arcEnd + 70)
+    expect(onBezier.x).toBeCloseTo(30, 6)
+    expect(onBezier.y).toBeCloseTo(100, 8)
+  })
+
+  it('clamps distances to the path', () => {
+    expect(sampler.pointAt(-10)).toEqual({ x: 0, y: 0 })
+    const end = sampler.pointAt(sampler.length + 10)
+    expect(end.x).toBeCloseTo(0, 8)
+    expect(end.y).toBeCloseTo(100, 8)
+  })
+
+  it('reports tangents and curvature', () => {
+    const onLine = sampler.sampleAt(50)
+    expect(onLine.tangent.x).toBeCloseTo(1, 12)
+    expect(onLine.curvature).toBe(0)
+    const onArc = sampler.sampleAt(100 + 25 * Math.PI)
+    expect(onArc.tangent.x).toBeCloseTo(0, 8)
+    expect(onArc.tangent.y).toBeCloseTo(1, 8)
+    expect(Math.abs(onArc.curvature)).toBeCloseTo(1 / 50, 8)
+  })
+
+  it('samples evenly including both ends', () => {
+    const samples = sampler.sampleUniform(5)
+    expect(samples).toHaveLength(5)
+    samples.forEach((sample, i) => expect(sample.s).toBeCloseTo(sampler.length * i / 4, 9))
+  })
+
+  it('projects points onto the nearest distance along the path', () => {
+    expect(sampler.project({ x: 30, y: -20 })).toBeCloseTo(30, 4)
+    expect(sampler.project({ x: 200, y: 50 })).toBeCloseTo(100 + 25 * Math.PI, 4)
+    expect(sampler.project({ x: 20, y: 130 })).toBeCloseTo(arcEnd + 80, 4)
+  })
+})
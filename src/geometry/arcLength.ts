@@ -0,0 +1,248 @@
+import type { Point, PathData, PathSegment } from '../types'
+import { distance } from './math'
+import { arcSweep } from './segments'
+import { curvatureAt } from './curvature'
+
+// Curved segments (beziers, elliptical arcs) are measured in this many
+// intervals of their parameter, each integrated by Gauss-Legendre quadrature
+const LENGTH_INTERVALS = 16
+// Newton steps when turning a distance along a curved segment into a parameter
+const INVERSE_ITERATIONS = 4
+// Candidate parameters per segment, then golden-section steps, when projecting
+const PROJECT_SAMPLES = 32
+const PROJECT_ITERATIONS = 40
+
+// 5-point Gauss-Legendre nodes and weights on [0, 1]
+const GAUSS_NODES = [0.0469100770306680, 0.2307653449471585, 0.5, 0.7692346550528415, 0.9530899229693320]
+const GAUSS_WEIGHTS = [0.1184634425280945, 0.2393143352496832, 0.2844444444444444, 0.2393143352496832, 0.1184634425280945]
+
+/**
+ * Everything known about a point at distance `s` along a path. The normal is
+ * the tangent turned towards increasing angles, the side positive curvature
+ * turns towards.
+ */
+export interface PathSample {
+  s: number
+  point: Point
+  tangent: Point
+  normal: Point
+  curvature: number
+}
+
+/**
+ * Queries on a path by distance along it (arc length) rather than by segment
+ * parameter. Distances run from 0 at the start of the first segment to
+ * `length` at the end of the last one and are clamped to that range; gaps
+ * between sub-paths take up no distance.
+ */
+export interface PathSampler {
+  length: number
+  pointAt: (s: number) => Point
+  tangentAt: (s: number) => Point
+  normalAt: (s: number) => Point
+  curvatureAt: (s: number) => number
+  sampleAt: (s: number) => PathSample
+  sampleUniform: (count: number) => PathSample[]  // Evenly spaced, both ends included
+  project: (point: Point) => number               // Distance to the nearest point of the path
+}
+
+/**
+ * A segment with its distance from the start of the path and, for curved
+ * segments, the cumulative length at each interval boundary of its parameter
+ */
+interface MeasuredSegment {
+  seg: PathSegment
+  start: number
+  length: number
+  table: number[] | null
+}
+
+// ============================================================================
+// SEGMENT LENGTHS
+// ============================================================================
+
+/**
+ * Speed (length of the derivative with respect to the parameter) along a
+ * bezier or elliptical arc
+ */
+function speedAt(seg: PathSegment, t: number): number {
+  switch (seg.type) {
+    case 'line':
+      return distance(seg.start, seg.end)
+    case 'arc':
+      return seg.radius * Math.abs(arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise))
+    case 'ellipse-arc': {
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      const theta = seg.startAngle + sweep * t
+      // Rotation does not change the speed
+      return Math.abs(sweep) * Math.hypot(seg.radiusX * Math.sin(theta), seg.radiusY * Math.cos(theta))
+    }
+    case 'bezier': {
+      const u = 1 - t
+      const { start: p0, cp1: p1, cp2: p2, end: p3 } = seg
+      const dx = 3 * u * u * (p1.x - p0.x) + 6 * u * t * (p2.x - p1.x) + 3 * t * t * (p3.x - p2.x)
+      const dy = 3 * u * u * (p1.y - p0.y) + 6 * u * t * (p2.y - p1.y) + 3 * t * t * (p3.y - p2.y)
+      return Math.hypot(dx, dy)
+    }
+  }
+}
+
+/**
+ * Length of a segment between parameters t0 and t1 by Gauss-Legendre quadrature
+ */
+function integrateLength(seg: PathSegment, t0: number, t1: number): number {
+  let sum = 0
+  for (let i = 0; i < GAUSS_NODES.length; i++) {
+    sum += GAUSS_WEIGHTS[i] * speedAt(seg, t0 + (t1 - t0) * GAUSS_NODES[i])
+  }
+  return sum * (t1 - t0)
+}
+
+/**
+ * Cumulative length of a curved segment at each of its interval boundaries
+ */
+function lengthTable(seg: PathSegment): number[] {
+  const table = [0]
+  for (let i = 0; i < LENGTH_INTERVALS; i++) {
+    table.push(table[i] + integrateLength(seg, i / LENGTH_INTERVALS, (i + 1) / LENGTH_INTERVALS))
+  }
+  return table
+}
+
+/**
+ * True length of a segment. Lines and circular arcs are exact; beziers and
+ * elliptical arcs are integrated numerically.
+ */
+export function segmentLength(seg: PathSegment): number {
+  if (seg.type === 'line' || seg.type === 'arc') return speedAt(seg, 0)
+  const table = lengthTable(seg)
+  return table[table.length - 1]
+}
+
+/**
+ * Distance along a measured segment at parameter t
+ */
+function lengthAtParameter(measured: MeasuredSegment, t: number): number {
+  if (!measured.table) return measured.length * t
+  const interval = Math.min(LENGTH_INTERVALS - 1, Math.floor(t * LENGTH_INTERVALS))
+  return measured.table[interval] + integrateLength(measured.seg, interval / LENGTH_INTERVALS, t)
+}
+
+/**
+ * Parameter at distance `s` along a measured segment
+ */
+function parameterAtLength(measured: MeasuredSegment, s: number): number {
+  if (measured.length <= 0) return 0
+  const { seg, table } = measured
+  if (!table) return Math.max(0, Math.min(1, s / measured.length))
+
+  // Interval holding the distance, then Newton's method within it
+  let interval = 0
+  while (interval < LENGTH_INTERVALS - 1 && table[interval + 1] < s) interval++
+  const t0 = interval / LENGTH_INTERVALS
+  const t1 = (interval + 1) / LENGTH_INTERVALS
+  const span = table[interval + 1] - table[interval]
+  let t = span > 0 ? t0 + (t1 - t0) * (s - table[interval]) / span : t0
+  for (let i = 0; i < INVERSE_ITERATIONS; i++) {
+    const speed = speedAt(seg, t)
+    if (speed < 1e-12) break
+    t -= (table[interval] + integrateLength(seg, t0, t) - s) / speed
+    t = Math.max(t0, Math.min(t1, t))
+  }
+  return t
+}
+
+// ============================================================================
+// PATH SAMPLER
+// ============================================================================
+
+/**
+ * Arc-length sampler for a computed path, or null for a path with no
+ * segments. Segment lengths are measured afresh, so the sampler's `length`
+ * can differ slightly from the path's estimated `totalLength`.
+ */
+export function createPathSampler(pathData: PathData): PathSampler | null {
+  if (pathData.segments.length === 0) return null
+
+  const measured: MeasuredSegment[] = []
+  let total = 0
+  for (const seg of pathData.segments) {
+    const table = seg.type === 'bezier' || seg.type === 'ellipse-arc' ? lengthTable(seg) : null
+    const length = table ? table[LENGTH_INTERVALS] : speedAt(seg, 0)
+    measured.push({ seg, start: total, length, table })
+    total += length
+  }
+
+  // Segment and parameter at a distance along the path
+  const locate = (s: number): { seg: PathSegment; t: number } => {
+    const clamped = Math.max(0, Math.min(total, s))
+    let lo = 0
+    let hi = measured.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (measured[mid].start <= clamped) lo = mid
+      else hi = mid - 1
+    }
+    // Skip zero-length segments at the same distance so the direction is defined
+    while (lo < measured.length - 1 && measured[lo].length <= 0) lo++
+    const segment = measured[lo]
+    return { seg: segment.seg, t: parameterAtLength(segment, clamped - segment.start) }
+  }
+
+  const sampleAt = (s: number): PathSample => {
+    const { seg, t } = locate(s)
+    const { point, tangent, curvature } = curvatureAt(seg, t)
+    return { s: Math.max(0, Math.min(total, s)), point, tangent, normal: { x: -tangent.y, y: tangent.x }, curvature }
+  }
+
+  const project = (point: Point): number => {
+    let best = 0
+    let bestDistance = Infinity
+    for (const segment of measured) {
+      const at = (t: number) => distance(curvatureAt(segment.seg, t).point, point)
+      // Nearest of the candidates, then a golden-section search around it
+      let bestT = 0
+      let nearest = Infinity
+      for (let i = 0; i <= PROJECT_SAMPLES; i++) {
+        const d = at(i / PROJECT_SAMPLES)
+        if (d < nearest) {
+          nearest = d
+          bestT = i / PROJECT_SAMPLES
+        }
+      }
+      let lo = Math.max(0, bestT - 1 / PROJECT_SAMPLES)
+      let hi = Math.min(1, bestT + 1 / PROJECT_SAMPLES)
+      const ratio = (Math.sqrt(5) - 1) / 2
+      for (let i = 0; i < PROJECT_ITERATIONS; i++) {
+        const a = hi - (hi - lo) * ratio
+        const b = lo + (hi - lo) * ratio
+        if (at(a) < at(b)) hi = b
+        else lo = a
+      }
+      const t = (lo + hi) / 2
+      const d = at(t)
+      if (d < nearest) {
+        nearest = d
+        bestT = t
+      }
+      if (nearest < bestDistance) {
+        bestDistance = nearest
+        best = segment.start + lengthAtParameter(segment, bestT)
+      }
+    }
+    return best
+  }
+
+  return {
+    length: total,
+    pointAt: s => sampleAt(s).point,
+    tangentAt: s => sampleAt(s).tangent,
+    normalAt: s => sampleAt(s).normal,
+    curvatureAt: s => sampleAt(s).curvature,
+    sampleAt,
+    sampleUniform: count => count <= 1
+      ? [sampleAt(0)]
+      : Array.from({ length: count }, (_, i) => sampleAt(total * i / (count - 1))),
+    project
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import type { Point, PathData, PathSegment } from '../types'
+import { computeAreaProperties, principalMoments } from './areaProperties'
+
+/**
+ * Closed outline through the corners, as lines
+ */
+function polygonPath(corners: Point[]): PathData {
+  const segments: PathSegment[] = corners.map((start, i) => {
+    const end = corners[(i + 1) % corners.length]
+    return { type: 'line', start, end, length: Math.hypot(end.x - start.x, end.y - start.y) }
+  })
+  return { segments, totalLength: segments.reduce((sum, seg) => sum + seg.length, 0) }
+}
+
+/**
+ * Rectangle running clockwise on screen (towards increasing angles)
+ */
+const rectPath = (x: number, y: number, width: number, height: number) =>
+  polygonPath([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }])
+
+/**
+ * Closed ellipse outline as two half arcs
+ */
+function ellipsePath(center: Point, radiusX: number, radiusY: number, rotation: number, counterclockwise = false): PathData {
+  const half = (startAngle: number): PathSegment => ({
+    type: 'ellipse-arc', center, radiusX, radiusY, rotation,
+    startAngle, endAngle: counterclockwise ? startAngle - Math.PI : startAngle + Math.PI, counterclockwise, length: 0
+  })
+  return { segments: [half(0), counterclockwise ? half(-Math.PI) : half(Math.PI)], totalLength: 0 }
+}
+
+describe('computeAreaProperties', () => {
+  it('gives the area, centroid and moments of a rectangle', () => {
+    const props = computeAreaProperties(rectPath(10, 20, 60, 30))!
+    expect(props.area).toBeCloseTo(1800, 9)
+    expect(props.centroid.x).toBeCloseTo(40, 9)
+    expect(props.centroid.y).toBeCloseTo(35, 9)
+    expect(props.ixx).toBeCloseTo(60 * 30 ** 3 / 12, 6)
+    expect(props.iyy).toBeCloseTo(30 * 60 ** 3 / 12, 6)
+    expect(props.ixy).toBeCloseTo(0, 6)
+  })
+
+  it('signs the area by direction but keeps the moments positive', () => {
+    const clockwise = computeAreaProperties(rectPath(0, 0, 60, 30))!
+    const reversed = computeAreaProperties(polygonPath([{ x: 0, y: 0 }, { x: 0, y: 30 }, { x: 60, y: 30 }, { x: 60, y: 0 }]))!
+    expect(reversed.area).toBeCloseTo(-clockwise.area, 9)
+    expect(reversed.ixx).toBeCloseTo(clockwise.ixx, 6)
+    expect(reversed.iyy).toBeCloseTo(clockwise.iyy, 6)
+  })
+
+  it('integrates circular arcs exactly', () => {
+    const r = 25
+    const center = { x: -40, y: 15 }
+    const circle: PathData = {
+      segments: [
+        { type: 'arc', center, radius: r, startAngle: 0, endAngle: Math.PI, counterclockwise: false, length: Math.PI * r },
+        { type: 'arc', center, radius: r, startAngle: Math.PI, endAngle: 2 * Math.PI, counterclockwise: false, length: Math.PI * r }
+      ],
+      totalLength: 2 * Math.PI * r
+    }
+    const props = computeAreaProperties(circle)!
+    expect(props.area).toBeCloseTo(Math.PI * r * r, 9)
+    expect(props.centroid.x).toBeCloseTo(center.x, 9)
+    expect(props.centroid.y).toBeCloseTo(center.y, 9)
+    expect(props.ixx).toBeCloseTo(Math.PI * r ** 4 / 4, 4)
+    expect(props.iyy).toBeCloseTo(Math.PI * r ** 4 / 4, 4)
+  })
+
+  it('integrates elliptical arcs exactly, with principal axes along the ellipse', () => {
+    const a = 40
+    const b = 15
+    for (const rotation of [0, 0.5]) {
+      const props = computeAreaProperties(ellipsePath({ x: 10, y: 10 }, a, b, rotation))!
+      expect(props.area).toBeCloseTo(Math.PI * a * b, 8)
+      expect(props.centroid.x).toBeCloseTo(10, 8)
+      expect(props.centroid.y).toBeCloseTo(10, 8)
+      const principal = principalMoments(props)
+      expect(principal.major).toBeCloseTo(Math.PI * a ** 3 * b / 4, 3)
+      expect(principal.minor).toBeCloseTo(Math.PI * a * b ** 3 / 4, 3)
+      expect(principal.angle).toBeCloseTo(rotation, 8)
+    }
+    const reversed = computeAreaProperties(ellipsePath({ x: 10, y: 10 }, a, b, 0, true))!
+    expect(reversed.area).toBeCloseTo(-Math.PI * a * b, 8)
+  })
+
+  it('subtracts holes wound the other way', () => {
+    const outer = rectPath(0, 0, 100, 100).segments
+    const hole = polygonPath([{ x: 20, y: 20 }, { x: 20, y: 40 }, { x: 40, y: 40 }, { x: 40, y: 20 }]).segments
+    const props = computeAreaProperties({
+      segments: [...outer, ...hole.map((seg, i) => ({ ...seg, needsMoveTo: i === 0 ? true : undefined }))],
+      totalLength: 0
+    })!
+    expect(props.area).toBeCloseTo(10000 - 400, 9)
+    // Centroid shifts away from the hole: (10000·50 - 400·30) / 9600
+    expect(props.centroid.x).toBeCloseTo((10000 * 50 - 400 * 30) / 9600, 9)
+  })
+
+  it('returns null for a path enclosing nothing', () => {
+    expect(computeAreaProperties({ segments: [], totalLength: 0 })).toBeNull()
+    expect(computeAreaProperties(polygonPath([{ x: 0, y: 0 }, { x: 50, y: 0 }]))).toBeNull()
+  })
+})
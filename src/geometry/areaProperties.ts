@@ -0,0 +1,287 @@
+import type { Point, PathData, PathSegment } from '../types'
+import { arcSweep } from './segments'
+
+// 6-point Gauss-Legendre nodes and weights on [0, 1]: exact for polynomials up
+// to degree 11, which covers every integrand below on lines and cubic beziers
+const GAUSS_NODES = [
+  0.0337652428984240, 0.1693953067668677, 0.3806904069584015,
+  0.6193095930415985, 0.8306046932331323, 0.9662347571015760
+]
+const GAUSS_WEIGHTS = [
+  0.0856622461895852, 0.1803807865240693, 0.2339569672863455,
+  0.2339569672863455, 0.1803807865240693, 0.0856622461895852
+]
+
+/**
+ * Area, centroid and second moments of area of a closed path, in world
+ * units. The area is signed: positive when the path runs clockwise on
+ * screen. Where a path crosses itself each region counts as many times as
+ * the path winds around it, so the lobes of a figure-8 (wound in opposite
+ * directions) subtract from each other. Moments are about the centroid and
+ * take the sign of the area, so they are positive for any simple outline.
+ */
+export interface AreaProperties {
+  area: number
+  centroid: Point
+  ixx: number  // ∫ y² dA: second moment about the horizontal axis through the centroid
+  iyy: number  // ∫ x² dA: second moment about the vertical axis through the centroid
+  ixy: number  // ∫ x·y dA: product of inertia
+}
+
+/**
+ * Principal second moments (largest first) and the angle of the axis the
+ * area spreads furthest along
+ */
+export interface PrincipalMoments {
+  major: number
+  minor: number
+  angle: number
+}
+
+/**
+ * Running boundary integrals (Green's theorem) of a closed outline
+ */
+interface Integrals {
+  area: number  // ½∮ x dy - y dx
+  qx: number    // ∫ x dA = ½∮ x² dy
+  qy: number    // ∫ y dA = -½∮ y² dx
+  sxx: number   // ∫ x² dA = ⅓∮ x³ dy
+  syy: number   // ∫ y² dA = -⅓∮ y³ dx
+  sxy: number   // ∫ x·y dA = ½∮ x² y dy
+}
+
+// ============================================================================
+// TRIGONOMETRIC POLYNOMIALS
+// ============================================================================
+
+/**
+ * Polynomial in cos θ and sin θ: coefficient of cosᵃ θ · sinᵇ θ at [a][b]
+ */
+type TrigPolynomial = number[][]
+
+/**
+ * k + c·cos θ + s·sin θ
+ */
+function trigLinear(k: number, c: number, s: number): TrigPolynomial {
+  return [[k, s], [c]]
+}
+
+function trigMultiply(p: TrigPolynomial, q: TrigPolynomial): TrigPolynomial {
+  const result: TrigPolynomial = []
+  p.forEach((row, a) => row.forEach((pc, b) => {
+    if (!pc) return
+    q.forEach((qRow, c) => qRow.forEach((qc, d) => {
+      if (!qc) return
+      const r = (result[a + c] ??= [])
+      r[b + d] = (r[b + d] ?? 0) + pc * qc
+    }))
+  }))
+  return result
+}
+
+/**
+ * ∫ cosᵃ θ · sinᵇ θ dθ from θ0 to θ1, by the standard reduction formulas
+ */
+function trigMonomialIntegral(a: number, b: number, theta0: number, theta1: number): number {
+  const c0 = Math.cos(theta0)
+  const s0 = Math.sin(theta0)
+  const c1 = Math.cos(theta1)
+  const s1 = Math.sin(theta1)
+  const term = (i: number, j: number) => c1 ** i * s1 ** j - c0 ** i * s0 ** j
+  if (a >= 2) return (term(a - 1, b + 1) + (a - 1) * trigMonomialIntegral(a - 2, b, theta0, theta1)) / (a + b)
+  if (b >= 2) return (-term(a + 1, b - 1) + (b - 1) * trigMonomialIntegral(a, b - 2, theta0, theta1)) / (a + b)
+  if (a === 0 && b === 0) return theta1 - theta0
+  if (a === 1 && b === 0) return s1 - s0
+  if (a === 0 && b === 1) return c0 - c1
+  return (s1 * s1 - s0 * s0) / 2
+}
+
+function trigIntegral(p: TrigPolynomial, theta0: number, theta1: number): number {
+  let sum = 0
+  p.forEach((row, a) => row.forEach((coefficient, b) => {
+    if (coefficient) sum += coefficient * trigMonomialIntegral(a, b, theta0, theta1)
+  }))
+  return sum
+}
+
+// ============================================================================
+// SEGMENT INTEGRALS
+// ============================================================================
+
+/**
+ * Add the boundary integrals of a curve x(t), y(t) for t in [0, 1] whose
+ * coordinates are polynomials of degree three or less (lines, beziers)
+ */
+function addPolynomialCurve(sum: Integrals, at: (t: number) => { x: number; y: number; dx: number; dy: number }) {
+  for (let i = 0; i < GAUSS_NODES.length; i++) {
+    const { x, y, dx, dy } = at(GAUSS_NODES[i])
+    const w = GAUSS_WEIGHTS[i]
+    sum.area += w * (x * dy - y * dx) / 2
+    sum.qx += w * x * x * dy / 2
+    sum.qy -= w * y * y * dx / 2
+    sum.sxx += w * x * x * x * dy / 3
+    sum.syy -= w * y * y * y * dx / 3
+    sum.sxy += w * x * x * y * dy / 2
+  }
+}
+
+/**
+ * Add the boundary integrals of the elliptical arc c + u·cos θ + v·sin θ for
+ * θ from theta0 to theta1 (a circular arc when u and v are perpendicular
+ * and equally long), exactly
+ */
+function addEllipticalArc(sum: Integrals, c: Point, u: Point, v: Point, theta0: number, theta1: number) {
+  const x = trigLinear(c.x, u.x, v.x)
+  const y = trigLinear(c.y, u.y, v.y)
+  const dx = trigLinear(0, v.x, -u.x)
+  const dy = trigLinear(0, v.y, -u.y)
+  const x2 = trigMultiply(x, x)
+  const y2 = trigMultiply(y, y)
+  const integral = (p: TrigPolynomial) => trigIntegral(p, theta0, theta1)
+  sum.area += (integral(trigMultiply(x, dy)) - integral(trigMultiply(y, dx))) / 2
+  sum.qx += integral(trigMultiply(x2, dy)) / 2
+  sum.qy -= integral(trigMultiply(y2, dx)) / 2
+  sum.sxx += integral(trigMultiply(trigMultiply(x2, x), dy)) / 3
+  sum.syy -= integral(trigMultiply(trigMultiply(y2, y), dx)) / 3
+  sum.sxy += integral(trigMultiply(trigMultiply(x2, y), dy)) / 2
+}
+
+/**
+ * Add the boundary integrals of one segment, with coordinates taken relative
+ * to `origin` to keep the sums well conditioned
+ */
+function addSegment(sum: Integrals, seg: PathSegment, origin: Point) {
+  switch (seg.type) {
+    case 'line': {
+      const x0 = seg.start.x - origin.x
+      const y0 = seg.start.y - origin.y
+      const dx = seg.end.x - seg.start.x
+      const dy = seg.end.y - seg.start.y
+      addPolynomialCurve(sum, t => ({ x: x0 + dx * t, y: y0 + dy * t, dx, dy }))
+      break
+    }
+    case 'bezier': {
+      const p = [seg.start, seg.cp1, seg.cp2, seg.end].map(q => ({ x: q.x - origin.x, y: q.y - origin.y }))
+      addPolynomialCurve(sum, t => {
+        const s = 1 - t
+        const b = [s * s * s, 3 * s * s * t, 3 * s * t * t, t * t * t]
+        const d = [-3 * s * s, 3 * s * s - 6 * s * t, 6 * s * t - 3 * t * t, 3 * t * t]
+        return {
+          x: b.reduce((acc, w, i) => acc + w * p[i].x, 0),
+          y: b.reduce((acc, w, i) => acc + w * p[i].y, 0),
+          dx: d.reduce((acc, w, i) => acc + w * p[i].x, 0),
+          dy: d.reduce((acc, w, i) => acc + w * p[i].y, 0)
+        }
+      })
+      break
+    }
+    case 'arc': {
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      const c = { x: seg.center.x - origin.x, y: seg.center.y - origin.y }
+      addEllipticalArc(sum, c, { x: seg.radius, y: 0 }, { x: 0, y: seg.radius }, seg.startAngle, seg.startAngle + sweep)
+      break
+    }
+    case 'ellipse-arc': {
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      const cos = Math.cos(seg.rotation)
+      const sin = Math.sin(seg.rotation)
+      const c = { x: seg.center.x - origin.x, y: seg.center.y - origin.y }
+      const u = { x: seg.radiusX * cos, y: seg.radiusX * sin }
+      const v = { x: -seg.radiusY * sin, y: seg.radiusY * cos }
+      addEllipticalArc(sum, c, u, v, seg.startAngle, seg.startAngle + sweep)
+      break
+    }
+  }
+}
+
+function segmentStart(seg: PathSegment): Point {
+  switch (seg.type) {
+    case 'line':
+    case 'bezier':
+      return seg.start
+    case 'arc':
+      return { x: seg.center.x + seg.radius * Math.cos(seg.startAngle), y: seg.center.y + seg.radius * Math.sin(seg.startAngle) }
+    case 'ellipse-arc': {
+      const x = seg.radiusX * Math.cos(seg.startAngle)
+      const y = seg.radiusY * Math.sin(seg.startAngle)
+      const cos = Math.cos(seg.rotation)
+      const sin = Math.sin(seg.rotation)
+      return { x: seg.center.x + x * cos - y * sin, y: seg.center.y + x * sin + y * cos }
+    }
+  }
+}
+
+function segmentEnd(seg: PathSegment): Point {
+  switch (seg.type) {
+    case 'line':
+    case 'bezier':
+      return seg.end
+    case 'arc':
+    case 'ellipse-arc': {
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      return segmentStart({ ...seg, startAngle: seg.startAngle + sweep })
+    }
+  }
+}
+
+// ============================================================================
+// AREA PROPERTIES
+// ============================================================================
+
+/**
+ * Exact area properties of a closed path. Each segment type is integrated in
+ * closed form along the outline (Green's theorem). A path broken into
+ * sub-paths (invalid tangents) has each one closed with a straight line, as
+ * the canvas fills it. Returns null for an empty path or one enclosing no area.
+ */
+export function computeAreaProperties(pathData: PathData): AreaProperties | null {
+  const segments = pathData.segments
+  if (segments.length === 0) return null
+
+  const origin = segmentStart(segments[0])
+  const sum: Integrals = { area: 0, qx: 0, qy: 0, sxx: 0, syy: 0, sxy: 0 }
+  const closeSubpath = (from: Point, to: Point) =>
+    addSegment(sum, { type: 'line', start: from, end: to, length: 0 }, origin)
+
+  let subpathStart = segmentStart(segments[0])
+  let previousEnd: Point | null = null
+  for (const seg of segments) {
+    if (seg.needsMoveTo && previousEnd) {
+      closeSubpath(previousEnd, subpathStart)
+      subpathStart = segmentStart(seg)
+    }
+    addSegment(sum, seg, origin)
+    previousEnd = segmentEnd(seg)
+  }
+  if (previousEnd) closeSubpath(previousEnd, subpathStart)
+
+  if (Math.abs(sum.area) < 1e-9) return null
+
+  // Centroid, then the second moments moved onto it (parallel axis theorem)
+  const cx = sum.qx / sum.area
+  const cy = sum.qy / sum.area
+  const sign = Math.sign(sum.area)
+  return {
+    area: sum.area,
+    centroid: { x: origin.x + cx, y: origin.y + cy },
+    ixx: sign * (sum.syy - sum.area * cy * cy),
+    iyy: sign * (sum.sxx - sum.area * cx * cx),
+    ixy: sign * (sum.sxy - sum.area * cx * cy)
+  }
+}
+
+/**
+ * Principal second moments of area: the largest and smallest spread of the
+ * area about its centroid, and the direction of the largest
+ */
+export function principalMoments(properties: AreaProperties): PrincipalMoments {
+  // Spread of the area along x is ∫ x² dA (iyy), along y is ∫ y² dA (ixx)
+  const mean = (properties.iyy + properties.ixx) / 2
+  const half = (properties.iyy - properties.ixx) / 2
+  const radius = Math.hypot(half, properties.ixy)
+  return {
+    major: mean + radius,
+    minor: mean - radius,
+    angle: Math.atan2(properties.ixy, half) / 2
+  }
+}
@@ -1,4 +1,5 @@
 import type { Point, MirrorConfig } from '../types'
+import { mirrorOrigin, mirrorSectorCount } from './path'
 
 /**
  * Calculate all constraint axes based on mirror configuration
@@ -7,9 +8,11 @@ import type { Point, MirrorConfig } from '../types'
  * For a mirror configuration with N planes:
  * - Each plane defines an axis
  * - The angle between adjacent planes defines another axis
+ * - With `from` (where the drag started), the line from the mirror origin
+ *   through it, so a shape can slide straight towards or away from the center
  * - We always include horizontal (0°) and vertical (90°)
  */
-export function calculateConstraintAxes(mirrorConfig: MirrorConfig): number[] {
+export function calculateConstraintAxes(mirrorConfig: MirrorConfig, from?: Point): number[] {
   const axes: number[] = []
   
   // Always include horizontal (0°) and vertical (90°)
@@ -20,8 +23,9 @@ export function calculateConstraintAxes(mirrorConfig: MirrorConfig): number[] {
     return axes
   }
   
-  // Calculate the angular spacing between mirror planes
-  const angleStep = Math.PI / mirrorConfig.planeCount
+  // Calculate the angular spacing between mirror planes (between sector
+  // boundaries for cyclic symmetry, which has N sectors instead of 2N)
+  const angleStep = (2 * Math.PI) / mirrorSectorCount(mirrorConfig)
   
   // Add each mirror plane axis
   for (let i = 0; i < mirrorConfig.planeCount; i++) {
@@ -35,6 +39,14 @@ export function calculateConstraintAxes(mirrorConfig: MirrorConfig): number[] {
     axes.push(bisectorAngle)
   }
   
+  // Add the radial axis through the mirror origin
+  if (from) {
+    const origin = mirrorOrigin(mirrorConfig)
+    if (from.x !== origin.x || from.y !== origin.y) {
+      axes.push(Math.atan2(from.y - origin.y, from.x - origin.x))
+    }
+  }
+  
   // Normalize all angles to [0, π) range (since axes are bidirectional)
   return axes.map(angle => {
     let normalized = angle % Math.PI
@@ -0,0 +1,217 @@
+import type { Point, PathSegment, ArcSegment, BezierSegment } from '../types'
+import { distance } from './math'
+import { curvatureAt, type CurvatureSample } from './curvature'
+import { TANGENT_DISTANCE_FACTOR } from '../constants'
+
+// Arc angle a blend of 1 trims from the end of an arc (radians)
+const BLEND_MAX_ANGLE = Math.PI / 6
+// Largest share of an arc one blend may trim (each arc has two ends)
+const MAX_ARC_TRIM = 0.45
+// Newton iterations per starting guess when solving handle lengths
+const SOLVE_ITERATIONS = 40
+// Starting handle lengths tried by the solver, as fractions of the chord
+const SOLVE_STARTS = [0.15, 0.4, 0.8]
+// Samples along a candidate blend when measuring its peak curvature
+const FAIRNESS_SAMPLES = 32
+// A blend may curve at most this many times tighter than its ends or its chord
+const MAX_CURVATURE_RATIO = 3
+// Trim scales tried in turn until a blend is fair enough
+const TRIM_SCALES = [1, 0.5, 0.25]
+
+/**
+ * A connector whose ends should be curvature-matched to the arcs around it.
+ * Blend amounts are 0-1 (0 keeps the plain tangent join); lengths are the
+ * circles' tangent length multipliers, used as preferred handle lengths.
+ */
+export interface ConnectorBlend {
+  index: number        // Index of the connector in the segment list
+  exitBlend: number    // Blend of the arc before the connector
+  entryBlend: number   // Blend of the arc after the connector
+  exitLength: number
+  entryLength: number
+}
+
+const cross = (u: Point, v: Point) => u.x * v.y - u.y * v.x
+
+/**
+ * Shorten an arc by `trim` of its length at its start or end
+ */
+function trimArc(arc: ArcSegment, trim: number, atEnd: boolean): ArcSegment {
+  const angle = (trim / arc.radius) * (arc.counterclockwise ? -1 : 1)
+  return atEnd
+    ? { ...arc, endAngle: arc.endAngle - angle, length: arc.length - trim }
+    : { ...arc, startAngle: arc.startAngle + angle, length: arc.length - trim }
+}
+
+/**
+ * Cubic bezier leaving `start` along its tangent with handle a and arriving at
+ * `end` along its tangent with handle b
+ */
+function blendBezier(start: CurvatureSample, end: CurvatureSample, a: number, b: number): BezierSegment {
+  const cp1 = { x: start.point.x + start.tangent.x * a, y: start.point.y + start.tangent.y * a }
+  const cp2 = { x: end.point.x - end.tangent.x * b, y: end.point.y - end.tangent.y * b }
+  const chordLength = distance(start.point, end.point)
+  const controlPolyLen = a + distance(cp1, cp2) + b
+  return {
+    type: 'bezier',
+    start: start.point,
+    cp1,
+    cp2,
+    end: end.point,
+    length: (chordLength + controlPolyLen) / 2
+  }
+}
+
+/**
+ * Largest |curvature| along a bezier
+ */
+function peakCurvature(bezier: BezierSegment): number {
+  let peak = 0
+  for (let i = 0; i <= FAIRNESS_SAMPLES; i++) {
+    peak = Math.max(peak, Math.abs(curvatureAt(bezier, i / FAIRNESS_SAMPLES).curvature))
+  }
+  return peak
+}
+
+/**
+ * The cubic bezier from `start` to `end` that matches the direction and
+ * curvature at both ends. With handle lengths a (along the start tangent) and
+ * b (back along the end tangent) and chord D the conditions are
+ *
+ *   cross(T0, D) - b·cross(T0, T1) = 3/2·κ0·a²
+ *   cross(D, T1) - a·cross(T0, T1) = 3/2·κ1·b²
+ *
+ * solved by Newton's method from several starting guesses. Of the positive
+ * solutions the fairest (lowest peak curvature) wins, preferring handles
+ * close to the preferred lengths on ties. Returns null when there is none
+ * (e.g. ends that curve away from the chord) or every solution kinks.
+ */
+function solveG2Blend(
+  start: CurvatureSample,
+  end: CurvatureSample,
+  preferredA: number,
+  preferredB: number
+): BezierSegment | null {
+  const chord = { x: end.point.x - start.point.x, y: end.point.y - start.point.y }
+  const chordLength = Math.hypot(chord.x, chord.y)
+  if (chordLength < 1e-9) return null
+
+  const t0 = start.tangent
+  const t1 = end.tangent
+  const k0 = start.curvature
+  const k1 = end.curvature
+  const c = cross(t0, t1)
+  const d0 = cross(t0, chord)
+  const d1 = cross(chord, t1)
+  const tolerance = 1e-9 * chordLength
+  const maxCurvature = MAX_CURVATURE_RATIO * Math.max(Math.abs(k0), Math.abs(k1), 1 / chordLength)
+
+  const starts: [number, number][] = [[preferredA, preferredB]]
+  for (const fa of SOLVE_STARTS) {
+    for (const fb of SOLVE_STARTS) starts.push([fa * chordLength, fb * chordLength])
+  }
+
+  let best: BezierSegment | null = null
+  let bestPeak = Infinity
+  let bestDistance = Infinity
+  const found: [number, number][] = []
+
+  for (let [a, b] of starts) {
+    let f1 = d0 - b * c - 1.5 * k0 * a * a
+    let f2 = d1 - a * c - 1.5 * k1 * b * b
+    for (let i = 0; i < SOLVE_ITERATIONS && Math.abs(f1) + Math.abs(f2) > tolerance; i++) {
+      // Jacobian [[-3·κ0·a, -c], [-c, -3·κ1·b]]
+      const j11 = -3 * k0 * a
+      const j22 = -3 * k1 * b
+      const det = j11 * j22 - c * c
+      if (Math.abs(det) < 1e-15) break
+      a -= (f1 * j22 + c * f2) / det
+      b -= (j11 * f2 + c * f1) / det
+      f1 = d0 - b * c - 1.5 * k0 * a * a
+      f2 = d1 - a * c - 1.5 * k1 * b * b
+    }
+    if (Math.abs(f1) + Math.abs(f2) > tolerance) continue
+    if (a <= 1e-6 * chordLength || b <= 1e-6 * chordLength) continue
+    if (a > 2 * chordLength || b > 2 * chordLength) continue
+    // Most starts converge to the same few solutions
+    if (found.some(([fa, fb]) => Math.abs(fa - a) + Math.abs(fb - b) < 1e-6 * chordLength)) continue
+    found.push([a, b])
+
+    const bezier = blendBezier(start, end, a, b)
+    const peak = peakCurvature(bezier)
+    if (peak > maxCurvature) continue
+    // Compare peaks loosely so the preferred lengths break near-ties
+    const distanceToPreferred = (a - preferredA) ** 2 + (b - preferredB) ** 2
+    if (peak < bestPeak * 0.999 || (peak <= bestPeak * 1.001 && distanceToPreferred < bestDistance)) {
+      best = bezier
+      bestPeak = Math.min(peak, bestPeak)
+      bestDistance = distanceToPreferred
+    }
+  }
+  return best
+}
+
+/**
+ * Start or end of a connector that is not blended: its own direction, with
+ * the zero curvature of the straight connector it replaces
+ */
+function connectorEnd(connector: PathSegment, t: number): CurvatureSample {
+  const sample = curvatureAt(connector, t)
+  return { ...sample, curvature: 0 }
+}
+
+/**
+ * Replace connectors with curvature-continuous (G2) beziers. The arcs on the
+ * blended sides are trimmed back so the blend can ease from the arc's
+ * curvature into the turn; the trim grows with the blend amount up to
+ * BLEND_MAX_ANGLE of arc, but never takes more than MAX_ARC_TRIM of an arc.
+ * Shorter trims are tried when a blend would kink, and a connector with no
+ * fair G2 blend keeps its tangent-continuous shape.
+ */
+export function applyCurvatureBlends(
+  segments: PathSegment[],
+  blends: ConnectorBlend[],
+  closed: boolean
+): PathSegment[] {
+  const result = segments.slice()
+  const trimmable = segments.map(seg => seg.type === 'arc' ? seg.length * MAX_ARC_TRIM : 0)
+
+  for (const blend of blends) {
+    const connector = result[blend.index]
+    const prevIndex = blend.index - 1
+    const nextIndex = blend.index + 1 < result.length ? blend.index + 1 : (closed ? 0 : -1)
+    const prev = !connector.needsMoveTo && prevIndex >= 0 ? result[prevIndex] : undefined
+    // The first segment always starts a sub-path, even when a closed path wraps to it
+    const next = nextIndex >= 0 && (nextIndex === 0 || !result[nextIndex].needsMoveTo) ? result[nextIndex] : undefined
+
+    const blendPrev = prev?.type === 'arc' && blend.exitBlend > 0
+    const blendNext = next?.type === 'arc' && blend.entryBlend > 0
+    if (!blendPrev && !blendNext) continue
+
+    for (const scale of TRIM_SCALES) {
+      const trimmedPrev = blendPrev
+        ? trimArc(prev as ArcSegment, Math.min((prev as ArcSegment).radius * BLEND_MAX_ANGLE * blend.exitBlend * scale, trimmable[prevIndex]), true)
+        : undefined
+      const trimmedNext = blendNext
+        ? trimArc(next as ArcSegment, Math.min((next as ArcSegment).radius * BLEND_MAX_ANGLE * blend.entryBlend * scale, trimmable[nextIndex]), false)
+        : undefined
+
+      const start = trimmedPrev ? curvatureAt(trimmedPrev, 1) : connectorEnd(connector, 0)
+      const end = trimmedNext ? curvatureAt(trimmedNext, 0) : connectorEnd(connector, 1)
+      const chordLength = distance(start.point, end.point)
+      const bezier = solveG2Blend(
+        start,
+        end,
+        chordLength * TANGENT_DISTANCE_FACTOR * blend.exitLength,
+        chordLength * TANGENT_DISTANCE_FACTOR * blend.entryLength
+      )
+      if (!bezier) continue
+
+      result[blend.index] = { ...bezier, needsMoveTo: connector.needsMoveTo }
+      if (trimmedPrev) result[prevIndex] = trimmedPrev
+      if (trimmedNext) result[nextIndex] = trimmedNext
+      break
+    }
+  }
+  return result
+}
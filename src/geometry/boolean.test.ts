@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import type { Point, PathData, BooleanOperation } from '../types'
+import { booleanPathData } from './boolean'
+import { computeAreaProperties } from './areaProperties'
+
+const RADIUS = 30
+
+/**
+ * Closed circle outline as two half arcs, clockwise on screen
+ */
+function circlePath(center: Point, radius: number = RADIUS): PathData {
+  const half = Math.PI * radius
+  return {
+    segments: [
+      { type: 'arc', center, radius, startAngle: 0, endAngle: Math.PI, counterclockwise: false, length: half },
+      { type: 'arc', center, radius, startAngle: Math.PI, endAngle: Math.PI * 2, counterclockwise: false, length: half }
+    ],
+    totalLength: 2 * half
+  }
+}
+
+/**
+ * Area shared by two circles of radius r whose centers are d apart
+ */
+function lensArea(r: number, d: number): number {
+  return 2 * r * r * Math.acos(d / (2 * r)) - (d / 2) * Math.sqrt(4 * r * r - d * d)
+}
+
+const areaOf = (pathData: PathData) => computeAreaProperties(pathData)?.area ?? 0
+
+describe('booleanPathData', () => {
+  const d = 40
+  const a = circlePath({ x: 0, y: 0 })
+  const b = circlePath({ x: d, y: 0 })
+  const disc = Math.PI * RADIUS * RADIUS
+  const lens = lensArea(RADIUS, d)
+
+  const expected: Record<BooleanOperation, number> = {
+    union: 2 * disc - lens,
+    intersect: lens,
+    subtract: disc - lens,
+    exclude: 2 * disc - 2 * lens
+  }
+
+  for (const operation of Object.keys(expected) as BooleanOperation[]) {
+    it(`gives the ${operation} area of two overlapping circles`, () => {
+      const result = booleanPathData([a, b], operation)
+      expect(result.segments.length).toBeGreaterThan(0)
+      expect(result.segments.every(seg => seg.type === 'arc')).toBe(true)
+      expect(areaOf(result)).toBeCloseTo(expected[operation], 6)
+    })
+  }
+
+  it('keeps the outer outline of the union as two arcs meeting at the crossings', () => {
+    const union = booleanPathData([a, b], 'union')
+    const outerSweep = 2 * Math.PI - 2 * Math.acos(d / 2 / RADIUS)
+    expect(union.totalLength).toBeCloseTo(2 * RADIUS * outerSweep, 6)
+    const centroid = computeAreaProperties(union)!.centroid
+    expect(centroid.x).toBeCloseTo(d / 2, 6)
+    expect(centroid.y).toBeCloseTo(0, 6)
+  })
+
+  it('subtracts a contained circle as a hole', () => {
+    const inner = circlePath({ x: 5, y: 0 }, 10)
+    const ring = booleanPathData([a, inner], 'subtract')
+    expect(ring.segments.filter(seg => seg.needsMoveTo)).toHaveLength(2)
+    expect(areaOf(ring)).toBeCloseTo(disc - Math.PI * 100, 6)
+  })
+
+  it('leaves nothing when disjoint circles are intersected', () => {
+    const far = circlePath({ x: 200, y: 0 })
+    expect(booleanPathData([a, far], 'intersect').segments).toEqual([])
+    expect(areaOf(booleanPathData([a, far], 'union'))).toBeCloseTo(2 * disc, 6)
+  })
+})
@@ -0,0 +1,415 @@
+import type { Point, Shape, PathData, PathSegment, PathConfig, BooleanOutline, BooleanOperation } from '../types'
+import { distance } from './math'
+import {
+  type BaseSegment, arcSweep, pointAt, startOf, endOf, slice, reverseSegment,
+  crossPolylineEdges, refineCrossing, splitSubpaths
+} from './segments'
+import { curvatureAt } from './curvature'
+import { computePathHulls } from './path'
+
+// Ends closer than this (world units) are the same point
+const JOIN_TOLERANCE = 1e-3
+// Pieces this close to another outline run along it (shared arcs and connectors)
+const ON_OUTLINE_TOLERANCE = 1e-3
+// Refined crossings further apart than this are not real crossings
+const CROSSING_TOLERANCE = 1e-6
+// Parameters this close to a segment end or to each other do not split it
+const SPLIT_EPSILON = 1e-7
+// Polyline samples per curved segment when searching for crossings
+const CROSSING_SAMPLES = 32
+// Samples and refinement steps when finding the nearest point on a bezier
+const NEAREST_SAMPLES = 32
+const NEAREST_ITERATIONS = 40
+// Bisection steps when locating a crossing of the inside-test ray on a curve
+const RAY_ITERATIONS = 50
+// How far either side of a piece the result is tested (world units)
+const SIDE_OFFSET = 1e-2
+// Inside tests cast a ray in this direction, at an angle no outline is drawn at
+const RAY_ANGLE = 0.7391
+
+/**
+ * A closed run of segments, each starting where the previous one ends
+ */
+type Loop = BaseSegment[]
+
+// Whether a point is inside the result, given whether it is inside each operand
+export const BOOLEAN_OPERATIONS: Record<BooleanOperation, (inside: boolean[]) => boolean> = {
+  union: inside => inside.some(Boolean),
+  subtract: inside => inside[0] && !inside.slice(1).some(Boolean),
+  intersect: inside => inside.every(Boolean),
+  exclude: inside => inside.filter(Boolean).length % 2 === 1
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+interface Box {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * A segment with a polyline through it and a box around it, for finding
+ * crossings quickly
+ */
+interface SampledSegment {
+  seg: BaseSegment
+  points: Point[]
+  box: Box
+  margin: number  // How far the polyline can stray from the segment
+}
+
+function sampleSegment(seg: BaseSegment): SampledSegment {
+  const count = seg.type === 'line' ? 1 : CROSSING_SAMPLES
+  const points = Array.from({ length: count + 1 }, (_, i) => pointAt(seg, i / count))
+  // Chords stray from the curve by less than their own length
+  const margin = seg.type === 'line' ? 0 : seg.length / count
+  const box = {
+    minX: Math.min(...points.map(p => p.x)) - margin,
+    minY: Math.min(...points.map(p => p.y)) - margin,
+    maxX: Math.max(...points.map(p => p.x)) + margin,
+    maxY: Math.max(...points.map(p => p.y)) + margin
+  }
+  return { seg, points, box, margin }
+}
+
+function boxesOverlap(a: Box, b: Box): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY
+}
+
+function boxContains(box: Box, p: Point, margin: number): boolean {
+  return p.x >= box.minX - margin && p.x <= box.maxX + margin && p.y >= box.minY - margin && p.y <= box.maxY + margin
+}
+
+// ============================================================================
+// GEOMETRIC QUERIES
+// ============================================================================
+
+/**
+ * Parameters where two segments cross
+ */
+function findCrossings(a: SampledSegment, b: SampledSegment): { ta: number; tb: number }[] {
+  if (!boxesOverlap(a.box, b.box)) return []
+  // Arcs of one circle overlap or touch but never cross
+  if (a.seg.type === 'arc' && b.seg.type === 'arc' && distance(a.seg.center, b.seg.center) < ON_OUTLINE_TOLERANCE &&
+      Math.abs(a.seg.radius - b.seg.radius) < ON_OUTLINE_TOLERANCE) return []
+  const countA = a.points.length - 1
+  const countB = b.points.length - 1
+
+  const crossings: { ta: number; tb: number; point: Point }[] = []
+  for (let i = 0; i < countA; i++) {
+    for (let j = 0; j < countB; j++) {
+      const hit = crossPolylineEdges(a.points[i], a.points[i + 1], b.points[j], b.points[j + 1])
+      if (!hit) continue
+      const refined = refineCrossing(a.seg, b.seg, { ta: (i + hit.s) / countA, tb: (j + hit.t) / countB })
+      const point = pointAt(a.seg, refined.ta)
+      // Chords of curves that only touch can still cross
+      if (distance(point, pointAt(b.seg, refined.tb)) > CROSSING_TOLERANCE) continue
+      // Crossings on a shared sample point are found by both edges
+      if (crossings.some(c => distance(c.point, point) < CROSSING_TOLERANCE)) continue
+      crossings.push({ ...refined, point })
+    }
+  }
+  return crossings
+}
+
+/**
+ * Parameter of the point on a segment nearest to `p`, and how far away it is
+ */
+function nearestOnSegment(seg: BaseSegment, p: Point): { t: number; distance: number } {
+  const at = (t: number) => ({ t, distance: distance(pointAt(seg, t), p) })
+  switch (seg.type) {
+    case 'line': {
+      const dx = seg.end.x - seg.start.x
+      const dy = seg.end.y - seg.start.y
+      const lengthSq = dx * dx + dy * dy
+      if (lengthSq < 1e-18) return at(0)
+      return at(Math.max(0, Math.min(1, ((p.x - seg.start.x) * dx + (p.y - seg.start.y) * dy) / lengthSq)))
+    }
+    case 'arc': {
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      if (Math.abs(sweep) < 1e-12) return at(0)
+      const angle = Math.atan2(p.y - seg.center.y, p.x - seg.center.x)
+      const t = arcSweep(seg.startAngle, angle, seg.counterclockwise) / sweep
+      if (t <= 1) return at(t)
+      const start = at(0)
+      const end = at(1)
+      return start.distance < end.distance ? start : end
+    }
+    case 'bezier': {
+      let best = 0
+      let bestDistance = Infinity
+      for (let i = 0; i <= NEAREST_SAMPLES; i++) {
+        const d = distance(pointAt(seg, i / NEAREST_SAMPLES), p)
+        if (d < bestDistance) {
+          bestDistance = d
+          best = i / NEAREST_SAMPLES
+        }
+      }
+      // Golden-section search around the nearest sample
+      let lo = Math.max(0, best - 1 / NEAREST_SAMPLES)
+      let hi = Math.min(1, best + 1 / NEAREST_SAMPLES)
+      const ratio = (Math.sqrt(5) - 1) / 2
+      for (let i = 0; i < NEAREST_ITERATIONS; i++) {
+        const m1 = hi - (hi - lo) * ratio
+        const m2 = lo + (hi - lo) * ratio
+        if (distance(pointAt(seg, m1), p) < distance(pointAt(seg, m2), p)) {
+          hi = m2
+        } else {
+          lo = m1
+        }
+      }
+      return at((lo + hi) / 2)
+    }
+  }
+}
+
+/**
+ * Nearest point on any of the segments within `maxDistance`, or null
+ */
+function nearestOnOutline(p: Point, outline: SampledSegment[], maxDistance: number): { seg: BaseSegment; t: number; distance: number } | null {
+  let best: { seg: BaseSegment; t: number; distance: number } | null = null
+  for (const sampled of outline) {
+    if (!boxContains(sampled.box, p, maxDistance)) continue
+    const nearest = nearestOnSegment(sampled.seg, p)
+    if (nearest.distance <= maxDistance && (!best || nearest.distance < best.distance)) {
+      best = { seg: sampled.seg, ...nearest }
+    }
+  }
+  return best
+}
+
+/**
+ * Winding number of an outline around `p`: the signed count of its crossings
+ * with a ray from `p`. Crossings are found on each segment's polyline
+ * (consecutive samples on opposite sides of the ray) and located on the curve
+ * itself when they lie close to `p`.
+ */
+function windingNumber(p: Point, outline: SampledSegment[]): number {
+  const cos = Math.cos(RAY_ANGLE)
+  const sin = Math.sin(RAY_ANGLE)
+  const along = (q: Point) => (q.x - p.x) * cos + (q.y - p.y) * sin
+  const across = (q: Point) => (q.y - p.y) * cos - (q.x - p.x) * sin
+
+  let winding = 0
+  for (const { seg, points, box, margin } of outline) {
+    // Boxes wholly behind the ray or to one side of it cannot cross it
+    const corners = [
+      { x: box.minX, y: box.minY }, { x: box.maxX, y: box.minY },
+      { x: box.minX, y: box.maxY }, { x: box.maxX, y: box.maxY }
+    ]
+    if (corners.every(q => along(q) < 0)) continue
+    const sides = corners.map(q => across(q) > 0)
+    if (sides.every(side => side === sides[0])) continue
+
+    const count = points.length - 1
+    let v0 = across(points[0])
+    for (let i = 0; i < count; i++) {
+      const v1 = across(points[i + 1])
+      if ((v0 > 0) !== (v1 > 0)) {
+        const f = v0 / (v0 - v1)
+        let u = along({
+          x: points[i].x + (points[i + 1].x - points[i].x) * f,
+          y: points[i].y + (points[i + 1].y - points[i].y) * f
+        })
+        if (Math.abs(u) <= margin) {
+          let lo = i / count
+          let hi = (i + 1) / count
+          for (let k = 0; k < RAY_ITERATIONS; k++) {
+            const mid = (lo + hi) / 2
+            if ((across(pointAt(seg, mid)) > 0) === (v0 > 0)) {
+              lo = mid
+            } else {
+              hi = mid
+            }
+          }
+          u = along(pointAt(seg, (lo + hi) / 2))
+        }
+        if (u > 0) winding += v1 > v0 ? 1 : -1
+      }
+      v0 = v1
+    }
+  }
+  return winding
+}
+
+/**
+ * Whether a piece runs along an outline (its quarter points all lie on it)
+ */
+function liesAlong(piece: BaseSegment, outline: SampledSegment[]): boolean {
+  return [0.25, 0.5, 0.75].every(t => nearestOnOutline(pointAt(piece, t), outline, ON_OUTLINE_TOLERANCE) !== null)
+}
+
+// ============================================================================
+// COMBINING OUTLINES
+// ============================================================================
+
+/**
+ * Cut a segment at sorted parameters, dropping pieces too short to matter
+ */
+function cutAt(seg: BaseSegment, params: number[]): BaseSegment[] {
+  const cuts = [...params].sort((a, b) => a - b).filter(t => t > SPLIT_EPSILON && t < 1 - SPLIT_EPSILON)
+  const bounds = [0]
+  for (const t of cuts) {
+    if (t - bounds[bounds.length - 1] > SPLIT_EPSILON) bounds.push(t)
+  }
+  bounds.push(1)
+  const pieces: BaseSegment[] = []
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const piece = bounds.length === 2 ? seg : slice(seg, bounds[i], bounds[i + 1])
+    if (piece.length > 1e-9) pieces.push(piece)
+  }
+  return pieces
+}
+
+/**
+ * Chain pieces end to start into closed loops. Runs that fail to close
+ * (numerical leftovers) are dropped.
+ */
+function stitch(pieces: BaseSegment[]): Loop[] {
+  const starts = pieces.map(startOf)
+  const ends = pieces.map(endOf)
+  const unused = new Set(pieces.map((_, i) => i))
+  const loops: Loop[] = []
+
+  for (const first of pieces.keys()) {
+    if (!unused.has(first)) continue
+    unused.delete(first)
+    const loop = [pieces[first]]
+    let end = ends[first]
+
+    while (distance(end, starts[first]) > JOIN_TOLERANCE) {
+      let next = -1
+      let nextDistance = JOIN_TOLERANCE
+      for (const i of unused) {
+        const d = distance(starts[i], end)
+        if (d < nextDistance) {
+          next = i
+          nextDistance = d
+        }
+      }
+      if (next < 0) break
+      unused.delete(next)
+      loop.push(pieces[next])
+      end = ends[next]
+    }
+
+    if (distance(end, starts[first]) <= JOIN_TOLERANCE) loops.push(loop)
+  }
+  return loops
+}
+
+/**
+ * A piece of an operand's outline as it bounds the result: as it is when the
+ * result lies on its inner side, reversed when the result lies on the other
+ * side, or null when the result is the same on both sides
+ */
+function boundingPiece(piece: BaseSegment, operands: SampledSegment[][], operation: BooleanOperation): BaseSegment | null {
+  const { point, tangent } = curvatureAt(piece, 0.5)
+  const offset = Math.min(SIDE_OFFSET, piece.length * 0.05)
+  // Travelling towards increasing angles, the enclosed area is on this side
+  const inward = { x: -tangent.y, y: tangent.x }
+  const resultAt = (side: number) => {
+    const q = { x: point.x + inward.x * offset * side, y: point.y + inward.y * offset * side }
+    return BOOLEAN_OPERATIONS[operation](operands.map(outline => windingNumber(q, outline) !== 0))
+  }
+  const inner = resultAt(1)
+  if (inner === resultAt(-1)) return null
+  return inner ? piece : reverseSegment(piece)
+}
+
+/**
+ * The loop of a closed path outline, or null for outlines that are open or
+ * broken into pieces (missing tangents)
+ */
+function outlineLoop(pathData: PathData): Loop | null {
+  const subpaths = splitSubpaths(pathData.segments)
+  if (subpaths.length !== 1) return null
+  // Touching shapes leave zero-length connectors
+  const loop = subpaths[0].filter(seg => seg.length > 1e-9)
+  if (loop.length === 0 || distance(endOf(loop[loop.length - 1]), startOf(loop[0])) > JOIN_TOLERANCE) return null
+  return loop
+}
+
+/**
+ * Combine closed outlines with a boolean operation. Union, intersect and
+ * exclude treat the outlines alike; subtract removes every later outline from
+ * the first. Outlines fill as they are drawn (non-zero winding), so ones that
+ * cross themselves count once where they overlap.
+ *
+ * Every outline is cut where it crosses itself or another, and where it runs
+ * onto another (shared arcs), and a piece is kept where the result differs on
+ * its two sides. Runs shared by several outlines are decided once. The kept
+ * pieces are chained into loops, outer ones running towards increasing angles
+ * and holes the other way, each starting a sub-path. Lines, arcs and beziers
+ * stay what they were; stretched (elliptical) arcs become beziers.
+ */
+export function booleanPathData(outlines: PathData[], operation: BooleanOperation): PathData {
+  const operands = outlines
+    .map(outlineLoop)
+    .filter((loop): loop is Loop => loop !== null)
+    .map(loop => loop.map(sampleSegment))
+  if (operands.length === 0) return { segments: [], totalLength: 0 }
+
+  const entries = operands.flatMap((outline, operand) => outline.map(sampled => ({ sampled, operand, cuts: [] as number[] })))
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      for (const { ta, tb } of findCrossings(entries[i].sampled, entries[j].sampled)) {
+        entries[i].cuts.push(ta)
+        entries[j].cuts.push(tb)
+      }
+    }
+  }
+
+  // Where one outline joins or leaves another without crossing it (along a
+  // shared circle) the joint lies on the other outline: cut there too
+  for (const entry of entries) {
+    for (const other of entries) {
+      if (other.operand === entry.operand) continue
+      const joint = startOf(other.sampled.seg)
+      if (!boxContains(entry.sampled.box, joint, ON_OUTLINE_TOLERANCE)) continue
+      const nearest = nearestOnSegment(entry.sampled.seg, joint)
+      if (nearest.distance < ON_OUTLINE_TOLERANCE) entry.cuts.push(nearest.t)
+    }
+  }
+
+  const kept: BaseSegment[] = []
+  for (const { sampled, operand, cuts } of entries) {
+    for (const piece of cutAt(sampled.seg, cuts)) {
+      // Runs shared with an earlier outline were decided there
+      if (operands.slice(0, operand).some(outline => liesAlong(piece, outline))) continue
+      const bounding = boundingPiece(piece, operands, operation)
+      if (bounding) kept.push(bounding)
+    }
+  }
+
+  const segments: PathSegment[] = stitch(kept).flatMap(loop =>
+    loop.map((seg, i) => ({ ...seg, needsMoveTo: i === 0 ? true : undefined }))
+  )
+  return {
+    segments,
+    totalLength: segments.reduce((sum, seg) => sum + seg.length, 0)
+  }
+}
+
+/**
+ * Derived outline of every boolean outline in the document, from the current
+ * outlines of its paths. Open paths and missing paths are left out.
+ */
+export function computeBooleanOutlines(
+  shapes: Shape[],
+  paths: PathConfig[],
+  booleans: BooleanOutline[],
+  globalStretch: number = 0
+): { outline: BooleanOutline; pathData: PathData }[] {
+  return booleans.map(outline => {
+    const operands = outline.pathIds
+      .map(id => paths.find(path => path.id === id))
+      .filter((path): path is PathConfig => path !== undefined && path.closedPath)
+    const hulls = computePathHulls(shapes, operands, globalStretch)
+    return { outline, pathData: booleanPathData(hulls.map(hull => hull.pathData), outline.operation) }
+  })
+}
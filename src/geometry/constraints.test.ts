@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import type { CircleShape, Constraint, ConstraintType, Layer } from '../types'
+import { createCircle } from './shapes/Circle'
+import { solveConstraints, constraintError } from './constraints'
+import { createLayer } from '../utils/layers'
+import { MIN_CIRCLE_RADIUS } from '../constants'
+
+const constraint = (type: ConstraintType, shapeIds: string[], fields: Partial<Constraint> = {}): Constraint =>
+  ({ id: `${type}-${shapeIds.join('-')}`, type, shapeIds, ...fields })
+
+const circleById = (shapes: ReturnType<typeof solveConstraints>, id: string) =>
+  shapes.find(shape => shape.id === id) as CircleShape
+
+describe('solveConstraints', () => {
+  const layers: Layer[] = [createLayer('Layer 1')]
+
+  it('returns the same array when there is nothing to solve', () => {
+    const shapes = [createCircle({ x: 0, y: 0 }, 10, 'a'), createCircle({ x: 50, y: 0 }, 10, 'b')]
+    expect(solveConstraints(shapes, [], [], layers)).toBe(shapes)
+    const satisfied = [constraint('horizontal', ['a', 'b'])]
+    expect(solveConstraints(shapes, satisfied, [], layers)).toBe(shapes)
+  })
+
+  it('moves unpinned shapes halfway to meet', () => {
+    const shapes = [createCircle({ x: 0, y: 0 }, 10, 'a'), createCircle({ x: 50, y: 20 }, 10, 'b')]
+    const solved = solveConstraints(shapes, [constraint('horizontal', ['a', 'b'])], [], layers)
+    expect(circleById(solved, 'a').center.y).toBeCloseTo(10, 9)
+    expect(circleById(solved, 'b').center.y).toBeCloseTo(10, 9)
+  })
+
+  it('keeps pinned shapes in place and converges a chain of constraints', () => {
+    const shapes = [
+      createCircle({ x: 0, y: 0 }, 20, 'a'),
+      createCircle({ x: 100, y: 30 }, 10, 'b'),
+      createCircle({ x: 200, y: -40 }, 15, 'c')
+    ]
+    const constraints = [
+      constraint('tangent', ['a', 'b'], { internal: false }),
+      constraint('equal-radius', ['b', 'c']),
+      constraint('distance', ['b', 'c'], { value: 60 }),
+      constraint('horizontal', ['b', 'c'])
+    ]
+    const solved = solveConstraints(shapes, constraints, [], layers, new Set(['a']))
+
+    const a = circleById(solved, 'a')
+    expect(a).toBe(shapes[0])
+    for (const c of constraints) expect(constraintError(c, solved, [])).toBeLessThan(1e-5)
+  })
+
+  it('never moves shapes on locked layers', () => {
+    const locked: Layer = { ...createLayer('Locked'), locked: true }
+    const shapes = [
+      { ...createCircle({ x: 0, y: 0 }, 10, 'a'), layerId: locked.id },
+      createCircle({ x: 40, y: 0 }, 10, 'b')
+    ]
+    const solved = solveConstraints(shapes, [constraint('distance', ['a', 'b'], { value: 100 })], [], [...layers, locked], new Set(['b']))
+    expect(circleById(solved, 'a')).toBe(shapes[0])
+    expect(circleById(solved, 'b').center.x).toBeCloseTo(100, 9)
+  })
+
+  it('never changes expression-bound centers or radii', () => {
+    const shapes = [
+      { ...createCircle({ x: 0, y: 0 }, 10, 'a'), expressions: { radius: 'r' } },
+      { ...createCircle({ x: 50, y: 0 }, 30, 'b'), expressions: { centerY: '0' } },
+      createCircle({ x: 100, y: 25 }, 10, 'c')
+    ]
+    const constraints = [constraint('equal-radius', ['a', 'b']), constraint('horizontal', ['b', 'c'])]
+    const solved = solveConstraints(shapes, constraints, [], layers, new Set(['b']))
+    expect(circleById(solved, 'a').radius).toBe(10)
+    expect(circleById(solved, 'b').radius).toBeCloseTo(10, 9)
+    expect(circleById(solved, 'b').center).toEqual({ x: 50, y: 0 })
+    expect(circleById(solved, 'c').center.y).toBeCloseTo(0, 9)
+  })
+
+  it('leaves a constraint unsatisfied when both sides are fixed', () => {
+    const shapes = [
+      { ...createCircle({ x: 0, y: 0 }, 10, 'a'), expressions: { centerX: '0' } },
+      { ...createCircle({ x: 50, y: 20 }, 10, 'b'), expressions: { centerY: '20' } }
+    ]
+    const horizontal = constraint('horizontal', ['a', 'b'])
+    const solved = solveConstraints(shapes, [horizontal], [], layers)
+    expect(solved).toBe(shapes)
+    expect(constraintError(horizontal, solved, [])).toBeCloseTo(20, 9)
+  })
+
+  it('keeps radii at or above the minimum while solving', () => {
+    const shapes = [
+      { ...createCircle({ x: 0, y: 0 }, 10, 'a'), expressions: { radius: '0' }, radius: MIN_CIRCLE_RADIUS / 2 },
+      createCircle({ x: 50, y: 0 }, 10, 'b')
+    ]
+    const equal = constraint('equal-radius', ['a', 'b'])
+    const solved = solveConstraints(shapes, [equal], [], layers)
+    expect(circleById(solved, 'b').radius).toBe(MIN_CIRCLE_RADIUS)
+    expect(constraintError(equal, solved, [])).toBeCloseTo(MIN_CIRCLE_RADIUS / 2, 9)
+  })
+})
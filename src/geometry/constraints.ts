@@ -0,0 +1,279 @@
+import type { Shape, CircleShape, Constraint, ConstraintType, PathConfig, Point, MirrorConfig, Layer } from '../types'
+import { distance } from './math'
+import { mirrorOrigin, isCyclicSymmetry } from './path'
+import { MIN_CIRCLE_RADIUS } from '../constants'
+import { getLayerOf } from '../utils/layers'
+
+// Solver stops once every constraint is within this many world units
+const SOLVE_TOLERANCE = 1e-6
+const MAX_SOLVE_ITERATIONS = 100
+
+/**
+ * Display names for each constraint type
+ */
+export const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+  'tangent': 'Tangent',
+  'distance': 'Distance',
+  'equal-radius': 'Equal radius',
+  'horizontal': 'Horizontal',
+  'on-mirror-plane': 'On mirror plane'
+}
+
+/**
+ * Number of shapes each constraint type relates
+ */
+export const CONSTRAINT_ARITY: Record<ConstraintType, number> = {
+  'tangent': 2,
+  'distance': 2,
+  'equal-radius': 2,
+  'horizontal': 2,
+  'on-mirror-plane': 1
+}
+
+// Types that only make sense between circles
+const CIRCLE_ONLY: ConstraintType[] = ['tangent', 'equal-radius']
+
+/**
+ * Whether a constraint type can relate these shapes
+ */
+export function canConstrain(type: ConstraintType, shapes: Shape[]): boolean {
+  if (shapes.length !== CONSTRAINT_ARITY[type]) return false
+  if (CIRCLE_ONLY.includes(type)) return shapes.every(shape => shape.type === 'circle')
+  return true
+}
+
+/**
+ * Create a constraint between shapes, taking its value from their current
+ * layout (the current center distance, or which way two circles touch)
+ */
+export function createConstraint(type: ConstraintType, shapes: Shape[]): Constraint {
+  const constraint: Constraint = {
+    id: crypto.randomUUID(),
+    type,
+    shapeIds: shapes.map(shape => shape.id)
+  }
+  if (type === 'distance') {
+    constraint.value = distance(shapes[0].center, shapes[1].center)
+  }
+  if (type === 'tangent') {
+    const [a, b] = shapes as CircleShape[]
+    // A circle whose center is inside the other touches it from the inside
+    constraint.internal = distance(a.center, b.center) < Math.max(a.radius, b.radius)
+  }
+  return constraint
+}
+
+// ============================================================================
+// SOLVER
+// ============================================================================
+
+/**
+ * Mirror configuration a shape's on-plane constraint refers to: that of the
+ * first path using the shape. Cyclic symmetry has no planes to lie on.
+ */
+function mirrorConfigOf(shapeId: string, paths: PathConfig[]): MirrorConfig | null {
+  const path = paths.find(p => p.shapeOrder.includes(shapeId)) ?? paths[0]
+  if (!path || path.mirrorConfig.planeCount <= 0 || isCyclicSymmetry(path.mirrorConfig)) return null
+  return path.mirrorConfig
+}
+
+/**
+ * Closest point to `point` on any mirror plane (planes pass through the mirror origin)
+ */
+function projectOntoNearestPlane(point: Point, config: MirrorConfig): Point {
+  const origin = mirrorOrigin(config)
+  let best = point
+  let bestDistance = Infinity
+  for (let i = 0; i < config.planeCount; i++) {
+    const angle = config.startAngle + (i * Math.PI) / config.planeCount
+    const ux = Math.cos(angle)
+    const uy = Math.sin(angle)
+    const t = (point.x - origin.x) * ux + (point.y - origin.y) * uy
+    const projected = { x: origin.x + t * ux, y: origin.y + t * uy }
+    const d = distance(point, projected)
+    if (d < bestDistance) {
+      bestDistance = d
+      best = projected
+    }
+  }
+  return best
+}
+
+/**
+ * Center distance at which two circles touch
+ */
+function tangentDistance(internal: boolean | undefined, radiusA: number, radiusB: number): number {
+  return internal ? Math.abs(radiusA - radiusB) : radiusA + radiusB
+}
+
+/**
+ * How far a constraint is from being satisfied, in world units.
+ * Returns null if it cannot be evaluated (missing shapes, or no mirror plane).
+ */
+export function constraintError(constraint: Constraint, shapes: Shape[], paths: PathConfig[]): number | null {
+  const related = constraint.shapeIds.map(id => shapes.find(s => s.id === id))
+  if (related.some(s => s === undefined) || !canConstrain(constraint.type, related as Shape[])) return null
+  const [a, b] = related as Shape[]
+
+  switch (constraint.type) {
+    case 'tangent':
+      return Math.abs(distance(a.center, b.center) - tangentDistance(constraint.internal, (a as CircleShape).radius, (b as CircleShape).radius))
+    case 'distance':
+      return Math.abs(distance(a.center, b.center) - (constraint.value ?? 0))
+    case 'equal-radius':
+      return Math.abs((a as CircleShape).radius - (b as CircleShape).radius)
+    case 'horizontal':
+      return Math.abs(a.center.y - b.center.y)
+    case 'on-mirror-plane': {
+      const config = mirrorConfigOf(a.id, paths)
+      return config ? distance(a.center, projectOntoNearestPlane(a.center, config)) : null
+    }
+  }
+}
+
+/**
+ * How firmly a solved property holds its value: free properties give way to
+ * pinned ones (edited by the user in this update), and fixed ones (on a
+ * locked layer, or bound to an expression) never move
+ */
+type Hold = 'free' | 'pinned' | 'fixed'
+
+const HOLD_RANK: Record<Hold, number> = { free: 0, pinned: 1, fixed: 2 }
+
+/**
+ * Working copy of the solved properties of a shape
+ */
+interface SolverBody {
+  center: Point
+  radius: number | null  // Circles only
+  centerHold: Hold
+  radiusHold: Hold
+}
+
+/**
+ * Shares of a correction the first and second of two properties take: the
+ * one held less firmly moves, both move halfway when held equally, and
+ * neither moves when both are fixed
+ */
+function shares(a: Hold, b: Hold): [number, number] {
+  if (a === 'fixed' && b === 'fixed') return [0, 0]
+  if (a === b) return [0.5, 0.5]
+  return HOLD_RANK[a] > HOLD_RANK[b] ? [0, 1] : [1, 0]
+}
+
+/**
+ * Move two centers along the line between them so they end up `target` apart
+ */
+function solveCenterDistance(a: SolverBody, b: SolverBody, target: number): void {
+  const dx = b.center.x - a.center.x
+  const dy = b.center.y - a.center.y
+  const d = Math.hypot(dx, dy)
+  // Coincident centers: separate along X
+  const ux = d > 1e-9 ? dx / d : 1
+  const uy = d > 1e-9 ? dy / d : 0
+  const error = d - target
+  const [shareA, shareB] = shares(a.centerHold, b.centerHold)
+  a.center = { x: a.center.x + ux * error * shareA, y: a.center.y + uy * error * shareA }
+  b.center = { x: b.center.x - ux * error * shareB, y: b.center.y - uy * error * shareB }
+}
+
+/**
+ * Adjust shapes so they satisfy the constraints, iterating until every
+ * constraint holds or the iteration limit is reached. Shapes in `pinnedIds`
+ * (the ones being edited) keep their values where possible and the shapes
+ * related to them give way. Shapes on locked layers and expression-bound
+ * properties are never changed; constraints they prevent stay unsatisfied.
+ * Returns the original array if nothing moved.
+ */
+export function solveConstraints(
+  shapes: Shape[],
+  constraints: Constraint[],
+  paths: PathConfig[],
+  layers: Layer[],
+  pinnedIds: Set<string> = new Set()
+): Shape[] {
+  if (constraints.length === 0) return shapes
+
+  const bodies = new Map<string, SolverBody>()
+  for (const shape of shapes) {
+    const locked = getLayerOf(shape, layers)?.locked ?? false
+    const hold = (bound: boolean): Hold => locked || bound ? 'fixed' : pinnedIds.has(shape.id) ? 'pinned' : 'free'
+    const expressions = shape.type === 'circle' ? shape.expressions ?? {} : {}
+    bodies.set(shape.id, {
+      center: shape.center,
+      radius: shape.type === 'circle' ? shape.radius : null,
+      centerHold: hold(expressions.centerX !== undefined || expressions.centerY !== undefined),
+      radiusHold: hold(expressions.radius !== undefined)
+    })
+  }
+
+  const active = constraints.filter(c => {
+    const related = c.shapeIds.map(id => shapes.find(s => s.id === id))
+    return related.every(s => s !== undefined) && canConstrain(c.type, related as Shape[])
+  })
+
+  for (let iteration = 0; iteration < MAX_SOLVE_ITERATIONS; iteration++) {
+    let maxError = 0
+
+    for (const constraint of active) {
+      const a = bodies.get(constraint.shapeIds[0])!
+      const b = bodies.get(constraint.shapeIds[1])!
+
+      switch (constraint.type) {
+        case 'tangent': {
+          const target = tangentDistance(constraint.internal, a.radius!, b.radius!)
+          maxError = Math.max(maxError, Math.abs(distance(a.center, b.center) - target))
+          solveCenterDistance(a, b, target)
+          break
+        }
+        case 'distance': {
+          const target = constraint.value ?? 0
+          maxError = Math.max(maxError, Math.abs(distance(a.center, b.center) - target))
+          solveCenterDistance(a, b, target)
+          break
+        }
+        case 'equal-radius': {
+          const error = b.radius! - a.radius!
+          maxError = Math.max(maxError, Math.abs(error))
+          const [shareA, shareB] = shares(a.radiusHold, b.radiusHold)
+          // Clamped here so the remaining error shows in the next iteration
+          if (shareA > 0) a.radius = Math.max(MIN_CIRCLE_RADIUS, a.radius! + error * shareA)
+          if (shareB > 0) b.radius = Math.max(MIN_CIRCLE_RADIUS, b.radius! - error * shareB)
+          break
+        }
+        case 'horizontal': {
+          const error = b.center.y - a.center.y
+          maxError = Math.max(maxError, Math.abs(error))
+          const [shareA, shareB] = shares(a.centerHold, b.centerHold)
+          a.center = { x: a.center.x, y: a.center.y + error * shareA }
+          b.center = { x: b.center.x, y: b.center.y - error * shareB }
+          break
+        }
+        case 'on-mirror-plane': {
+          const config = mirrorConfigOf(constraint.shapeIds[0], paths)
+          if (!config) break
+          const projected = projectOntoNearestPlane(a.center, config)
+          maxError = Math.max(maxError, distance(a.center, projected))
+          if (a.centerHold !== 'fixed') a.center = projected
+          break
+        }
+      }
+    }
+
+    if (maxError < SOLVE_TOLERANCE) break
+  }
+
+  // Write back only the shapes that moved, so unchanged shapes keep their identity
+  let changed = false
+  const solved = shapes.map(shape => {
+    const body = bodies.get(shape.id)!
+    const moved = body.center.x !== shape.center.x || body.center.y !== shape.center.y
+    const resized = shape.type === 'circle' && body.radius !== shape.radius
+    if (!moved && !resized) return shape
+    changed = true
+    return shape.type === 'circle'
+      ? { ...shape, center: body.center, radius: body.radius! }
+      : { ...shape, center: body.center }
+  })
+  return changed ? solved : shapes
+}
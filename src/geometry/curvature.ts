@@ -0,0 +1,203 @@
+import type { Point, PathData, PathSegment } from '../types'
+
+// Tangent directions further apart than this (radians) make a corner
+const CORNER_ANGLE = 0.01
+// Curvature jumps smaller than this fraction of the larger side count as continuous
+const CURVATURE_JUMP_RATIO = 0.02
+// A connector's interior curvature peak is a spike when it exceeds both its
+// end curvatures and its own chord curvature (1 / length) by this factor
+const SPIKE_RATIO = 4
+// Samples per segment when searching a connector for its curvature peak
+const SPIKE_SAMPLES = 64
+
+/**
+ * Position, unit direction of travel and signed curvature (positive turning
+ * towards increasing angles, 1/radius) at a point along a segment
+ */
+export interface CurvatureSample {
+  point: Point
+  tangent: Point
+  curvature: number
+}
+
+/**
+ * How two consecutive segments meet:
+ * - G0: position only (a corner)
+ * - G1: same direction, but the curvature jumps (e.g. line into arc)
+ * - G2: same direction and curvature
+ */
+export type Continuity = 'G0' | 'G1' | 'G2'
+
+export interface Junction {
+  point: Point
+  continuity: Continuity
+  turn: number           // Angle between the directions of travel either side (radians)
+  curvatureJump: number  // |Δ curvature| across the junction
+}
+
+export interface CurvatureSpike {
+  point: Point
+  curvature: number  // Peak curvature inside the connector
+  segmentIndex: number
+}
+
+/**
+ * Signed sweep of an arc: positive in the direction of increasing angle
+ */
+function signedSweep(startAngle: number, endAngle: number, counterclockwise: boolean): number {
+  let sweep = endAngle - startAngle
+  if (counterclockwise) {
+    while (sweep > 0) sweep -= Math.PI * 2
+  } else {
+    while (sweep < 0) sweep += Math.PI * 2
+  }
+  return sweep
+}
+
+/**
+ * Curvature sample from a position and its first two derivatives
+ */
+function fromDerivatives(point: Point, d1: Point, d2: Point): CurvatureSample {
+  const speed = Math.hypot(d1.x, d1.y)
+  if (speed < 1e-12) return { point, tangent: { x: 1, y: 0 }, curvature: 0 }
+  return {
+    point,
+    tangent: { x: d1.x / speed, y: d1.y / speed },
+    curvature: (d1.x * d2.y - d1.y * d2.x) / (speed * speed * speed)
+  }
+}
+
+/**
+ * Curvature at parameter t (0 = start, 1 = end) along a segment
+ */
+export function curvatureAt(seg: PathSegment, t: number): CurvatureSample {
+  switch (seg.type) {
+    case 'line': {
+      const dx = seg.end.x - seg.start.x
+      const dy = seg.end.y - seg.start.y
+      const len = Math.hypot(dx, dy) || 1
+      return {
+        point: { x: seg.start.x + dx * t, y: seg.start.y + dy * t },
+        tangent: { x: dx / len, y: dy / len },
+        curvature: 0
+      }
+    }
+    case 'arc': {
+      const sweep = signedSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      const angle = seg.startAngle + sweep * t
+      const dir = sweep >= 0 ? 1 : -1
+      return {
+        point: { x: seg.center.x + seg.radius * Math.cos(angle), y: seg.center.y + seg.radius * Math.sin(angle) },
+        tangent: { x: -Math.sin(angle) * dir, y: Math.cos(angle) * dir },
+        curvature: dir / seg.radius
+      }
+    }
+    case 'ellipse-arc': {
+      const sweep = signedSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      const theta = seg.startAngle + sweep * t
+      const cos = Math.cos(seg.rotation)
+      const sin = Math.sin(seg.rotation)
+      const rotate = (x: number, y: number): Point => ({ x: x * cos - y * sin, y: x * sin + y * cos })
+      const local = rotate(seg.radiusX * Math.cos(theta), seg.radiusY * Math.sin(theta))
+      // Derivatives with respect to the travel parameter (sweep * theta')
+      const d1 = rotate(-seg.radiusX * Math.sin(theta) * sweep, seg.radiusY * Math.cos(theta) * sweep)
+      const d2 = rotate(-seg.radiusX * Math.cos(theta) * sweep * sweep, -seg.radiusY * Math.sin(theta) * sweep * sweep)
+      return fromDerivatives({ x: seg.center.x + local.x, y: seg.center.y + local.y }, d1, d2)
+    }
+    case 'bezier': {
+      const u = 1 - t
+      const { start: p0, cp1: p1, cp2: p2, end: p3 } = seg
+      const point = {
+        x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+        y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+      }
+      const d1 = {
+        x: 3 * u * u * (p1.x - p0.x) + 6 * u * t * (p2.x - p1.x) + 3 * t * t * (p3.x - p2.x),
+        y: 3 * u * u * (p1.y - p0.y) + 6 * u * t * (p2.y - p1.y) + 3 * t * t * (p3.y - p2.y)
+      }
+      const d2 = {
+        x: 6 * u * (p2.x - 2 * p1.x + p0.x) + 6 * t * (p3.x - 2 * p2.x + p1.x),
+        y: 6 * u * (p2.y - 2 * p1.y + p0.y) + 6 * t * (p3.y - 2 * p2.y + p1.y)
+      }
+      return fromDerivatives(point, d1, d2)
+    }
+  }
+}
+
+/**
+ * Evenly spaced curvature samples along every segment (the teeth of a
+ * curvature comb), `perSegment` + 1 per segment including both ends
+ */
+export function sampleCurvature(pathData: PathData, perSegment: number): CurvatureSample[][] {
+  return pathData.segments.map(seg =>
+    Array.from({ length: perSegment + 1 }, (_, i) => curvatureAt(seg, i / perSegment))
+  )
+}
+
+/**
+ * Continuity at each point where one segment runs into the next. Zero-length
+ * segments (tangent lines between touching circles) have no direction and are
+ * passed over; sub-path breaks are skipped; closed paths include the join back
+ * to the start.
+ */
+export function findJunctions(pathData: PathData, closed: boolean): Junction[] {
+  const segments: PathSegment[] = []
+  let pendingMoveTo = false
+  for (const seg of pathData.segments) {
+    if (seg.length < 1e-9) {
+      pendingMoveTo ||= !!seg.needsMoveTo
+      continue
+    }
+    segments.push(pendingMoveTo ? { ...seg, needsMoveTo: true } : seg)
+    pendingMoveTo = false
+  }
+
+  const junctions: Junction[] = []
+  if (segments.length < 2) return junctions
+  const count = closed ? segments.length : segments.length - 1
+
+  for (let i = 0; i < count; i++) {
+    const next = segments[(i + 1) % segments.length]
+    if (next.needsMoveTo && (i + 1) % segments.length !== 0) continue
+
+    const end = curvatureAt(segments[i], 1)
+    const start = curvatureAt(next, 0)
+    const turn = Math.acos(Math.max(-1, Math.min(1, end.tangent.x * start.tangent.x + end.tangent.y * start.tangent.y)))
+    const curvatureJump = Math.abs(end.curvature - start.curvature)
+    const scale = Math.max(Math.abs(end.curvature), Math.abs(start.curvature))
+
+    let continuity: Continuity = 'G2'
+    if (turn > CORNER_ANGLE) {
+      continuity = 'G0'
+    } else if (curvatureJump > scale * CURVATURE_JUMP_RATIO) {
+      continuity = 'G1'
+    }
+    junctions.push({ point: end.point, continuity, turn, curvatureJump })
+  }
+  return junctions
+}
+
+/**
+ * Bezier connectors whose curvature peaks sharply inside the connector (tight
+ * kinks from entry/exit offsets or tangent lengths), at the peak
+ */
+export function findCurvatureSpikes(pathData: PathData): CurvatureSpike[] {
+  const spikes: CurvatureSpike[] = []
+  pathData.segments.forEach((seg, segmentIndex) => {
+    if (seg.type !== 'bezier' || seg.length < 1e-9) return
+
+    let peak: CurvatureSample | null = null
+    for (let i = 1; i < SPIKE_SAMPLES; i++) {
+      const sample = curvatureAt(seg, i / SPIKE_SAMPLES)
+      if (!peak || Math.abs(sample.curvature) > Math.abs(peak.curvature)) peak = sample
+    }
+    if (!peak) return
+
+    const ends = Math.max(Math.abs(curvatureAt(seg, 0).curvature), Math.abs(curvatureAt(seg, 1).curvature))
+    const threshold = SPIKE_RATIO * Math.max(ends, 1 / seg.length)
+    if (Math.abs(peak.curvature) > threshold) {
+      spikes.push({ point: peak.point, curvature: peak.curvature, segmentIndex })
+    }
+  })
+  return spikes
+}
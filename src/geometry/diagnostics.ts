@@ -0,0 +1,359 @@
+import type { Shape, PathConfig, PathData, Point } from '../types'
+import { distance, normalizeAngle } from './math'
+import { getShapeTangentForDirections, pointOnShape, type TangentResult } from './tangent'
+import { getTangentShape } from './shapes/registry'
+import { computeTangentHull, expandMirroredCircles, resolvePinFillets, mirrorSector, isReflectedCopy, sourceShapeId } from './path'
+import { curvatureAt, findJunctions } from './curvature'
+import { MIN_CIRCLES } from '../constants'
+
+// Arcs shorter than this (radians) only touch their shape
+const ZERO_ARC_ANGLE = 1e-6
+// Most self-intersections reported per path
+const MAX_INTERSECTIONS = 20
+// Longest flattened piece of a curved segment when looking for crossings
+const FLATTEN_STEP = 10
+const MAX_FLATTEN_PIECES = 48
+// A corner this close (world units) to a pin, or to the outlines of two
+// shapes at once, is where the path is meant to turn sharply
+const CORNER_TOLERANCE = 0.01
+
+export type DiagnosticKind =
+  | 'missing-tangent'    // Consecutive shapes nest, so the connector is dropped
+  | 'mirror-seam'        // The path can't cross a mirror plane smoothly (or at all)
+  | 'self-intersection'  // The outline crosses itself
+  | 'zero-length-arc'    // The path only touches a shape
+  | 'arc-wrap'           // Offsets make an arc wrap more than a turn, or the long way round
+  | 'kink'               // The path turns sharply where it should be tangent-continuous
+
+export interface Diagnostic {
+  kind: DiagnosticKind
+  severity: 'error' | 'warning'
+  message: string
+  pathId: string
+  shapeIds: string[]               // Document shapes involved (mirror copies map to their source)
+  point: Point                     // Where to highlight and jump to
+  gap?: { from: Point; to: Point } // Missing connector, from shape to shape
+}
+
+// ============================================================================
+// SHAPE CHECKS
+// ============================================================================
+
+/**
+ * Why there is no tangent line from one shape to the next. Overlapping shapes
+ * still connect through their crossing point, so this is usually nesting.
+ */
+function describeMissingTangent(from: Shape, to: Shape, fromName: string, toName: string): string {
+  if (from.type === 'circle' && to.type === 'circle') {
+    const inner = from.radius >= to.radius ? toName : fromName
+    const outer = from.radius >= to.radius ? fromName : toName
+    return `${inner} lies inside ${outer}, so the path can't get from one to the other`
+  }
+  return `No tangent from ${fromName} to ${toName}: one contains the other`
+}
+
+/**
+ * Tangent problems between consecutive shapes and arc problems on each shape.
+ * Array and mirror copies report under their source shape, once per problem.
+ */
+function diagnoseShapes(shapes: Shape[], path: PathConfig): Diagnostic[] {
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, path.shapeOrder, path.mirrorConfig, path.arrayConfig)
+  const shapeMap = new Map(expandedShapes.map(s => [s.id, s]))
+  const ordered = resolvePinFillets(
+    expandedOrder.map(id => shapeMap.get(id)).filter((s): s is Shape => s !== undefined),
+    path.closedPath
+  )
+  const n = ordered.length
+  if (n < 2) return []
+
+  const names = new Map(shapes.map(s => [s.id, s.name]))
+  const nameOf = (shape: Shape) => names.get(sourceShapeId(shape.id)) ?? shape.name
+
+  const diagnostics: Diagnostic[] = []
+  const reported = new Set<string>()
+  const report = (key: string, diagnostic: Diagnostic) => {
+    if (reported.has(key)) return
+    reported.add(key)
+    diagnostics.push(diagnostic)
+  }
+
+  // Connectors: every pair in a loop, all but the wrap-around on an open path
+  const tangents: (TangentResult | null)[] = ordered.map((curr, i) =>
+    getShapeTangentForDirections(curr, ordered[(i + 1) % n], isReflectedCopy(curr.id))
+  )
+  const connectorCount = path.closedPath ? n : n - 1
+
+  for (let i = 0; i < connectorCount; i++) {
+    const tangent = tangents[i]
+    const from = ordered[i]
+    const to = ordered[(i + 1) % n]
+    const isSeam = mirrorSector(from.id) !== mirrorSector(to.id)
+    // Away from seams, crossing-point connectors are how overlaps are drawn
+    if (tangent !== null && !(isSeam && tangent.isIntersection)) continue
+
+    const fromId = sourceShapeId(from.id)
+    const toId = sourceShapeId(to.id)
+    const shapeIds = [...new Set([fromId, toId])]
+    const gap = { from: from.center, to: to.center }
+    const point = tangent?.p1 ?? { x: (from.center.x + to.center.x) / 2, y: (from.center.y + to.center.y) / 2 }
+
+    if (isSeam) {
+      // A shape crossing the plane meets its copy in a corner instead of a smooth seam
+      const message = tangent !== null
+        ? fromId === toId
+          ? `${nameOf(from)} crosses the mirror plane, so the seam with its mirror copy is a corner`
+          : `${nameOf(from)} and ${nameOf(to)} overlap across the mirror plane, so the seam is a corner`
+        : fromId === toId
+          ? `${nameOf(from)} sits on the mirror plane, so crossing to its copy goes nowhere: make it a wrap seam`
+          : `The mirror seam between ${nameOf(from)} and ${nameOf(to)} doesn't close: one contains the other`
+      report(`seam:${[fromId, toId].sort().join(':')}`, {
+        kind: 'mirror-seam',
+        severity: tangent !== null ? 'warning' : 'error',
+        message,
+        pathId: path.id,
+        shapeIds,
+        point,
+        gap: tangent !== null ? undefined : gap
+      })
+    } else {
+      report(`tangent:${fromId}:${toId}`, {
+        kind: 'missing-tangent',
+        severity: 'error',
+        message: describeMissingTangent(from, to, nameOf(from), nameOf(to)),
+        pathId: path.id,
+        shapeIds,
+        point,
+        gap
+      })
+    }
+  }
+
+  // Arcs: shapes with a connector on both sides (the ends of an open path
+  // wrap to the opposite side by construction)
+  for (let i = 0; i < n; i++) {
+    const shape = ordered[i]
+    if (getTangentShape(shape).isPoint) continue
+    if (!path.closedPath && (i === 0 || i === n - 1)) continue
+    const incoming = tangents[(i - 1 + n) % n]
+    const outgoing = tangents[i]
+    if (!incoming || !outgoing) continue
+
+    const clockwise = (shape.direction ?? 'cw') === 'cw'
+    const offsetDir = clockwise ? 1 : -1
+    const entryAngle = incoming.angle2 + (shape.entryOffset ?? 0) * offsetDir
+    const exitAngle = outgoing.angle1 + (shape.exitOffset ?? 0) * offsetDir
+    // Sweep between the true tangent points, then what the offsets add to it
+    const tangentSweep = clockwise
+      ? normalizeAngle(outgoing.angle1 - incoming.angle2)
+      : normalizeAngle(incoming.angle2 - outgoing.angle1)
+    const intendedSweep = tangentSweep + (shape.exitOffset ?? 0) - (shape.entryOffset ?? 0)
+    const drawnSweep = clockwise
+      ? normalizeAngle(exitAngle - entryAngle)
+      : normalizeAngle(entryAngle - exitAngle)
+
+    const id = sourceShapeId(shape.id)
+    const point = pointOnShape(shape, entryAngle)
+    const degrees = (radians: number) => Math.round(radians * 180 / Math.PI)
+
+    if (intendedSweep > Math.PI * 2 + ZERO_ARC_ANGLE) {
+      report(`wrap:${id}`, {
+        kind: 'arc-wrap',
+        severity: 'warning',
+        message: `The exit offset on ${nameOf(shape)} asks for a ${degrees(intendedSweep)}° arc; more than a full turn is drawn as ${degrees(drawnSweep)}°`,
+        pathId: path.id,
+        shapeIds: [id],
+        point
+      })
+    } else if (intendedSweep < -ZERO_ARC_ANGLE) {
+      report(`wrap:${id}`, {
+        kind: 'arc-wrap',
+        severity: 'warning',
+        message: `The entry and exit offsets on ${nameOf(shape)} cross, so its arc wraps ${degrees(drawnSweep)}° the long way round`,
+        pathId: path.id,
+        shapeIds: [id],
+        point
+      })
+    } else if (drawnSweep < ZERO_ARC_ANGLE) {
+      report(`zero:${id}`, {
+        kind: 'zero-length-arc',
+        severity: 'warning',
+        message: `The path only touches ${nameOf(shape)} (zero-length arc)`,
+        pathId: path.id,
+        shapeIds: [id],
+        point
+      })
+    }
+  }
+
+  return diagnostics
+}
+
+// ============================================================================
+// SELF-INTERSECTIONS
+// ============================================================================
+
+interface Piece {
+  a: Point
+  b: Point
+  index: number  // Position along the path, for skipping neighbours
+}
+
+/**
+ * The path as a polyline of short straight pieces (zero-length pieces dropped)
+ */
+function flattenPath(pathData: PathData): Piece[] {
+  const pieces: Piece[] = []
+  for (const seg of pathData.segments) {
+    if (seg.length < 1e-9) continue
+    const steps = seg.type === 'line'
+      ? 1
+      : Math.min(MAX_FLATTEN_PIECES, Math.max(4, Math.ceil(seg.length / FLATTEN_STEP)))
+    let prev = curvatureAt(seg, 0).point
+    for (let i = 1; i <= steps; i++) {
+      const next = curvatureAt(seg, i / steps).point
+      pieces.push({ a: prev, b: next, index: pieces.length })
+      prev = next
+    }
+  }
+  return pieces
+}
+
+/**
+ * Where two pieces properly cross (not just touch at an end), if they do
+ */
+function crossing(p: Piece, q: Piece): Point | null {
+  const r = { x: p.b.x - p.a.x, y: p.b.y - p.a.y }
+  const s = { x: q.b.x - q.a.x, y: q.b.y - q.a.y }
+  const denom = r.x * s.y - r.y * s.x
+  if (Math.abs(denom) < 1e-12) return null
+  const qp = { x: q.a.x - p.a.x, y: q.a.y - p.a.y }
+  const t = (qp.x * s.y - qp.y * s.x) / denom
+  const u = (qp.x * r.y - qp.y * r.x) / denom
+  const eps = 1e-9
+  if (t <= eps || t >= 1 - eps || u <= eps || u >= 1 - eps) return null
+  return { x: p.a.x + r.x * t, y: p.a.y + r.y * t }
+}
+
+/**
+ * Document shapes whose outlines pass closest to a point
+ */
+function nearestShapeIds(point: Point, shapes: Shape[], count: number): string[] {
+  const byDistance = shapes
+    .map(shape => {
+      const kind = getTangentShape(shape)
+      const angle = Math.atan2(point.y - shape.center.y, point.x - shape.center.x)
+      const edge = kind.isPoint ? 0 : kind.getRadiusAtAngle(shape, angle)
+      return { id: sourceShapeId(shape.id), gap: Math.abs(distance(point, shape.center) - edge) }
+    })
+    .sort((a, b) => a.gap - b.gap)
+  return [...new Set(byDistance.map(entry => entry.id))].slice(0, count)
+}
+
+/**
+ * Points where the path's outline crosses itself
+ */
+function diagnoseSelfIntersections(shapes: Shape[], path: PathConfig, pathData: PathData): Diagnostic[] {
+  const pieces = flattenPath(pathData)
+  const last = pieces.length - 1
+  const crossings: Point[] = []
+
+  for (let i = 0; i < pieces.length && crossings.length < MAX_INTERSECTIONS; i++) {
+    const p = pieces[i]
+    const pMinX = Math.min(p.a.x, p.b.x), pMaxX = Math.max(p.a.x, p.b.x)
+    const pMinY = Math.min(p.a.y, p.b.y), pMaxY = Math.max(p.a.y, p.b.y)
+    for (let j = i + 2; j < pieces.length; j++) {
+      // Neighbours share an end; so do the last and first pieces of a loop
+      if (path.closedPath && i === 0 && j === last) continue
+      const q = pieces[j]
+      if (Math.max(q.a.x, q.b.x) < pMinX || Math.min(q.a.x, q.b.x) > pMaxX) continue
+      if (Math.max(q.a.y, q.b.y) < pMinY || Math.min(q.a.y, q.b.y) > pMaxY) continue
+      const point = crossing(p, q)
+      if (point && !crossings.some(c => distance(c, point) < 1e-3)) {
+        crossings.push(point)
+        if (crossings.length >= MAX_INTERSECTIONS) break
+      }
+    }
+  }
+
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, path.shapeOrder, path.mirrorConfig, path.arrayConfig)
+  const onPath = expandedShapes.filter(shape => expandedOrder.includes(shape.id))
+
+  return crossings.map(point => ({
+    kind: 'self-intersection' as const,
+    severity: 'warning' as const,
+    message: 'The outline crosses itself here',
+    pathId: path.id,
+    shapeIds: nearestShapeIds(point, onPath, 2),
+    point
+  }))
+}
+
+// ============================================================================
+// KINKS
+// ============================================================================
+
+/**
+ * Corners where the outline should run smoothly: every junction is meant to
+ * be tangent-continuous except at sharp pins and where overlapping shapes
+ * (or a shape and its mirror copy) meet at their crossing point. The reported
+ * angle is the numeric tangent mismatch of the computed path.
+ */
+function diagnoseKinks(shapes: Shape[], path: PathConfig, pathData: PathData): Diagnostic[] {
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, path.shapeOrder, path.mirrorConfig, path.arrayConfig)
+  const onPath = expandedShapes.filter(shape => expandedOrder.includes(shape.id))
+  const names = new Map(shapes.map(s => [s.id, s.name]))
+
+  const diagnostics: Diagnostic[] = []
+  for (const junction of findJunctions(pathData, path.closedPath)) {
+    if (junction.continuity !== 'G0') continue
+    const touching = onPath.filter(shape => {
+      const kind = getTangentShape(shape)
+      if (kind.isPoint) return distance(junction.point, shape.center) < CORNER_TOLERANCE
+      const angle = Math.atan2(junction.point.y - shape.center.y, junction.point.x - shape.center.x)
+      return Math.abs(distance(junction.point, shape.center) - kind.getRadiusAtAngle(shape, angle)) < CORNER_TOLERANCE
+    })
+    if (touching.length !== 1 || getTangentShape(touching[0]).isPoint) continue
+
+    const id = sourceShapeId(touching[0].id)
+    const degrees = (junction.turn * 180 / Math.PI).toFixed(1)
+    diagnostics.push({
+      kind: 'kink',
+      severity: 'warning',
+      message: `The path turns ${degrees}° where it meets ${names.get(id) ?? touching[0].name} instead of running on smoothly`,
+      pathId: path.id,
+      shapeIds: [id],
+      point: junction.point
+    })
+  }
+  return diagnostics
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * Problems with one path: connectors dropped because shapes overlap (within a
+ * sector or across a mirror seam), arcs that vanish or wrap past a full turn,
+ * corners where the path should be smooth, and places where the outline
+ * crosses itself
+ */
+export function diagnosePath(shapes: Shape[], path: PathConfig, globalStretch: number = 0): Diagnostic[] {
+  if (path.shapeOrder.length < MIN_CIRCLES) return []
+  const pathData = computeTangentHull(
+    shapes, path.shapeOrder, globalStretch, path.closedPath, path.useStartPoint, path.useEndPoint, path.mirrorConfig, path.arrayConfig
+  )
+  return [
+    ...diagnoseShapes(shapes, path),
+    ...diagnoseKinks(shapes, path, pathData),
+    ...diagnoseSelfIntersections(shapes, path, pathData)
+  ]
+}
+
+/**
+ * Problems with every given path, errors first
+ */
+export function diagnosePaths(shapes: Shape[], paths: PathConfig[], globalStretch: number = 0): Diagnostic[] {
+  const diagnostics = paths.flatMap(path => diagnosePath(shapes, path, globalStretch))
+  return diagnostics.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
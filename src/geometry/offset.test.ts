@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { ArcSegment, PathData } from '../types'
+import { createCircle } from './shapes/Circle'
+import { getOrderedPathSegments } from './path'
+import { offsetPathData, computePathOffsets } from './offset'
+import { computeAreaProperties } from './areaProperties'
+
+// Two circles of radius 20, 100 apart: a closed belt of two half circles and two lines
+const RADIUS = 20
+const SPAN = 100
+const belt = getOrderedPathSegments(
+  [createCircle({ x: 0, y: 0 }, RADIUS, 'a'), createCircle({ x: SPAN, y: 0 }, RADIUS, 'b')],
+  ['a', 'b'],
+  0,
+  true
+)
+
+// Perimeter and area of a belt whose ends have radius r
+const beltLength = (r: number) => 2 * Math.PI * r + 2 * SPAN
+const beltArea = (r: number) => Math.PI * r * r + 2 * r * SPAN
+
+const arcsOf = (pathData: PathData) => pathData.segments.filter((seg): seg is ArcSegment => seg.type === 'arc')
+
+describe('offsetPathData', () => {
+  it('starts from a belt of two arcs and two lines', () => {
+    expect(belt.segments.map(seg => seg.type).sort()).toEqual(['arc', 'arc', 'line', 'line'])
+    expect(belt.totalLength).toBeCloseTo(beltLength(RADIUS), 6)
+    expect(computeAreaProperties(belt)!.area).toBeCloseTo(beltArea(RADIUS), 6)
+  })
+
+  for (const d of [5, -5, 12]) {
+    it(`offsets the belt by ${d} into concentric arcs`, () => {
+      const offset = offsetPathData(belt, d, true)
+      const arcs = arcsOf(offset)
+      expect(arcs).toHaveLength(2)
+      for (const arc of arcs) expect(arc.radius).toBeCloseTo(RADIUS + d, 9)
+      expect(arcs.map(arc => arc.center.x).sort((a, b) => a - b)).toEqual([0, SPAN])
+      expect(offset.totalLength).toBeCloseTo(beltLength(RADIUS + d), 6)
+      expect(computeAreaProperties(offset)!.area).toBeCloseTo(beltArea(RADIUS + d), 6)
+    })
+  }
+
+  it('leaves a zero offset alone', () => {
+    expect(offsetPathData(belt, 0, true)).toBe(belt)
+  })
+
+  it('computes one outline per path offset', () => {
+    const offsets = computePathOffsets(belt, { offsets: [4, -4], closedPath: true })
+    expect(offsets.map(offset => offset.totalLength)).toEqual([
+      expect.closeTo(beltLength(RADIUS + 4), 6),
+      expect.closeTo(beltLength(RADIUS - 4), 6)
+    ])
+    expect(computePathOffsets(belt, { closedPath: true })).toEqual([])
+  })
+})
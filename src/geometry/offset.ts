@@ -0,0 +1,236 @@
+import type { Point, PathData, PathConfig, PathSegment, ArcSegment, BezierSegment } from '../types'
+import { distance, normalize, subtract } from './math'
+import {
+  type BaseSegment, arcSweep, bezierPoint, bezierDirection, pointAt, startOf, endOf, bezierLength, slice,
+  crossPolylineEdges, refineCrossing, orientation, splitSubpaths
+} from './segments'
+
+// Offset pieces whose ends are closer than this (world units) already join
+const JOIN_TOLERANCE = 1e-3
+// Samples per segment when searching for where two offset pieces cross
+const INTERSECTION_SAMPLES = 48
+// Bezier pieces are split until their tangent turns less than this
+const MAX_BEZIER_TURN = Math.PI / 8
+const MAX_BEZIER_DEPTH = 6
+
+// ============================================================================
+// OFFSETTING SEGMENTS
+// ============================================================================
+
+/**
+ * Offset of a point along the normal to a direction of travel. `side` is +1
+ * or -1 so that positive distances point away from the enclosed area.
+ */
+function offsetPoint(point: Point, direction: Point, d: number, side: number): Point {
+  return { x: point.x + direction.y * d * side, y: point.y - direction.x * d * side }
+}
+
+/**
+ * Offset of a bezier: the end points move along their normals and the control
+ * handles keep their directions, with lengths chosen so the midpoint lands on
+ * the true offset. Pieces that turn too much are split first.
+ */
+function offsetBezier(b: BezierSegment, d: number, side: number, depth = 0): BezierSegment[] {
+  const dir0 = bezierDirection(b, 0)
+  const dir1 = bezierDirection(b, 1)
+  const turn = Math.acos(Math.max(-1, Math.min(1, dir0.x * dir1.x + dir0.y * dir1.y)))
+  if (turn > MAX_BEZIER_TURN && depth < MAX_BEZIER_DEPTH) {
+    return [
+      ...offsetBezier(slice(b, 0, 0.5) as BezierSegment, d, side, depth + 1),
+      ...offsetBezier(slice(b, 0.5, 1) as BezierSegment, d, side, depth + 1)
+    ]
+  }
+
+  const start = offsetPoint(b.start, dir0, d, side)
+  const end = offsetPoint(b.end, dir1, d, side)
+  const mid = offsetPoint(bezierPoint(b, 0.5), bezierDirection(b, 0.5), d, side)
+
+  // Solve 3(λ0·h0 + λ1·h1) = 8·mid - 4·start - 4·end for the handle scales
+  const h0 = subtract(b.cp1, b.start)
+  const h1 = subtract(b.cp2, b.end)
+  const rx = (8 * mid.x - 4 * start.x - 4 * end.x) / 3
+  const ry = (8 * mid.y - 4 * start.y - 4 * end.y) / 3
+  const det = h0.x * h1.y - h0.y * h1.x
+  let l0 = 1
+  let l1 = 1
+  if (Math.abs(det) > 1e-9) {
+    l0 = (rx * h1.y - ry * h1.x) / det
+    l1 = (h0.x * ry - h0.y * rx) / det
+    // A handle flipping round means the piece collapsed; keep the original shape
+    if (!(l0 > 0) || !(l1 > 0)) {
+      l0 = 1
+      l1 = 1
+    }
+  }
+
+  const cp1 = { x: start.x + h0.x * l0, y: start.y + h0.y * l0 }
+  const cp2 = { x: end.x + h1.x * l1, y: end.y + h1.y * l1 }
+  return [{ type: 'bezier', start, cp1, cp2, end, length: bezierLength(start, cp1, cp2, end) }]
+}
+
+/**
+ * Offset of one segment. Lines move along their normal and arcs become
+ * concentric arcs; arcs whose radius would drop to zero vanish.
+ */
+function offsetSegment(seg: BaseSegment, d: number, side: number): BaseSegment[] {
+  switch (seg.type) {
+    case 'line': {
+      if (seg.length < 1e-9) return []
+      const direction = normalize(subtract(seg.end, seg.start))
+      const start = offsetPoint(seg.start, direction, d, side)
+      const end = offsetPoint(seg.end, direction, d, side)
+      return [{ type: 'line', start, end, length: seg.length }]
+    }
+    case 'arc': {
+      // Travelling towards increasing angles, the outward normal of the circle is on the travel normal's side
+      const radius = seg.radius + d * side * (seg.counterclockwise ? -1 : 1)
+      if (radius < 1e-6) return []
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      return [{ ...seg, radius, length: radius * Math.abs(sweep), needsMoveTo: undefined }]
+    }
+    case 'bezier':
+      return offsetBezier(seg, d, side)
+  }
+}
+
+// ============================================================================
+// JOINS
+// ============================================================================
+
+/**
+ * Where the end of `a` crosses the start of `b`, as parameters along each.
+ * Prefers the crossing closest to the join. Returns null if they do not cross.
+ */
+function findCrossing(a: BaseSegment, b: BaseSegment): { ta: number; tb: number } | null {
+  const sample = (seg: BaseSegment) =>
+    Array.from({ length: INTERSECTION_SAMPLES + 1 }, (_, i) => pointAt(seg, i / INTERSECTION_SAMPLES))
+  const pa = sample(a)
+  const pb = sample(b)
+
+  let best: { ta: number; tb: number } | null = null
+  let bestScore = Infinity
+  for (let i = 0; i < INTERSECTION_SAMPLES; i++) {
+    for (let j = 0; j < INTERSECTION_SAMPLES; j++) {
+      const hit = crossPolylineEdges(pa[i], pa[i + 1], pb[j], pb[j + 1])
+      if (!hit) continue
+      const ta = (i + hit.s) / INTERSECTION_SAMPLES
+      const tb = (j + hit.t) / INTERSECTION_SAMPLES
+      const score = (1 - ta) + tb
+      if (score < bestScore) {
+        bestScore = score
+        best = { ta, tb }
+      }
+    }
+  }
+  return best ? refineCrossing(a, b, best) : null
+}
+
+/**
+ * Round join about a corner of the original path, from the end of one offset
+ * piece to the start of the next, turning the short way round
+ */
+function roundJoin(corner: Point, from: Point, to: Point, radius: number): ArcSegment {
+  const startAngle = Math.atan2(from.y - corner.y, from.x - corner.x)
+  const endAngle = Math.atan2(to.y - corner.y, to.x - corner.x)
+  const counterclockwise = arcSweep(startAngle, endAngle, false) > Math.PI
+  const sweep = arcSweep(startAngle, endAngle, counterclockwise)
+  return { type: 'arc', center: corner, radius, startAngle, endAngle, counterclockwise, length: radius * Math.abs(sweep) }
+}
+
+/**
+ * Join the end of `prev` (last piece of the output so far) to `next`. Pieces
+ * that overlap (concave corners) are trimmed back to where they cross; pieces
+ * that leave a gap (convex corners) get a round join about the corner, or a
+ * straight line where no corner fits.
+ * Returns the segments to append, replacing `prev`.
+ */
+function joinPieces(prev: BaseSegment, next: BaseSegment, corner: Point, d: number): { prev: BaseSegment; bridge: BaseSegment | null; next: BaseSegment } {
+  const from = endOf(prev)
+  const to = startOf(next)
+  if (distance(from, to) < JOIN_TOLERANCE) return { prev, bridge: null, next }
+
+  const crossing = findCrossing(prev, next)
+  if (crossing && crossing.ta > 0 && crossing.tb < 1) {
+    return { prev: slice(prev, 0, crossing.ta), bridge: null, next: slice(next, crossing.tb, 1) }
+  }
+
+  const radius = Math.abs(d)
+  const onCorner = (p: Point) => Math.abs(distance(p, corner) - radius) < Math.max(JOIN_TOLERANCE, radius * 1e-3)
+  if (onCorner(from) && onCorner(to)) {
+    return { prev, bridge: roundJoin(corner, from, to, radius), next }
+  }
+  return { prev, bridge: { type: 'line', start: from, end: to, length: distance(from, to) }, next }
+}
+
+// ============================================================================
+// PATH OFFSET
+// ============================================================================
+
+/**
+ * Offset one sub-path by `d` (positive away from the enclosed area)
+ */
+function offsetSubpath(segments: BaseSegment[], d: number, closed: boolean, side: number): BaseSegment[] {
+  // Each original segment's offset pieces, with the original point where it ends
+  const pieces = segments.map(seg => ({ offset: offsetSegment(seg, d, side), corner: endOf(seg) }))
+
+  const result: BaseSegment[] = []
+  let corner: Point | null = null
+  for (const piece of pieces) {
+    if (piece.offset.length === 0) continue
+    if (result.length > 0 && corner) {
+      const joined = joinPieces(result[result.length - 1], piece.offset[0], corner, d)
+      result[result.length - 1] = joined.prev
+      if (joined.bridge) result.push(joined.bridge)
+      result.push(joined.next, ...piece.offset.slice(1))
+    } else {
+      result.push(...piece.offset)
+    }
+    corner = piece.corner
+  }
+
+  if (closed && result.length > 1) {
+    // Close the loop at the start point of the original path
+    const joined = joinPieces(result[result.length - 1], result[0], startOf(segments[0]), d)
+    result[result.length - 1] = joined.prev
+    result[0] = joined.next
+    if (joined.bridge) result.push(joined.bridge)
+  }
+  return result
+}
+
+/**
+ * Offset outline of a path at `distance` world units: positive distances grow
+ * the outline outwards, negative ones shrink it inwards. Arcs stay concentric
+ * arcs and lines stay lines; beziers and stretched (elliptical) arcs are
+ * approximated by offset beziers. Concave corners are trimmed where the
+ * offset pieces cross and convex corners are rounded, as a cutter of radius
+ * `distance` would leave them. Offsets larger than a feature of the outline
+ * can still overlap themselves away from the corners.
+ */
+export function offsetPathData(pathData: PathData, offsetDistance: number, closed: boolean): PathData {
+  if (offsetDistance === 0 || pathData.segments.length === 0) return pathData
+
+  const subpaths = splitSubpaths(pathData.segments)
+  // A path broken into pieces (invalid tangents) is offset piece by piece, as open runs
+  const loop = closed && subpaths.length === 1
+  const side = orientation(subpaths.flat())
+
+  const segments: PathSegment[] = []
+  for (const subpath of subpaths) {
+    const offset = offsetSubpath(subpath, offsetDistance, loop, side)
+    offset.forEach((seg, i) => segments.push({ ...seg, needsMoveTo: i === 0 ? true : undefined }))
+  }
+  return {
+    segments,
+    totalLength: segments.reduce((sum, seg) => sum + seg.length, 0)
+  }
+}
+
+/**
+ * Offset outlines of a computed path, one per distance in its `offsets`
+ */
+export function computePathOffsets(pathData: PathData, path: Pick<PathConfig, 'offsets' | 'closedPath'>): PathData[] {
+  return (path.offsets ?? [])
+    .map(offset => offsetPathData(pathData, offset, path.closedPath))
+    .filter(offsetData => offsetData.segments.length > 0)
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import type { CircleShape, Point } from '../types'
+import { fitCirclesToOutline, measureOutlineDeviation } from './outlineFit'
+import { flattenSvgPath } from './svgPath'
+import { computeTangentHull } from './path'
+
+/**
+ * Points evenly spaced around a circle
+ */
+const circleOutline = (center: Point, radius: number, count: number): Point[] =>
+  Array.from({ length: count }, (_, i) => ({
+    x: center.x + radius * Math.cos(2 * Math.PI * i / count),
+    y: center.y + radius * Math.sin(2 * Math.PI * i / count)
+  }))
+
+const circlesOf = (shapes: unknown[]) =>
+  (shapes as CircleShape[]).filter(shape => shape.type === 'circle')
+
+describe('fitCirclesToOutline', () => {
+  it('fits a sampled circle with circles of about its radius', () => {
+    const fit = fitCirclesToOutline(circleOutline({ x: 100, y: 0 }, 50, 200), true, 0.5)
+    expect(fit.closed).toBe(true)
+    expect(fit.maxDeviation).toBeLessThanOrEqual(0.5)
+    expect(circlesOf(fit.shapes)).toHaveLength(fit.shapes.length)
+    for (const circle of circlesOf(fit.shapes)) {
+      expect(Math.abs(circle.radius - 50)).toBeLessThan(1)
+      expect(Math.hypot(circle.center.x - 100, circle.center.y)).toBeLessThan(1.5)
+    }
+  })
+
+  it('pins the corners of a polygon exactly', () => {
+    const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }]
+    const fit = fitCirclesToOutline(square, true, 0.5)
+    expect(fit.maxDeviation).toBeCloseTo(0, 9)
+    expect(fit.shapes.map(shape => shape.type)).toEqual(['pin', 'pin', 'pin', 'pin'])
+    expect(fit.shapes.map(shape => shape.center)).toEqual(square)
+  })
+
+  it('pins both ends of an open outline', () => {
+    const fit = fitCirclesToOutline([{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 100, y: 0 }], false, 0.5)
+    expect(fit.closed).toBe(false)
+    expect(fit.maxDeviation).toBeCloseTo(0, 9)
+    expect(fit.shapes.map(shape => shape.center)).toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }])
+  })
+
+  it('follows an imported belt outline within tolerance and reports its deviation', () => {
+    const [belt] = flattenSvgPath('M0 -20 H100 A20 20 0 0 1 100 20 H0 A20 20 0 0 1 0 -20 Z', 0.25)
+    const fit = fitCirclesToOutline(belt.points, belt.closed, 0.5)
+    expect(fit.maxDeviation).toBeLessThanOrEqual(0.5)
+
+    // Each end is covered by a circle of the end radius
+    for (const end of [{ x: 0, y: 0 }, { x: 100, y: 0 }]) {
+      const circle = circlesOf(fit.shapes).find(c => Math.hypot(c.center.x - end.x, c.center.y - end.y) < 1)
+      expect(circle?.radius).toBeCloseTo(20, 0)
+    }
+
+    const hull = computeTangentHull(fit.shapes, fit.shapeOrder, 0, true, false, false)
+    expect(measureOutlineDeviation(belt.points, true, hull, 0.25)).toBeCloseTo(fit.maxDeviation, 9)
+  })
+})
+
+describe('measureOutlineDeviation', () => {
+  const line = { type: 'line' as const, start: { x: 0, y: 3 }, end: { x: 100, y: 3 }, length: 100 }
+
+  it('measures the distance between an outline and a path both ways', () => {
+    expect(measureOutlineDeviation([{ x: 0, y: 0 }, { x: 100, y: 0 }], false, { segments: [line], totalLength: 100 }, 1))
+      .toBeCloseTo(3, 9)
+    // Path overshooting the outline's end
+    expect(measureOutlineDeviation([{ x: 0, y: 3 }, { x: 60, y: 3 }], false, { segments: [line], totalLength: 100 }, 1))
+      .toBeCloseTo(40, 9)
+  })
+
+  it('treats an empty path as infinitely far', () => {
+    expect(measureOutlineDeviation([{ x: 0, y: 0 }, { x: 1, y: 0 }], false, { segments: [], totalLength: 0 }, 1)).toBe(Infinity)
+  })
+})
@@ -0,0 +1,534 @@
+import type { Point, Shape, Direction, PathData, PathSegment } from '../types'
+import { distance, normalizeAngle } from './math'
+import { computeTangentHull } from './path'
+import { getShapeTangentForDirections } from './tangent'
+import { createCircle } from './shapes/Circle'
+import { createPin } from './shapes/Pin'
+
+/**
+ * Circles (and pins for sharp corners and open ends) whose tangent hull
+ * follows a given outline
+ */
+export interface OutlineFit {
+  shapes: Shape[]
+  shapeOrder: string[]
+  closed: boolean
+  maxDeviation: number  // Largest distance between the outline and the fitted hull
+}
+
+// Turn at a single outline vertex above which it becomes a sharp corner (pin)
+const CORNER_ANGLE = Math.PI / 18
+// Upper bound on resampled outline points (keeps fitting and measuring fast)
+const MAX_OUTLINE_POINTS = 2000
+// Each attempt halves the per-arc tolerance until the hull is within tolerance
+const FIT_ATTEMPTS = 4
+// Heading error (radians) an arc may leave for the next one to correct
+const HEADING_TOLERANCE = 0.02
+// Gap kept between neighbouring circles so tangents exist (above the tangent
+// solver's own margin)
+const TANGENT_GAP = 0.01
+
+// ============================================================================
+// OUTLINE PREPARATION
+// ============================================================================
+
+/**
+ * Total length of a polyline
+ */
+function polylineLength(points: Point[]): number {
+  let len = 0
+  for (let i = 1; i < points.length; i++) len += distance(points[i - 1], points[i])
+  return len
+}
+
+/**
+ * Resample a polyline at (roughly) even spacing, keeping both end points
+ */
+function resample(points: Point[], spacing: number): Point[] {
+  const total = polylineLength(points)
+  const count = Math.max(1, Math.round(total / spacing))
+  const step = total / count
+  const out: Point[] = [points[0]]
+
+  let seg = 1
+  let segStart = 0  // Arc length at points[seg - 1]
+  for (let k = 1; k < count; k++) {
+    const target = k * step
+    while (seg < points.length - 1 && segStart + distance(points[seg - 1], points[seg]) < target) {
+      segStart += distance(points[seg - 1], points[seg])
+      seg++
+    }
+    const a = points[seg - 1]
+    const b = points[seg]
+    const segLen = distance(a, b)
+    const t = segLen > 0 ? (target - segStart) / segLen : 0
+    out.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+  }
+  out.push(points[points.length - 1])
+  return out
+}
+
+/**
+ * Signed turn at vertex b going a -> b -> c (positive turns clockwise on screen)
+ */
+function turnAt(a: Point, b: Point, c: Point): number {
+  const ux = b.x - a.x
+  const uy = b.y - a.y
+  const vx = c.x - b.x
+  const vy = c.y - b.y
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+}
+
+/**
+ * Indices of sharp corners. Corners closer together than `minGap` collapse
+ * into the sharpest of them.
+ */
+function findCorners(points: Point[], closed: boolean, minGap: number): number[] {
+  const n = points.length
+  const corners: number[] = []
+  for (let i = closed ? 0 : 1; i < (closed ? n : n - 1); i++) {
+    const turn = turnAt(points[(i - 1 + n) % n], points[i], points[(i + 1) % n])
+    if (Math.abs(turn) < CORNER_ANGLE) continue
+
+    const prev = corners[corners.length - 1]
+    if (prev !== undefined && distance(points[prev], points[i]) < minGap) {
+      const prevTurn = turnAt(points[(prev - 1 + n) % n], points[prev], points[(prev + 1) % n])
+      if (Math.abs(turn) > Math.abs(prevTurn)) corners[corners.length - 1] = i
+      continue
+    }
+    corners.push(i)
+  }
+  return corners
+}
+
+// ============================================================================
+// ARC FITTING
+// ============================================================================
+
+interface FittedPiece {
+  circle: { center: Point; radius: number } | null  // null = straight piece, covered by a connector
+  direction: Direction
+  sweep: number  // Angle the piece turns around its circle
+}
+
+/**
+ * Cover a run of points with a tangent-continuous chain of arcs and lines.
+ *
+ * Each piece starts where the previous one ended, in the direction it ended
+ * with, so only its curvature is free. For a point at (u, v) in the frame of
+ * the start point and direction, the distance to the arc of curvature k is
+ * close to k(u² + v²)/2 - v, which is linear in k, so every point limits k to
+ * an interval. A piece ends at the last point where a curvature in that
+ * interval also leaves it heading along the outline, so the next piece starts
+ * out right. Tangent continuity is what lets the hull's tangent connectors
+ * join the pieces' circles where the pieces meet.
+ */
+function fitRun(points: Point[], startDirection: Point, tolerance: number): FittedPiece[] {
+  const pieces: FittedPiece[] = []
+  const last = points.length - 1
+  let s = 0
+  let start = points[0]
+  let dir = startDirection
+
+  // Outline heading at a point (the run's ends use their only neighbour)
+  const headingAt = (i: number): Point => {
+    const a = points[Math.max(0, i - 1)]
+    const b = points[Math.min(last, i + 1)]
+    const len = distance(a, b)
+    return { x: (b.x - a.x) / len, y: (b.y - a.y) / len }
+  }
+
+  while (s < last) {
+    // Normal on the clockwise side of travel
+    const normal = { x: -dir.y, y: dir.x }
+    let kMin = -Infinity
+    let kMax = Infinity
+    // Best place to end the piece: the last point where it can leave heading
+    // along the outline, else the one where its heading is least off
+    let bestEnd = s
+    let bestK = 0
+    let bestMiss = Infinity
+    let bestStraight = false
+    let length = 0
+    let turn = 0
+    let heading = dir
+    for (let i = s + 1; i <= last; i++) {
+      const dx = points[i].x - start.x
+      const dy = points[i].y - start.y
+      const u = dx * dir.x + dy * dir.y
+      const v = dx * normal.x + dy * normal.y
+      const a = (u * u + v * v) / 2
+      length += distance(points[i - 1], points[i])
+      // Unwrapped turn from the piece's start direction to the outline's heading
+      const next = headingAt(i)
+      turn += Math.atan2(heading.x * next.y - heading.y * next.x, heading.x * next.x + heading.y * next.y)
+      heading = next
+      if (a === 0) continue
+      const lo = Math.max(kMin, (v - tolerance) / a)
+      const hi = Math.min(kMax, (v + tolerance) / a)
+      if (lo > hi) break
+      kMin = lo
+      kMax = hi
+
+      const k = Math.max(kMin, Math.min(kMax, turn / length))
+      const miss = Math.abs(turn - k * length)
+      if (miss <= HEADING_TOLERANCE || miss < bestMiss) {
+        bestEnd = i
+        bestK = k
+        bestMiss = Math.min(miss, bestMiss)
+        bestStraight = kMin <= 0 && kMax >= 0
+      }
+    }
+    if (bestEnd === s) break
+
+    const e = bestEnd
+    const k = bestK
+    const end = points[e]
+
+    if (k === 0) {
+      const t = (end.x - start.x) * dir.x + (end.y - start.y) * dir.y
+      pieces.push({ circle: null, direction: 'cw', sweep: 0 })
+      start = { x: start.x + dir.x * t, y: start.y + dir.y * t }
+    } else {
+      const radius = 1 / Math.abs(k)
+      const center = { x: start.x + normal.x / k, y: start.y + normal.y / k }
+
+      // Total angle turned around the center (can exceed a half turn)
+      let sweep = 0
+      let prevAngle = Math.atan2(start.y - center.y, start.x - center.x)
+      for (let i = s + 1; i <= e; i++) {
+        const angle = Math.atan2(points[i].y - center.y, points[i].x - center.x)
+        sweep += Math.atan2(Math.sin(angle - prevAngle), Math.cos(angle - prevAngle))
+        prevAngle = angle
+      }
+      // Pieces that also fit a straight line are left to the connectors
+      pieces.push({
+        circle: bestStraight ? null : { center, radius },
+        direction: k > 0 ? 'cw' : 'ccw',
+        sweep: Math.abs(sweep)
+      })
+
+      // Continue from the end of the arc, along its tangent there
+      const toEnd = distance(end, center)
+      const rx = (end.x - center.x) / toEnd
+      const ry = (end.y - center.y) / toEnd
+      start = { x: center.x + rx * radius, y: center.y + ry * radius }
+      dir = k > 0 ? { x: -ry, y: rx } : { x: ry, y: -rx }
+    }
+    s = e
+  }
+  return pieces
+}
+
+// ============================================================================
+// SHAPE ASSEMBLY
+// ============================================================================
+
+interface Generator {
+  center: Point
+  radius: number  // 0 for pins
+  direction: Direction
+  isPin: boolean
+  sweep: number
+}
+
+/**
+ * Drop a circle that repeats its predecessor (e.g. an arc split at the seam
+ * of a closed outline)
+ */
+function mergeDuplicates(gens: Generator[], closed: boolean, tolerance: number): Generator[] {
+  const same = (a: Generator, b: Generator) =>
+    !a.isPin && !b.isPin && a.direction === b.direction &&
+    distance(a.center, b.center) + Math.abs(a.radius - b.radius) < tolerance * 2
+
+  const out: Generator[] = []
+  for (const gen of gens) {
+    const prev = out[out.length - 1]
+    if (prev && same(prev, gen)) {
+      prev.sweep += gen.sweep
+      continue
+    }
+    out.push({ ...gen })
+  }
+  if (closed && out.length > 1 && same(out[out.length - 1], out[0])) {
+    out[0].sweep += out[out.length - 1].sweep
+    out.pop()
+  }
+  return out
+}
+
+/**
+ * Shrink radii where neighbouring circles overlap in a way that has no
+ * tangent (nested circles wrapped the same way, overlapping circles wrapped
+ * opposite ways). Pins count as zero-radius circles wrapped like their
+ * neighbour.
+ */
+function separateNeighbours(gens: Generator[], closed: boolean): void {
+  const pairCount = closed ? gens.length : gens.length - 1
+  // A change can push the previous pair out of shape, so repeat until settled
+  for (let pass = 0; pass <= gens.length; pass++) {
+    let changed = false
+    for (let i = 0; i < pairCount; i++) {
+      const a = gens[i]
+      const b = gens[(i + 1) % gens.length]
+      const d = Math.max(0, distance(a.center, b.center) - TANGENT_GAP)
+      const sameWay = a.isPin || b.isPin || a.direction === b.direction
+
+      if (sameWay && Math.abs(a.radius - b.radius) > d) {
+        const [large, small] = a.radius > b.radius ? [a, b] : [b, a]
+        large.radius = small.radius + d
+        changed = true
+      } else if (!sameWay && a.radius + b.radius > d) {
+        const k = d / (a.radius + b.radius)
+        a.radius *= k
+        b.radius *= k
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+}
+
+/**
+ * Turn generators into document shapes with fresh IDs
+ */
+function toShapes(gens: Generator[]): Shape[] {
+  let circleCount = 0
+  let pinCount = 0
+  return gens.map(gen => gen.isPin
+    ? createPin(gen.center, 0, undefined, `Pin ${++pinCount}`, gen.direction)
+    : createCircle(gen.center, gen.radius, undefined, `Circle ${++circleCount}`, gen.direction)
+  )
+}
+
+/**
+ * Remove circles whose hull arc would wrap far past the arc they were fitted
+ * to (their neighbours' tangents cross over, so the path loops around them)
+ */
+function dropLoopingCircles(gens: Generator[], closed: boolean): Generator[] {
+  let current = gens
+  for (let pass = 0; pass < gens.length && current.length > 2; pass++) {
+    const shapes = toShapes(current)
+    const n = shapes.length
+    const worst = current.findIndex((gen, i) => {
+      if (gen.isPin || (!closed && (i === 0 || i === n - 1))) return false
+      const before = getShapeTangentForDirections(shapes[(i - 1 + n) % n], shapes[i], false)
+      const after = getShapeTangentForDirections(shapes[i], shapes[(i + 1) % n], false)
+      if (!before || !after) return false
+      const sweep = gen.direction === 'cw'
+        ? normalizeAngle(after.angle1 - before.angle2)
+        : normalizeAngle(before.angle2 - after.angle1)
+      return sweep > gen.sweep + Math.PI
+    })
+    if (worst < 0) break
+    current = current.filter((_, i) => i !== worst)
+  }
+  return current
+}
+
+// ============================================================================
+// DEVIATION
+// ============================================================================
+
+/**
+ * Sample a path segment as a polyline with points about `spacing` apart
+ */
+function sampleSegment(seg: PathSegment, spacing: number): Point[] {
+  const steps = Math.min(2000, Math.max(1, Math.ceil(seg.length / spacing)))
+  const out: Point[] = []
+
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps
+    switch (seg.type) {
+      case 'line':
+        out.push({ x: seg.start.x + (seg.end.x - seg.start.x) * t, y: seg.start.y + (seg.end.y - seg.start.y) * t })
+        break
+      case 'bezier': {
+        const mt = 1 - t
+        out.push({
+          x: mt * mt * mt * seg.start.x + 3 * mt * mt * t * seg.cp1.x + 3 * mt * t * t * seg.cp2.x + t * t * t * seg.end.x,
+          y: mt * mt * mt * seg.start.y + 3 * mt * mt * t * seg.cp1.y + 3 * mt * t * t * seg.cp2.y + t * t * t * seg.end.y
+        })
+        break
+      }
+      case 'arc': {
+        // Length carries the sweep, which also covers full circles
+        const sweep = seg.radius > 0 ? seg.length / seg.radius : 0
+        const a = seg.startAngle + (seg.counterclockwise ? -sweep : sweep) * t
+        out.push({ x: seg.center.x + seg.radius * Math.cos(a), y: seg.center.y + seg.radius * Math.sin(a) })
+        break
+      }
+      case 'ellipse-arc': {
+        let sweep = seg.counterclockwise
+          ? normalizeAngle(seg.startAngle - seg.endAngle)
+          : normalizeAngle(seg.endAngle - seg.startAngle)
+        if (sweep === 0 && seg.length > 0) sweep = Math.PI * 2
+        const a = seg.startAngle + (seg.counterclockwise ? -sweep : sweep) * t
+        const cos = Math.cos(seg.rotation)
+        const sin = Math.sin(seg.rotation)
+        const lx = seg.radiusX * Math.cos(a)
+        const ly = seg.radiusY * Math.sin(a)
+        out.push({ x: seg.center.x + lx * cos - ly * sin, y: seg.center.y + lx * sin + ly * cos })
+        break
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * Distance from a point to the nearest of a set of polylines
+ */
+function distanceToPolylines(p: Point, polylines: Point[][]): number {
+  let best = Infinity
+  for (const line of polylines) {
+    for (let i = 0; i < line.length; i++) {
+      const a = line[i]
+      const b = line[Math.min(i + 1, line.length - 1)]
+      const dx = b.x - a.x
+      const dy = b.y - a.y
+      const lenSq = dx * dx + dy * dy
+      const t = lenSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq)) : 0
+      const d = Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t))
+      if (d < best) best = d
+    }
+  }
+  return best
+}
+
+/**
+ * Largest distance between an outline and a computed path, in either
+ * direction (every outline point to the path and every path point to the
+ * outline). An empty path has infinite deviation.
+ */
+export function measureOutlineDeviation(outline: Point[], closed: boolean, pathData: PathData, spacing: number): number {
+  if (pathData.segments.length === 0) return Infinity
+
+  const outlinePolyline = closed ? [...outline, outline[0]] : outline
+  const outlineSamples = resample(outlinePolyline, spacing)
+  const pathPolylines = pathData.segments.map(seg => sampleSegment(seg, spacing))
+
+  let max = 0
+  for (const p of outlineSamples) {
+    max = Math.max(max, distanceToPolylines(p, pathPolylines))
+  }
+  for (const line of pathPolylines) {
+    for (const p of line) {
+      max = Math.max(max, distanceToPolylines(p, [outlinePolyline]))
+    }
+  }
+  return max
+}
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+/**
+ * Build the generators for one fitting attempt
+ */
+function fitGenerators(
+  points: Point[],
+  closed: boolean,
+  corners: number[],
+  spacing: number,
+  arcTolerance: number
+): Generator[] {
+  const n = points.length
+  const pin = (p: Point, direction: Direction): Generator =>
+    ({ center: p, radius: 0, direction, isPin: true, sweep: 0 })
+  const cornerDirection = (i: number): Direction =>
+    turnAt(points[(i - 1 + n) % n], points[i], points[(i + 1) % n]) > 0 ? 'cw' : 'ccw'
+
+  // Runs of outline between sharp corners (open outlines also break at their ends)
+  const breaks = closed ? corners : [0, ...corners, n - 1]
+  const runs: { from: number; to: number }[] = []
+  if (closed && breaks.length === 0) {
+    runs.push({ from: 0, to: n })
+  } else {
+    const runCount = closed ? breaks.length : breaks.length - 1
+    for (let r = 0; r < runCount; r++) {
+      const from = breaks[r]
+      let to = breaks[(r + 1) % breaks.length]
+      if (to <= from) to += n
+      runs.push({ from, to })
+    }
+  }
+
+  const gens: Generator[] = []
+  for (const run of runs) {
+    // Pin at the start of the run (a corner or the open start)
+    const hasStartPin = !(closed && corners.length === 0)
+    const runPoints: Point[] = []
+    for (let i = run.from; i <= run.to; i++) runPoints.push(points[i % n])
+    const samples = resample(runPoints, spacing)
+
+    // Runs leave corners along their first chord; a loop without corners
+    // starts along the outline's tangent at its first point
+    const from = hasStartPin ? samples[0] : points[n - 1]
+    const to = samples[1]
+    const len = distance(from, to)
+    const startDirection = { x: (to.x - from.x) / len, y: (to.y - from.y) / len }
+
+    const pieces = fitRun(samples, startDirection, arcTolerance)
+    const arcGens: Generator[] = pieces
+      .filter(piece => piece.circle !== null)
+      .map(piece => ({
+        center: piece.circle!.center,
+        radius: piece.circle!.radius,
+        direction: piece.direction,
+        isPin: false,
+        sweep: piece.sweep
+      }))
+
+    if (hasStartPin) {
+      const startIndex = run.from % n
+      const isCorner = closed || corners.includes(startIndex)
+      gens.push(pin(points[startIndex], isCorner ? cornerDirection(startIndex) : arcGens[0]?.direction ?? 'cw'))
+    }
+    gens.push(...arcGens)
+  }
+  // The open end
+  if (!closed) {
+    gens.push(pin(points[n - 1], gens[gens.length - 1]?.direction ?? 'cw'))
+  }
+
+  const merged = mergeDuplicates(gens, closed, arcTolerance)
+  separateNeighbours(merged, closed)
+  return dropLoopingCircles(merged, closed)
+}
+
+/**
+ * Fit circles to an outline so the tangent hull through them follows it.
+ *
+ * The outline is split at sharp corners (which become sharp pins, as do the
+ * ends of an open outline), and each run between them is covered by a
+ * tangent-continuous chain of the longest arcs that fit within the tolerance. Straight
+ * pieces need no circle: the tangent connectors between their neighbours
+ * cover them. The fit is tightened until the hull stays within `tolerance`
+ * of the outline (or the attempts run out) and the deviation of the best
+ * attempt is reported.
+ */
+export function fitCirclesToOutline(outline: Point[], closed: boolean, tolerance: number): OutlineFit {
+  const polyline = closed ? [...outline, outline[0]] : outline
+  const totalLength = polylineLength(polyline)
+  const spacing = Math.max(tolerance / 2, totalLength / MAX_OUTLINE_POINTS)
+
+  const corners = findCorners(outline, closed, tolerance)
+
+  let best: OutlineFit | null = null
+  for (let attempt = 0; attempt < FIT_ATTEMPTS; attempt++) {
+    const arcTolerance = tolerance / Math.pow(2, attempt + 1)
+    const gens = fitGenerators(outline, closed, corners, spacing, arcTolerance)
+    const shapes = toShapes(gens)
+    const shapeOrder = shapes.map(shape => shape.id)
+    const pathData = computeTangentHull(shapes, shapeOrder, 0, closed, false, false)
+    const maxDeviation = measureOutlineDeviation(outline, closed, pathData, spacing)
+
+    if (!best || maxDeviation < best.maxDeviation) {
+      best = { shapes, shapeOrder, closed, maxDeviation }
+    }
+    if (maxDeviation <= tolerance) break
+  }
+  return best!
+}
@@ -1,6 +1,10 @@
-import type { CircleShape, PathData, PathSegment, LineSegment, BezierSegment, ArcSegment, EllipseArcSegment, Point, MirrorConfig } from '../types'
-import { distance, pointOnCircle } from './math'
-import { getTangentForDirections, type TangentResult } from './tangent'
+import type { Shape, CircleShape, PathData, PathConfig, LineSegment, BezierSegment, ArcSegment, EllipseArcSegment, Point, MirrorConfig, ArrayConfig, SeamMode } from '../types'
+import { distance, pointOnCircle, subtract, normalize } from './math'
+import { getShapeTangentForDirections, pointOnShape, type TangentResult } from './tangent'
+import { getTangentShape } from './shapes/registry'
+import { createFilletCircle } from './shapes/Pin'
+import { applyCurvatureBlends, type ConnectorBlend } from './blend'
+import { createStretchedArc } from './stretch'
 import {
   NON_OVERLAP_MIN_RADIUS,
   NON_OVERLAP_MAX_RADIUS,
@@ -20,6 +24,34 @@ import { startMeasure, endMeasure } from '../utils/profiler'
  */
 const POSITION_TOLERANCE = 0.01
 
+/**
+ * Where the mirror planes cross when a config doesn't say
+ */
+const WORLD_ORIGIN: Point = { x: 0, y: 0 }
+
+/**
+ * Center the mirror planes of a config pass through
+ */
+export function mirrorOrigin(config: MirrorConfig): Point {
+  return config.origin ?? WORLD_ORIGIN
+}
+
+/**
+ * Whether a config repeats shapes by rotation alone (no reflections)
+ */
+export function isCyclicSymmetry(config: MirrorConfig): boolean {
+  return config.symmetry === 'cyclic'
+}
+
+/**
+ * Number of sectors a config divides the plane into, the original's included:
+ * 2N for N reflection planes, N for N-fold rotation
+ */
+export function mirrorSectorCount(config: MirrorConfig): number {
+  if (config.planeCount <= 0) return 0
+  return isCyclicSymmetry(config) ? config.planeCount : 2 * config.planeCount
+}
+
 /**
  * Check if two points are at the same position (within tolerance)
  */
@@ -30,23 +62,40 @@ function isSamePoint(a: Point, b: Point): boolean {
 }
 
 /**
- * Reflect a point across a line through the origin at the given angle.
+ * Reflect a point across a line through `origin` (the world origin by
+ * default) at the given angle.
  * The angle is measured from the positive X-axis (standard mathematical convention).
  * 
  * For a line at angle θ from X-axis:
  * - θ = 0: horizontal line (X-axis), reflects y → -y
  * - θ = π/2: vertical line (Y-axis), reflects x → -x
  */
-export function reflectPointAcrossLine(point: Point, lineAngle: number): Point {
+export function reflectPointAcrossLine(point: Point, lineAngle: number, origin: Point = WORLD_ORIGIN): Point {
   // Reflection formula across a line through origin at angle θ:
   // x' = x * cos(2θ) + y * sin(2θ)
   // y' = x * sin(2θ) - y * cos(2θ)
   const cos2t = Math.cos(2 * lineAngle)
   const sin2t = Math.sin(2 * lineAngle)
+  const x = point.x - origin.x
+  const y = point.y - origin.y
   
   return {
-    x: point.x * cos2t + point.y * sin2t,
-    y: point.x * sin2t - point.y * cos2t
+    x: origin.x + x * cos2t + y * sin2t,
+    y: origin.y + x * sin2t - y * cos2t
+  }
+}
+
+/**
+ * Rotate a point about `origin` by the given angle
+ */
+function rotatePointAbout(point: Point, rotAngle: number, origin: Point): Point {
+  const cos = Math.cos(rotAngle)
+  const sin = Math.sin(rotAngle)
+  const x = point.x - origin.x
+  const y = point.y - origin.y
+  return {
+    x: origin.x + x * cos - y * sin,
+    y: origin.y + x * sin + y * cos
   }
 }
 
@@ -56,13 +105,15 @@ export function reflectPointAcrossLine(point: Point, lineAngle: number): Point {
  * With N planes at equal angular intervals (π/N apart), we get dihedral symmetry D_N:
  * - 2N total positions (including original)
  * - Planes are at angles: startAngle, startAngle + π/N, startAngle + 2π/N, ...
+ *   and all pass through the config's origin
  * 
  * @param point - The original point
- * @param config - Mirror configuration (planeCount and startAngle)
+ * @param config - Mirror configuration (planeCount, startAngle and origin)
  * @returns Array of unique reflected positions (not including original)
  */
 export function generateMirrorPositions(point: Point, config: MirrorConfig): Point[] {
   const { planeCount, startAngle } = config
+  const origin = mirrorOrigin(config)
   
   if (planeCount <= 0) return []
   
@@ -72,6 +123,18 @@ export function generateMirrorPositions(point: Point, config: MirrorConfig): Poi
   // Helper to check if position is already added
   const isAdded = (p: Point) => addedPositions.some(ap => isSamePoint(p, ap))
   
+  // Cyclic symmetry C_N: just the rotations by multiples of 2π/N
+  if (isCyclicSymmetry(config)) {
+    for (let i = 1; i < planeCount; i++) {
+      const pos = rotatePointAbout(point, (i * 2 * Math.PI) / planeCount, origin)
+      if (!isAdded(pos)) {
+        positions.push(pos)
+        addedPositions.push(pos)
+      }
+    }
+    return positions
+  }
+  
   // For dihedral symmetry D_N with N planes:
   // - The planes divide the space into 2N sectors
   // - We generate positions by applying reflections and rotations
@@ -90,18 +153,12 @@ export function generateMirrorPositions(point: Point, config: MirrorConfig): Poi
       // Pure rotations: rotate by i * 2π/N (equivalent to reflecting across pairs of planes)
       if (i === 0) continue // Skip identity (original point)
       
-      const rotAngle = i * 2 * sectorAngle
-      const cos = Math.cos(rotAngle)
-      const sin = Math.sin(rotAngle)
-      pos = {
-        x: point.x * cos - point.y * sin,
-        y: point.x * sin + point.y * cos
-      }
+      pos = rotatePointAbout(point, i * 2 * sectorAngle, origin)
     } else {
       // Reflections: reflect across plane at index (i - N), then rotate
       const reflectPlaneIndex = i - planeCount
       const planeAngle = startAngle + reflectPlaneIndex * sectorAngle
-      pos = reflectPointAcrossLine(point, planeAngle)
+      pos = reflectPointAcrossLine(point, planeAngle, origin)
     }
     
     // Add if unique
@@ -125,24 +182,22 @@ export function generateMirrorPositions(point: Point, config: MirrorConfig): Poi
  * @returns Array of unique mirrored circles
  */
 export function getMirrorsForCircle(
-  circle: CircleShape,
+  circle: Shape,
   config: MirrorConfig
-): CircleShape[] {
-  const { planeCount, startAngle } = config
-  
-  if (planeCount <= 0) return []
+): Shape[] {
+  if (config.planeCount <= 0) return []
   
-  const results: CircleShape[] = []
+  const results: Shape[] = []
   // Always exclude original position to avoid duplicates when circle is on an axis
   const addedPositions: Point[] = [circle.center]
   
   const isAdded = (p: Point) => addedPositions.some(ap => isSamePoint(p, ap))
-  const sectorCount = 2 * planeCount
+  const sectorCount = mirrorSectorCount(config)
   
-  // Generate mirrors for each sector (1 to 2N-1)
+  // Generate mirrors for each sector (1 to 2N-1, or 1 to N-1 for cyclic symmetry)
   // This matches the ordering used in expandMirroredCircles
   for (let sector = 1; sector < sectorCount; sector++) {
-    const mirror = createSectorMirror(circle, sector, planeCount, startAngle, sector - 1)
+    const mirror = createSectorMirror(circle, sector, config, sector - 1)
     
     if (!isAdded(mirror.center)) {
       results.push(mirror)
@@ -153,6 +208,109 @@ export function getMirrorsForCircle(
   return results
 }
 
+// ============================================================================
+// ARRAYS
+// ============================================================================
+
+/**
+ * Number of copies an array adds for each shape in its set (0 when unset)
+ */
+function arrayCopyCount(config: ArrayConfig | undefined): number {
+  return config ? Math.max(0, Math.floor(config.count) - 1) : 0
+}
+
+/**
+ * Copy of a shape in array instance k (1 = next to the original).
+ * Linear instances are translated and keep the path's direction; radial
+ * instances are rotated about the array center, so they keep it too.
+ * Copies keep the mirrored flag, so mirroring repeats them as well, but
+ * not the seam mode.
+ */
+function createArrayCopy(shape: Shape, instance: number, config: ArrayConfig): Shape {
+  const copy: Shape = {
+    ...shape,
+    id: `${shape.id}_array_${instance}`,
+    name: `${shape.name} (Array ${instance})`,
+    seam: undefined
+  }
+  
+  if (config.type === 'linear') {
+    const offset = instance * config.spacing
+    return {
+      ...copy,
+      center: {
+        x: shape.center.x + offset * Math.cos(config.angle),
+        y: shape.center.y + offset * Math.sin(config.angle)
+      }
+    }
+  }
+  
+  const rotAngle = instance * config.angle
+  const rotated: Shape = { ...copy, center: rotatePointAbout(shape.center, rotAngle, config.center) }
+  return getTangentShape(rotated).mapRotation(rotated, (rotation) => rotation + rotAngle)
+}
+
+/**
+ * All array copies of one shape (none unless it is in the array's set)
+ */
+export function getArrayCopies(shape: Shape, config: ArrayConfig | undefined): Shape[] {
+  if (!config || !config.shapeIds.includes(shape.id)) return []
+  return Array.from({ length: arrayCopyCount(config) }, (_, i) => createArrayCopy(shape, i + 1, config))
+}
+
+/**
+ * Expand shapes and order to include array copies.
+ * 
+ * The arrayed shapes are taken in path order, and every instance repeats
+ * them in that order right after the last of them: with A and B arrayed
+ * three times, the order S, A, B, E becomes S, A, B, A1, B1, A2, B2, E.
+ * Translations and rotations keep the path direction, so every instance
+ * runs forward.
+ * 
+ * @param shapes - All shapes in the document
+ * @param order - Path order of shapes
+ * @param config - Array configuration (none when unset)
+ * @returns Expanded shapes and order including array copies
+ */
+export function expandArrayedCircles(
+  shapes: Shape[],
+  order: string[],
+  config?: ArrayConfig
+): { expandedShapes: Shape[], expandedOrder: string[] } {
+  const copyCount = arrayCopyCount(config)
+  if (!config || copyCount === 0) {
+    return { expandedShapes: shapes, expandedOrder: order }
+  }
+  
+  const members = new Set(config.shapeIds)
+  const shapeMap = new Map(shapes.map(s => [s.id, s]))
+  const arrayedShapes: Shape[] = []
+  let lastIndex = -1
+  order.forEach((id, index) => {
+    const shape = shapeMap.get(id)
+    if (shape && members.has(id)) {
+      arrayedShapes.push(shape)
+      lastIndex = index
+    }
+  })
+  
+  if (arrayedShapes.length === 0) {
+    return { expandedShapes: shapes, expandedOrder: order }
+  }
+  
+  const copies: Shape[] = []
+  for (let instance = 1; instance <= copyCount; instance++) {
+    for (const shape of arrayedShapes) {
+      copies.push(createArrayCopy(shape, instance, config))
+    }
+  }
+  
+  return {
+    expandedShapes: [...shapes, ...copies],
+    expandedOrder: [...order.slice(0, lastIndex + 1), ...copies.map(c => c.id), ...order.slice(lastIndex + 1)]
+  }
+}
+
 // ============================================================================
 // LEGACY COMPATIBILITY FUNCTIONS
 // ============================================================================
@@ -213,39 +371,55 @@ export function createBothAxisMirroredCircle(circle: CircleShape): CircleShape {
  * 
  * For even k: rotation by k*π/N (even number of reflections)
  * For odd k: reflect across plane (k-1)/2, then rotate
+ *
+ * With cyclic symmetry every sector k is the rotation by k*2π/N.
  */
 function createSectorMirror(
-  circle: CircleShape,
+  circle: Shape,
   sector: number,
-  planeCount: number,
-  startAngle: number,
+  config: MirrorConfig,
   mirrorIndex: number
-): CircleShape {
+): Shape {
+  const { planeCount, startAngle } = config
+  const origin = mirrorOrigin(config)
+  
+  if (isCyclicSymmetry(config)) {
+    // Rotated copies keep the path's direction, offsets and tangent lengths
+    const rotAngle = (sector * 2 * Math.PI) / planeCount
+    const copy: Shape = {
+      ...circle,
+      id: `${circle.id}_mirror_r${sector}_${mirrorIndex}`,
+      name: `${circle.name} (Rotated R${sector})`,
+      center: rotatePointAbout(circle.center, rotAngle, origin),
+      mirrored: false
+    }
+    return getTangentShape(copy).mapRotation(copy, (rotation) => rotation + rotAngle)
+  }
+  
   const sectorAngle = Math.PI / planeCount
   
   let newCenter: Point
   let isReflection: boolean
+  // Orientation of the copy (only matters for non-circular shapes)
+  let mapRotation: (rotation: number) => number
   
   if (sector % 2 === 0) {
     // Even sector: pure rotation by sector * sectorAngle
     const rotAngle = sector * sectorAngle
-    const cos = Math.cos(rotAngle)
-    const sin = Math.sin(rotAngle)
-    newCenter = {
-      x: circle.center.x * cos - circle.center.y * sin,
-      y: circle.center.x * sin + circle.center.y * cos
-    }
+    newCenter = rotatePointAbout(circle.center, rotAngle, origin)
     isReflection = false
+    mapRotation = (rotation) => rotation + rotAngle
   } else {
     // Odd sector: reflect across the plane between sector k-1 and sector k
     // For sector k, that's plane at index ((k+1)/2) % planeCount
     const planeIndex = ((sector + 1) / 2) % planeCount
     const planeAngle = startAngle + planeIndex * sectorAngle
-    newCenter = reflectPointAcrossLine(circle.center, planeAngle)
+    newCenter = reflectPointAcrossLine(circle.center, planeAngle, origin)
     isReflection = true
+    mapRotation = (rotation) => 2 * planeAngle - rotation
   }
   
-  return {
+  const mirror: Shape = {
     ...circle,
     id: `${circle.id}_mirror_s${sector}_${mirrorIndex}`,
     name: `${circle.name} (Mirror S${sector})`,
@@ -262,6 +436,8 @@ function createSectorMirror(
     exitTangentLength: isReflection ? circle.entryTangentLength : circle.exitTangentLength,
     mirrored: false
   }
+  
+  return getTangentShape(mirror).mapRotation(mirror, mapRotation)
 }
 
 /**
@@ -275,19 +451,44 @@ function createSectorMirror(
  * - Sector 3: mirrors (reversed)
  * - etc.
  * 
+ * With N-fold cyclic symmetry there are N sectors, each a rotation of the
+ * originals, so every sector runs forward.
+ * 
+ * Seam shapes choose where the path passes into the next sector (see
+ * seamRun): sector 0 runs from one seam to the other, and the expanded
+ * order is turned back to start at the path's first shape, so a path can
+ * start anywhere on a symmetric outline. Where a shape meets its own
+ * reflected copy, a wrap seam merges the two and a cross seam keeps both;
+ * without a seam mode, copies are merged only when they coincide.
+ * 
+ * Array copies (see expandArrayedCircles) join the path first, so mirroring
+ * repeats them like the shapes they copy.
+ * 
  * @param shapes - All shapes in the document
  * @param order - Path order of shapes
- * @param config - Mirror configuration (planeCount and startAngle)
- * @returns Expanded shapes and order including mirror copies
+ * @param config - Mirror configuration (planeCount, startAngle and origin)
+ * @param arrayConfig - Array configuration of the path (none when unset)
+ * @returns Expanded shapes and order including array and mirror copies
  */
 export function expandMirroredCircles(
-  shapes: CircleShape[],
+  shapes: Shape[],
   order: string[],
-  config: MirrorConfig = { planeCount: 1, startAngle: 0 }
-): { expandedShapes: CircleShape[], expandedOrder: string[] } {
-  const { planeCount, startAngle } = config
-  
-  if (planeCount <= 0) {
+  config: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig
+): { expandedShapes: Shape[], expandedOrder: string[] } {
+  const { expandedShapes, expandedOrder } = expandArrayedCircles(shapes, order, arrayConfig)
+  return expandMirrorSectors(expandedShapes, expandedOrder, config)
+}
+
+/**
+ * Add the mirror copies of every sector to an (array-expanded) path
+ */
+function expandMirrorSectors(
+  shapes: Shape[],
+  order: string[],
+  config: MirrorConfig
+): { expandedShapes: Shape[], expandedOrder: string[] } {
+  if (config.planeCount <= 0) {
     return { expandedShapes: shapes, expandedOrder: order }
   }
   
@@ -297,7 +498,7 @@ export function expandMirroredCircles(
   // Get ordered circles using map lookup
   const orderedCircles = order
     .map(id => shapeMap.get(id))
-    .filter((s): s is CircleShape => s !== undefined && s.type === 'circle')
+    .filter((s): s is Shape => s !== undefined)
   
   // Find circles that should be mirrored
   const mirroredCircles = orderedCircles.filter(c => c.mirrored)
@@ -306,14 +507,20 @@ export function expandMirroredCircles(
     return { expandedShapes: shapes, expandedOrder: order }
   }
   
-  const sectorCount = 2 * planeCount
+  const sectorCount = mirrorSectorCount(config)
+  const cyclic = isCyclicSymmetry(config)
+  // Sector 0 runs from seam to seam; mirror indices follow the path order so
+  // copy IDs don't change when the seams move
+  const run = seamRun(orderedCircles)
+  const runMirrored = run.filter(c => c.mirrored)
   
   // For each sector (1 to 2N-1), create mirrors of all mirrored circles
   // The order within each sector depends on sector parity:
   // - Odd sectors: reversed order (because reflection flips direction)
   // - Even sectors: forward order (because rotation preserves direction)
+  // Cyclic sectors are all rotations, so they all run forward.
   
-  const allMirrors: CircleShape[] = []
+  const allMirrors: Shape[] = []
   const mirrorOrder: string[] = []
   
   // Traverse sectors in FORWARD order (1, 2, 3, ..., 2N-1) to go around the perimeter
@@ -330,18 +537,16 @@ export function expandMirroredCircles(
   // This creates a smooth counter-clockwise traversal around the perimeter.
   
   for (let sector = 1; sector < sectorCount; sector++) {
-    const sectorMirrors: CircleShape[] = []
+    const sectorMirrors: Shape[] = []
     
-    for (let i = 0; i < mirroredCircles.length; i++) {
-      const circle = mirroredCircles[i]
-      
+    for (const circle of runMirrored) {
       // Create mirror for this sector
-      const mirror = createSectorMirror(circle, sector, planeCount, startAngle, i)
+      const mirror = createSectorMirror(circle, sector, config, mirroredCircles.indexOf(circle))
       sectorMirrors.push(mirror)
     }
     
     // Odd sectors are reversed (reflection flips path direction)
-    const orderedSectorMirrors = sector % 2 === 1
+    const orderedSectorMirrors = !cyclic && sector % 2 === 1
       ? [...sectorMirrors].reverse()
       : sectorMirrors
     
@@ -350,27 +555,33 @@ export function expandMirroredCircles(
   }
   
   const expandedShapes = [...shapes, ...allMirrors]
-  let expandedOrder = [...order, ...mirrorOrder]
+  const expandedOrder = [...run.map(c => c.id), ...mirrorOrder]
   
   // Build a map for quick shape lookup (use different name to avoid collision with outer scope)
   const expandedShapeMap = new Map(expandedShapes.map(s => [s.id, s]))
   
-  // Filter out sequential duplicates in the path order
-  // (circles that are neighbors in path order and at the same position)
+  // Whether a circle merges into the one before it in the path: at a seam
+  // its mode decides, elsewhere circles at the same position are sequential
+  // duplicates
+  const mergesInto = (prev: Shape, current: Shape): boolean => {
+    const seam = seamJoin(prev, current)
+    return seam ? seam === 'wrap' : isSamePoint(current.center, prev.center)
+  }
+  
+  // Filter out merged circles in the path order
   const filteredOrder: string[] = []
   for (let i = 0; i < expandedOrder.length; i++) {
     const currentId = expandedOrder[i]
-    const current = expandedShapeMap.get(currentId) as CircleShape | undefined
+    const current = expandedShapeMap.get(currentId)
     
     if (!current) continue
     
-    // Check if this circle is at the same position as the previous one in the path
     if (filteredOrder.length > 0) {
       const prevId = filteredOrder[filteredOrder.length - 1]
-      const prev = expandedShapeMap.get(prevId) as CircleShape | undefined
+      const prev = expandedShapeMap.get(prevId)
       
-      if (prev && isSamePoint(current.center, prev.center)) {
-        // Skip this circle - it's a sequential duplicate
+      if (prev && mergesInto(prev, current)) {
+        // Skip this circle - it's a sequential duplicate or a wrapped seam
         continue
       }
     }
@@ -378,21 +589,82 @@ export function expandMirroredCircles(
     filteredOrder.push(currentId)
   }
   
-  // Also check if the last circle is at the same position as the first (for closed paths)
+  // Also check if the last circle merges into the first (for closed paths)
   // This will be handled by the path rendering, but we can skip it here too
   if (filteredOrder.length > 1) {
     const firstId = filteredOrder[0]
     const lastId = filteredOrder[filteredOrder.length - 1]
-    const first = expandedShapeMap.get(firstId) as CircleShape | undefined
-    const last = expandedShapeMap.get(lastId) as CircleShape | undefined
+    const first = expandedShapeMap.get(firstId)
+    const last = expandedShapeMap.get(lastId)
     
-    if (first && last && isSamePoint(first.center, last.center)) {
+    if (first && last && mergesInto(last, first)) {
       // Remove the last circle - it would create a zero-length closing segment
       filteredOrder.pop()
     }
   }
   
-  return { expandedShapes, expandedOrder: filteredOrder }
+  // Start where the path order starts, wherever the seams cut it
+  const startId = orderedCircles.map(c => c.id).find(id => filteredOrder.includes(id))
+  const start = startId ? filteredOrder.indexOf(startId) : 0
+  
+  return { expandedShapes, expandedOrder: [...filteredOrder.slice(start), ...filteredOrder.slice(0, start)] }
+}
+
+/**
+ * Shapes in path order, cut (as a loop) at the seams so that mirroring
+ * repeats them from one seam to the other. Without seam shapes that is the
+ * path order itself, crossing after its last shape. Otherwise the cut is
+ * just after the end seam: a seam shape whose next mirrored shape is a seam
+ * too, or else the first seam shape. Shapes that aren't mirrored keep their
+ * place, so any between the two seams sit on the crossing back into sector 0.
+ */
+function seamRun(orderedShapes: Shape[]): Shape[] {
+  const mirrored = orderedShapes.filter(s => s.mirrored)
+  const isSeam = (s: Shape) => s.mirrored === true && s.seam !== undefined
+  const seams = mirrored.filter(isSeam)
+  if (seams.length === 0) return orderedShapes
+  
+  const endSeam = seams.find(s => isSeam(mirrored[(mirrored.indexOf(s) + 1) % mirrored.length])) ?? seams[0]
+  const cut = orderedShapes.indexOf(endSeam) + 1
+  return [...orderedShapes.slice(cut), ...orderedShapes.slice(0, cut)]
+}
+
+/**
+ * Seam mode where the path crosses a mirror plane from a shape to its own
+ * reflected copy (or back), undefined between any other pair
+ */
+function seamJoin(prev: Shape, current: Shape): SeamMode | undefined {
+  if (!isReflectedCopy(prev.id) && !isReflectedCopy(current.id)) return undefined
+  const base = (id: string) => id.replace(/_mirror_s\d+_\d+$/, '')
+  return base(prev.id) === base(current.id) ? current.seam : undefined
+}
+
+/**
+ * Mirror sector a shape in an expanded path belongs to: 0 for the document's
+ * own shapes. Mirror IDs have format: `{baseId}_mirror_s{sectorNum}_{index}`,
+ * or `{baseId}_mirror_r{sectorNum}_{index}` for rotated (cyclic) copies
+ */
+export function mirrorSector(id: string): number {
+  const sectorMatch = id.match(/_mirror_[sr](\d+)_/)
+  return sectorMatch ? parseInt(sectorMatch[1], 10) : 0
+}
+
+/**
+ * Whether a shape in an expanded path is a reflected copy, which runs the
+ * path in the opposite direction to its source: odd dihedral sectors only
+ */
+export function isReflectedCopy(id: string): boolean {
+  const sectorMatch = id.match(/_mirror_s(\d+)_/)
+  return sectorMatch !== null && parseInt(sectorMatch[1], 10) % 2 === 1
+}
+
+/**
+ * ID of the document shape an array or mirror copy was made from (its own
+ * ID for document shapes)
+ */
+export function sourceShapeId(id: string): string {
+  const index = id.search(/_(array|mirror)/)
+  return index === -1 ? id : id.slice(0, index)
 }
 
 /**
@@ -400,32 +672,39 @@ export function expandMirroredCircles(
  * Returns the virtual mirror circles that should be drawn as ghosts.
  * Uses the generic N-way mirror system.
  * 
+ * Array copies are ghosts too, and are mirrored like their originals.
+ * 
  * @param shapes - All shapes in the document
  * @param config - Mirror configuration
  * @param order - Path order (optional, used to determine first/last for deduplication)
+ * @param arrayConfig - Array configuration of the path (none when unset)
  * @returns Array of mirror circles for rendering
  */
 export function getMirroredCircles(
-  shapes: CircleShape[], 
+  shapes: Shape[], 
   config: MirrorConfig = { planeCount: 1, startAngle: 0 },
-  order: string[] = []
-): CircleShape[] {
+  order: string[] = [],
+  arrayConfig?: ArrayConfig
+): Shape[] {
   const { planeCount } = config
   
-  if (planeCount <= 0) return []
-  
-  // Get mirrored shapes in path order (or original order if no order provided)
+  // Shapes in path order (or original order if no order provided)
   const shapeMap = new Map(shapes.map(s => [s.id, s]))
-  const orderedMirroredShapes = order.length > 0
+  const orderedShapes = order.length > 0
     ? order
         .map(id => shapeMap.get(id))
-        .filter((s): s is CircleShape => s !== undefined && s.type === 'circle' && s.mirrored === true)
-    : shapes.filter(c => c.mirrored === true)
+        .filter((s): s is Shape => s !== undefined)
+    : shapes
+  const arrayCopies = orderedShapes.flatMap(shape => getArrayCopies(shape, arrayConfig))
+  
+  if (planeCount <= 0) return arrayCopies
   
-  if (orderedMirroredShapes.length === 0) return []
+  const orderedMirroredShapes = [...orderedShapes, ...arrayCopies].filter(c => c.mirrored === true)
+  
+  if (orderedMirroredShapes.length === 0) return arrayCopies
   
   // Collect all mirrors for all circles
-  const results: CircleShape[] = []
+  const results: Shape[] = [...arrayCopies]
   for (const shape of orderedMirroredShapes) {
     const mirrors = getMirrorsForCircle(shape, config)
     results.push(...mirrors)
@@ -444,7 +723,7 @@ export type StretchResolver = (circleId: string) => number
  * Create a stretch resolver from shapes and a global stretch value
  */
 export function createStretchResolver(
-  shapes: CircleShape[],
+  shapes: Shape[],
   globalStretch: number
 ): StretchResolver {
   // Build lookup map once for O(1) access in the resolver
@@ -454,6 +733,9 @@ export function createStretchResolver(
     const circle = shapeMap.get(circleId)
     if (!circle) return globalStretch
     
+    // Fixed outlines (and pin fillets) are never stretched
+    if (!getTangentShape(circle).getStretchFrame) return 0
+    
     // Circle-level override, or fall back to global
     if (circle.stretch !== undefined) {
       return circle.stretch
@@ -464,16 +746,72 @@ export function createStretchResolver(
 }
 
 /**
- * Compute the tangent hull path around an ordered list of circles.
+ * Largest share of a connector a pin fillet may trim away
+ */
+const FILLET_MAX_TRIM = 0.9
+
+/**
+ * Replace each filleted pin with the circle that rounds its corner.
+ * 
+ * The corner is formed by the straight connectors into and out of the pin,
+ * so it needs both neighbours; the ends of an open path stay sharp. The
+ * fillet is shrunk so it never eats a whole connector (or half of one shared
+ * with another filleted pin), which would leave it touching the neighbour.
+ */
+export function resolvePinFillets(shapes: Shape[], closed: boolean): Shape[] {
+  const n = shapes.length
+  const isFilleted = (shape: Shape) => shape.type === 'pin' && shape.fillet > 0
+  
+  return shapes.map((shape, i) => {
+    if (shape.type !== 'pin' || shape.fillet <= 0) return shape
+    if (!closed && (i === 0 || i === n - 1)) return shape
+    
+    const prev = shapes[(i - 1 + n) % n]
+    const next = shapes[(i + 1) % n]
+    const incoming = getShapeTangentForDirections(prev, shape)
+    const outgoing = getShapeTangentForDirections(shape, next)
+    if (!incoming || !outgoing) return shape
+    
+    const inLength = distance(incoming.p1, shape.center)
+    const outLength = distance(shape.center, outgoing.p2)
+    if (inLength < 1e-6 || outLength < 1e-6) return shape
+    
+    const dirIn = normalize(subtract(shape.center, incoming.p1))
+    const dirOut = normalize(subtract(outgoing.p2, shape.center))
+    const maxTrim = FILLET_MAX_TRIM * Math.min(
+      isFilleted(prev) ? inLength / 2 : inLength,
+      isFilleted(next) ? outLength / 2 : outLength
+    )
+    
+    const fillet = createFilletCircle(shape, dirIn, dirOut, maxTrim)
+    if (!fillet) return shape
+    return {
+      ...fillet,
+      entryOffset: shape.entryOffset,
+      exitOffset: shape.exitOffset,
+      entryTangentLength: shape.entryTangentLength,
+      exitTangentLength: shape.exitTangentLength,
+      curvatureBlend: shape.curvatureBlend
+    }
+  })
+}
+
+/**
+ * Compute the tangent hull path around an ordered list of circles, ellipses,
+ * rounded polygons and pins.
+ * 
+ * Contact angles are outward normal angles, so the same offset/connector logic
+ * applies to every shape type (for circles it is simply the polar angle).
  * 
  * Each circle has a direction property:
  * - 'cw' = clockwise - path goes clockwise around this circle
  * - 'ccw' = counter-clockwise - path goes counter-clockwise around this circle
  * 
- * Stretch deforms the circular arc into an elliptical arc:
- * - 0 = circular arc
- * - Positive = stretched along chord (flatter)
- * - Negative = stretched perpendicular (bulgier)
+ * Stretch deforms the wrap arc into an elliptical arc that still touches the
+ * shape at both contact points (see createStretchedArc):
+ * - 0 = the shape's own outline
+ * - Positive = bulgier, pushed away from the chord
+ * - Negative = flatter, pulled towards the chord
  * 
  * @param closed - If true, the path loops back from the last circle to the first.
  *                 If false, the path is open-ended.
@@ -481,61 +819,50 @@ export function createStretchResolver(
  * @param useEndPoint - If false and not closed, skip the last circle's entry connector
  */
 export function computeTangentHull(
-  shapes: CircleShape[],
+  shapes: Shape[],
   order: string[],
   globalStretch: number = 0,
   closed: boolean = true,
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
-  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 }
+  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig
 ): PathData {
   startMeasure('computeTangentHull', { circles: shapes.length })
   
   const segments: (LineSegment | BezierSegment | ArcSegment | EllipseArcSegment)[] = []
   
-  // Expand shapes to include mirrored circles
+  // Expand shapes to include array and mirror copies
   startMeasure('expandMirror')
-  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, order, mirrorConfig)
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, order, mirrorConfig, arrayConfig)
   endMeasure('expandMirror')
   
   // Build lookup map for O(1) access
   const shapeMap = new Map(expandedShapes.map(s => [s.id, s]))
   
   // Get ordered circles from expanded set using map lookup
-  const orderedCircles = expandedOrder
+  const orderedShapes = expandedOrder
     .map(id => shapeMap.get(id))
-    .filter((s): s is CircleShape => s !== undefined && s.type === 'circle')
+    .filter((s): s is Shape => s !== undefined)
   
-  if (orderedCircles.length < MIN_CIRCLES) {
+  if (orderedShapes.length < MIN_CIRCLES) {
     endMeasure('computeTangentHull')
     return { segments: [], totalLength: 0 }
   }
   
   // Handle single circle case - just draw the full circle arc
-  if (orderedCircles.length === 1) {
-    const circle = orderedCircles[0]
+  if (orderedShapes.length === 1) {
+    const circle = orderedShapes[0]
     const clockwise = (circle.direction ?? 'cw') === 'cw'
     
-    // For a single circle, draw a full arc from 0 to 2π (or -2π for ccw)
-    const startAngle = 0
-    const endAngle = clockwise ? Math.PI * 2 : -Math.PI * 2
-    
-    const arcLength = Math.abs(endAngle - startAngle) * circle.radius
-    
-    const segment: PathSegment = {
-      type: 'arc',
-      center: circle.center,
-      radius: circle.radius,
-      startAngle,
-      endAngle,
-      counterclockwise: !clockwise,
-      length: arcLength
-    }
-    
+    // For a single shape, follow its whole outline
+    const outline = getTangentShape(circle).getFullOutline(circle, clockwise)
     endMeasure('computeTangentHull')
-    return { segments: [segment], totalLength: arcLength }
+    return { segments: outline, totalLength: outline.reduce((sum, seg) => sum + seg.length, 0) }
   }
   
+  // Round filleted pin corners into circles the path wraps like any other
+  const orderedCircles = resolvePinFillets(orderedShapes, closed)
   const n = orderedCircles.length
   
   // Compute all tangent lines between consecutive circles
@@ -548,22 +875,11 @@ export function computeTangentHull(
     const curr = orderedCircles[i]
     const next = orderedCircles[(i + 1) % n]
     
-    // Check if current circle is from a REFLECTION sector (odd sector number)
-    // Mirror IDs have format: `{baseId}_mirror_s{sectorNum}_{index}`
     // Odd sectors (1, 3, 5...) are reflections, even sectors (2, 4...) are rotations
     // For intersection point selection, we only flip for reflections, not rotations
-    let currIsReflection = false
-    const sectorMatch = curr.id.match(/_mirror_s(\d+)_/)
-    if (sectorMatch) {
-      const sectorNum = parseInt(sectorMatch[1], 10)
-      currIsReflection = sectorNum % 2 === 1  // Odd sectors are reflections
-    }
+    const currIsReflection = isReflectedCopy(curr.id)
     
-    const tangent = getTangentForDirections(
-      curr.center, curr.radius, curr.direction ?? 'cw',
-      next.center, next.radius, next.direction ?? 'cw',
-      currIsReflection
-    )
+    const tangent = getShapeTangentForDirections(curr, next, currIsReflection)
     
     tangents.push(tangent)
   }
@@ -579,6 +895,21 @@ export function computeTangentHull(
   // Build the path: for each circle, draw arc then connector to next circle
   let totalLength = 0
   
+  // Connectors to ease into curvature-blended arcs once the whole path is built
+  const blends: ConnectorBlend[] = []
+  const addBlend = (circle: Shape, nextCircle: Shape) => {
+    const exitBlend = circle.curvatureBlend ?? 0
+    const entryBlend = nextCircle.curvatureBlend ?? 0
+    if (exitBlend <= 0 && entryBlend <= 0) return
+    blends.push({
+      index: segments.length - 1,
+      exitBlend,
+      entryBlend,
+      exitLength: circle.exitTangentLength ?? DEFAULT_TANGENT_LENGTH,
+      entryLength: nextCircle.entryTangentLength ?? DEFAULT_TANGENT_LENGTH
+    })
+  }
+  
   // Track if we need to start a new sub-path (after skipping invalid segments)
   let needsMoveTo = true
   
@@ -618,7 +949,7 @@ export function computeTangentHull(
       const adjustedExitAngle = exitOffsetAmount !== 0 
         ? exitAngle + exitOffsetAmount * offsetDir 
         : exitAngle
-      const exitPoint = pointOnCircle(circle.center, circle.radius, adjustedExitAngle)
+      const exitPoint = pointOnShape(circle, adjustedExitAngle)
       const exitTangentLengthMult = circle.exitTangentLength ?? DEFAULT_TANGENT_LENGTH
       
       // Calculate entry point on next circle
@@ -629,7 +960,7 @@ export function computeTangentHull(
         const nextOffsetDir = nextClockwise ? 1 : -1
         nextEntryAngle += nextEntryOffset * nextOffsetDir
       }
-      const nextEntryPoint = pointOnCircle(nextCircle.center, nextCircle.radius, nextEntryAngle)
+      const nextEntryPoint = pointOnShape(nextCircle, nextEntryAngle)
       const nextEntryTangentLengthMult = nextCircle.entryTangentLength ?? DEFAULT_TANGENT_LENGTH
       
       const hasOffsets = exitOffsetAmount !== 0 || nextEntryOffset !== 0
@@ -648,6 +979,7 @@ export function computeTangentHull(
         segments.push({ type: 'line', start: exitPoint, end: nextEntryPoint, length: lineLen, needsMoveTo })
         totalLength += lineLen
       }
+      addBlend(circle, nextCircle)
       needsMoveTo = false
       continue
     }
@@ -730,46 +1062,35 @@ export function computeTangentHull(
     const exitTangentLengthMult = circle.exitTangentLength ?? DEFAULT_TANGENT_LENGTH
     
     // Calculate actual entry/exit points (potentially offset from true tangent)
-    const entryPoint = pointOnCircle(circle.center, circle.radius, entryAngle)
-    const exitPoint = pointOnCircle(circle.center, circle.radius, exitAngle)
+    const entryPoint = pointOnShape(circle, entryAngle)
+    const exitPoint = pointOnShape(circle, exitAngle)
     
     // Arc around this circle
     // Draw the arc from entry to exit
-    if (Math.abs(stretch) < 0.01) {
-      // No stretch: use circular arc
-      const arcLen = calculateArcLength(circle.radius, entryAngle, exitAngle, clockwise)
-      
-      const arcSeg: ArcSegment = {
-        type: 'arc',
-        center: circle.center,
-        radius: circle.radius,
-        startAngle: entryAngle,
-        endAngle: exitAngle,
-        counterclockwise: !clockwise,  // Flipped: CW circle uses decreasing angles, CCW uses increasing
-        length: arcLen,
-        needsMoveTo
-      }
-      segments.push(arcSeg)
-      totalLength += arcLen
+    const shapeKind = getTangentShape(circle)
+    // Stretch: an elliptical arc touching the shape at both contact points
+    const stretched = shapeKind.getStretchFrame && Math.abs(stretch) >= 0.01
+      ? createStretchedArc(shapeKind.getStretchFrame(circle), entryPoint, exitPoint, clockwise, stretch)
+      : null
+    if (stretched) {
+      stretched.needsMoveTo = needsMoveTo
+      segments.push(stretched)
+      totalLength += stretched.length
+      needsMoveTo = false
     } else {
-      // Stretch applied: use elliptical arc
-      const ellipseSeg = createStretchedArc(
-        entryPoint,
-        exitPoint,
-        circle.center,
-        circle.radius,
-        entryAngle,
-        exitAngle,
-        clockwise,
-        stretch
-      )
-      ellipseSeg.needsMoveTo = needsMoveTo
-      segments.push(ellipseSeg)
-      totalLength += ellipseSeg.length
+      // No stretch: follow the shape's own outline between the contact points
+      const outline = shapeKind.getArcSegments(circle, entryAngle, exitAngle, clockwise)
+      // Pins have no outline; the path just passes through them
+      if (outline.length > 0) {
+        outline[0].needsMoveTo = needsMoveTo
+        needsMoveTo = false
+      }
+      for (const seg of outline) {
+        segments.push(seg)
+        totalLength += seg.length
+      }
     }
     
-    needsMoveTo = false
-    
     // === Connector segment from this circle to next circle ===
     // Skip if this is the last circle in an open path (no connector to first circle)
     // The path ends at this circle's exit point
@@ -790,7 +1111,7 @@ export function computeTangentHull(
       const nextOffsetDir = nextClockwise ? 1 : -1
       nextEntryAngle += nextEntryOffset * nextOffsetDir
     }
-    const nextEntryPoint = pointOnCircle(nextCircle.center, nextCircle.radius, nextEntryAngle)
+    const nextEntryPoint = pointOnShape(nextCircle, nextEntryAngle)
     
     // Get tangent length multiplier for next circle's entry
     const nextEntryTangentLengthMult = nextCircle.entryTangentLength ?? DEFAULT_TANGENT_LENGTH
@@ -826,158 +1147,17 @@ export function computeTangentHull(
       segments.push(lineSeg)
       totalLength += lineLen
     }
+    addBlend(circle, nextCircle)
   }
   
-  endMeasure('computeTangentHull')
-  return { segments, totalLength }
-}
-
-/**
- * Create a stretched arc using an ellipse centered at the chord midpoint.
- * 
- * The approach:
- * 1. Center the ellipse at the midpoint of the chord between entry and exit points
- * 2. radiusX (along chord) = half chord length - this guarantees passing through both endpoints
- * 3. radiusY (perpendicular to chord) = sagitta adjusted by stretch
- * 
- * This ensures the ellipse ALWAYS passes through both entry and exit points.
- * 
- * Stretch parameter:
- * - 0 = circular (sagitta matches original circle arc)
- * - Positive = MORE bulge (larger sagitta)
- * - Negative = LESS bulge (smaller sagitta)
- */
-function createStretchedArc(
-  entryPoint: Point,
-  exitPoint: Point,
-  circleCenter: Point,
-  circleRadius: number,
-  entryAngle: number,
-  exitAngle: number,
-  clockwise: boolean,
-  stretch: number
-): EllipseArcSegment {
-  // Calculate the chord midpoint - this will be the ellipse center
-  const chordMidpoint: Point = {
-    x: (entryPoint.x + exitPoint.x) / 2,
-    y: (entryPoint.y + exitPoint.y) / 2
-  }
-  
-  // Calculate half chord length - this is radiusX (along chord direction)
-  const halfChordLength = distance(entryPoint, exitPoint) / 2
-  
-  // Calculate chord direction angle
-  const chordAngle = Math.atan2(exitPoint.y - entryPoint.y, exitPoint.x - entryPoint.x)
-  
-  // Calculate arc midpoint angle (halfway between entry and exit, accounting for direction)
-  // Arc direction is flipped: CW circle uses decreasing angles, CCW uses increasing
-  let arcSpan = exitAngle - entryAngle
-  if (clockwise) {
-    // CW circle: decreasing angles (counterclockwise=false), negative span
-    while (arcSpan > 0) arcSpan -= Math.PI * 2
-    while (arcSpan < -Math.PI * 2) arcSpan += Math.PI * 2
-  } else {
-    // CCW circle: increasing angles (counterclockwise=true), positive span
-    while (arcSpan < 0) arcSpan += Math.PI * 2
-    while (arcSpan > Math.PI * 2) arcSpan -= Math.PI * 2
+  if (blends.length > 0) {
+    const blended = applyCurvatureBlends(segments, blends, closed)
+    endMeasure('computeTangentHull')
+    return { segments: blended, totalLength: blended.reduce((sum, seg) => sum + seg.length, 0) }
   }
-  const midAngle = entryAngle + arcSpan / 2
-  
-  // Calculate the arc midpoint on the original circle
-  const arcMidpoint = pointOnCircle(circleCenter, circleRadius, midAngle)
-  
-  // Calculate the sagitta (distance from chord midpoint to arc midpoint)
-  // This is the "height" of the circular arc
-  const sagitta = distance(chordMidpoint, arcMidpoint)
-  
-  // Apply stretch to the sagitta
-  // stretch = 0: use original sagitta (circular)
-  // stretch > 0: increase sagitta (more bulge)
-  // stretch < 0: decrease sagitta (flatter)
-  const stretchedSagitta = sagitta * (1 + stretch)
-  
-  // Ensure minimum sagitta to avoid degenerate ellipse
-  const minSagitta = 1
-  const finalSagitta = Math.max(minSagitta, stretchedSagitta)
-  
-  // Ellipse parameters:
-  // - Center at chord midpoint
-  // - radiusX along chord = half chord length (guarantees passing through endpoints)
-  // - radiusY perpendicular to chord = stretched sagitta
-  const radiusX = halfChordLength
-  const radiusY = finalSagitta
-  
-  // Rotation: align ellipse X-axis with chord direction
-  const rotation = chordAngle
-  
-  // In the ellipse's local coordinate system:
-  // - Entry point is at (-radiusX, 0) -> angle = π
-  // - Exit point is at (+radiusX, 0) -> angle = 0
-  // We always go from entry to exit, the question is which way around
-  
-  // Set start and end angles  
-  // In ellipse local coords: entry is at (-halfChordLength, 0), exit is at (+halfChordLength, 0)
-  // Canvas ellipse angles are measured from the rotated +X axis
-  // After rotation by chordAngle, the ellipse +X axis points from entry toward exit
-  // So: entry (at -halfChordLength in local X) is at angle π
-  //     exit (at +halfChordLength in local X) is at angle 0
-  // We want to START at entry and END at exit
-  const startAngle = Math.PI  // Entry point
-  const endAngle = 0          // Exit point (or 2π, same thing)
-  
-  // Determine which side of the chord the arc midpoint is on
-  // Use a simple dot product with the perpendicular direction
-  
-  // In canvas, the ellipse's local +Y axis (angle π/2) is perpendicular to its +X axis
-  // After rotation by chordAngle, local +X points in the chord direction
-  // Local +Y is at angle (chordAngle + π/2)
-  const localYAngle = chordAngle + Math.PI / 2
-  const perpX = Math.cos(localYAngle)
-  const perpY = Math.sin(localYAngle)
-  
-  // Vector from chord midpoint to arc midpoint
-  const toMidX = arcMidpoint.x - chordMidpoint.x
-  const toMidY = arcMidpoint.y - chordMidpoint.y
-  
-  // Dot product with perpendicular tells us which side
-  // Positive = arc midpoint is in the +Y direction of the ellipse
-  const dotWithPerp = toMidX * perpX + toMidY * perpY
-  
-  // In canvas:
-  // - counterclockwise from π to 0 goes through π/2 (the +Y direction in local coords)
-  // - clockwise from π to 0 goes through -π/2 (the -Y direction in local coords)
-  // If arc midpoint is in the +Y direction (dot > 0), use counterclockwise
-  const counterclockwise = dotWithPerp > 0
-  
-  // Approximate arc length
-  const length = approximateEllipseArcLength(radiusX, radiusY, Math.PI)
   
-  return {
-    type: 'ellipse-arc',
-    center: chordMidpoint,
-    radiusX,
-    radiusY,
-    rotation,
-    startAngle,
-    endAngle,
-    counterclockwise,
-    length
-  }
-}
-
-/**
- * Approximate the arc length of an ellipse sector.
- * Uses Ramanujan's approximation for ellipse circumference, then scales by arc fraction.
- */
-function approximateEllipseArcLength(radiusX: number, radiusY: number, arcSpan: number): number {
-  // Ramanujan's approximation for ellipse circumference
-  const a = Math.max(radiusX, radiusY)
-  const b = Math.min(radiusX, radiusY)
-  const h = Math.pow((a - b) / (a + b), 2)
-  const circumference = Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)))
-  
-  // Arc is approximately (arcSpan / 2π) of the circumference
-  return circumference * Math.abs(arcSpan) / (2 * Math.PI)
+  endMeasure('computeTangentHull')
+  return { segments, totalLength }
 }
 
 /**
@@ -1029,35 +1209,33 @@ function createTangentConnector(
 }
 
 /**
- * Calculate arc length going from startAngle to endAngle in the specified direction
- * Arc direction is flipped: CW circle uses decreasing angles, CCW uses increasing
+ * Compute the tangent hull of every path in a document, in path order
  */
-function calculateArcLength(
-  radius: number,
-  startAngle: number,
-  endAngle: number,
-  clockwise: boolean
-): number {
-  let delta = endAngle - startAngle
-  
-  if (clockwise) {
-    // CW circle: decreasing angles, negative delta
-    while (delta > 0) delta -= Math.PI * 2
-    while (delta < -Math.PI * 2) delta += Math.PI * 2
-  } else {
-    // CCW circle: increasing angles, positive delta
-    while (delta < 0) delta += Math.PI * 2
-    while (delta > Math.PI * 2) delta -= Math.PI * 2
-  }
-  
-  return radius * Math.abs(delta)
+export function computePathHulls(
+  shapes: Shape[],
+  paths: PathConfig[],
+  globalStretch: number = 0
+): { path: PathConfig; pathData: PathData }[] {
+  return paths.map(path => ({
+    path,
+    pathData: computeTangentHull(
+      shapes,
+      path.shapeOrder,
+      globalStretch,
+      path.closedPath,
+      path.useStartPoint,
+      path.useEndPoint,
+      path.mirrorConfig,
+      path.arrayConfig
+    )
+  }))
 }
 
 /**
  * Get ordered path segments for canvas rendering
  */
 export function getOrderedPathSegments(
-  shapes: CircleShape[],
+  shapes: Shape[],
   order: string[],
   globalStretch: number = 0,
   closed: boolean = true,
@@ -1141,14 +1319,24 @@ function distanceToBezier(
   return { distance: minDist, closest: closestPoint }
 }
 
+/**
+ * Index in the document order of the shape at `index` in an expanded path:
+ * array and mirror copies map to the shape they were made from
+ */
+function sourceOrderIndex(expanded: Shape[], order: string[], index: number): number {
+  const shape = expanded[index]
+  const sourceIndex = shape ? order.indexOf(sourceShapeId(shape.id)) : -1
+  return sourceIndex === -1 ? Math.max(0, Math.min(order.length - 1, index)) : sourceIndex
+}
+
 /**
  * Find the path segment closest to a given point.
  * Returns null if no segment is within the threshold.
  * Only considers connector segments (line/bezier), not arc segments on circles.
- * If the closest segment is on the mirrored portion, the index is mapped back.
+ * If the closest segment is on a copy, the index is mapped back.
  */
 export function findPathSegmentAt(
-  shapes: CircleShape[],
+  shapes: Shape[],
   order: string[],
   point: Point,
   threshold: number,
@@ -1156,26 +1344,24 @@ export function findPathSegmentAt(
   closed: boolean = true,
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
-  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 }
+  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig
 ): PathHitInfo | null {
-  // Expand shapes to include mirrored circles
-  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, order, mirrorConfig)
+  // Expand shapes to include array and mirror copies
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, order, mirrorConfig, arrayConfig)
   
   // Build lookup map for O(1) access
   const shapeMap = new Map(expandedShapes.map(s => [s.id, s]))
   
   const circles = expandedOrder
     .map(id => shapeMap.get(id))
-    .filter((s): s is CircleShape => s !== undefined && s.type === 'circle')
+    .filter((s): s is Shape => s !== undefined)
   
   if (circles.length < MIN_CIRCLES) return null
 
-  const pathData = computeTangentHull(shapes, order, globalStretch, closed, useStartPoint, useEndPoint, mirrorConfig)
+  const pathData = computeTangentHull(shapes, order, globalStretch, closed, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
   if (pathData.segments.length === 0) return null
 
-  // Number of original (non-mirrored) circles
-  const originalCircleCount = order.length
-
   let closestHit: PathHitInfo | null = null
   let closestDist = Infinity
 
@@ -1205,18 +1391,10 @@ export function findPathSegmentAt(
     if (result.distance < threshold && result.distance < closestDist) {
       closestDist = result.distance
       
-      // Map mirrored circle indices back to original order
-      let mappedIndex = connectorIndex
-      if (connectorIndex >= originalCircleCount) {
-        // Map from mirrored portion back to original
-        mappedIndex = 2 * originalCircleCount - 1 - connectorIndex
-        mappedIndex = Math.max(0, Math.min(originalCircleCount - 1, mappedIndex))
-      }
-      
       closestHit = {
         segmentIndex: i,
         point: result.closest,
-        fromCircleIndex: mappedIndex
+        fromCircleIndex: sourceOrderIndex(circles, order, connectorIndex)
       }
     }
     
@@ -1301,37 +1479,35 @@ function distanceToArc(
  * and doesn't require a threshold - it always returns the closest point.
  * 
  * Returns the closest point and which circle index to insert after.
- * If the closest point is on the mirrored portion of the path, the index
- * is mapped back to the corresponding position in the original order.
+ * If the closest point is on a copy (array or mirror), the index is mapped
+ * back to the corresponding position in the original order.
  */
 export function findClosestPointOnPath(
-  shapes: CircleShape[],
+  shapes: Shape[],
   order: string[],
   point: Point,
   globalStretch: number = 0,
   closed: boolean = true,
   useStartPoint: boolean = true,
   useEndPoint: boolean = true,
-  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 }
+  mirrorConfig: MirrorConfig = { planeCount: 1, startAngle: 0 },
+  arrayConfig?: ArrayConfig
 ): PathHitInfo | null {
-  // Expand shapes to include mirrored circles
-  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, order, mirrorConfig)
+  // Expand shapes to include array and mirror copies
+  const { expandedShapes, expandedOrder } = expandMirroredCircles(shapes, order, mirrorConfig, arrayConfig)
   
   // Build lookup map for O(1) access
   const shapeMap = new Map(expandedShapes.map(s => [s.id, s]))
   
   const circles = expandedOrder
     .map(id => shapeMap.get(id))
-    .filter((s): s is CircleShape => s !== undefined && s.type === 'circle')
+    .filter((s): s is Shape => s !== undefined)
   
   if (circles.length < MIN_CIRCLES) return null
 
-  const pathData = computeTangentHull(shapes, order, globalStretch, closed, useStartPoint, useEndPoint, mirrorConfig)
+  const pathData = computeTangentHull(shapes, order, globalStretch, closed, useStartPoint, useEndPoint, mirrorConfig, arrayConfig)
   if (pathData.segments.length === 0) return null
 
-  // Number of original (non-mirrored) circles
-  const originalCircleCount = order.length
-
   let closestHit: PathHitInfo | null = null
   let closestDist = Infinity
 
@@ -1367,23 +1543,13 @@ export function findClosestPointOnPath(
     if (result.distance < closestDist) {
       closestDist = result.distance
       
-      // Map mirrored circle indices back to original order
-      // Mirrored circles go in reverse order after the originals:
-      // [0, 1, 2, 2', 1', 0'] for n=3 with all mirrored
-      // Index 3 (2') maps to 2, index 4 (1') maps to 1, index 5 (0') maps to 0
-      let mappedIndex = circleIndex
-      if (circleIndex >= originalCircleCount) {
-        // Map from mirrored portion back to original
-        // Formula: (2 * originalCount - 1 - circleIndex)
-        mappedIndex = 2 * originalCircleCount - 1 - circleIndex
-        // Clamp to valid range
-        mappedIndex = Math.max(0, Math.min(originalCircleCount - 1, mappedIndex))
-      }
-      
+      // Copies map back to the shape they were made from: mirrored circles
+      // go in reverse order after the originals, [0, 1, 2, 2', 1', 0'] for
+      // n=3 with all mirrored, so index 3 (2') maps to 2 and index 5 (0') to 0
       closestHit = {
         segmentIndex: i,
         point: result.closest,
-        fromCircleIndex: mappedIndex
+        fromCircleIndex: sourceOrderIndex(circles, order, circleIndex)
       }
     }
     
@@ -1407,7 +1573,7 @@ export function findClosestPointOnPath(
  */
 export function calculateNonOverlappingRadius(
   center: Point,
-  shapes: CircleShape[],
+  shapes: Shape[],
   minRadius: number = NON_OVERLAP_MIN_RADIUS,
   maxRadius: number = NON_OVERLAP_MAX_RADIUS
 ): number {
@@ -1418,13 +1584,13 @@ export function calculateNonOverlappingRadius(
   const allCircles = [...shapes, ...mirroredCircles]
   
   for (const shape of allCircles) {
-    if (shape.type === 'circle') {
-      const dist = distance(center, shape.center)
-      // The maximum radius we can use without overlapping this circle
-      // is the distance to its center minus its radius, with a small gap
-      const allowedRadius = dist - shape.radius - CIRCLE_GAP
-      maxAllowedRadius = Math.min(maxAllowedRadius, allowedRadius)
-    }
+    const dist = distance(center, shape.center)
+    // The maximum radius we can use without overlapping this shape
+    // is the distance to its center minus its extent toward us, with a small gap
+    const towardAngle = Math.atan2(center.y - shape.center.y, center.x - shape.center.x)
+    const extent = getTangentShape(shape).getRadiusAtAngle(shape, towardAngle)
+    const allowedRadius = dist - extent - CIRCLE_GAP
+    maxAllowedRadius = Math.min(maxAllowedRadius, allowedRadius)
   }
   
   // Clamp to min/max
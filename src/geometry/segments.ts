@@ -0,0 +1,278 @@
+import type { Point, PathSegment, LineSegment, ArcSegment, BezierSegment, EllipseArcSegment } from '../types'
+import { distance, normalize, subtract, pointOnCircle } from './math'
+
+// ============================================================================
+// SEGMENT PARAMETRIZATION
+// ============================================================================
+
+/**
+ * Segments the outline operations (offsets, booleans) work on. Elliptical
+ * arcs are converted to beziers first: the offset of an ellipse is not an
+ * ellipse, and beziers cut and cross more simply.
+ */
+export type BaseSegment = LineSegment | ArcSegment | BezierSegment
+
+/**
+ * Signed sweep of an arc: positive in the direction of increasing angle
+ */
+export function arcSweep(startAngle: number, endAngle: number, counterclockwise: boolean): number {
+  let sweep = endAngle - startAngle
+  if (counterclockwise) {
+    while (sweep > 0) sweep -= Math.PI * 2
+    while (sweep < -Math.PI * 2) sweep += Math.PI * 2
+  } else {
+    while (sweep < 0) sweep += Math.PI * 2
+    while (sweep > Math.PI * 2) sweep -= Math.PI * 2
+  }
+  return sweep
+}
+
+/**
+ * Point at parameter t along a bezier
+ */
+export function bezierPoint(b: BezierSegment, t: number): Point {
+  const u = 1 - t
+  const a = u * u * u
+  const c1 = 3 * u * u * t
+  const c2 = 3 * u * t * t
+  const e = t * t * t
+  return {
+    x: a * b.start.x + c1 * b.cp1.x + c2 * b.cp2.x + e * b.end.x,
+    y: a * b.start.y + c1 * b.cp1.y + c2 * b.cp2.y + e * b.end.y
+  }
+}
+
+/**
+ * Direction of travel along a bezier. Where the derivative vanishes (a
+ * control point on its end point) the next control point gives the direction.
+ */
+export function bezierDirection(b: BezierSegment, t: number): Point {
+  const u = 1 - t
+  const dx = 3 * u * u * (b.cp1.x - b.start.x) + 6 * u * t * (b.cp2.x - b.cp1.x) + 3 * t * t * (b.end.x - b.cp2.x)
+  const dy = 3 * u * u * (b.cp1.y - b.start.y) + 6 * u * t * (b.cp2.y - b.cp1.y) + 3 * t * t * (b.end.y - b.cp2.y)
+  if (Math.hypot(dx, dy) > 1e-9) return normalize({ x: dx, y: dy })
+  const fallback = t < 0.5
+    ? [b.cp2, b.end].map(p => subtract(p, b.start)).find(v => Math.hypot(v.x, v.y) > 1e-9)
+    : [b.cp1, b.start].map(p => subtract(b.end, p)).find(v => Math.hypot(v.x, v.y) > 1e-9)
+  return fallback ? normalize(fallback) : { x: 1, y: 0 }
+}
+
+/**
+ * Point at parameter t (0 = start, 1 = end) along a segment
+ */
+export function pointAt(seg: BaseSegment, t: number): Point {
+  switch (seg.type) {
+    case 'line':
+      return { x: seg.start.x + (seg.end.x - seg.start.x) * t, y: seg.start.y + (seg.end.y - seg.start.y) * t }
+    case 'arc':
+      return pointOnCircle(seg.center, seg.radius, seg.startAngle + arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise) * t)
+    case 'bezier':
+      return bezierPoint(seg, t)
+  }
+}
+
+/**
+ * First point of a segment
+ */
+export function startOf(seg: BaseSegment): Point {
+  return pointAt(seg, 0)
+}
+
+/**
+ * Last point of a segment
+ */
+export function endOf(seg: BaseSegment): Point {
+  return pointAt(seg, 1)
+}
+
+/**
+ * Approximate length of a bezier
+ */
+export function bezierLength(start: Point, cp1: Point, cp2: Point, end: Point): number {
+  // Same estimate as the hull's connectors: average of chord and control polygon
+  const controlPolyLen = distance(start, cp1) + distance(cp1, cp2) + distance(cp2, end)
+  return (distance(start, end) + controlPolyLen) / 2
+}
+
+/**
+ * Part of a segment between parameters t0 and t1
+ */
+export function slice(seg: BaseSegment, t0: number, t1: number): BaseSegment {
+  switch (seg.type) {
+    case 'line': {
+      const start = pointAt(seg, t0)
+      const end = pointAt(seg, t1)
+      return { type: 'line', start, end, length: distance(start, end) }
+    }
+    case 'arc': {
+      const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+      return {
+        ...seg,
+        startAngle: seg.startAngle + sweep * t0,
+        endAngle: seg.startAngle + sweep * t1,
+        length: seg.radius * Math.abs(sweep * (t1 - t0)),
+        needsMoveTo: undefined
+      }
+    }
+    case 'bezier': {
+      // de Casteljau: cut at t1, then cut the first part at t0 / t1
+      const cut = (b: BezierSegment, t: number, keepFirst: boolean): BezierSegment => {
+        const lerp = (p: Point, q: Point) => ({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t })
+        const ab = lerp(b.start, b.cp1)
+        const bc = lerp(b.cp1, b.cp2)
+        const cd = lerp(b.cp2, b.end)
+        const abc = lerp(ab, bc)
+        const bcd = lerp(bc, cd)
+        const mid = lerp(abc, bcd)
+        const [start, cp1, cp2, end] = keepFirst ? [b.start, ab, abc, mid] : [mid, bcd, cd, b.end]
+        return { type: 'bezier', start, cp1, cp2, end, length: bezierLength(start, cp1, cp2, end) }
+      }
+      let piece: BezierSegment = seg
+      if (t1 < 1) piece = cut(piece, t1, true)
+      if (t0 > 0) piece = cut(piece, t1 > 0 ? t0 / t1 : 0, false)
+      return piece
+    }
+  }
+}
+
+/**
+ * Cubic beziers following an elliptical arc, one per quarter turn at most
+ */
+export function ellipseArcToBeziers(seg: EllipseArcSegment): BezierSegment[] {
+  const sweep = arcSweep(seg.startAngle, seg.endAngle, seg.counterclockwise)
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)))
+  const step = sweep / count
+  const k = (4 / 3) * Math.tan(step / 4)
+  const cos = Math.cos(seg.rotation)
+  const sin = Math.sin(seg.rotation)
+
+  const at = (theta: number): Point => {
+    const lx = seg.radiusX * Math.cos(theta)
+    const ly = seg.radiusY * Math.sin(theta)
+    return { x: seg.center.x + lx * cos - ly * sin, y: seg.center.y + lx * sin + ly * cos }
+  }
+  const derivative = (theta: number): Point => {
+    const lx = -seg.radiusX * Math.sin(theta)
+    const ly = seg.radiusY * Math.cos(theta)
+    return { x: lx * cos - ly * sin, y: lx * sin + ly * cos }
+  }
+
+  const beziers: BezierSegment[] = []
+  for (let i = 0; i < count; i++) {
+    const a0 = seg.startAngle + step * i
+    const a1 = a0 + step
+    const start = at(a0)
+    const end = at(a1)
+    const d0 = derivative(a0)
+    const d1 = derivative(a1)
+    const cp1 = { x: start.x + k * d0.x, y: start.y + k * d0.y }
+    const cp2 = { x: end.x - k * d1.x, y: end.y - k * d1.y }
+    beziers.push({ type: 'bezier', start, cp1, cp2, end, length: bezierLength(start, cp1, cp2, end) })
+  }
+  return beziers
+}
+
+/**
+ * The same segment travelled the other way
+ */
+export function reverseSegment(seg: BaseSegment): BaseSegment {
+  switch (seg.type) {
+    case 'line':
+      return { type: 'line', start: seg.end, end: seg.start, length: seg.length }
+    case 'arc':
+      return { ...seg, startAngle: seg.endAngle, endAngle: seg.startAngle, counterclockwise: !seg.counterclockwise, needsMoveTo: undefined }
+    case 'bezier':
+      return { type: 'bezier', start: seg.end, cp1: seg.cp2, cp2: seg.cp1, end: seg.start, length: seg.length }
+  }
+}
+
+// ============================================================================
+// CROSSINGS
+// ============================================================================
+
+/**
+ * Where two straight edges cross, as fractions along each (null if they are
+ * parallel or miss)
+ */
+export function crossPolylineEdges(p1: Point, p2: Point, q1: Point, q2: Point): { s: number; t: number } | null {
+  const rx = p2.x - p1.x
+  const ry = p2.y - p1.y
+  const sx = q2.x - q1.x
+  const sy = q2.y - q1.y
+  const denom = rx * sy - ry * sx
+  if (Math.abs(denom) < 1e-12) return null
+  const qpx = q1.x - p1.x
+  const qpy = q1.y - p1.y
+  const s = (qpx * sy - qpy * sx) / denom
+  const t = (qpx * ry - qpy * rx) / denom
+  return s >= 0 && s <= 1 && t >= 0 && t <= 1 ? { s, t } : null
+}
+
+/**
+ * Newton iterations on a(ta) = b(tb), starting from the sampled crossing
+ */
+export function refineCrossing(a: BaseSegment, b: BaseSegment, start: { ta: number; tb: number }): { ta: number; tb: number } {
+  let { ta, tb } = start
+  const h = 1e-6
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const pa = pointAt(a, ta)
+    const pb = pointAt(b, tb)
+    const fx = pa.x - pb.x
+    const fy = pa.y - pb.y
+    if (Math.hypot(fx, fy) < 1e-9) break
+    const da = subtract(pointAt(a, ta + h), pa)
+    const db = subtract(pointAt(b, tb + h), pb)
+    // Jacobian columns: d(f)/d(ta) = da/h, d(f)/d(tb) = -db/h
+    const det = (da.x * -db.y - da.y * -db.x) / (h * h)
+    if (Math.abs(det) < 1e-12) break
+    const dta = (fx * -db.y - fy * -db.x) / h / det
+    const dtb = (da.x * fy - da.y * fx) / h / det
+    ta = Math.max(0, Math.min(1, ta - dta))
+    tb = Math.max(0, Math.min(1, tb - dtb))
+  }
+  return { ta, tb }
+}
+
+// ============================================================================
+// OUTLINES
+// ============================================================================
+
+/**
+ * Sampled points along segments, for the orientation of the outline
+ */
+export function samplePolygon(segments: BaseSegment[]): Point[] {
+  return segments.flatMap(seg => [0, 0.25, 0.5, 0.75].map(t => pointAt(seg, t)))
+}
+
+/**
+ * +1 if the outline runs towards increasing angles (clockwise on screen), -1
+ * otherwise. Open outlines are measured as if closed by their chord.
+ */
+export function orientation(segments: BaseSegment[]): number {
+  const points = samplePolygon(segments)
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i]
+    const q = points[(i + 1) % points.length]
+    area += p.x * q.y - q.x * p.y
+  }
+  return area >= 0 ? 1 : -1
+}
+
+/**
+ * Split segments into sub-paths at every `needsMoveTo`, converting elliptical
+ * arcs to beziers
+ */
+export function splitSubpaths(segments: PathSegment[]): BaseSegment[][] {
+  const subpaths: BaseSegment[][] = []
+  for (const seg of segments) {
+    if (seg.needsMoveTo || subpaths.length === 0) subpaths.push([])
+    const current = subpaths[subpaths.length - 1]
+    if (seg.type === 'ellipse-arc') {
+      current.push(...ellipseArcToBeziers(seg))
+    } else {
+      current.push(seg)
+    }
+  }
+  return subpaths.filter(subpath => subpath.length > 0)
+}
@@ -1,5 +1,5 @@
-import type { CircleShape, Point, Rect, Shape } from '../../types'
-import { distance } from '../math'
+import type { CircleShape, Point, Rect, ArcSegment } from '../../types'
+import { distance, normalizeAngle } from '../math'
 import { DEFAULT_CIRCLE_RADIUS, MIN_CIRCLE_RADIUS, DUPLICATE_OFFSET } from '../../constants'
 
 /**
@@ -54,6 +54,31 @@ export function angleToPoint(circle: CircleShape, point: Point): number {
   return Math.atan2(point.y - circle.center.y, point.x - circle.center.x)
 }
 
+/**
+ * Create the arc the path follows around a circle between two contact angles.
+ * Clockwise (on screen) means increasing angles, as canvas arc() draws them.
+ */
+export function createCircleArc(
+  circle: CircleShape,
+  entryAngle: number,
+  exitAngle: number,
+  clockwise: boolean
+): ArcSegment {
+  const sweep = clockwise
+    ? normalizeAngle(exitAngle - entryAngle)
+    : normalizeAngle(entryAngle - exitAngle)
+  
+  return {
+    type: 'arc',
+    center: circle.center,
+    radius: circle.radius,
+    startAngle: entryAngle,
+    endAngle: exitAngle,
+    counterclockwise: !clockwise,
+    length: circle.radius * sweep
+  }
+}
+
 /**
  * Create a new circle with default values
  */
@@ -119,35 +144,3 @@ export function toggleDirection(circle: CircleShape): CircleShape {
     direction: circle.direction === 'cw' ? 'ccw' : 'cw'
   }
 }
-
-/**
- * Calculate the bounding box containing all shapes
- */
-export function getShapesBounds(shapes: Shape[]): Rect | null {
-  if (shapes.length === 0) return null
-  
-  let minX = Infinity
-  let minY = Infinity
-  let maxX = -Infinity
-  let maxY = -Infinity
-  
-  for (const shape of shapes) {
-    const bounds = getBounds(shape as CircleShape)
-    minX = Math.min(minX, bounds.x)
-    minY = Math.min(minY, bounds.y)
-    maxX = Math.max(maxX, bounds.x + bounds.width)
-    maxY = Math.max(maxY, bounds.y + bounds.height)
-  }
-  
-  if (!isFinite(minX) || !isFinite(minY) || !isFinite(maxX) || !isFinite(maxY)) {
-    return null
-  }
-  
-  return {
-    x: minX,
-    y: minY,
-    width: maxX - minX,
-    height: maxY - minY
-  }
-}
-
@@ -0,0 +1,283 @@
+import type { EllipseShape, Point, Rect, EllipseArcSegment } from '../../types'
+import { distance } from '../math'
+import {
+  DEFAULT_ELLIPSE_RADIUS_X,
+  DEFAULT_ELLIPSE_RADIUS_Y,
+  MIN_CIRCLE_RADIUS,
+  DUPLICATE_OFFSET
+} from '../../constants'
+
+/**
+ * The geometric part of an ellipse (no path settings).
+ * Circles can be expressed as an ellipse with radiusX = radiusY and no rotation,
+ * which lets tangent code treat circle/ellipse pairs uniformly.
+ */
+export type EllipseGeometry = Pick<EllipseShape, 'center' | 'radiusX' | 'radiusY' | 'rotation'>
+
+/**
+ * Convert a world point into the ellipse's local (unrotated, centered) frame
+ */
+export function toLocal(ellipse: EllipseGeometry, point: Point): Point {
+  const dx = point.x - ellipse.center.x
+  const dy = point.y - ellipse.center.y
+  const cos = Math.cos(ellipse.rotation)
+  const sin = Math.sin(ellipse.rotation)
+  return {
+    x: dx * cos + dy * sin,
+    y: -dx * sin + dy * cos
+  }
+}
+
+/**
+ * Convert a point in the ellipse's local frame back to world coordinates
+ */
+export function toWorld(ellipse: EllipseGeometry, local: Point): Point {
+  const cos = Math.cos(ellipse.rotation)
+  const sin = Math.sin(ellipse.rotation)
+  return {
+    x: ellipse.center.x + local.x * cos - local.y * sin,
+    y: ellipse.center.y + local.x * sin + local.y * cos
+  }
+}
+
+/**
+ * Distance from the center to the edge in a given world direction (polar radius)
+ */
+export function radiusAtAngle(ellipse: EllipseGeometry, angle: number): number {
+  const { radiusX: a, radiusY: b } = ellipse
+  const psi = angle - ellipse.rotation
+  const cos = Math.cos(psi)
+  const sin = Math.sin(psi)
+  return (a * b) / Math.sqrt(b * b * cos * cos + a * a * sin * sin)
+}
+
+/**
+ * Check if a point is inside the ellipse (with optional threshold for selection)
+ */
+export function containsPoint(ellipse: EllipseGeometry, point: Point, threshold: number = 0): boolean {
+  const dir = Math.atan2(point.y - ellipse.center.y, point.x - ellipse.center.x)
+  return distance(ellipse.center, point) <= radiusAtAngle(ellipse, dir) + threshold
+}
+
+/**
+ * Check if a point is on the edge of the ellipse (within threshold, measured radially)
+ */
+export function isOnEdge(ellipse: EllipseGeometry, point: Point, threshold: number = 5): boolean {
+  const dir = Math.atan2(point.y - ellipse.center.y, point.x - ellipse.center.x)
+  return Math.abs(distance(ellipse.center, point) - radiusAtAngle(ellipse, dir)) <= threshold
+}
+
+/**
+ * Get the axis-aligned bounding box of the (rotated) ellipse
+ */
+export function getBounds(ellipse: EllipseGeometry): Rect {
+  const { radiusX: a, radiusY: b, rotation, center } = ellipse
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  const halfWidth = Math.sqrt(a * a * cos * cos + b * b * sin * sin)
+  const halfHeight = Math.sqrt(a * a * sin * sin + b * b * cos * cos)
+  return {
+    x: center.x - halfWidth,
+    y: center.y - halfHeight,
+    width: halfWidth * 2,
+    height: halfHeight * 2
+  }
+}
+
+/**
+ * Get a point on the ellipse from its parametric (eccentric) angle.
+ * This is the same angle convention canvas ellipse() uses.
+ */
+export function pointAtParam(ellipse: EllipseGeometry, t: number): Point {
+  return toWorld(ellipse, {
+    x: ellipse.radiusX * Math.cos(t),
+    y: ellipse.radiusY * Math.sin(t)
+  })
+}
+
+/**
+ * Convert an outward normal angle (world) to the parametric angle of the
+ * point where the ellipse has that normal
+ */
+export function paramAtNormal(ellipse: EllipseGeometry, normalAngle: number): number {
+  const psi = normalAngle - ellipse.rotation
+  return Math.atan2(ellipse.radiusY * Math.sin(psi), ellipse.radiusX * Math.cos(psi))
+}
+
+/**
+ * Get the outward normal angle (world) at a parametric angle
+ */
+export function normalAtParam(ellipse: EllipseGeometry, t: number): number {
+  return Math.atan2(Math.sin(t) / ellipse.radiusY, Math.cos(t) / ellipse.radiusX) + ellipse.rotation
+}
+
+/**
+ * Get the point on the ellipse whose outward normal points along normalAngle.
+ * For a circle this is the same as pointOnCircle(center, radius, normalAngle).
+ */
+export function pointAtNormal(ellipse: EllipseGeometry, normalAngle: number): Point {
+  return pointAtParam(ellipse, paramAtNormal(ellipse, normalAngle))
+}
+
+/**
+ * Outward normal angle at (or nearest to) a point on the ellipse edge
+ */
+export function normalAtPoint(ellipse: EllipseGeometry, point: Point): number {
+  const local = toLocal(ellipse, point)
+  const nx = local.x / (ellipse.radiusX * ellipse.radiusX)
+  const ny = local.y / (ellipse.radiusY * ellipse.radiusY)
+  return Math.atan2(ny, nx) + ellipse.rotation
+}
+
+/**
+ * Support distance: how far the supporting line with the given outward normal
+ * lies from the center. For a circle this is just the radius.
+ */
+export function supportDistance(ellipse: EllipseGeometry, normalAngle: number): number {
+  const psi = normalAngle - ellipse.rotation
+  const a = ellipse.radiusX * Math.cos(psi)
+  const b = ellipse.radiusY * Math.sin(psi)
+  return Math.sqrt(a * a + b * b)
+}
+
+/**
+ * Implicit ellipse function: < 0 inside, 0 on the edge, > 0 outside
+ */
+export function implicitValue(ellipse: EllipseGeometry, point: Point): number {
+  const local = toLocal(ellipse, point)
+  const u = local.x / ellipse.radiusX
+  const v = local.y / ellipse.radiusY
+  return u * u + v * v - 1
+}
+
+/**
+ * Perimeter of the ellipse (Ramanujan's approximation, exact for circles)
+ */
+export function getPerimeter(ellipse: EllipseGeometry): number {
+  const { radiusX: a, radiusY: b } = ellipse
+  const h = ((a - b) / (a + b)) ** 2
+  return Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)))
+}
+
+/**
+ * Sample the ellipse at a fraction (0-1) of a full turn of its parametric angle.
+ * tangentAngle points in the direction of increasing angle.
+ */
+export function pointAtPerimeter(ellipse: EllipseGeometry, u: number): { point: Point; tangentAngle: number } {
+  const t = u * Math.PI * 2
+  const dx = -ellipse.radiusX * Math.sin(t)
+  const dy = ellipse.radiusY * Math.cos(t)
+  return {
+    point: pointAtParam(ellipse, t),
+    tangentAngle: Math.atan2(dy, dx) + ellipse.rotation
+  }
+}
+
+/**
+ * Create an arc that follows the ellipse's own outline.
+ * Angles are parametric (canvas ellipse() convention); with counterclockwise=false
+ * the arc sweeps through increasing angles, matching circular arcs.
+ */
+export function createEllipseArc(
+  ellipse: EllipseGeometry,
+  startAngle: number,
+  endAngle: number,
+  counterclockwise: boolean
+): EllipseArcSegment {
+  // Sweep as canvas draws it: a full turn is kept, otherwise wrap into one revolution
+  let sweep = endAngle - startAngle
+  if (!counterclockwise) {
+    if (sweep < Math.PI * 2) {
+      while (sweep < 0) sweep += Math.PI * 2
+    } else {
+      sweep = Math.PI * 2
+    }
+  } else {
+    if (sweep > -Math.PI * 2) {
+      while (sweep > 0) sweep -= Math.PI * 2
+    } else {
+      sweep = -Math.PI * 2
+    }
+  }
+  
+  return {
+    type: 'ellipse-arc',
+    center: ellipse.center,
+    radiusX: ellipse.radiusX,
+    radiusY: ellipse.radiusY,
+    rotation: ellipse.rotation,
+    startAngle,
+    endAngle,
+    counterclockwise,
+    length: integrateArcLength(ellipse.radiusX, ellipse.radiusY, startAngle, sweep)
+  }
+}
+
+/**
+ * Arc length of an ellipse between parametric angles (Simpson's rule).
+ * Accurate to well under a pixel for any practical ellipse.
+ */
+function integrateArcLength(radiusX: number, radiusY: number, startAngle: number, sweep: number): number {
+  const steps = Math.max(8, Math.ceil(Math.abs(sweep) / (Math.PI / 32)) * 2)
+  const h = sweep / steps
+  const speed = (t: number) => Math.hypot(radiusX * Math.sin(t), radiusY * Math.cos(t))
+  
+  let sum = speed(startAngle) + speed(startAngle + sweep)
+  for (let i = 1; i < steps; i++) {
+    sum += speed(startAngle + i * h) * (i % 2 === 1 ? 4 : 2)
+  }
+  
+  return Math.abs(sum * h / 3)
+}
+
+/**
+ * Create a new ellipse with default values
+ */
+export function createEllipse(
+  center: Point,
+  radiusX: number = DEFAULT_ELLIPSE_RADIUS_X,
+  radiusY: number = DEFAULT_ELLIPSE_RADIUS_Y,
+  rotation: number = 0,
+  id?: string,
+  name?: string,
+  direction: 'cw' | 'ccw' = 'cw'
+): EllipseShape {
+  return {
+    id: id ?? crypto.randomUUID(),
+    type: 'ellipse',
+    name: name ?? 'Ellipse',
+    center,
+    radiusX,
+    radiusY,
+    rotation,
+    direction
+  }
+}
+
+/**
+ * Scale an ellipse uniformly, preserving its aspect ratio
+ */
+export function scaleEllipse(ellipse: EllipseShape, factor: number): EllipseShape {
+  const minFactor = MIN_CIRCLE_RADIUS / Math.min(ellipse.radiusX, ellipse.radiusY)
+  const f = Math.max(minFactor, factor)
+  return {
+    ...ellipse,
+    radiusX: ellipse.radiusX * f,
+    radiusY: ellipse.radiusY * f
+  }
+}
+
+/**
+ * Duplicate an ellipse with a new ID and offset position
+ */
+export function duplicateEllipse(ellipse: EllipseShape, offset: Point = DUPLICATE_OFFSET): EllipseShape {
+  return {
+    ...ellipse,
+    id: crypto.randomUUID(),
+    name: `${ellipse.name} Copy`,
+    center: {
+      x: ellipse.center.x + offset.x,
+      y: ellipse.center.y + offset.y
+    }
+  }
+}
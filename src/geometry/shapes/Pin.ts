@@ -0,0 +1,83 @@
+import type { PinShape, CircleShape, Point, Rect } from '../../types'
+import { distance } from '../math'
+import { DEFAULT_PIN_FILLET } from '../../constants'
+
+/**
+ * Check if a point is within threshold of the pin
+ */
+export function containsPoint(pin: PinShape, point: Point, threshold: number = 0): boolean {
+  return distance(pin.center, point) <= threshold
+}
+
+/**
+ * Get the (zero-size) bounding box of the pin
+ */
+export function getBounds(pin: PinShape): Rect {
+  return { x: pin.center.x, y: pin.center.y, width: 0, height: 0 }
+}
+
+/**
+ * Replace a pin with the fillet circle that rounds its corner.
+ *
+ * The path arrives at the pin travelling along `dirIn` and leaves along
+ * `dirOut` (unit vectors). The fillet circle is tangent to both lines, its
+ * radius is reduced so the tangent points stay within `maxTrim` of the pin,
+ * and it wraps in the direction of the turn. Returns null when there is no
+ * corner to round (straight through or a full reversal).
+ */
+export function createFilletCircle(
+  pin: PinShape,
+  dirIn: Point,
+  dirOut: Point,
+  maxTrim: number
+): CircleShape | null {
+  const cross = dirIn.x * dirOut.y - dirIn.y * dirOut.x
+  const dot = dirIn.x * dirOut.x + dirIn.y * dirOut.y
+  const turn = Math.abs(Math.atan2(cross, dot))
+  if (turn < 1e-3 || turn > Math.PI - 1e-3) return null
+
+  // Half the interior angle of the corner
+  const halfAngle = (Math.PI - turn) / 2
+  const radius = Math.min(pin.fillet, maxTrim * Math.tan(halfAngle))
+  if (radius <= 0) return null
+
+  // The center lies on the corner's inner bisector
+  const bx = dirOut.x - dirIn.x
+  const by = dirOut.y - dirIn.y
+  const bLen = Math.hypot(bx, by)
+  const centerDist = radius / Math.sin(halfAngle)
+
+  return {
+    id: pin.id,
+    type: 'circle',
+    name: pin.name,
+    center: {
+      x: pin.center.x + (bx / bLen) * centerDist,
+      y: pin.center.y + (by / bLen) * centerDist
+    },
+    radius,
+    // Turning toward increasing angles (clockwise on screen) wraps clockwise
+    direction: cross > 0 ? 'cw' : 'ccw',
+    stretch: 0
+  }
+}
+
+/**
+ * Create a new pin with default values
+ */
+export function createPin(
+  center: Point,
+  fillet: number = DEFAULT_PIN_FILLET,
+  id?: string,
+  name?: string,
+  direction: 'cw' | 'ccw' = 'cw'
+): PinShape {
+  return {
+    id: id ?? crypto.randomUUID(),
+    type: 'pin',
+    name: name ?? 'Pin',
+    center,
+    fillet,
+    direction
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import type { ArcSegment, LineSegment, Point } from '../../types'
+import { createRoundedRect, getOutlineSegments, getPerimeter } from './RoundedPolygon'
+
+function segmentStart(segment: ArcSegment | LineSegment): Point {
+  if (segment.type === 'line') return segment.start
+  return {
+    x: segment.center.x + segment.radius * Math.cos(segment.startAngle),
+    y: segment.center.y + segment.radius * Math.sin(segment.startAngle)
+  }
+}
+
+function segmentEnd(segment: ArcSegment | LineSegment): Point {
+  if (segment.type === 'line') return segment.end
+  return {
+    x: segment.center.x + segment.radius * Math.cos(segment.endAngle),
+    y: segment.center.y + segment.radius * Math.sin(segment.endAngle)
+  }
+}
+
+/**
+ * Check that each segment starts where the previous one ended, wrapping
+ * around to the first
+ */
+function expectClosedChain(segments: Array<ArcSegment | LineSegment>) {
+  segments.forEach((segment, i) => {
+    const next = segments[(i + 1) % segments.length]
+    const end = segmentEnd(segment)
+    const start = segmentStart(next)
+    expect(end.x).toBeCloseTo(start.x, 9)
+    expect(end.y).toBeCloseTo(start.y, 9)
+  })
+}
+
+const totalLength = (segments: Array<ArcSegment | LineSegment>) =>
+  segments.reduce((sum, segment) => sum + segment.length, 0)
+
+describe('getOutlineSegments', () => {
+  // 100×60 with corner radius 10: 4 quarter arcs, edges of 80 and 40
+  const expectedLength = 2 * 80 + 2 * 40 + 2 * Math.PI * 10
+
+  it('closes a full turn that starts on an edge normal', () => {
+    const rect = createRoundedRect({ x: 0, y: 0 }, 100, 60, 10, 0)
+    for (const sweep of [Math.PI * 2, -Math.PI * 2]) {
+      const segments = getOutlineSegments(rect, 0, sweep)
+      expect(segments.filter(s => s.type === 'arc')).toHaveLength(4)
+      expect(segments.filter(s => s.type === 'line')).toHaveLength(4)
+      expectClosedChain(segments)
+      expect(totalLength(segments)).toBeCloseTo(expectedLength, 9)
+    }
+  })
+
+  it('closes a full turn that starts partway round a corner', () => {
+    const rect = createRoundedRect({ x: 0, y: 0 }, 100, 60, 10, 0.3)
+    const segments = getOutlineSegments(rect, 0, Math.PI * 2)
+    expect(segments).toHaveLength(9)
+    expectClosedChain(segments)
+    expect(totalLength(segments)).toBeCloseTo(expectedLength, 9)
+    expect(totalLength(segments)).toBeCloseTo(getPerimeter(rect), 9)
+  })
+
+  it('follows a partial sweep along one corner and edge', () => {
+    const rect = createRoundedRect({ x: 0, y: 0 }, 100, 60, 10, 0)
+    const segments = getOutlineSegments(rect, Math.PI / 4, Math.PI / 2)
+    expect(segments.map(s => s.type)).toEqual(['arc', 'line', 'arc'])
+    expect(segments[1].length).toBeCloseTo(80, 9)
+    expect(totalLength(segments)).toBeCloseTo(80 + 10 * Math.PI / 2, 9)
+  })
+})
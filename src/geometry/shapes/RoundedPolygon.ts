@@ -0,0 +1,493 @@
+import type { RoundedPolygonShape, Point, Rect, ArcSegment, LineSegment } from '../../types'
+import { distance, normalizeAngle } from '../math'
+import {
+  DEFAULT_ROUNDED_RECT_WIDTH,
+  DEFAULT_ROUNDED_RECT_HEIGHT,
+  DEFAULT_POLYGON_SIDES,
+  DEFAULT_POLYGON_CIRCUMRADIUS,
+  DEFAULT_CORNER_RADIUS,
+  MIN_CIRCLE_RADIUS
+} from '../../constants'
+
+/**
+ * The geometric part of a rounded polygon (no path settings)
+ */
+export type RoundedPolygonGeometry = Pick<
+  RoundedPolygonShape,
+  'center' | 'polygon' | 'sides' | 'circumradius' | 'width' | 'height' | 'cornerRadius' | 'rotation'
+>
+
+/**
+ * A piece of the outline: a corner arc or a straight edge.
+ * Pieces run in the direction of increasing normal angle (clockwise on screen).
+ */
+type OutlinePiece =
+  | { kind: 'arc'; center: Point; radius: number; from: number; to: number; length: number }
+  | { kind: 'line'; start: Point; end: Point; length: number }
+
+// Bisection steps for ray casting against the outline
+const RAY_BISECTION_STEPS = 40
+
+// ============================================================================
+// CORNERS
+// ============================================================================
+
+/**
+ * Corner radius after clamping so the corners fit inside the polygon
+ */
+export function getEffectiveCornerRadius(polygon: RoundedPolygonGeometry): number {
+  const limit = polygon.polygon === 'rect'
+    ? Math.min(polygon.width, polygon.height) / 2
+    : polygon.circumradius * Math.cos(Math.PI / polygon.sides)
+  return Math.max(0, Math.min(polygon.cornerRadius, limit))
+}
+
+/**
+ * Centers of the corner circles in world coordinates, ordered by increasing angle
+ */
+export function getCornerCenters(polygon: RoundedPolygonGeometry): Point[] {
+  const r = getEffectiveCornerRadius(polygon)
+  const { center, rotation } = polygon
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  const toWorld = (x: number, y: number): Point => ({
+    x: center.x + x * cos - y * sin,
+    y: center.y + x * sin + y * cos
+  })
+
+  if (polygon.polygon === 'rect') {
+    const hw = Math.max(0, polygon.width / 2 - r)
+    const hh = Math.max(0, polygon.height / 2 - r)
+    return [toWorld(hw, hh), toWorld(-hw, hh), toWorld(-hw, -hh), toWorld(hw, -hh)]
+  }
+
+  // Corner circles sit inside the vertices so the straight edges stay on the polygon's edges
+  const n = polygon.sides
+  const innerRadius = Math.max(0, polygon.circumradius - r / Math.cos(Math.PI / n))
+  const corners: Point[] = []
+  for (let i = 0; i < n; i++) {
+    // First vertex points up (before rotation)
+    const a = -Math.PI / 2 + (i * 2 * Math.PI) / n
+    corners.push(toWorld(innerRadius * Math.cos(a), innerRadius * Math.sin(a)))
+  }
+  return corners
+}
+
+/**
+ * Outward normal angle of edge i (from corner i to corner i + 1).
+ * Computed analytically so it stays defined when corners collapse together.
+ */
+function getEdgeNormal(polygon: RoundedPolygonGeometry, index: number): number {
+  if (polygon.polygon === 'rect') {
+    return polygon.rotation + (Math.PI / 2) * (index + 1)
+  }
+  return polygon.rotation - Math.PI / 2 + (2 * Math.PI * (index + 0.5)) / polygon.sides
+}
+
+/**
+ * Index of the corner whose arc carries the given outward normal
+ */
+function getCornerIndexForNormal(polygon: RoundedPolygonGeometry, normalAngle: number, count: number): number {
+  for (let i = 0; i < count; i++) {
+    const start = getEdgeNormal(polygon, (i - 1 + count) % count)
+    const end = getEdgeNormal(polygon, i)
+    const span = normalizeAngle(end - start)
+    if (normalizeAngle(normalAngle - start) <= span) return i
+  }
+  return 0
+}
+
+// ============================================================================
+// SUPPORT / POINT QUERIES
+// ============================================================================
+
+/**
+ * Get the point on the outline whose outward normal points along normalAngle
+ */
+export function pointAtNormal(polygon: RoundedPolygonGeometry, normalAngle: number): Point {
+  const corners = getCornerCenters(polygon)
+  const r = getEffectiveCornerRadius(polygon)
+  const corner = corners[getCornerIndexForNormal(polygon, normalAngle, corners.length)]
+  return {
+    x: corner.x + r * Math.cos(normalAngle),
+    y: corner.y + r * Math.sin(normalAngle)
+  }
+}
+
+/**
+ * Support distance: how far the supporting line with the given outward normal
+ * lies from the center
+ */
+export function supportDistance(polygon: RoundedPolygonGeometry, normalAngle: number): number {
+  const nx = Math.cos(normalAngle)
+  const ny = Math.sin(normalAngle)
+  let max = -Infinity
+  for (const c of getCornerCenters(polygon)) {
+    max = Math.max(max, (c.x - polygon.center.x) * nx + (c.y - polygon.center.y) * ny)
+  }
+  return max + getEffectiveCornerRadius(polygon)
+}
+
+/**
+ * Closest point on segment ab to p
+ */
+function closestOnSegment(p: Point, a: Point, b: Point): Point {
+  const abx = b.x - a.x
+  const aby = b.y - a.y
+  const lenSq = abx * abx + aby * aby
+  if (lenSq < 1e-12) return a
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / lenSq))
+  return { x: a.x + abx * t, y: a.y + aby * t }
+}
+
+/**
+ * Signed distance to the outline: < 0 inside, 0 on the edge, > 0 outside
+ */
+export function signedDistance(polygon: RoundedPolygonGeometry, point: Point): number {
+  const corners = getCornerCenters(polygon)
+  const n = corners.length
+
+  let minDist = Infinity
+  let inside = true
+  let area = 0
+  for (let i = 0; i < n; i++) {
+    const a = corners[i]
+    const b = corners[(i + 1) % n]
+    minDist = Math.min(minDist, distance(point, closestOnSegment(point, a, b)))
+    const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x)
+    if (cross < 0) inside = false
+    area += a.x * b.y - b.x * a.y
+  }
+
+  // Collapsed corner polygons (a point or a segment) have no inside
+  const hasInterior = Math.abs(area) > 1e-6
+  return (inside && hasInterior ? -minDist : minDist) - getEffectiveCornerRadius(polygon)
+}
+
+/**
+ * Distance from the center to the edge in a given world direction
+ */
+export function radiusAtAngle(polygon: RoundedPolygonGeometry, angle: number): number {
+  const dir = { x: Math.cos(angle), y: Math.sin(angle) }
+  const bounds = getBounds(polygon)
+  let lo = 0
+  let hi = Math.hypot(bounds.width, bounds.height)
+
+  for (let i = 0; i < RAY_BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2
+    const p = { x: polygon.center.x + dir.x * mid, y: polygon.center.y + dir.y * mid }
+    if (signedDistance(polygon, p) > 0) {
+      hi = mid
+    } else {
+      lo = mid
+    }
+  }
+
+  return (lo + hi) / 2
+}
+
+/**
+ * Outward normal angle of the edge point that lies in the direction of a
+ * world point, as seen from the center
+ */
+export function normalAtPoint(polygon: RoundedPolygonGeometry, point: Point): number {
+  const rayAngle = Math.atan2(point.y - polygon.center.y, point.x - polygon.center.x)
+  const edgeDist = radiusAtAngle(polygon, rayAngle)
+  const boundary = {
+    x: polygon.center.x + Math.cos(rayAngle) * edgeDist,
+    y: polygon.center.y + Math.sin(rayAngle) * edgeDist
+  }
+
+  // On a rounded part the normal points away from the nearest corner polygon point;
+  // on a sharp corner (or with no rounding) fall back to the nearest edge's normal
+  const corners = getCornerCenters(polygon)
+  const n = corners.length
+  let nearest = corners[0]
+  let nearestDist = Infinity
+  let nearestEdge = 0
+  for (let i = 0; i < n; i++) {
+    const q = closestOnSegment(boundary, corners[i], corners[(i + 1) % n])
+    const d = distance(boundary, q)
+    if (d < nearestDist) {
+      nearestDist = d
+      nearest = q
+      nearestEdge = i
+    }
+  }
+
+  if (nearestDist > 1e-6) {
+    return Math.atan2(boundary.y - nearest.y, boundary.x - nearest.x)
+  }
+  return getEdgeNormal(polygon, nearestEdge)
+}
+
+/**
+ * Check if a point is inside the outline (with optional threshold for selection)
+ */
+export function containsPoint(polygon: RoundedPolygonGeometry, point: Point, threshold: number = 0): boolean {
+  return signedDistance(polygon, point) <= threshold
+}
+
+/**
+ * Check if a point is on the outline (within threshold)
+ */
+export function isOnEdge(polygon: RoundedPolygonGeometry, point: Point, threshold: number = 5): boolean {
+  return Math.abs(signedDistance(polygon, point)) <= threshold
+}
+
+/**
+ * Get the axis-aligned bounding box of the outline
+ */
+export function getBounds(polygon: RoundedPolygonGeometry): Rect {
+  const r = getEffectiveCornerRadius(polygon)
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const c of getCornerCenters(polygon)) {
+    minX = Math.min(minX, c.x - r)
+    minY = Math.min(minY, c.y - r)
+    maxX = Math.max(maxX, c.x + r)
+    maxY = Math.max(maxY, c.y + r)
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * Radius of the largest circle centered on the shape that fits inside it
+ */
+export function getInscribedRadius(polygon: RoundedPolygonGeometry): number {
+  if (polygon.polygon === 'rect') {
+    return Math.min(polygon.width, polygon.height) / 2
+  }
+  return polygon.circumradius * Math.cos(Math.PI / polygon.sides)
+}
+
+// ============================================================================
+// OUTLINE TRAVERSAL
+// ============================================================================
+
+/**
+ * Split the outline into corner arcs and edges, starting at the beginning of corner 0
+ */
+function getOutlinePieces(polygon: RoundedPolygonGeometry): OutlinePiece[] {
+  const corners = getCornerCenters(polygon)
+  const r = getEffectiveCornerRadius(polygon)
+  const n = corners.length
+  const pieces: OutlinePiece[] = []
+
+  for (let i = 0; i < n; i++) {
+    const from = getEdgeNormal(polygon, (i - 1 + n) % n)
+    const to = from + normalizeAngle(getEdgeNormal(polygon, i) - from)
+    pieces.push({ kind: 'arc', center: corners[i], radius: r, from, to, length: r * (to - from) })
+
+    const next = corners[(i + 1) % n]
+    const start = { x: corners[i].x + r * Math.cos(to), y: corners[i].y + r * Math.sin(to) }
+    const end = { x: next.x + r * Math.cos(to), y: next.y + r * Math.sin(to) }
+    pieces.push({ kind: 'line', start, end, length: distance(start, end) })
+  }
+
+  return pieces
+}
+
+/**
+ * Total length of the outline
+ */
+export function getPerimeter(polygon: RoundedPolygonGeometry): number {
+  return getOutlinePieces(polygon).reduce((sum, piece) => sum + piece.length, 0)
+}
+
+/**
+ * Sample the outline at a fraction of its perimeter (0-1).
+ * tangentAngle points in the direction of increasing normal angle.
+ */
+export function pointAtPerimeter(polygon: RoundedPolygonGeometry, u: number): { point: Point; tangentAngle: number } {
+  const pieces = getOutlinePieces(polygon)
+  const total = pieces.reduce((sum, piece) => sum + piece.length, 0)
+  let remaining = (((u % 1) + 1) % 1) * total
+
+  for (const piece of pieces) {
+    if (remaining <= piece.length || piece === pieces[pieces.length - 1]) {
+      const t = piece.length > 0 ? Math.min(1, remaining / piece.length) : 0
+      if (piece.kind === 'arc') {
+        const a = piece.from + (piece.to - piece.from) * t
+        return {
+          point: { x: piece.center.x + piece.radius * Math.cos(a), y: piece.center.y + piece.radius * Math.sin(a) },
+          tangentAngle: a + Math.PI / 2
+        }
+      }
+      return {
+        point: {
+          x: piece.start.x + (piece.end.x - piece.start.x) * t,
+          y: piece.start.y + (piece.end.y - piece.start.y) * t
+        },
+        tangentAngle: Math.atan2(piece.end.y - piece.start.y, piece.end.x - piece.start.x)
+      }
+    }
+    remaining -= piece.length
+  }
+
+  // Unreachable: the last piece always returns
+  return { point: polygon.center, tangentAngle: 0 }
+}
+
+/**
+ * Build the path segments that follow the outline from one contact normal
+ * through a signed sweep (positive = increasing angles, i.e. clockwise on screen).
+ * Zero-length corner arcs (sharp corners) are omitted.
+ */
+export function getOutlineSegments(
+  polygon: RoundedPolygonGeometry,
+  fromNormal: number,
+  sweep: number
+): Array<ArcSegment | LineSegment> {
+  const corners = getCornerCenters(polygon)
+  const r = getEffectiveCornerRadius(polygon)
+  const n = corners.length
+  const increasing = sweep >= 0
+  const segments: Array<ArcSegment | LineSegment> = []
+
+  const pushArc = (center: Point, from: number, to: number) => {
+    const length = r * Math.abs(to - from)
+    if (length < 1e-9) return
+    segments.push({
+      type: 'arc',
+      center,
+      radius: r,
+      startAngle: from,
+      endAngle: to,
+      counterclockwise: !increasing,
+      length
+    })
+  }
+
+  const startIndex = getCornerIndexForNormal(polygon, fromNormal, n)
+  let index = startIndex
+  let phi = fromNormal
+  let remaining = Math.abs(sweep)
+
+  // Each corner contributes at most one arc and one edge per turn
+  for (let step = 0; step <= n * 2 + 1 && remaining > 1e-12; step++) {
+    const corner = corners[index]
+    // Normal where this corner's arc ends in the travel direction
+    const boundary = increasing
+      ? getEdgeNormal(polygon, index)
+      : getEdgeNormal(polygon, (index - 1 + n) % n)
+    const toBoundary = increasing
+      ? normalizeAngle(boundary - phi)
+      : normalizeAngle(phi - boundary)
+
+    if (remaining <= toBoundary) {
+      const phiEnd = increasing ? phi + remaining : phi - remaining
+      pushArc(corner, phi, phiEnd)
+      // A full turn from an edge normal ends on the far corner of that edge
+      if (Math.abs(sweep) >= Math.PI * 2 - 1e-9 && index !== startIndex) {
+        const first = corners[startIndex]
+        const start = { x: corner.x + r * Math.cos(phiEnd), y: corner.y + r * Math.sin(phiEnd) }
+        const end = { x: first.x + r * Math.cos(fromNormal), y: first.y + r * Math.sin(fromNormal) }
+        const length = distance(start, end)
+        if (length > 1e-9) {
+          segments.push({ type: 'line', start, end, length })
+        }
+      }
+      break
+    }
+
+    const phiEnd = increasing ? phi + toBoundary : phi - toBoundary
+    pushArc(corner, phi, phiEnd)
+    remaining -= toBoundary
+
+    const nextIndex = increasing ? (index + 1) % n : (index - 1 + n) % n
+    const next = corners[nextIndex]
+    const start = { x: corner.x + r * Math.cos(phiEnd), y: corner.y + r * Math.sin(phiEnd) }
+    const end = { x: next.x + r * Math.cos(phiEnd), y: next.y + r * Math.sin(phiEnd) }
+    const length = distance(start, end)
+    if (length > 1e-9) {
+      segments.push({ type: 'line', start, end, length })
+    }
+
+    index = nextIndex
+    phi = phiEnd
+  }
+
+  return segments
+}
+
+// ============================================================================
+// CREATION / EDITING
+// ============================================================================
+
+/**
+ * Create a new rounded rectangle with default values
+ */
+export function createRoundedRect(
+  center: Point,
+  width: number = DEFAULT_ROUNDED_RECT_WIDTH,
+  height: number = DEFAULT_ROUNDED_RECT_HEIGHT,
+  cornerRadius: number = DEFAULT_CORNER_RADIUS,
+  rotation: number = 0,
+  id?: string,
+  name?: string,
+  direction: 'cw' | 'ccw' = 'cw'
+): RoundedPolygonShape {
+  return {
+    id: id ?? crypto.randomUUID(),
+    type: 'rounded-polygon',
+    name: name ?? 'Rounded Rect',
+    center,
+    polygon: 'rect',
+    sides: 4,
+    circumradius: Math.hypot(width, height) / 2,
+    width,
+    height,
+    cornerRadius,
+    rotation,
+    direction
+  }
+}
+
+/**
+ * Create a new regular polygon with rounded corners
+ */
+export function createRegularPolygon(
+  center: Point,
+  sides: number = DEFAULT_POLYGON_SIDES,
+  circumradius: number = DEFAULT_POLYGON_CIRCUMRADIUS,
+  cornerRadius: number = DEFAULT_CORNER_RADIUS,
+  rotation: number = 0,
+  id?: string,
+  name?: string,
+  direction: 'cw' | 'ccw' = 'cw'
+): RoundedPolygonShape {
+  return {
+    id: id ?? crypto.randomUUID(),
+    type: 'rounded-polygon',
+    name: name ?? 'Polygon',
+    center,
+    polygon: 'regular',
+    sides,
+    circumradius,
+    width: circumradius * 2,
+    height: circumradius * 2,
+    cornerRadius,
+    rotation,
+    direction
+  }
+}
+
+/**
+ * Scale the size and corner radius of a rounded polygon uniformly
+ */
+export function scaleRoundedPolygon<T extends RoundedPolygonGeometry>(polygon: T, factor: number): T {
+  const minSize = polygon.polygon === 'rect'
+    ? Math.min(polygon.width, polygon.height) / 2
+    : polygon.circumradius
+  const f = Math.max(MIN_CIRCLE_RADIUS / minSize, factor)
+  return {
+    ...polygon,
+    circumradius: polygon.circumradius * f,
+    width: polygon.width * f,
+    height: polygon.height * f,
+    cornerRadius: polygon.cornerRadius * f
+  }
+}
@@ -0,0 +1,372 @@
+import type { Shape, ShapeType, CircleShape, EllipseShape, RoundedPolygonShape, PinShape, Point, Rect, PathSegment } from '../../types'
+import type { ConvexOutline } from '../tangent'
+import type { StretchFrame } from '../stretch'
+import { pointOnCircle, normalizeAngle, distance } from '../math'
+import { MIN_POLYGON_SIDES } from '../../constants'
+import * as Circle from './Circle'
+import * as Ellipse from './Ellipse'
+import * as RoundedPolygon from './RoundedPolygon'
+import * as Pin from './Pin'
+
+/**
+ * Everything the path engine, hit testing and renderers need to know about a
+ * shape type. Each shape type registers one of these; callers dispatch through
+ * getTangentShape() instead of switching on shape.type, so adding a shape type
+ * only means adding a module and a registry entry.
+ *
+ * Contact angles are outward normal angles (see TangentGeneratorProps).
+ */
+export interface TangentShape<T extends Shape = Shape> {
+  // Path
+  getTangentPoint: (shape: T, normalAngle: number) => Point                 // Edge point with this contact angle
+  getContactAngle: (shape: T, point: Point) => number                       // Contact angle toward a world point
+  getArcSegments: (shape: T, entryAngle: number, exitAngle: number, clockwise: boolean) => PathSegment[]
+  getFullOutline: (shape: T, clockwise: boolean) => PathSegment[]           // Path around a lone shape
+  getOutline: (shape: T) => ConvexOutline                                   // For the numeric tangent solver
+  getStretchFrame: ((shape: T) => StretchFrame) | null                     // Outline stretched arcs touch; null if stretch doesn't apply
+  isPoint: boolean                                                          // Zero-size: the path passes through the center
+
+  // Hit testing
+  containsPoint: (shape: T, point: Point, threshold?: number) => boolean
+  isOnEdge: (shape: T, point: Point, threshold?: number) => boolean
+  intersectsRect: (shape: T, rect: Rect) => boolean
+  getBounds: (shape: T) => Rect
+  getRadiusAtAngle: (shape: T, angle: number) => number                     // Center-to-edge distance in a direction
+  getUIRadius: (shape: T) => number                                         // Size of in-shape UI (always fits inside)
+
+  // Drawing
+  getPerimeter: (shape: T) => number
+  pointAtPerimeter: (shape: T, u: number) => { point: Point; tangentAngle: number }
+
+  // Editing
+  getScaleRadius: (shape: T) => number                                      // Size that scale drags operate on
+  scale: (shape: T, factor: number) => T
+  mapRotation: (shape: T, map: (rotation: number) => number) => T           // Used by mirror copies
+  formatSize: (shape: T, format: (value: number) => string) => string
+  validate: (shape: Partial<T>) => string | null                            // Problem with a loaded shape, if any
+}
+
+type ShapeOfType<K extends ShapeType> = Extract<Shape, { type: K }>
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * Check if a shape intersects with a rectangle by sampling:
+ * the rectangle's corners or center lie inside the shape, or its outline crosses the rectangle
+ */
+function sampledIntersectsRect<T extends Shape>(kind: TangentShape<T>, shape: T, rect: Rect): boolean {
+  const inRect = (p: Point) =>
+    p.x >= rect.x && p.x <= rect.x + rect.width && p.y >= rect.y && p.y <= rect.y + rect.height
+
+  if (inRect(shape.center)) return true
+
+  const corners: Point[] = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x, y: rect.y + rect.height },
+    { x: rect.x + rect.width, y: rect.y + rect.height }
+  ]
+  if (corners.some(c => kind.containsPoint(shape, c))) return true
+
+  const samples = 64
+  for (let i = 0; i < samples; i++) {
+    if (inRect(kind.pointAtPerimeter(shape, i / samples).point)) return true
+  }
+  return false
+}
+
+/**
+ * Convex outline of an ellipse (circles are unrotated ellipses)
+ */
+function ellipseOutline(ellipse: Ellipse.EllipseGeometry): ConvexOutline {
+  return {
+    center: ellipse.center,
+    support: (phi) => Ellipse.supportDistance(ellipse, phi),
+    pointAtNormal: (phi) => Ellipse.pointAtNormal(ellipse, phi),
+    normalAtPoint: (point) => Ellipse.normalAtPoint(ellipse, point),
+    boundaryPoint: (t) => Ellipse.pointAtParam(ellipse, t),
+    implicit: (point) => Ellipse.implicitValue(ellipse, point)
+  }
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && value > 0
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value)
+}
+
+// ============================================================================
+// CIRCLE
+// ============================================================================
+
+const circleShape: TangentShape<CircleShape> = {
+  getTangentPoint: (circle, normalAngle) => pointOnCircle(circle.center, circle.radius, normalAngle),
+  getContactAngle: (circle, point) => Math.atan2(point.y - circle.center.y, point.x - circle.center.x),
+  getArcSegments: (circle, entryAngle, exitAngle, clockwise) =>
+    [Circle.createCircleArc(circle, entryAngle, exitAngle, clockwise)],
+  getFullOutline: (circle, clockwise) => [{
+    type: 'arc',
+    center: circle.center,
+    radius: circle.radius,
+    startAngle: 0,
+    endAngle: clockwise ? Math.PI * 2 : -Math.PI * 2,
+    counterclockwise: !clockwise,
+    length: Math.PI * 2 * circle.radius
+  }],
+  getOutline: (circle) => ellipseOutline({ center: circle.center, radiusX: circle.radius, radiusY: circle.radius, rotation: 0 }),
+  getStretchFrame: (circle) => ({
+    center: circle.center,
+    axisX: { x: circle.radius, y: 0 },
+    axisY: { x: 0, y: circle.radius }
+  }),
+  isPoint: false,
+
+  containsPoint: Circle.containsPoint,
+  isOnEdge: Circle.isOnEdge,
+  intersectsRect: (circle, rect) => {
+    // Find closest point on rectangle to circle center
+    const closestX = Math.max(rect.x, Math.min(circle.center.x, rect.x + rect.width))
+    const closestY = Math.max(rect.y, Math.min(circle.center.y, rect.y + rect.height))
+    const dx = circle.center.x - closestX
+    const dy = circle.center.y - closestY
+    return dx * dx + dy * dy <= circle.radius * circle.radius
+  },
+  getBounds: Circle.getBounds,
+  getRadiusAtAngle: (circle) => circle.radius,
+  getUIRadius: (circle) => circle.radius,
+
+  getPerimeter: (circle) => Math.PI * 2 * circle.radius,
+  pointAtPerimeter: (circle, u) => {
+    const angle = u * Math.PI * 2
+    return { point: pointOnCircle(circle.center, circle.radius, angle), tangentAngle: angle + Math.PI / 2 }
+  },
+
+  getScaleRadius: (circle) => circle.radius,
+  scale: (circle, factor) => Circle.scaleCircle(circle, circle.radius * factor),
+  mapRotation: (circle) => circle,
+  formatSize: (circle, format) => `r: ${format(circle.radius)}`,
+  validate: (circle) => isPositive(circle.radius) ? null : 'has invalid radius'
+}
+
+// ============================================================================
+// ELLIPSE
+// ============================================================================
+
+const ellipseShape: TangentShape<EllipseShape> = {
+  getTangentPoint: Ellipse.pointAtNormal,
+  getContactAngle: Ellipse.normalAtPoint,
+  getArcSegments: (ellipse, entryAngle, exitAngle, clockwise) => [Ellipse.createEllipseArc(
+    ellipse,
+    Ellipse.paramAtNormal(ellipse, entryAngle),
+    Ellipse.paramAtNormal(ellipse, exitAngle),
+    !clockwise
+  )],
+  getFullOutline: (ellipse, clockwise) =>
+    [Ellipse.createEllipseArc(ellipse, 0, clockwise ? Math.PI * 2 : -Math.PI * 2, !clockwise)],
+  getOutline: ellipseOutline,
+  getStretchFrame: (ellipse) => {
+    const cos = Math.cos(ellipse.rotation)
+    const sin = Math.sin(ellipse.rotation)
+    return {
+      center: ellipse.center,
+      axisX: { x: ellipse.radiusX * cos, y: ellipse.radiusX * sin },
+      axisY: { x: -ellipse.radiusY * sin, y: ellipse.radiusY * cos }
+    }
+  },
+  isPoint: false,
+
+  containsPoint: Ellipse.containsPoint,
+  isOnEdge: Ellipse.isOnEdge,
+  intersectsRect: (ellipse, rect) => sampledIntersectsRect(ellipseShape, ellipse, rect),
+  getBounds: Ellipse.getBounds,
+  getRadiusAtAngle: Ellipse.radiusAtAngle,
+  getUIRadius: (ellipse) => Math.min(ellipse.radiusX, ellipse.radiusY),
+
+  getPerimeter: Ellipse.getPerimeter,
+  pointAtPerimeter: Ellipse.pointAtPerimeter,
+
+  // The X semi-axis drives scaling; the Y semi-axis follows to keep the aspect ratio
+  getScaleRadius: (ellipse) => ellipse.radiusX,
+  scale: Ellipse.scaleEllipse,
+  mapRotation: (ellipse, map) => ({ ...ellipse, rotation: map(ellipse.rotation) }),
+  formatSize: (ellipse, format) => `${format(ellipse.radiusX)} × ${format(ellipse.radiusY)}`,
+  validate: (ellipse) => {
+    if (!isPositive(ellipse.radiusX) || !isPositive(ellipse.radiusY)) return 'has invalid radii'
+    if (!isFiniteNumber(ellipse.rotation)) return 'has invalid rotation'
+    return null
+  }
+}
+
+// ============================================================================
+// ROUNDED POLYGON
+// ============================================================================
+
+const roundedPolygonShape: TangentShape<RoundedPolygonShape> = {
+  getTangentPoint: RoundedPolygon.pointAtNormal,
+  getContactAngle: RoundedPolygon.normalAtPoint,
+  getArcSegments: (polygon, entryAngle, exitAngle, clockwise) => {
+    // Follow the outline (corner arcs and edges) in the wrap direction
+    const sweep = clockwise
+      ? normalizeAngle(exitAngle - entryAngle)
+      : -normalizeAngle(entryAngle - exitAngle)
+    return RoundedPolygon.getOutlineSegments(polygon, entryAngle, sweep)
+  },
+  getFullOutline: (polygon, clockwise) =>
+    RoundedPolygon.getOutlineSegments(polygon, 0, clockwise ? Math.PI * 2 : -Math.PI * 2),
+  getOutline: (polygon) => ({
+    center: polygon.center,
+    support: (phi) => RoundedPolygon.supportDistance(polygon, phi),
+    pointAtNormal: (phi) => RoundedPolygon.pointAtNormal(polygon, phi),
+    normalAtPoint: (point) => RoundedPolygon.normalAtPoint(polygon, point),
+    boundaryPoint: (t) => RoundedPolygon.pointAtPerimeter(polygon, t / (Math.PI * 2)).point,
+    implicit: (point) => RoundedPolygon.signedDistance(polygon, point)
+  }),
+  // The outline is fixed, so stretch does not apply
+  getStretchFrame: null,
+  isPoint: false,
+
+  containsPoint: RoundedPolygon.containsPoint,
+  isOnEdge: RoundedPolygon.isOnEdge,
+  intersectsRect: (polygon, rect) => sampledIntersectsRect(roundedPolygonShape, polygon, rect),
+  getBounds: RoundedPolygon.getBounds,
+  getRadiusAtAngle: RoundedPolygon.radiusAtAngle,
+  getUIRadius: RoundedPolygon.getInscribedRadius,
+
+  getPerimeter: RoundedPolygon.getPerimeter,
+  pointAtPerimeter: RoundedPolygon.pointAtPerimeter,
+
+  // Circumradius (regular) or half-width (rect) drives scaling; the other sizes follow
+  getScaleRadius: (polygon) => polygon.polygon === 'rect' ? polygon.width / 2 : polygon.circumradius,
+  scale: RoundedPolygon.scaleRoundedPolygon,
+  mapRotation: (polygon, map) => ({ ...polygon, rotation: map(polygon.rotation) }),
+  formatSize: (polygon, format) => polygon.polygon === 'rect'
+    ? `${format(polygon.width)} × ${format(polygon.height)}`
+    : `${polygon.sides}-gon r: ${format(polygon.circumradius)}`,
+  validate: (polygon) => {
+    if (polygon.polygon !== 'regular' && polygon.polygon !== 'rect') return 'has invalid polygon kind'
+    if (polygon.polygon === 'regular') {
+      if (!Number.isInteger(polygon.sides) || (polygon.sides ?? 0) < MIN_POLYGON_SIDES) return 'has invalid number of sides'
+      if (!isPositive(polygon.circumradius)) return 'has invalid size'
+    } else if (!isPositive(polygon.width) || !isPositive(polygon.height)) {
+      return 'has invalid size'
+    }
+    if (typeof polygon.cornerRadius !== 'number' || polygon.cornerRadius < 0) return 'has invalid corner radius'
+    if (!isFiniteNumber(polygon.rotation)) return 'has invalid rotation'
+    return null
+  }
+}
+
+// ============================================================================
+// PIN
+// ============================================================================
+
+const pinShape: TangentShape<PinShape> = {
+  getTangentPoint: (pin) => pin.center,
+  getContactAngle: (pin, point) => Math.atan2(point.y - pin.center.y, point.x - pin.center.x),
+  // Fillets are resolved into circles before the hull is built, so a pin itself never wraps
+  getArcSegments: () => [],
+  getFullOutline: () => [],
+  getOutline: (pin) => ({
+    center: pin.center,
+    support: () => 0,
+    pointAtNormal: () => pin.center,
+    normalAtPoint: (point) => Math.atan2(point.y - pin.center.y, point.x - pin.center.x),
+    boundaryPoint: () => pin.center,
+    implicit: (point) => distance(pin.center, point)
+  }),
+  getStretchFrame: null,
+  isPoint: true,
+
+  containsPoint: Pin.containsPoint,
+  isOnEdge: () => false,
+  intersectsRect: (pin, rect) =>
+    pin.center.x >= rect.x && pin.center.x <= rect.x + rect.width &&
+    pin.center.y >= rect.y && pin.center.y <= rect.y + rect.height,
+  getBounds: Pin.getBounds,
+  getRadiusAtAngle: () => 0,
+  getUIRadius: () => 0,
+
+  getPerimeter: () => 0,
+  pointAtPerimeter: (pin) => ({ point: pin.center, tangentAngle: 0 }),
+
+  // Pins have no size to scale; the fillet is edited directly
+  getScaleRadius: () => 0,
+  scale: (pin) => pin,
+  mapRotation: (pin) => pin,
+  formatSize: (pin, format) => pin.fillet > 0 ? `fillet: ${format(pin.fillet)}` : 'sharp',
+  validate: (pin) => typeof pin.fillet === 'number' && pin.fillet >= 0 ? null : 'has invalid fillet'
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const shapeRegistry: { [K in ShapeType]: TangentShape<ShapeOfType<K>> } = {
+  'circle': circleShape,
+  'ellipse': ellipseShape,
+  'rounded-polygon': roundedPolygonShape,
+  'pin': pinShape
+}
+
+/**
+ * Get the implementation for a shape's type
+ */
+export function getTangentShape<T extends Shape>(shape: T): TangentShape<T> {
+  return shapeRegistry[shape.type as T['type']] as unknown as TangentShape<T>
+}
+
+/**
+ * Check whether a type string names a registered shape type (e.g. when loading files)
+ */
+export function isShapeType(type: string): type is ShapeType {
+  return Object.prototype.hasOwnProperty.call(shapeRegistry, type)
+}
+
+/**
+ * Get the implementation for a shape type by name
+ */
+export function getTangentShapeForType(type: ShapeType): TangentShape {
+  return shapeRegistry[type] as unknown as TangentShape
+}
+
+/**
+ * Get the axis-aligned bounding box of any shape
+ */
+export function getShapeBounds(shape: Shape): Rect {
+  return getTangentShape(shape).getBounds(shape)
+}
+
+/**
+ * Calculate the bounding box containing all shapes
+ */
+export function getShapesBounds(shapes: Shape[]): Rect | null {
+  if (shapes.length === 0) return null
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+
+  for (const shape of shapes) {
+    const bounds = getShapeBounds(shape)
+    minX = Math.min(minX, bounds.x)
+    minY = Math.min(minY, bounds.y)
+    maxX = Math.max(maxX, bounds.x + bounds.width)
+    maxY = Math.max(maxY, bounds.y + bounds.height)
+  }
+
+  if (!isFinite(minX) || !isFinite(minY) || !isFinite(maxX) || !isFinite(maxY)) {
+    return null
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY
+  }
+}
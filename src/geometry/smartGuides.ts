@@ -1,4 +1,5 @@
-import type { CircleShape, Point } from '../types'
+import type { Shape, Point } from '../types'
+import { getShapeBounds } from './shapes/registry'
 
 /**
  * Smart Guides - Figma-style alignment guides for circles
@@ -37,7 +38,7 @@ export interface SmartGuidesResult {
 /**
  * Get the 5 alignment reference points for a circle
  */
-function getCircleAlignmentPoints(circle: CircleShape): {
+function getCircleAlignmentPoints(circle: Shape): {
   centerX: number
   centerY: number
   left: number
@@ -45,13 +46,15 @@ function getCircleAlignmentPoints(circle: CircleShape): {
   top: number
   bottom: number
 } {
+  // Edges come from the bounding box, which for a circle is center ± radius
+  const bounds = getShapeBounds(circle)
   return {
     centerX: circle.center.x,
     centerY: circle.center.y,
-    left: circle.center.x - circle.radius,
-    right: circle.center.x + circle.radius,
-    top: circle.center.y - circle.radius,
-    bottom: circle.center.y + circle.radius,
+    left: bounds.x,
+    right: bounds.x + bounds.width,
+    top: bounds.y,
+    bottom: bounds.y + bounds.height,
   }
 }
 
@@ -61,12 +64,14 @@ function getCircleAlignmentPoints(circle: CircleShape): {
  * @param draggedCircles - Circles currently being dragged
  * @param otherCircles - All other circles to check alignment against
  * @param threshold - Distance threshold for alignment detection (in world units)
+ * @param origin - Center to align with (the mirror origin; the world origin by default)
  * @returns Active guides and snap offset suggestion
  */
 export function computeSmartGuides(
-  draggedCircles: CircleShape[],
-  otherCircles: CircleShape[],
-  threshold: number
+  draggedCircles: Shape[],
+  otherCircles: Shape[],
+  threshold: number,
+  origin: Point = { x: 0, y: 0 }
 ): SmartGuidesResult {
   const guides: SmartGuide[] = []
   let snapOffsetX = 0
@@ -78,14 +83,11 @@ export function computeSmartGuides(
   let minDistX = threshold
   let minDistY = threshold
   
-  // Origin point for alignment
-  const origin: Point = { x: 0, y: 0 }
-  
   for (const dragged of draggedCircles) {
     const draggedPoints = getCircleAlignmentPoints(dragged)
     
-    // Check alignment with origin (0, 0)
-    // Vertical alignment (x = 0)
+    // Check alignment with the origin
+    // Vertical alignment (x = origin.x)
     const xOriginAlignments: Array<{ draggedType: AlignmentType; draggedVal: number }> = [
       { draggedType: 'center', draggedVal: draggedPoints.centerX },
       { draggedType: 'left', draggedVal: draggedPoints.left },
@@ -119,7 +121,7 @@ export function computeSmartGuides(
       }
     }
     
-    // Horizontal alignment (y = 0)
+    // Horizontal alignment (y = origin.y)
     const yOriginAlignments: Array<{ draggedType: AlignmentType; draggedVal: number }> = [
       { draggedType: 'center', draggedVal: draggedPoints.centerY },
       { draggedType: 'top', draggedVal: draggedPoints.top },
@@ -165,13 +167,13 @@ export function computeSmartGuides(
           case 'center':
             return { x: target.center.x, y: target.center.y }
           case 'left':
-            return { x: target.center.x - target.radius, y: target.center.y }
+            return { x: targetPoints.left, y: target.center.y }
           case 'right':
-            return { x: target.center.x + target.radius, y: target.center.y }
+            return { x: targetPoints.right, y: target.center.y }
           case 'top':
-            return { x: target.center.x, y: target.center.y - target.radius }
+            return { x: target.center.x, y: targetPoints.top }
           case 'bottom':
-            return { x: target.center.x, y: target.center.y + target.radius }
+            return { x: target.center.x, y: targetPoints.bottom }
         }
       }
       
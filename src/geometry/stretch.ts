@@ -0,0 +1,132 @@
+import type { Point, EllipseArcSegment } from '../types'
+import { normalizeAngle } from './math'
+import { segmentLength } from './arcLength'
+
+// Arcs closer than this (radians) to no sweep or a full turn have no chord to
+// stretch across, so they keep the shape's own outline
+const MIN_STRETCH_SPAN = 1e-4
+// Stretch of 1 makes a half-turn arc this many times as deep (-1: this many times shallower)
+const STRETCH_DEPTH_RATIO = 2
+
+/**
+ * A shape outline as the image of the unit circle: center + axisX·cos θ +
+ * axisY·sin θ. Stretched arcs are built on the unit circle and mapped back,
+ * so they touch ellipses exactly as they touch circles.
+ */
+export interface StretchFrame {
+  center: Point
+  axisX: Point
+  axisY: Point
+}
+
+const dot = (u: Point, v: Point) => u.x * v.x + u.y * v.y
+const cross = (u: Point, v: Point) => u.x * v.y - u.y * v.x
+
+/**
+ * Frame coordinates of a world point
+ */
+function toFrame(frame: StretchFrame, point: Point): Point {
+  const det = cross(frame.axisX, frame.axisY)
+  const dx = point.x - frame.center.x
+  const dy = point.y - frame.center.y
+  return {
+    x: (dx * frame.axisY.y - dy * frame.axisY.x) / det,
+    y: (dy * frame.axisX.x - dx * frame.axisX.y) / det
+  }
+}
+
+/**
+ * World direction of a frame vector
+ */
+function fromFrame(frame: StretchFrame, v: Point): Point {
+  return {
+    x: frame.axisX.x * v.x + frame.axisY.x * v.y,
+    y: frame.axisX.y * v.x + frame.axisY.y * v.y
+  }
+}
+
+/**
+ * Stretch the wrap arc from `entryPoint` to `exitPoint` (both on the outline
+ * described by `frame`) into an elliptical arc.
+ *
+ * In frame space the outline is the unit circle and the arc spans 2α about
+ * the direction m of its midpoint. With v measured along m and u along the
+ * chord, the conics x² + y² - 1 + (λ - 1)(v - cos α)² = 0 all touch the
+ * circle at both contact points, so any of them meets the connectors with
+ * the circle's own tangents: λ = 1 is the circle, larger λ pulls the arc
+ * towards the chord and smaller λ pushes it out, staying an ellipse for every
+ * λ > 0 and any span. Stretch picks λ = 4^-stretch, which scales the depth
+ * of a half-turn arc by 2^stretch.
+ *
+ * Returns null when the arc is too close to nothing or a full turn to have a
+ * chord; the caller then keeps the unstretched outline.
+ */
+export function createStretchedArc(
+  frame: StretchFrame,
+  entryPoint: Point,
+  exitPoint: Point,
+  clockwise: boolean,
+  stretch: number
+): EllipseArcSegment | null {
+  // Frame angles of the contact points and the signed sweep between them
+  // (clockwise on screen runs towards increasing angles)
+  const entry = toFrame(frame, entryPoint)
+  const exit = toFrame(frame, exitPoint)
+  const entryTheta = Math.atan2(entry.y, entry.x)
+  const exitTheta = Math.atan2(exit.y, exit.x)
+  const span = clockwise
+    ? normalizeAngle(exitTheta - entryTheta)
+    : -normalizeAngle(entryTheta - exitTheta)
+  const halfSpan = Math.abs(span) / 2
+  if (halfSpan < MIN_STRETCH_SPAN || halfSpan > Math.PI - MIN_STRETCH_SPAN) return null
+
+  // m points at the arc midpoint, u along the chord towards the entry side of
+  // a clockwise arc; the contact points sit at u = ±sin α, v = cos α
+  const midTheta = entryTheta + span / 2
+  const m = { x: Math.cos(midTheta), y: Math.sin(midTheta) }
+  const u = { x: m.y, y: -m.x }
+  const chordV = Math.cos(halfSpan)
+  const halfChord = Math.sin(halfSpan)
+
+  // The conic for λ, as an ellipse centred on the axis of symmetry
+  const lambda = Math.pow(STRETCH_DEPTH_RATIO * STRETCH_DEPTH_RATIO, -stretch)
+  const centerV = (lambda - 1) * chordV / lambda
+  const k = (lambda * halfChord * halfChord + chordV * chordV) / lambda
+  const radiusU = Math.sqrt(k)
+  const radiusV = Math.sqrt(k / lambda)
+
+  // Ellipse parameter φ of the contact points, β and π - β: the arc runs
+  // through φ = π/2 (the apex on m), increasing from β when clockwise
+  const beta = Math.atan2((chordV - centerV) / radiusV, halfChord / radiusU)
+  const entryPhi = clockwise ? beta : Math.PI - beta
+  const sweep = (clockwise ? 1 : -1) * (Math.PI - 2 * beta)
+
+  // Back to world space: conjugate semi-diameters p (along u) and q (along m)
+  const center = fromFrame(frame, { x: m.x * centerV, y: m.y * centerV })
+  center.x += frame.center.x
+  center.y += frame.center.y
+  const p = fromFrame(frame, { x: u.x * radiusU, y: u.y * radiusU })
+  const q = fromFrame(frame, { x: m.x * radiusV, y: m.y * radiusV })
+
+  // Principal axes: the parameter τ where p·cos τ + q·sin τ is longest. The
+  // frame keeps orientation and u × m > 0, so the minor axis is the major
+  // axis turned towards increasing angles and ellipse angles are φ - τ.
+  const tau = Math.atan2(2 * dot(p, q), dot(p, p) - dot(q, q)) / 2
+  const major = { x: p.x * Math.cos(tau) + q.x * Math.sin(tau), y: p.y * Math.cos(tau) + q.y * Math.sin(tau) }
+  const minor = { x: q.x * Math.cos(tau) - p.x * Math.sin(tau), y: q.y * Math.cos(tau) - p.y * Math.sin(tau) }
+  const startAngle = entryPhi - tau
+
+  const arc: EllipseArcSegment = {
+    type: 'ellipse-arc',
+    center,
+    radiusX: Math.hypot(major.x, major.y),
+    radiusY: Math.hypot(minor.x, minor.y),
+    rotation: Math.atan2(major.y, major.x),
+    startAngle,
+    endAngle: startAngle + sweep,
+    counterclockwise: !clockwise,
+    length: 0
+  }
+  arc.length = segmentLength(arc)
+  return arc
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import type { Point } from '../types'
+import { flattenSvgPath } from './svgPath'
+import { distance } from './math'
+
+/**
+ * Largest gap between consecutive points
+ */
+const maxGap = (points: Point[]) =>
+  Math.max(...points.slice(1).map((p, i) => distance(p, points[i])))
+
+describe('flattenSvgPath', () => {
+  it('keeps the corners of straight commands and drops the repeated start', () => {
+    const [rect] = flattenSvgPath('M10 20 H70 V50 H10 Z', 1)
+    expect(rect.closed).toBe(true)
+    expect(rect.points).toEqual([{ x: 10, y: 20 }, { x: 70, y: 20 }, { x: 70, y: 50 }, { x: 10, y: 50 }])
+  })
+
+  it('reads relative commands and implicit linetos after a moveto', () => {
+    const absolute = flattenSvgPath('M10 20 L60 20 L60 50', 1)
+    expect(flattenSvgPath('m10,20 50,0 0,30', 1)).toEqual(absolute)
+    expect(flattenSvgPath('M10 20 h50 v30', 1)).toEqual(absolute)
+    expect(absolute[0].closed).toBe(false)
+  })
+
+  it('splits subpaths and starts relative moves at the last closed point', () => {
+    const subpaths = flattenSvgPath('M10 20 H70 V50 Z m5 5 l10 0 0 10', 1)
+    expect(subpaths).toHaveLength(2)
+    expect(subpaths[1]).toEqual({ points: [{ x: 15, y: 25 }, { x: 25, y: 25 }, { x: 25, y: 35 }], closed: false })
+  })
+
+  it('flattens arcs onto the circle at the requested spacing', () => {
+    const [circle] = flattenSvgPath('M50 0 A50 50 0 0 1 -50 0 A50 50 0 0 1 50 0 Z', 2)
+    expect(circle.closed).toBe(true)
+    for (const p of circle.points) {
+      expect(Math.hypot(p.x, p.y)).toBeCloseTo(50, 9)
+    }
+    expect(maxGap([...circle.points, circle.points[0]])).toBeLessThanOrEqual(2)
+    expect(circle.points.length).toBeGreaterThan(100 * Math.PI / 2 - 1)
+  })
+
+  it('reads arc flags written without separators', () => {
+    const [arc] = flattenSvgPath('M0 0a10 10 0 0110 10', 1)
+    expect(arc.points[arc.points.length - 1]).toEqual({ x: 10, y: 10 })
+    // Small arc with increasing angle: a quarter circle around (0, 10)
+    for (const p of arc.points) {
+      expect(distance(p, { x: 0, y: 10 })).toBeCloseTo(10, 9)
+    }
+  })
+
+  it('flattens cubic curves through their end points', () => {
+    const [curve] = flattenSvgPath('M0 0 C0 40 100 40 100 0', 1)
+    expect(curve.points[0]).toEqual({ x: 0, y: 0 })
+    expect(curve.points[curve.points.length - 1]).toEqual({ x: 100, y: 0 })
+    // Highest point at t = 1/2: 3/4 of the control height
+    expect(Math.max(...curve.points.map(p => p.y))).toBeCloseTo(30, 1)
+    expect(maxGap(curve.points)).toBeLessThanOrEqual(1.01)
+  })
+
+  it('rejects data without a leading command', () => {
+    expect(() => flattenSvgPath('10 10 L 20 20', 1)).toThrow('Path data must start with a command')
+  })
+})
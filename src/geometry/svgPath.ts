@@ -0,0 +1,336 @@
+import type { Point } from '../types'
+import { distance } from './math'
+
+/**
+ * One subpath of an SVG path, flattened to a polyline.
+ * Closed subpaths do not repeat their first point at the end.
+ */
+export interface FlattenedSubpath {
+  points: Point[]
+  closed: boolean
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+const COMMAND_RE = /[MmLlHhVvCcSsQqTtAaZz]/
+const NUMBER_RE = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/
+
+/**
+ * Reads commands, numbers and arc flags from path data. Arc flags are single
+ * characters and may be written without separators ("a10 10 0 0110 10").
+ */
+function createReader(d: string) {
+  let pos = 0
+
+  const skipSeparators = () => {
+    while (pos < d.length && /[\s,]/.test(d[pos])) pos++
+  }
+
+  return {
+    atEnd(): boolean {
+      skipSeparators()
+      return pos >= d.length
+    },
+
+    // The next command letter, or null if a number follows (implicit repeat)
+    peekCommand(): string | null {
+      skipSeparators()
+      return COMMAND_RE.test(d[pos]) ? d[pos] : null
+    },
+
+    readCommand(): string {
+      skipSeparators()
+      return d[pos++]
+    },
+
+    readNumber(): number {
+      skipSeparators()
+      const match = NUMBER_RE.exec(d.slice(pos))
+      if (!match) {
+        throw new Error(`Expected a number at position ${pos} of the path data`)
+      }
+      pos += match[0].length
+      return parseFloat(match[0])
+    },
+
+    readFlag(): boolean {
+      skipSeparators()
+      const c = d[pos]
+      if (c !== '0' && c !== '1') {
+        throw new Error(`Expected an arc flag at position ${pos} of the path data`)
+      }
+      pos++
+      return c === '1'
+    }
+  }
+}
+
+// ============================================================================
+// CURVE FLATTENING
+// ============================================================================
+
+/**
+ * Number of straight pieces to split a curve into so no piece is much longer
+ * than `spacing`, based on its control polygon length
+ */
+function stepsFor(controlPolygon: Point[], spacing: number): number {
+  let len = 0
+  for (let i = 1; i < controlPolygon.length; i++) {
+    len += distance(controlPolygon[i - 1], controlPolygon[i])
+  }
+  return Math.min(1000, Math.max(4, Math.ceil(len / spacing)))
+}
+
+function flattenCubic(p0: Point, p1: Point, p2: Point, p3: Point, spacing: number, out: Point[]): void {
+  const steps = stepsFor([p0, p1, p2, p3], spacing)
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps
+    const mt = 1 - t
+    const a = mt * mt * mt
+    const b = 3 * mt * mt * t
+    const c = 3 * mt * t * t
+    const e = t * t * t
+    out.push({
+      x: a * p0.x + b * p1.x + c * p2.x + e * p3.x,
+      y: a * p0.y + b * p1.y + c * p2.y + e * p3.y
+    })
+  }
+}
+
+function flattenQuadratic(p0: Point, p1: Point, p2: Point, spacing: number, out: Point[]): void {
+  const steps = stepsFor([p0, p1, p2], spacing)
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps
+    const mt = 1 - t
+    out.push({
+      x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+      y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y
+    })
+  }
+}
+
+/**
+ * Flatten an SVG elliptical arc (endpoint parameterization, SVG spec F.6.5)
+ */
+function flattenArc(
+  p0: Point,
+  rx: number,
+  ry: number,
+  xAxisRotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  p1: Point,
+  spacing: number,
+  out: Point[]
+): void {
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  // Degenerate radii draw a straight line
+  if (rx === 0 || ry === 0 || (p0.x === p1.x && p0.y === p1.y)) {
+    out.push(p1)
+    return
+  }
+
+  const phi = (xAxisRotationDeg * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+
+  // Midpoint in the rotated frame
+  const dx = (p0.x - p1.x) / 2
+  const dy = (p0.y - p1.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  // Scale radii up when they are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den))
+  const cx1 = (coef * rx * y1) / ry
+  const cy1 = (-coef * ry * x1) / rx
+
+  const cx = cos * cx1 - sin * cy1 + (p0.x + p1.x) / 2
+  const cy = sin * cx1 + cos * cy1 + (p0.y + p1.y) / 2
+
+  const startAngle = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx)
+  let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - startAngle
+  if (sweep && delta < 0) delta += Math.PI * 2
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+
+  const steps = Math.min(1000, Math.max(4, Math.ceil((Math.abs(delta) * Math.max(rx, ry)) / spacing)))
+  for (let i = 1; i <= steps; i++) {
+    const t = startAngle + (delta * i) / steps
+    const ex = rx * Math.cos(t)
+    const ey = ry * Math.sin(t)
+    out.push({
+      x: cx + cos * ex - sin * ey,
+      y: cy + sin * ex + cos * ey
+    })
+  }
+  // Land exactly on the end point
+  out[out.length - 1] = p1
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse SVG path data (the `d` attribute) and flatten every subpath into a
+ * polyline with points roughly `spacing` apart along curves. Straight
+ * commands keep their exact corner points. Subpaths with fewer than two
+ * distinct points are dropped.
+ */
+export function flattenSvgPath(d: string, spacing: number): FlattenedSubpath[] {
+  const reader = createReader(d)
+  const subpaths: FlattenedSubpath[] = []
+
+  let points: Point[] = []
+  let closed = false
+  let current: Point = { x: 0, y: 0 }
+  let subpathStart: Point = { x: 0, y: 0 }
+  // Reflected control points for S/T shorthand
+  let lastCubicControl: Point | null = null
+  let lastQuadControl: Point | null = null
+  let command = ''
+
+  const finishSubpath = () => {
+    // Drop consecutive duplicates (and the repeated start of a closed subpath)
+    const cleaned = points.filter((p, i) => i === 0 || distance(p, points[i - 1]) > 1e-9)
+    if (closed && cleaned.length > 1 && distance(cleaned[0], cleaned[cleaned.length - 1]) < 1e-9) {
+      cleaned.pop()
+    }
+    if (cleaned.length >= 2) {
+      subpaths.push({ points: cleaned, closed })
+    }
+    points = []
+    closed = false
+  }
+
+  while (!reader.atEnd()) {
+    const next = reader.peekCommand()
+    if (next !== null) {
+      command = reader.readCommand()
+    } else if (command === '' || command === 'Z' || command === 'z') {
+      throw new Error('Path data must start with a command')
+    }
+    const relative = command === command.toLowerCase()
+    const base = relative ? current : { x: 0, y: 0 }
+    const readPoint = (): Point => {
+      const x = reader.readNumber()
+      const y = reader.readNumber()
+      return { x: base.x + x, y: base.y + y }
+    }
+
+    // Drawing after a closepath starts a new subpath at the current point
+    if (points.length === 0 && !/[MmZz]/.test(command)) {
+      points.push(current)
+    }
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        if (points.length > 0) finishSubpath()
+        current = readPoint()
+        subpathStart = current
+        points.push(current)
+        // Further coordinate pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L'
+        lastCubicControl = lastQuadControl = null
+        break
+      }
+      case 'L': {
+        current = readPoint()
+        points.push(current)
+        lastCubicControl = lastQuadControl = null
+        break
+      }
+      case 'H': {
+        const x = reader.readNumber()
+        current = { x: relative ? current.x + x : x, y: current.y }
+        points.push(current)
+        lastCubicControl = lastQuadControl = null
+        break
+      }
+      case 'V': {
+        const y = reader.readNumber()
+        current = { x: current.x, y: relative ? current.y + y : y }
+        points.push(current)
+        lastCubicControl = lastQuadControl = null
+        break
+      }
+      case 'C': {
+        const c1 = readPoint()
+        const c2 = readPoint()
+        const end = readPoint()
+        flattenCubic(current, c1, c2, end, spacing, points)
+        lastCubicControl = c2
+        lastQuadControl = null
+        current = end
+        break
+      }
+      case 'S': {
+        const c1: Point = lastCubicControl
+          ? { x: 2 * current.x - lastCubicControl.x, y: 2 * current.y - lastCubicControl.y }
+          : current
+        const c2 = readPoint()
+        const end = readPoint()
+        flattenCubic(current, c1, c2, end, spacing, points)
+        lastCubicControl = c2
+        lastQuadControl = null
+        current = end
+        break
+      }
+      case 'Q': {
+        const c = readPoint()
+        const end = readPoint()
+        flattenQuadratic(current, c, end, spacing, points)
+        lastQuadControl = c
+        lastCubicControl = null
+        current = end
+        break
+      }
+      case 'T': {
+        const c: Point = lastQuadControl
+          ? { x: 2 * current.x - lastQuadControl.x, y: 2 * current.y - lastQuadControl.y }
+          : current
+        const end = readPoint()
+        flattenQuadratic(current, c, end, spacing, points)
+        lastQuadControl = c
+        lastCubicControl = null
+        current = end
+        break
+      }
+      case 'A': {
+        const rx = reader.readNumber()
+        const ry = reader.readNumber()
+        const rotation = reader.readNumber()
+        const largeArc = reader.readFlag()
+        const sweep = reader.readFlag()
+        const end = readPoint()
+        flattenArc(current, rx, ry, rotation, largeArc, sweep, end, spacing, points)
+        lastCubicControl = lastQuadControl = null
+        current = end
+        break
+      }
+      case 'Z': {
+        closed = true
+        current = subpathStart
+        lastCubicControl = lastQuadControl = null
+        finishSubpath()
+        break
+      }
+      default:
+        throw new Error(`Unsupported path command "${command}"`)
+    }
+  }
+
+  if (points.length > 0) finishSubpath()
+  return subpaths
+}
@@ -1,5 +1,11 @@
-import type { Point } from '../types'
+import type { Point, Shape } from '../types'
 import { distance, angle, pointOnCircle, normalizeAngle, circleIntersections } from './math'
+import { getTangentShape } from './shapes/registry'
+
+// Sampling resolution for the numeric (convex outline) tangent solver
+const SUPPORT_SAMPLES = 96
+const BISECTION_STEPS = 48
+const INTERSECTION_SAMPLES = 180
 
 export interface TangentResult {
   p1: Point  // Tangent point on first circle
@@ -65,6 +71,52 @@ export function externalTangent(
   }
 }
 
+/**
+ * Choose which of two intersection points the path should pass through.
+ * 
+ * For internal tangent with 'right' side, we want the intersection point
+ * that's on the right when looking from c1 to c2.
+ * For mirrored shapes, we flip the selection (use entry instead of exit).
+ */
+function pickIntersectionForSide(
+  c1: Point,
+  c2: Point,
+  intersections: Point[],
+  side: 'left' | 'right',
+  useEntryIntersection: boolean
+): Point {
+  if (intersections.length === 1) {
+    // Shapes are tangent - only one intersection point
+    return intersections[0]
+  }
+  
+  // Two intersection points - choose based on side relative to center line
+  // Calculate which point is on which side using cross product
+  const dx = c2.x - c1.x
+  const dy = c2.y - c1.y
+  
+  // Cross product to determine which side each intersection is on
+  const cross0 = dx * (intersections[0].y - c1.y) - dy * (intersections[0].x - c1.x)
+  
+  // For REFLECTION sectors (odd sector numbers), flip the selection
+  // because the path direction is reversed in reflections.
+  // For ROTATION sectors (even sector numbers), don't flip.
+  // The useEntryIntersection flag now indicates whether the source circle
+  // is from a reflection sector.
+  const effectiveSide = useEntryIntersection 
+    ? (side === 'right' ? 'left' : 'right')
+    : side
+  
+  // Positive cross = left side, negative cross = right side
+  let selectedIdx: number
+  if (effectiveSide === 'right') {
+    selectedIdx = cross0 < 0 ? 0 : 1
+  } else {
+    selectedIdx = cross0 > 0 ? 0 : 1
+  }
+  return intersections[selectedIdx]
+}
+
 /**
  * Calculate internal (cross) tangent line between two circles.
  * 
@@ -103,42 +155,7 @@ export function internalTangent(
       return null
     }
     
-    // Choose the appropriate intersection point based on 'side'
-    // For internal tangent with 'right' side, we want the intersection point
-    // that's on the right when looking from c1 to c2
-    // For mirrored shapes, we flip the selection (use entry instead of exit)
-    let intersectionPoint: Point
-    let selectedIdx = 0
-    
-    if (intersections.length === 1) {
-      // Circles are tangent - only one intersection point
-      intersectionPoint = intersections[0]
-    } else {
-      // Two intersection points - choose based on side relative to center line
-      // Calculate which point is on which side using cross product
-      const dx = c2.x - c1.x
-      const dy = c2.y - c1.y
-      
-      // Cross product to determine which side each intersection is on
-      const cross0 = dx * (intersections[0].y - c1.y) - dy * (intersections[0].x - c1.x)
-      
-      // For REFLECTION sectors (odd sector numbers), flip the selection
-      // because the path direction is reversed in reflections.
-      // For ROTATION sectors (even sector numbers), don't flip.
-      // The useEntryIntersection flag now indicates whether the source circle
-      // is from a reflection sector.
-      const effectiveSide = useEntryIntersection 
-        ? (side === 'right' ? 'left' : 'right')
-        : side
-      
-      // Positive cross = left side, negative cross = right side
-      if (effectiveSide === 'right') {
-        selectedIdx = cross0 < 0 ? 0 : 1
-      } else {
-        selectedIdx = cross0 > 0 ? 0 : 1
-      }
-      intersectionPoint = intersections[selectedIdx]
-    }
+    const intersectionPoint = pickIntersectionForSide(c1, c2, intersections, side, useEntryIntersection)
     
     // Calculate angles from each center to the intersection point
     const angle1 = angle(c1, intersectionPoint)
@@ -220,3 +237,283 @@ export function getTangentForDirections(
     return internalTangent(c1, r1, c2, r2, side, fromIsReflection)
   }
 }
+
+// ============================================================================
+// CONVEX OUTLINE TANGENTS
+// ============================================================================
+
+/**
+ * The queries the numeric tangent solver needs from a convex shape.
+ * Every angle is an outward normal angle in world space.
+ */
+export interface ConvexOutline {
+  center: Point
+  support: (normalAngle: number) => number       // Distance from center to the supporting line
+  pointAtNormal: (normalAngle: number) => Point  // Edge point with this outward normal
+  normalAtPoint: (point: Point) => number        // Outward normal at (or toward) an edge point
+  boundaryPoint: (t: number) => Point            // Walk the edge once as t goes 0 → 2π
+  implicit: (point: Point) => number             // < 0 inside, 0 on the edge, > 0 outside
+}
+
+/**
+ * Find the normal angle where a support-function difference crosses zero.
+ * 
+ * Both tangent cases reduce to f(φ) = 0 for a function that is positive
+ * when pointing from c1 toward c2 and negative pointing away. The 'right'
+ * tangent is where f crosses from + to - (increasing φ), the 'left' tangent
+ * where it crosses from - to +. This matches the circle formulas exactly.
+ */
+function findSupportRoot(
+  f: (phi: number) => number,
+  theta: number,
+  side: 'left' | 'right'
+): number | null {
+  const step = (Math.PI * 2) / SUPPORT_SAMPLES
+  let prevPhi = theta - Math.PI
+  let prevValue = f(prevPhi)
+  
+  for (let i = 1; i <= SUPPORT_SAMPLES; i++) {
+    const phi = theta - Math.PI + i * step
+    const value = f(phi)
+    
+    const isCrossing = side === 'right'
+      ? prevValue > 0 && value <= 0
+      : prevValue < 0 && value >= 0
+    
+    if (isCrossing) {
+      // Refine by bisection
+      let lo = prevPhi
+      let hi = phi
+      let loValue = prevValue
+      for (let j = 0; j < BISECTION_STEPS; j++) {
+        const mid = (lo + hi) / 2
+        const midValue = f(mid)
+        if ((midValue > 0) === (loValue > 0)) {
+          lo = mid
+          loValue = midValue
+        } else {
+          hi = mid
+        }
+      }
+      return (lo + hi) / 2
+    }
+    
+    prevPhi = phi
+    prevValue = value
+  }
+  
+  return null
+}
+
+/**
+ * Find the intersection points of two outlines by sampling the first
+ * outline's edge against the second's implicit function.
+ */
+export function outlineIntersections(o1: ConvexOutline, o2: ConvexOutline): Point[] {
+  const results: Point[] = []
+  const step = (Math.PI * 2) / INTERSECTION_SAMPLES
+  
+  let prevT = 0
+  let prevValue = o2.implicit(o1.boundaryPoint(0))
+  
+  for (let i = 1; i <= INTERSECTION_SAMPLES; i++) {
+    const t = i * step
+    const value = o2.implicit(o1.boundaryPoint(t))
+    
+    if ((prevValue > 0) !== (value > 0)) {
+      let lo = prevT
+      let hi = t
+      let loValue = prevValue
+      for (let j = 0; j < BISECTION_STEPS; j++) {
+        const mid = (lo + hi) / 2
+        const midValue = o2.implicit(o1.boundaryPoint(mid))
+        if ((midValue > 0) === (loValue > 0)) {
+          lo = mid
+          loValue = midValue
+        } else {
+          hi = mid
+        }
+      }
+      results.push(o1.boundaryPoint((lo + hi) / 2))
+    }
+    
+    prevT = t
+    prevValue = value
+  }
+  
+  return results
+}
+
+/**
+ * Calculate external tangent line between two convex outlines.
+ * 
+ * Uses support functions: the line with outward normal φ touches an outline
+ * at distance h(φ) from its center. An external tangent is a normal angle
+ * where both supporting lines coincide:
+ *   (c2 - c1)·n(φ) + h2(φ) - h1(φ) = 0
+ * For circles this is exactly cos(touchAngle - theta) = (r1 - r2) / d.
+ * 
+ * Returns null when one outline contains the other.
+ */
+export function outlineExternalTangent(
+  o1: ConvexOutline,
+  o2: ConvexOutline,
+  side: 'left' | 'right' = 'right'
+): TangentResult | null {
+  const dx = o2.center.x - o1.center.x
+  const dy = o2.center.y - o1.center.y
+  const theta = Math.atan2(dy, dx)
+  
+  const f = (phi: number) =>
+    dx * Math.cos(phi) + dy * Math.sin(phi) + o2.support(phi) - o1.support(phi)
+  
+  const touchAngle = findSupportRoot(f, theta, side)
+  if (touchAngle === null) return null
+  
+  return {
+    p1: o1.pointAtNormal(touchAngle),
+    p2: o2.pointAtNormal(touchAngle),
+    angle1: normalizeAngle(touchAngle),
+    angle2: normalizeAngle(touchAngle)
+  }
+}
+
+/**
+ * Calculate internal (cross) tangent line between two convex outlines.
+ * 
+ * The first outline touches the line with normal φ and the second with
+ * normal φ + π, so the line separates them:
+ *   (c2 - c1)·n(φ) - h1(φ) - h2(φ + π) = 0
+ * 
+ * When the outlines overlap there is no internal tangent; like the circle
+ * version, this falls back to the appropriate intersection point.
+ */
+export function outlineInternalTangent(
+  o1: ConvexOutline,
+  o2: ConvexOutline,
+  side: 'left' | 'right' = 'right',
+  useEntryIntersection: boolean = false
+): TangentResult | null {
+  const dx = o2.center.x - o1.center.x
+  const dy = o2.center.y - o1.center.y
+  const theta = Math.atan2(dy, dx)
+  
+  const g = (phi: number) =>
+    dx * Math.cos(phi) + dy * Math.sin(phi) - o1.support(phi) - o2.support(phi + Math.PI)
+  
+  const angle1 = findSupportRoot(g, theta, side)
+  
+  if (angle1 === null) {
+    // Outlines overlap - use intersection point as fallback
+    const intersections = outlineIntersections(o1, o2)
+    if (intersections.length === 0) return null
+    
+    const intersectionPoint = pickIntersectionForSide(o1.center, o2.center, intersections, side, useEntryIntersection)
+    
+    return {
+      p1: intersectionPoint,
+      p2: intersectionPoint,
+      angle1: normalizeAngle(o1.normalAtPoint(intersectionPoint)),
+      angle2: normalizeAngle(o2.normalAtPoint(intersectionPoint)),
+      isIntersection: true
+    }
+  }
+  
+  const angle2 = angle1 + Math.PI
+  
+  return {
+    p1: o1.pointAtNormal(angle1),
+    p2: o2.pointAtNormal(angle2),
+    angle1: normalizeAngle(angle1),
+    angle2: normalizeAngle(angle2)
+  }
+}
+
+/**
+ * Convex outline version of getTangentForDirections (same side/direction rules)
+ */
+export function getOutlineTangentForDirections(
+  o1: ConvexOutline, fromDir: 'cw' | 'ccw',
+  o2: ConvexOutline, toDir: 'cw' | 'ccw',
+  fromIsReflection: boolean = false
+): TangentResult | null {
+  const side = fromDir === 'cw' ? 'left' : 'right'
+  
+  if (fromDir === toDir) {
+    return outlineExternalTangent(o1, o2, side)
+  } else {
+    return outlineInternalTangent(o1, o2, side, fromIsReflection)
+  }
+}
+
+// ============================================================================
+// SHAPE DISPATCH
+// ============================================================================
+
+/**
+ * Get the point on a shape's edge whose outward normal is at the given angle.
+ * Contact angles produced by the tangent functions use this convention.
+ */
+export function pointOnShape(shape: Shape, normalAngle: number): Point {
+  return getTangentShape(shape).getTangentPoint(shape, normalAngle)
+}
+
+/**
+ * Contact angle (outward normal) of the edge point that lies in the direction
+ * of a world point, as seen from the shape's center. Used when dragging contact points.
+ */
+export function normalAngleToward(shape: Shape, point: Point): number {
+  return getTangentShape(shape).getContactAngle(shape, point)
+}
+
+/**
+ * Radius of shapes the closed-form tangent formulas handle directly
+ * (circles, and pins as zero-radius circles), or null for anything else.
+ */
+function circularRadius(shape: Shape): number | null {
+  if (shape.type === 'circle') return shape.radius
+  if (shape.type === 'pin') return 0
+  return null
+}
+
+/**
+ * Get the tangent between two shapes based on their path directions.
+ * Circle and pin pairs use the exact closed-form solution; anything else goes
+ * through the support-function solver.
+ * 
+ * A pin has no side to wrap around, so the line is chosen by the neighbouring
+ * shape's direction alone. The pin's contact angle is then the normal of the
+ * line on the side given by the pin's own direction, which is what its
+ * tangent offsets rotate.
+ */
+export function getShapeTangentForDirections(
+  from: Shape,
+  to: Shape,
+  fromIsReflection: boolean = false
+): TangentResult | null {
+  const fromIsPoint = getTangentShape(from).isPoint
+  const toIsPoint = getTangentShape(to).isPoint
+  const toDir = toIsPoint ? from.direction ?? 'cw' : to.direction ?? 'cw'
+  const fromDir = fromIsPoint ? toDir : from.direction ?? 'cw'
+  
+  const r1 = circularRadius(from)
+  const r2 = circularRadius(to)
+  const tangent = r1 !== null && r2 !== null
+    ? getTangentForDirections(from.center, r1, fromDir, to.center, r2, toDir, fromIsReflection)
+    : getOutlineTangentForDirections(
+      getTangentShape(from).getOutline(from), fromDir,
+      getTangentShape(to).getOutline(to), toDir,
+      fromIsReflection
+    )
+  
+  if (tangent === null || (!fromIsPoint && !toIsPoint)) return tangent
+  
+  // Travelling clockwise, the direction of travel is the normal + 90°
+  const travel = angle(tangent.p1, tangent.p2)
+  const normalFor = (shape: Shape) => travel - ((shape.direction ?? 'cw') === 'cw' ? Math.PI / 2 : -Math.PI / 2)
+  return {
+    ...tangent,
+    angle1: fromIsPoint ? normalFor(from) : tangent.angle1,
+    angle2: toIsPoint ? normalFor(to) : tangent.angle2
+  }
+}
@@ -0,0 +1,22 @@
+import { useMemo } from 'react'
+import { useDocumentStore } from '../stores/documentStore'
+import { computePathHulls } from '../geometry/path'
+import { computeAreaProperties, type AreaProperties } from '../geometry/areaProperties'
+
+/**
+ * Area properties of the active path while it is closed, recomputed as the
+ * document changes. Returns null for open paths and while `enabled` is false.
+ */
+export function useAreaProperties(enabled: boolean = true): AreaProperties | null {
+  const shapes = useDocumentStore(state => state.shapes)
+  const paths = useDocumentStore(state => state.paths)
+  const activePathId = useDocumentStore(state => state.activePathId)
+  const globalStretch = useDocumentStore(state => state.globalStretch)
+
+  return useMemo(() => {
+    const path = paths.find(p => p.id === activePathId)
+    if (!enabled || !path?.closedPath) return null
+    const [hull] = computePathHulls(shapes, [path], globalStretch)
+    return hull ? computeAreaProperties(hull.pathData) : null
+  }, [enabled, shapes, paths, activePathId, globalStretch])
+}
@@ -0,0 +1,20 @@
+import { useMemo } from 'react'
+import { useDocumentStore } from '../stores/documentStore'
+import { computeBooleanOutlines } from '../geometry/boolean'
+import type { BooleanOutline, PathData } from '../types'
+
+/**
+ * Every boolean outline with its derived segments, recomputed as the
+ * generating paths change
+ */
+export function useBooleanOutlines(): { outline: BooleanOutline; pathData: PathData }[] {
+  const shapes = useDocumentStore(state => state.shapes)
+  const paths = useDocumentStore(state => state.paths)
+  const booleans = useDocumentStore(state => state.booleans)
+  const globalStretch = useDocumentStore(state => state.globalStretch)
+
+  return useMemo(
+    () => computeBooleanOutlines(shapes, paths, booleans, globalStretch),
+    [shapes, paths, booleans, globalStretch]
+  )
+}
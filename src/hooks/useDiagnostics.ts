@@ -0,0 +1,23 @@
+import { useMemo } from 'react'
+import { useDocumentStore } from '../stores/documentStore'
+import { diagnosePaths, type Diagnostic } from '../geometry/diagnostics'
+import { isOnVisibleLayer } from '../utils/layers'
+
+const NO_DIAGNOSTICS: Diagnostic[] = []
+
+/**
+ * Problems with every path on a shown layer, recomputed as the document
+ * changes. Returns nothing while `enabled` is false so hidden diagnostics
+ * cost nothing.
+ */
+export function useDiagnostics(enabled: boolean): Diagnostic[] {
+  const shapes = useDocumentStore(state => state.shapes)
+  const paths = useDocumentStore(state => state.paths)
+  const layers = useDocumentStore(state => state.layers)
+  const globalStretch = useDocumentStore(state => state.globalStretch)
+
+  return useMemo(() => {
+    if (!enabled) return NO_DIAGNOSTICS
+    return diagnosePaths(shapes, paths.filter(path => isOnVisibleLayer(path, layers)), globalStretch)
+  }, [enabled, shapes, paths, layers, globalStretch])
+}
@@ -6,10 +6,12 @@ import { useNotificationStore } from '../stores/notificationStore'
 import { useHistoryStore, undo, redo } from '../stores/historyStore'
 import { createNewDocument, saveDocument, loadDocument, exportSvg } from '../utils/fileIO'
 import { fitToView, resetView } from '../utils/viewportActions'
+import { isOnEditableLayer } from '../utils/layers'
 
 export function useKeyboardShortcuts() {
   const shapes = useDocumentStore(state => state.shapes)
   const shapeOrder = useDocumentStore(state => state.shapeOrder)
+  const layers = useDocumentStore(state => state.layers)
   const removeShape = useDocumentStore(state => state.removeShape)
   const duplicateShape = useDocumentStore(state => state.duplicateShape)
   
@@ -42,6 +44,12 @@ export function useKeyboardShortcuts() {
       
       const isMod = e.metaKey || e.ctrlKey
       
+      // Shapes on hidden or locked layers can't be selected or edited
+      const isEditable = (id: string) => {
+        const shape = shapes.find(s => s.id === id)
+        return shape !== undefined && isOnEditableLayer(shape, layers)
+      }
+      
       // File operations
       if (isMod && e.key === 'n') {
         e.preventDefault()
@@ -90,14 +98,14 @@ export function useKeyboardShortcuts() {
       // Select all
       if (isMod && e.key === 'a') {
         e.preventDefault()
-        selectAll(shapeOrder)
+        selectAll(shapeOrder.filter(isEditable))
         return
       }
       
       // Duplicate
       if (isMod && e.key === 'd') {
         e.preventDefault()
-        for (const id of selectedIds) {
+        for (const id of selectedIds.filter(isEditable)) {
           duplicateShape(id)
         }
         return
@@ -106,7 +114,7 @@ export function useKeyboardShortcuts() {
       // Delete
       if (e.key === 'Backspace' || e.key === 'Delete') {
         e.preventDefault()
-        for (const id of selectedIds) {
+        for (const id of selectedIds.filter(isEditable)) {
           removeShape(id)
         }
         clearSelection()
@@ -179,6 +187,7 @@ export function useKeyboardShortcuts() {
   }, [
     shapes,
     shapeOrder,
+    layers,
     selectedIds,
     removeShape,
     duplicateShape,
@@ -17,6 +17,7 @@ export interface DebugState {
   showGridCoords: boolean
   showArcDirection: boolean  // Show expected vs actual arc direction
   showMirrorPlaneNumbers: boolean  // Show plane indices and sector numbers for mirroring
+  showCurvatureComb: boolean  // Show curvature comb, G1/G2 junctions and connector spikes
   
   // Profiling
   profilingEnabled: boolean
@@ -31,6 +32,7 @@ export interface DebugState {
   toggleGridCoords: () => void
   toggleArcDirection: () => void
   toggleMirrorPlaneNumbers: () => void
+  toggleCurvatureComb: () => void
   resetDebug: () => void
   
   // Profiling actions
@@ -53,6 +55,7 @@ export const useDebugStore = create<DebugState>()(
       showGridCoords: false,
       showArcDirection: false,
       showMirrorPlaneNumbers: false,
+      showCurvatureComb: false,
       
       // Profiling disabled by default
       profilingEnabled: false,
@@ -66,6 +69,7 @@ export const useDebugStore = create<DebugState>()(
       toggleGridCoords: () => set((state) => ({ showGridCoords: !state.showGridCoords })),
       toggleArcDirection: () => set((state) => ({ showArcDirection: !state.showArcDirection })),
       toggleMirrorPlaneNumbers: () => set((state) => ({ showMirrorPlaneNumbers: !state.showMirrorPlaneNumbers })),
+      toggleCurvatureComb: () => set((state) => ({ showCurvatureComb: !state.showCurvatureComb })),
       resetDebug: () => {
         disableProfiler()
         clearProfilingData()
@@ -78,6 +82,7 @@ export const useDebugStore = create<DebugState>()(
           showGridCoords: false,
           showArcDirection: false,
           showMirrorPlaneNumbers: false,
+          showCurvatureComb: false,
           profilingEnabled: false,
           showPerformanceOverlay: false,
         })
@@ -127,6 +132,7 @@ export const useDebugStore = create<DebugState>()(
         showGridCoords: state.showGridCoords,
         showArcDirection: state.showArcDirection,
         showMirrorPlaneNumbers: state.showMirrorPlaneNumbers,
+        showCurvatureComb: state.showCurvatureComb,
         // Don't persist profiling state - start fresh each session
       }),
       // Sync profiler state on rehydration
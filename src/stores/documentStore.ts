@@ -1,7 +1,12 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { Shape, SerpentineDocument, CircleShape, MirrorConfig } from '../types'
+import type { Shape, SerpentineDocument, TangentGeneratorProps, MirrorConfig, ArrayConfig, PathConfig, Layer, LayerStyle, DocumentUnits, Constraint, Variable, ExpressionField, BooleanOutline, BooleanOperation } from '../types'
 import { defaultPreset } from '../utils/presets'
+import { createLayer } from '../utils/layers'
+import { DEFAULT_UNITS } from '../utils/units'
+import { solveConstraints } from '../geometry/constraints'
+import { createVariable, nextVariableName, renameError, evaluateVariables, applyExpressions, releaseEditedExpressions } from '../utils/variables'
+import { renameIdentifier } from '../utils/expression'
 import { startMeasure, endMeasure } from '../utils/profiler'
 import type { PathMode } from '../components/icons/Icons'
 
@@ -17,6 +22,7 @@ console.log('%c[Store] documentStore module loading...', 'color: #ffd93d;')
  * - 4-way: 2 planes at 0° and 90°
  * - 6-way: 3 planes at 0°, 60°, 120°
  * - 8-way: 4 planes at 0°, 45°, 90°, 135°
+ * - N-fold rotation: N rotated sectors with no reflection (path direction kept)
  */
 export const MIRROR_PRESETS: { name: string; config: MirrorConfig }[] = [
   { name: 'None', config: { planeCount: 0, startAngle: 0 } }, // No mirroring
@@ -25,17 +31,31 @@ export const MIRROR_PRESETS: { name: string; config: MirrorConfig }[] = [
   { name: '4-way', config: { planeCount: 2, startAngle: 0 } },
   { name: '6-way', config: { planeCount: 3, startAngle: Math.PI / 2 } }, // Rotated 90 degrees
   { name: '8-way', config: { planeCount: 4, startAngle: 0 } },
+  { name: '2-fold rotation', config: { planeCount: 2, startAngle: 0, symmetry: 'cyclic' } },
+  { name: '3-fold rotation', config: { planeCount: 3, startAngle: -Math.PI / 2, symmetry: 'cyclic' } }, // First boundary points up
+  { name: '4-fold rotation', config: { planeCount: 4, startAngle: 0, symmetry: 'cyclic' } },
+  { name: '5-fold rotation', config: { planeCount: 5, startAngle: -Math.PI / 2, symmetry: 'cyclic' } },
+  { name: '6-fold rotation', config: { planeCount: 6, startAngle: 0, symmetry: 'cyclic' } },
 ]
 
-interface DocumentState {
+/**
+ * Settings of the active path, copied to the top level of the store so editing
+ * code can keep reading a single order and set of end/mirror settings
+ */
+type ActivePathFields = Pick<PathConfig, 'shapeOrder' | 'closedPath' | 'useStartPoint' | 'useEndPoint' | 'mirrorConfig' | 'arrayConfig'>
+
+interface DocumentState extends ActivePathFields {
   // State
   shapes: Shape[]
-  shapeOrder: string[]
+  paths: PathConfig[]    // Every outline in the document (shapes can be shared between paths)
+  activePathId: string   // Path being edited; the top-level order/settings mirror it
+  layers: Layer[]        // Drawing layers (always at least one)
+  activeLayerId: string  // Layer new shapes and paths are placed on
   globalStretch: number  // Project-level stretch (-1 to 1, 0 = circular)
-  closedPath: boolean    // Whether the path loops back to start
-  useStartPoint: boolean // Whether to use tangent point on first circle (when not looping)
-  useEndPoint: boolean   // Whether to use tangent point on last circle (when not looping)
-  mirrorConfig: MirrorConfig // Mirror configuration (planeCount + startAngle)
+  units: DocumentUnits   // Real-world unit and scale for measurements and exports
+  constraints: Constraint[]  // Relationships kept satisfied on every shape update
+  variables: Variable[]      // Named values circle fields can be bound to by expressions
+  booleans: BooleanOutline[] // Outlines derived from closed paths by boolean operations
   fileName: string | null
   isDirty: boolean       // Whether document has unsaved changes
   
@@ -47,10 +67,48 @@ interface DocumentState {
   removeShape: (id: string) => void
   reorderShapes: (newOrder: string[]) => void
   
+  // Path actions
+  addPath: () => void
+  removePath: (id: string) => void
+  renamePath: (id: string, name: string) => void
+  setPathOffsets: (id: string, offsets: number[]) => void  // Offset outline distances in world units
+  addBoolean: (operation: BooleanOperation, pathIds: string[]) => void
+  updateBoolean: (id: string, changes: Partial<Pick<BooleanOutline, 'name' | 'operation' | 'pathIds'>>) => void
+  removeBoolean: (id: string) => void
+  setActivePath: (id: string) => void
+  activatePathOfShape: (shapeId: string) => void  // Switch to a path using the shape, unless the active one does
+  addShapeToPath: (shapeId: string) => void       // Share an existing shape with the active path
+  removeShapeFromPath: (shapeId: string) => void  // Drop a shape from the active path only
+  
+  // Layer actions
+  addLayer: () => void
+  removeLayer: (id: string) => void  // Members move to the first remaining layer
+  renameLayer: (id: string, name: string) => void
+  toggleLayerVisible: (id: string) => void
+  toggleLayerLocked: (id: string) => void
+  setLayerStyle: (id: string, style: Partial<LayerStyle>) => void
+  setActiveLayer: (id: string) => void
+  setShapeLayer: (shapeId: string, layerId: string) => void
+  setPathLayer: (pathId: string, layerId: string) => void
+  
   // Stretch actions (circle-level or global)
   setGlobalStretch: (stretch: number) => void
   setCircleStretch: (id: string, stretch: number | undefined) => void
   
+  // Unit settings
+  setUnits: (units: Partial<DocumentUnits>) => void
+  
+  // Constraint actions
+  addConstraint: (constraint: Constraint) => void
+  removeConstraint: (id: string) => void
+  setConstraintValue: (id: string, value: number) => void
+  
+  // Variables
+  addVariable: () => void
+  updateVariable: (id: string, changes: Partial<Pick<Variable, 'name' | 'expression'>>) => void  // Renaming updates references
+  removeVariable: (id: string) => void
+  setShapeExpressions: (updates: Map<string, Partial<Record<ExpressionField, string | undefined>>>) => void  // undefined unbinds
+  
   // Tangent offset actions (entry/exit separately)
   setEntryOffset: (id: string, offset: number | undefined) => void
   setExitOffset: (id: string, offset: number | undefined) => void
@@ -64,8 +122,10 @@ interface DocumentState {
   duplicateShape: (id: string) => void
   toggleDirection: (id: string) => void
   toggleMirror: (id: string) => void
+  cycleSeam: (id: string) => void  // Not a seam -> cross -> wrap
   cycleMirrorPreset: () => void
   setMirrorConfig: (config: MirrorConfig) => void
+  setArrayConfig: (config: ArrayConfig | undefined) => void  // Undefined removes the array
   toggleClosedPath: () => void
   setClosedPath: (closed: boolean) => void
   toggleUseStartPoint: () => void
@@ -83,7 +143,7 @@ interface DocumentState {
 }
 
 // Default starting document - uses the default preset with fresh UUIDs
-const createDefaultDocument = (): Pick<DocumentState, 'shapes' | 'shapeOrder' | 'globalStretch' | 'closedPath' | 'useStartPoint' | 'useEndPoint' | 'mirrorConfig' | 'fileName' | 'isDirty'> => {
+const createDefaultDocument = (): Pick<DocumentState, 'shapes' | 'paths' | 'activePathId' | keyof ActivePathFields | 'layers' | 'activeLayerId' | 'globalStretch' | 'units' | 'constraints' | 'variables' | 'booleans' | 'fileName' | 'isDirty'> => {
   const doc = defaultPreset.document
   
   // Create a mapping from preset IDs to new UUIDs
@@ -96,46 +156,160 @@ const createDefaultDocument = (): Pick<DocumentState, 'shapes' | 'shapeOrder' |
   const shapes = doc.shapes.map(shape => ({
     ...shape,
     id: idMap.get(shape.id)!
-  })) as CircleShape[]
+  })) as Shape[]
   
   // Map the path order to new IDs
   const shapeOrder = doc.pathOrder.map(id => idMap.get(id)!)
   
-  return {
-    shapes,
+  const path = createPath('Path 1', {
     shapeOrder,
-    globalStretch: 0,
     closedPath: doc.settings?.closedPath ?? false,
     useStartPoint: doc.settings?.useStartPoint ?? true,
     useEndPoint: doc.settings?.useEndPoint ?? true,
-    mirrorConfig: MIRROR_PRESETS[0].config, // Default to None
+    mirrorConfig: MIRROR_PRESETS[0].config // Default to None
+  })
+  
+  const layer = createLayer('Layer 1')
+  
+  return {
+    shapes,
+    ...withActivePath([path], path.id),
+    layers: [layer],
+    activeLayerId: layer.id,
+    globalStretch: 0,
+    units: DEFAULT_UNITS,
+    constraints: [],
+    variables: [],
+    booleans: [],
     fileName: null,
     isDirty: false
   }
 }
 
+/**
+ * Create a new path, empty and open unless settings are given
+ */
+function createPath(name: string, settings: Partial<PathConfig> = {}): PathConfig {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    shapeOrder: [],
+    closedPath: false,
+    useStartPoint: true,
+    useEndPoint: true,
+    mirrorConfig: MIRROR_PRESETS[0].config,
+    ...settings
+  }
+}
+
+/**
+ * State for a set of paths with one of them active: the paths themselves plus
+ * the active path's order and settings copied to the top level
+ */
+export function withActivePath(
+  paths: PathConfig[],
+  activePathId: string
+): Pick<DocumentState, 'paths' | 'activePathId'> & ActivePathFields {
+  const active = paths.find(p => p.id === activePathId) ?? paths[0]
+  return {
+    paths,
+    activePathId: active.id,
+    shapeOrder: active.shapeOrder,
+    closedPath: active.closedPath,
+    useStartPoint: active.useStartPoint,
+    useEndPoint: active.useEndPoint,
+    mirrorConfig: active.mirrorConfig,
+    arrayConfig: active.arrayConfig
+  }
+}
+
+/**
+ * Apply changes to the active path (order or settings) and keep the
+ * top-level copies in sync
+ */
+function updateActivePath(
+  state: Pick<DocumentState, 'paths' | 'activePathId'>,
+  update: Partial<ActivePathFields>
+): Pick<DocumentState, 'paths' | 'activePathId'> & ActivePathFields {
+  const paths = state.paths.map(path =>
+    path.id === state.activePathId ? { ...path, ...update } : path
+  )
+  return withActivePath(paths, state.activePathId)
+}
+
+/**
+ * An array without one of its shapes; no array once none are left
+ */
+function withoutArrayShape(config: ArrayConfig | undefined, shapeId: string): ArrayConfig | undefined {
+  if (!config || !config.shapeIds.includes(shapeId)) return config
+  const shapeIds = config.shapeIds.filter(id => id !== shapeId)
+  return shapeIds.length > 0 ? { ...config, shapeIds } : undefined
+}
+
+/**
+ * Settings for each path mode
+ */
+function pathModeSettings(mode: PathMode): Partial<ActivePathFields> {
+  switch (mode) {
+    case 'tangent':
+      return { closedPath: false, useStartPoint: false, useEndPoint: false }
+    case 'left-arc':
+      return { closedPath: false, useStartPoint: true, useEndPoint: false }
+    case 'right-arc':
+      return { closedPath: false, useStartPoint: false, useEndPoint: true }
+    case 'both-arcs':
+      return { closedPath: false, useStartPoint: true, useEndPoint: true }
+    case 'closed':
+      return { closedPath: true }
+    default:
+      return {}
+  }
+}
+
 /**
  * Find the index of the current mirror config in MIRROR_PRESETS
  * Returns -1 if not found (custom config)
  */
-function findMirrorPresetIndex(config: MirrorConfig): number {
+export function findMirrorPresetIndex(config: MirrorConfig): number {
   return MIRROR_PRESETS.findIndex(p => 
     p.config.planeCount === config.planeCount && 
-    Math.abs(p.config.startAngle - config.startAngle) < 0.001
+    Math.abs(p.config.startAngle - config.startAngle) < 0.001 &&
+    (p.config.symmetry ?? 'dihedral') === (config.symmetry ?? 'dihedral')
   )
 }
 
-// Helper to update a specific circle by ID
+// Apply an edit to a shape; fields it changes directly are no longer driven by expressions
+const editShape = (shape: Shape, updates: Partial<Shape>, units: DocumentUnits): Shape =>
+  releaseEditedExpressions(shape, { ...shape, ...updates } as Shape, updates, units)
+
+// Helper to update the path settings of a specific shape by ID
 const updateCircleById = (
   shapes: Shape[],
   id: string,
-  update: Partial<CircleShape>
+  update: Partial<TangentGeneratorProps>,
+  units: DocumentUnits
 ): Shape[] => shapes.map(shape =>
-  shape.id === id && shape.type === 'circle'
-    ? { ...shape, ...update }
+  shape.id === id
+    ? editShape(shape, update, units)
     : shape
 )
 
+/**
+ * Re-evaluate the expression-bound circle fields, then re-solve the
+ * constraints with the re-evaluated shapes pinned
+ */
+const evaluateShapes = (
+  state: Pick<DocumentState, 'shapes' | 'constraints' | 'paths' | 'layers' | 'units'>,
+  variables: Variable[],
+  shapes: Shape[] = state.shapes
+): Shape[] => {
+  const { values } = evaluateVariables(variables)
+  const evaluated = applyExpressions(shapes, values, state.units)
+  if (evaluated === state.shapes) return evaluated
+  const changedIds = new Set(evaluated.filter((shape, i) => shape !== state.shapes[i]).map(shape => shape.id))
+  return solveConstraints(evaluated, state.constraints, state.paths, state.layers, changedIds)
+}
+
 export const useDocumentStore = create<DocumentState>()(
   persist(
     (set, get) => ({
@@ -144,8 +318,8 @@ export const useDocumentStore = create<DocumentState>()(
       addShape: (shape) => {
         startMeasure('addShape')
         set((state) => ({
-          shapes: [...state.shapes, shape],
-          shapeOrder: [...state.shapeOrder, shape.id],
+          shapes: [...state.shapes, { ...shape, layerId: shape.layerId ?? state.activeLayerId }],
+          ...updateActivePath(state, { shapeOrder: [...state.shapeOrder, shape.id] }),
           isDirty: true
         }))
         endMeasure('addShape')
@@ -157,41 +331,225 @@ export const useDocumentStore = create<DocumentState>()(
         const insertIndex = Math.max(0, Math.min(orderIndex, newOrder.length))
         newOrder.splice(insertIndex, 0, shape.id)
         return {
-          shapes: [...state.shapes, shape],
-          shapeOrder: newOrder,
+          shapes: [...state.shapes, { ...shape, layerId: shape.layerId ?? state.activeLayerId }],
+          ...updateActivePath(state, { shapeOrder: newOrder }),
           isDirty: true
         }
       }),
       
+      // Edited shapes are pinned so the shapes constrained to them give way
       updateShape: (id, updates) => set((state) => ({
-        shapes: state.shapes.map(shape => 
-          shape.id === id ? { ...shape, ...updates } : shape
+        shapes: solveConstraints(
+          state.shapes.map(shape => 
+            shape.id === id ? editShape(shape, updates, state.units) : shape
+          ),
+          state.constraints,
+          state.paths,
+          state.layers,
+          new Set([id])
         ),
         isDirty: true
       })),
       
       updateShapes: (updates) => set((state) => ({
-        shapes: state.shapes.map(shape => {
-          const shapeUpdates = updates.get(shape.id)
-          return shapeUpdates ? { ...shape, ...shapeUpdates } : shape
-        }),
+        shapes: solveConstraints(
+          state.shapes.map(shape => {
+            const shapeUpdates = updates.get(shape.id)
+            return shapeUpdates ? editShape(shape, shapeUpdates, state.units) : shape
+          }),
+          state.constraints,
+          state.paths,
+          state.layers,
+          new Set(updates.keys())
+        ),
         isDirty: true
       })),
       
       removeShape: (id) => set((state) => {
-        // Prevent removal if it would leave fewer than 2 circles
-        const circleCount = state.shapes.filter(s => s.type === 'circle').length
-        if (circleCount <= 2) {
-          return state // No change - must keep at least 2 circles
+        // Prevent removal if it would leave a path using it with fewer than 2 shapes
+        if (state.paths.some(path => path.shapeOrder.includes(id) && path.shapeOrder.length <= 2)) {
+          return state // No change - each path must keep at least 2 shapes
         }
+        // Remove the shape from every path (and array) that references it
+        const paths = state.paths.map(path => ({
+          ...path,
+          shapeOrder: path.shapeOrder.filter(shapeId => shapeId !== id),
+          arrayConfig: withoutArrayShape(path.arrayConfig, id)
+        }))
         return {
           shapes: state.shapes.filter(shape => shape.id !== id),
-          shapeOrder: state.shapeOrder.filter(shapeId => shapeId !== id),
+          ...withActivePath(paths, state.activePathId),
+          constraints: state.constraints.filter(c => !c.shapeIds.includes(id)),
+          isDirty: true
+        }
+      }),
+      
+      reorderShapes: (newOrder) => set((state) => ({
+        ...updateActivePath(state, { shapeOrder: newOrder }),
+        isDirty: true
+      })),
+      
+      // Path actions
+      addPath: () => set((state) => {
+        const path = createPath(`Path ${state.paths.length + 1}`, { layerId: state.activeLayerId })
+        return {
+          ...withActivePath([...state.paths, path], path.id),
+          isDirty: true
+        }
+      }),
+      
+      removePath: (id) => set((state) => {
+        // Must keep at least one path
+        if (state.paths.length <= 1) return state
+        
+        const remaining = state.paths.filter(path => path.id !== id)
+        // Shapes only this path used go with it, along with what refers to them
+        const stillUsed = new Set(remaining.flatMap(path => path.shapeOrder))
+        const removedIds = state.shapes.filter(shape => !stillUsed.has(shape.id)).map(shape => shape.id)
+        const paths = remaining.map(path => ({
+          ...path,
+          arrayConfig: removedIds.reduce(withoutArrayShape, path.arrayConfig)
+        }))
+        return {
+          shapes: state.shapes.filter(shape => stillUsed.has(shape.id)),
+          ...withActivePath(paths, state.activePathId === id ? paths[0].id : state.activePathId),
+          constraints: state.constraints.filter(c => c.shapeIds.every(shapeId => stillUsed.has(shapeId))),
+          // Boolean outlines lose the operand; one left without operands shows nothing until edited
+          booleans: state.booleans.map(outline => ({ ...outline, pathIds: outline.pathIds.filter(pathId => pathId !== id) })),
+          isDirty: true
+        }
+      }),
+      
+      renamePath: (id, name) => set((state) => ({
+        ...withActivePath(state.paths.map(path => path.id === id ? { ...path, name } : path), state.activePathId),
+        isDirty: true
+      })),
+      
+      setPathOffsets: (id, offsets) => set((state) => ({
+        ...withActivePath(
+          state.paths.map(path => path.id === id ? { ...path, offsets: offsets.length > 0 ? offsets : undefined } : path),
+          state.activePathId
+        ),
+        isDirty: true
+      })),
+      
+      addBoolean: (operation, pathIds) => set((state) => ({
+        booleans: [...state.booleans, {
+          id: crypto.randomUUID(),
+          name: `Boolean ${state.booleans.length + 1}`,
+          operation,
+          pathIds,
+          layerId: state.activeLayerId
+        }],
+        isDirty: true
+      })),
+      
+      updateBoolean: (id, changes) => set((state) => ({
+        booleans: state.booleans.map(outline => outline.id === id ? { ...outline, ...changes } : outline),
+        isDirty: true
+      })),
+      
+      removeBoolean: (id) => set((state) => ({
+        booleans: state.booleans.filter(outline => outline.id !== id),
+        isDirty: true
+      })),
+      
+      setActivePath: (id) => set((state) => withActivePath(state.paths, id)),
+      
+      activatePathOfShape: (shapeId) => set((state) => {
+        if (state.shapeOrder.includes(shapeId)) return state
+        const path = state.paths.find(p => p.shapeOrder.includes(shapeId))
+        return path ? withActivePath(state.paths, path.id) : state
+      }),
+      
+      addShapeToPath: (shapeId) => set((state) => {
+        if (state.shapeOrder.includes(shapeId)) return state
+        return {
+          ...updateActivePath(state, { shapeOrder: [...state.shapeOrder, shapeId] }),
           isDirty: true
         }
       }),
       
-      reorderShapes: (newOrder) => set({ shapeOrder: newOrder, isDirty: true }),
+      removeShapeFromPath: (shapeId) => set((state) => {
+        // Only allowed while another path still uses the shape (otherwise delete it instead)
+        const usedElsewhere = state.paths.some(path =>
+          path.id !== state.activePathId && path.shapeOrder.includes(shapeId)
+        )
+        if (!usedElsewhere) return state
+        return {
+          ...updateActivePath(state, {
+            shapeOrder: state.shapeOrder.filter(id => id !== shapeId),
+            arrayConfig: withoutArrayShape(state.arrayConfig, shapeId)
+          }),
+          isDirty: true
+        }
+      }),
+      
+      // Layer actions
+      addLayer: () => set((state) => {
+        const layer = createLayer(`Layer ${state.layers.length + 1}`)
+        return {
+          layers: [...state.layers, layer],
+          activeLayerId: layer.id,
+          isDirty: true
+        }
+      }),
+      
+      removeLayer: (id) => set((state) => {
+        // Must keep at least one layer
+        if (state.layers.length <= 1) return state
+        
+        const layers = state.layers.filter(layer => layer.id !== id)
+        // Shapes, paths and boolean outlines on the removed layer move to the first remaining one
+        const target = layers[0].id
+        const moveMember = <T extends { layerId?: string }>(item: T): T =>
+          // Items without a layer lived on the first layer, which may be the one removed
+          (item.layerId ?? state.layers[0].id) === id ? { ...item, layerId: target } : item
+        return {
+          layers,
+          activeLayerId: state.activeLayerId === id ? target : state.activeLayerId,
+          shapes: state.shapes.map(moveMember),
+          ...withActivePath(state.paths.map(moveMember), state.activePathId),
+          booleans: state.booleans.map(moveMember),
+          isDirty: true
+        }
+      }),
+      
+      renameLayer: (id, name) => set((state) => ({
+        layers: state.layers.map(layer => layer.id === id ? { ...layer, name } : layer),
+        isDirty: true
+      })),
+      
+      toggleLayerVisible: (id) => set((state) => ({
+        layers: state.layers.map(layer => layer.id === id ? { ...layer, visible: !layer.visible } : layer),
+        isDirty: true
+      })),
+      
+      toggleLayerLocked: (id) => set((state) => ({
+        layers: state.layers.map(layer => layer.id === id ? { ...layer, locked: !layer.locked } : layer),
+        isDirty: true
+      })),
+      
+      setLayerStyle: (id, style) => set((state) => ({
+        layers: state.layers.map(layer =>
+          layer.id === id ? { ...layer, style: { ...layer.style, ...style } } : layer
+        ),
+        isDirty: true
+      })),
+      
+      setActiveLayer: (id) => set((state) =>
+        state.layers.some(layer => layer.id === id) ? { activeLayerId: id } : state
+      ),
+      
+      setShapeLayer: (shapeId, layerId) => set((state) => ({
+        shapes: state.shapes.map(shape => shape.id === shapeId ? { ...shape, layerId } : shape),
+        isDirty: true
+      })),
+      
+      setPathLayer: (pathId, layerId) => set((state) => ({
+        ...withActivePath(state.paths.map(path => path.id === pathId ? { ...path, layerId } : path), state.activePathId),
+        isDirty: true
+      })),
       
       // Stretch setters
       setGlobalStretch: (stretch) => set({ 
@@ -199,32 +557,122 @@ export const useDocumentStore = create<DocumentState>()(
         isDirty: true 
       }),
       
+      // Expressions are written in document units, so bound lengths follow the units
+      setUnits: (units) => set((state) => {
+        const nextUnits = {
+          unit: units.unit ?? state.units.unit,
+          scale: units.scale !== undefined && units.scale > 0 ? units.scale : state.units.scale
+        }
+        return {
+          units: nextUnits,
+          shapes: evaluateShapes({ ...state, units: nextUnits }, state.variables),
+          isDirty: true
+        }
+      }),
+      
+      addConstraint: (constraint) => set((state) => {
+        const constraints = [...state.constraints, constraint]
+        return {
+          constraints,
+          // The constrained shapes meet halfway
+          shapes: solveConstraints(state.shapes, constraints, state.paths, state.layers),
+          isDirty: true
+        }
+      }),
+      
+      removeConstraint: (id) => set((state) => ({
+        constraints: state.constraints.filter(c => c.id !== id),
+        isDirty: true
+      })),
+      
+      setConstraintValue: (id, value) => set((state) => {
+        const constraints = state.constraints.map(c => c.id === id ? { ...c, value } : c)
+        return {
+          constraints,
+          shapes: solveConstraints(state.shapes, constraints, state.paths, state.layers),
+          isDirty: true
+        }
+      }),
+      
+      addVariable: () => set((state) => ({
+        variables: [...state.variables, createVariable(nextVariableName(state.variables), '0')],
+        isDirty: true
+      })),
+      
+      // One update re-evaluates every dependent shape, so the change is a single undo step
+      updateVariable: (id, changes) => set((state) => {
+        const previous = state.variables.find(v => v.id === id)
+        if (!previous) return state
+        const renamed = changes.name !== undefined && changes.name !== previous.name ? changes.name : null
+        // Only a valid, unused name may rewrite the references
+        if (renamed !== null && renameError(state.variables, id, renamed) !== null) return state
+        const rename = (expression: string) => renamed !== null ? renameIdentifier(expression, previous.name, renamed) : expression
+        
+        const variables = state.variables.map(v =>
+          v.id === id ? { ...v, ...changes } : { ...v, expression: rename(v.expression) }
+        )
+        const shapes = renamed === null ? state.shapes : state.shapes.map(shape => {
+          if (shape.type !== 'circle' || !shape.expressions) return shape
+          const expressions = Object.fromEntries(
+            Object.entries(shape.expressions).map(([field, expression]) => [field, rename(expression)])
+          )
+          return { ...shape, expressions }
+        })
+        return {
+          variables,
+          shapes: evaluateShapes(state, variables, shapes),
+          isDirty: true
+        }
+      }),
+      
+      // Shapes bound to a removed variable keep their last values
+      removeVariable: (id) => set((state) => ({
+        variables: state.variables.filter(v => v.id !== id),
+        isDirty: true
+      })),
+      
+      setShapeExpressions: (updates) => set((state) => {
+        const shapes = state.shapes.map(shape => {
+          const changes = updates.get(shape.id)
+          if (!changes || shape.type !== 'circle') return shape
+          const expressions = { ...shape.expressions, ...changes }
+          for (const field of Object.keys(expressions) as ExpressionField[]) {
+            if (expressions[field] === undefined) delete expressions[field]
+          }
+          return { ...shape, expressions: Object.keys(expressions).length > 0 ? expressions : undefined }
+        })
+        return {
+          shapes: evaluateShapes(state, state.variables, shapes),
+          isDirty: true
+        }
+      }),
+      
       setCircleStretch: (id, stretch) => set((state) => ({
         shapes: updateCircleById(state.shapes, id, {
           stretch: stretch !== undefined ? Math.max(-1, Math.min(1, stretch)) : undefined
-        }),
+        }, state.units),
         isDirty: true
       })),
       
       // Tangent offset: angle in radians to rotate contact points (entry/exit separately)
       setEntryOffset: (id, offset) => set((state) => ({
-        shapes: updateCircleById(state.shapes, id, { entryOffset: offset }),
+        shapes: updateCircleById(state.shapes, id, { entryOffset: offset }, state.units),
         isDirty: true
       })),
       
       setExitOffset: (id, offset) => set((state) => ({
-        shapes: updateCircleById(state.shapes, id, { exitOffset: offset }),
+        shapes: updateCircleById(state.shapes, id, { exitOffset: offset }, state.units),
         isDirty: true
       })),
       
       // Tangent length multipliers
       setEntryTangentLength: (id, length) => set((state) => ({
-        shapes: updateCircleById(state.shapes, id, { entryTangentLength: length }),
+        shapes: updateCircleById(state.shapes, id, { entryTangentLength: length }, state.units),
         isDirty: true
       })),
       
       setExitTangentLength: (id, length) => set((state) => ({
-        shapes: updateCircleById(state.shapes, id, { exitTangentLength: length }),
+        shapes: updateCircleById(state.shapes, id, { exitTangentLength: length }, state.units),
         isDirty: true
       })),
       
@@ -232,13 +680,11 @@ export const useDocumentStore = create<DocumentState>()(
       getEffectiveStretch: (id) => {
         const state = get()
         const shape = state.shapes.find(s => s.id === id)
-        if (!shape || shape.type !== 'circle') return state.globalStretch
-        
-        const circle = shape as CircleShape
+        if (!shape) return state.globalStretch
         
-        // Circle-level override, or fall back to global
-        if (circle.stretch !== undefined) {
-          return circle.stretch
+        // Shape-level override, or fall back to global
+        if (shape.stretch !== undefined) {
+          return shape.stretch
         }
         
         return state.globalStretch
@@ -260,19 +706,19 @@ export const useDocumentStore = create<DocumentState>()(
           return
         }
         
-        const newShape: Shape = {
-          ...shape,
+        // The offset copy no longer follows the original's center expressions
+        const newShape: Shape = editShape(shape, {
           id: crypto.randomUUID(),
           name: `${shape.name} Copy`,
           center: {
             x: shape.center.x + 20,
             y: shape.center.y + 20
           }
-        }
+        }, state.units)
         
         set({
           shapes: [...state.shapes, newShape],
-          shapeOrder: [...state.shapeOrder, newShape.id],
+          ...updateActivePath(state, { shapeOrder: [...state.shapeOrder, newShape.id] }),
           isDirty: true
         })
         endMeasure('duplicateShape')
@@ -280,49 +726,81 @@ export const useDocumentStore = create<DocumentState>()(
       
       toggleDirection: (id) => set((state) => ({
         shapes: updateCircleById(state.shapes, id, {
-          direction: (state.shapes.find(s => s.id === id) as CircleShape)?.direction === 'cw' ? 'ccw' : 'cw'
-        }),
+          direction: state.shapes.find(s => s.id === id)?.direction === 'cw' ? 'ccw' : 'cw'
+        }, state.units),
         isDirty: true
       })),
       
       toggleMirror: (id) => set((state) => ({
         shapes: updateCircleById(state.shapes, id, {
-          mirrored: !(state.shapes.find(s => s.id === id) as CircleShape)?.mirrored
-        }),
+          mirrored: !state.shapes.find(s => s.id === id)?.mirrored
+        }, state.units),
         isDirty: true
       })),
       
+      cycleSeam: (id) => set((state) => {
+        const seam = state.shapes.find(s => s.id === id)?.seam
+        return {
+          shapes: updateCircleById(state.shapes, id, {
+            seam: seam === undefined ? 'cross' : seam === 'cross' ? 'wrap' : undefined
+          }, state.units),
+          isDirty: true
+        }
+      }),
+      
       cycleMirrorPreset: () => set((state) => {
         const currentIndex = findMirrorPresetIndex(state.mirrorConfig)
         const nextIndex = (currentIndex + 1) % MIRROR_PRESETS.length
         return {
-          mirrorConfig: MIRROR_PRESETS[nextIndex].config,
+          // Presets only set the planes; the origin stays where it was moved to
+          ...updateActivePath(state, {
+            mirrorConfig: state.mirrorConfig.origin
+              ? { ...MIRROR_PRESETS[nextIndex].config, origin: state.mirrorConfig.origin }
+              : MIRROR_PRESETS[nextIndex].config
+          }),
           isDirty: true
         }
       }),
       
-      setMirrorConfig: (config) => set({ mirrorConfig: config, isDirty: true }),
+      setMirrorConfig: (config) => set((state) => ({
+        ...updateActivePath(state, { mirrorConfig: config }),
+        isDirty: true
+      })),
+      
+      setArrayConfig: (config) => set((state) => ({
+        ...updateActivePath(state, { arrayConfig: config }),
+        isDirty: true
+      })),
       
       toggleClosedPath: () => set((state) => ({
-        closedPath: !state.closedPath,
+        ...updateActivePath(state, { closedPath: !state.closedPath }),
         isDirty: true
       })),
       
-      setClosedPath: (closed) => set({ closedPath: closed, isDirty: true }),
+      setClosedPath: (closed) => set((state) => ({
+        ...updateActivePath(state, { closedPath: closed }),
+        isDirty: true
+      })),
       
       toggleUseStartPoint: () => set((state) => ({
-        useStartPoint: !state.useStartPoint,
+        ...updateActivePath(state, { useStartPoint: !state.useStartPoint }),
         isDirty: true
       })),
       
-      setUseStartPoint: (use) => set({ useStartPoint: use, isDirty: true }),
+      setUseStartPoint: (use) => set((state) => ({
+        ...updateActivePath(state, { useStartPoint: use }),
+        isDirty: true
+      })),
       
       toggleUseEndPoint: () => set((state) => ({
-        useEndPoint: !state.useEndPoint,
+        ...updateActivePath(state, { useEndPoint: !state.useEndPoint }),
         isDirty: true
       })),
       
-      setUseEndPoint: (use) => set({ useEndPoint: use, isDirty: true }),
+      setUseEndPoint: (use) => set((state) => ({
+        ...updateActivePath(state, { useEndPoint: use }),
+        isDirty: true
+      })),
       
       // Get current path mode from state
       getPathMode: () => {
@@ -346,39 +824,14 @@ export const useDocumentStore = create<DocumentState>()(
         const currentIndex = modeOrder.indexOf(currentMode)
         const nextMode = modeOrder[(currentIndex + 1) % modeOrder.length]
         
-        switch (nextMode) {
-          case 'tangent':
-            return { closedPath: false, useStartPoint: false, useEndPoint: false, isDirty: true }
-          case 'left-arc':
-            return { closedPath: false, useStartPoint: true, useEndPoint: false, isDirty: true }
-          case 'right-arc':
-            return { closedPath: false, useStartPoint: false, useEndPoint: true, isDirty: true }
-          case 'both-arcs':
-            return { closedPath: false, useStartPoint: true, useEndPoint: true, isDirty: true }
-          case 'closed':
-            return { closedPath: true, isDirty: true }
-          default:
-            return {}
-        }
+        return { ...updateActivePath(state, pathModeSettings(nextMode)), isDirty: true }
       }),
       
       // Set a specific path mode
-      setPathMode: (mode: PathMode) => set(() => {
-        switch (mode) {
-          case 'tangent':
-            return { closedPath: false, useStartPoint: false, useEndPoint: false, isDirty: true }
-          case 'left-arc':
-            return { closedPath: false, useStartPoint: true, useEndPoint: false, isDirty: true }
-          case 'right-arc':
-            return { closedPath: false, useStartPoint: false, useEndPoint: true, isDirty: true }
-          case 'both-arcs':
-            return { closedPath: false, useStartPoint: true, useEndPoint: true, isDirty: true }
-          case 'closed':
-            return { closedPath: true, isDirty: true }
-          default:
-            return {}
-        }
-      }),
+      setPathMode: (mode: PathMode) => set((state) => ({
+        ...updateActivePath(state, pathModeSettings(mode)),
+        isDirty: true
+      })),
       
       reset: () => set(createDefaultDocument()),
       
@@ -401,7 +854,7 @@ export const useDocumentStore = create<DocumentState>()(
             direction,
             // Migrate: fling (0-1) maps to stretch (0-1), tension (0-1) maps to stretch (1-0)
             stretch: shape.stretch ?? legacyStretch ?? (legacyTension !== undefined ? 1 - legacyTension : undefined)
-          } as CircleShape
+          } as Shape
         })
         endMeasure('migrateShapes')
         
@@ -414,15 +867,53 @@ export const useDocumentStore = create<DocumentState>()(
           return 0
         })()
         
+        // Files from before multiple paths hold a single path in pathOrder + settings
+        const paths: PathConfig[] = data.paths && data.paths.length > 0
+          ? data.paths.map(path => ({
+            id: path.id,
+            name: path.name,
+            shapeOrder: path.pathOrder,
+            closedPath: path.closedPath ?? true,
+            useStartPoint: path.useStartPoint ?? true,
+            useEndPoint: path.useEndPoint ?? true,
+            mirrorConfig: path.mirrorConfig ?? MIRROR_PRESETS[0].config,
+            arrayConfig: path.arrayConfig,
+            offsets: path.offsets,
+            layerId: path.layerId
+          }))
+          : [createPath('Path 1', {
+            shapeOrder: data.pathOrder,
+            closedPath: data.settings?.closedPath ?? true,  // Default to closed for backwards compatibility
+            useStartPoint: data.settings?.useStartPoint ?? true,  // Default to true for backwards compatibility
+            useEndPoint: data.settings?.useEndPoint ?? true,  // Default to true for backwards compatibility
+            mirrorConfig: data.settings?.mirrorConfig ?? MIRROR_PRESETS[0].config  // Default to None
+          })]
+        
+        // Files from before layers put everything on a single layer
+        const layers: Layer[] = data.layers && data.layers.length > 0
+          ? data.layers.map(layer => ({
+            id: layer.id,
+            name: layer.name,
+            visible: layer.visible ?? true,
+            locked: layer.locked ?? false,
+            style: layer.style ?? {}
+          }))
+          : [createLayer('Layer 1')]
+        
         startMeasure('setState')
         set({
           shapes: migratedShapes,
-          shapeOrder: data.pathOrder,
+          ...withActivePath(paths, paths[0].id),
+          layers,
+          activeLayerId: layers[0].id,
           globalStretch,
-          closedPath: data.settings?.closedPath ?? true,  // Default to closed for backwards compatibility
-          useStartPoint: data.settings?.useStartPoint ?? true,  // Default to true for backwards compatibility
-          useEndPoint: data.settings?.useEndPoint ?? true,  // Default to true for backwards compatibility
-          mirrorConfig: data.settings?.mirrorConfig ?? MIRROR_PRESETS[0].config,  // Default to None
+          units: {
+            unit: data.settings?.units ?? DEFAULT_UNITS.unit,
+            scale: data.settings?.unitScale ?? DEFAULT_UNITS.scale
+          },
+          constraints: data.constraints ?? [],
+          variables: data.variables ?? [],
+          booleans: data.booleans ?? [],
           fileName: data.name,
           isDirty: false
         })
@@ -441,12 +932,15 @@ export const useDocumentStore = create<DocumentState>()(
       name: 'serpentine-document',
       partialize: (state) => ({
         shapes: state.shapes,
-        shapeOrder: state.shapeOrder,
+        paths: state.paths,
+        activePathId: state.activePathId,
+        layers: state.layers,
+        activeLayerId: state.activeLayerId,
         globalStretch: state.globalStretch,
-        closedPath: state.closedPath,
-        useStartPoint: state.useStartPoint,
-        useEndPoint: state.useEndPoint,
-        mirrorConfig: state.mirrorConfig,
+        units: state.units,
+        constraints: state.constraints,
+        variables: state.variables,
+        booleans: state.booleans,
         fileName: state.fileName
       }),
       // Migrate old data
@@ -454,7 +948,8 @@ export const useDocumentStore = create<DocumentState>()(
         console.log('%c[Store] documentStore hydrating from localStorage...', 'color: #ffd93d;')
         const hydrateStart = performance.now()
         
-        const persisted = persistedState as Partial<DocumentState> & { 
+        // Nothing is stored on first load
+        const persisted = (persistedState ?? {}) as Partial<DocumentState> & { 
           globalTension?: number
           globalFling?: number
           mirrorAxis?: 'vertical' | 'horizontal' | 'both'  // Legacy field
@@ -472,18 +967,31 @@ export const useDocumentStore = create<DocumentState>()(
           }
         }
         
+        // Migrate the single flat path from before multiple paths
+        const migratePaths = (): PathConfig[] => {
+          if (persisted.paths && persisted.paths.length > 0) return persisted.paths
+          return [createPath('Path 1', {
+            shapeOrder: persisted.shapeOrder ?? currentState.shapeOrder,
+            // Default closedPath to true for backwards compatibility
+            closedPath: persisted.closedPath ?? true,
+            // Default start/end point settings to true for backwards compatibility
+            useStartPoint: persisted.useStartPoint ?? true,
+            useEndPoint: persisted.useEndPoint ?? true,
+            // Migrate mirrorAxis to mirrorConfig
+            mirrorConfig: migrateMirrorConfig()
+          })]
+        }
+        const paths = migratePaths()
+        const layers = persisted.layers && persisted.layers.length > 0 ? persisted.layers : currentState.layers
+        
         const result = {
           ...currentState,
           ...persisted,
           // Migrate old globalFling/globalTension to globalStretch
           globalStretch: persisted.globalStretch ?? persisted.globalFling ?? (persisted.globalTension !== undefined ? 1 - persisted.globalTension : currentState.globalStretch),
-          // Default closedPath to true for backwards compatibility
-          closedPath: persisted.closedPath ?? true,
-          // Default start/end point settings to true for backwards compatibility
-          useStartPoint: persisted.useStartPoint ?? true,
-          useEndPoint: persisted.useEndPoint ?? true,
-          // Migrate mirrorAxis to mirrorConfig
-          mirrorConfig: migrateMirrorConfig(),
+          ...withActivePath(paths, persisted.activePathId ?? paths[0].id),
+          layers,
+          activeLayerId: layers.some(l => l.id === persisted.activeLayerId) ? persisted.activeLayerId! : layers[0].id,
           // Migrate shapes: wrapSide → direction, fling/tension → stretch
           shapes: (persisted.shapes ?? currentState.shapes).map(shape => {
             const legacyWrapSide = (shape as any).wrapSide as 'left' | 'right' | undefined
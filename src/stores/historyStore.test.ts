@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useDocumentStore } from './documentStore'
+import { useHistoryStore, initHistoryTracking, childrenOf, undo, redo } from './historyStore'
+import { HISTORY_DEBOUNCE_MS, MAX_HISTORY } from '../constants'
+
+const documentState = () => useDocumentStore.getState()
+const historyState = () => useHistoryStore.getState()
+const firstShapeId = () => documentState().shapes[0].id
+const firstShapeX = () => documentState().shapes[0].center.x
+
+/**
+ * Make a document change and let the history record it as one step
+ */
+function edit(change: () => void) {
+  change()
+  vi.advanceTimersByTime(HISTORY_DEBOUNCE_MS + 1)
+}
+
+const moveFirstShape = (x: number) =>
+  edit(() => documentState().updateShape(firstShapeId(), { center: { x, y: documentState().shapes[0].center.y } }))
+
+describe('undo tree', () => {
+  let stopTracking: () => void
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    useDocumentStore.setState(useDocumentStore.getInitialState(), true)
+    useHistoryStore.setState({ maxHistory: MAX_HISTORY })
+    stopTracking = initHistoryTracking()
+  })
+
+  afterEach(() => {
+    stopTracking()
+    vi.useRealTimers()
+  })
+
+  it('records each change under the current entry with a label', () => {
+    const rootId = historyState().rootId!
+    moveFirstShape(10)
+    const { entries, currentId } = historyState()
+    expect(entries[currentId!].parentId).toBe(rootId)
+    expect(entries[currentId!].label).toBe(`Move ${documentState().shapes[0].name}`)
+    expect(historyState().canUndo()).toBe(true)
+    expect(historyState().canRedo()).toBe(false)
+  })
+
+  it('starts a branch when editing after undo, keeping the undone line', () => {
+    moveFirstShape(10)
+    const first = historyState().currentId!
+    moveFirstShape(20)
+    const undone = historyState().currentId!
+
+    undo()
+    expect(firstShapeX()).toBe(10)
+    moveFirstShape(30)
+    const branch = historyState().currentId!
+
+    const { entries } = historyState()
+    expect(childrenOf(entries, first).map(entry => entry.id)).toEqual([undone, branch])
+    expect(entries[undone]).toBeDefined()
+
+    // Redo follows the branch last visited
+    undo()
+    expect(firstShapeX()).toBe(10)
+    redo()
+    expect(firstShapeX()).toBe(30)
+    expect(historyState().currentId).toBe(branch)
+  })
+
+  it('jumps to an undone branch and redoes back along it', () => {
+    moveFirstShape(10)
+    moveFirstShape(20)
+    const undone = historyState().currentId!
+    undo()
+    moveFirstShape(30)
+
+    historyState().jumpTo(undone)
+    expect(firstShapeX()).toBe(20)
+    undo()
+    expect(firstShapeX()).toBe(10)
+    redo()
+    expect(firstShapeX()).toBe(20)
+  })
+
+  it('flushes a change still being debounced before undoing it', () => {
+    const startX = firstShapeX()
+    moveFirstShape(10)
+    documentState().updateShape(firstShapeId(), { center: { x: 50, y: 0 } })
+    undo()
+    expect(firstShapeX()).toBe(10)
+    undo()
+    expect(firstShapeX()).toBe(startX)
+  })
+
+  it('restores the document units with the shapes', () => {
+    const units = documentState().units
+    edit(() => documentState().setUnits({ unit: 'mm', scale: 2 }))
+    expect(historyState().entries[historyState().currentId!].label).toBe('Change units')
+    undo()
+    expect(documentState().units).toEqual(units)
+    redo()
+    expect(documentState().units).toEqual({ unit: 'mm', scale: 2 })
+  })
+
+  it('prunes abandoned branches before the line to the current entry', () => {
+    useHistoryStore.setState({ maxHistory: 4 })
+    const rootId = historyState().rootId!
+    moveFirstShape(10)
+    moveFirstShape(20)
+    const abandoned = historyState().currentId!
+    undo()
+    moveFirstShape(30)
+    // Root, 10, {20, 30}: full. The next step drops the abandoned 20 first
+    moveFirstShape(40)
+
+    let { entries } = historyState()
+    expect(Object.keys(entries)).toHaveLength(4)
+    expect(entries[abandoned]).toBeUndefined()
+    expect(historyState().rootId).toBe(rootId)
+
+    // With only the current line left, the oldest entry becomes the new root
+    moveFirstShape(50)
+    entries = historyState().entries
+    expect(Object.keys(entries)).toHaveLength(4)
+    expect(entries[rootId]).toBeUndefined()
+    const newRoot = entries[historyState().rootId!]
+    expect(newRoot.parentId).toBeNull()
+
+    undo()
+    undo()
+    undo()
+    expect(firstShapeX()).toBe(10)
+    expect(historyState().canUndo()).toBe(false)
+  })
+})
@@ -1,31 +1,49 @@
 import { create } from 'zustand'
-import type { Shape } from '../types'
-import { useDocumentStore } from './documentStore'
+import type { Shape, PathConfig, Layer, Constraint, Variable, BooleanOutline, DocumentUnits } from '../types'
+import { useDocumentStore, withActivePath } from './documentStore'
 import { MAX_HISTORY, HISTORY_DEBOUNCE_MS } from '../constants'
 import { startMeasure, endMeasure } from '../utils/profiler'
 import { cloneShapesDeep, shallowCloneArray } from '../utils/objectPool'
+import { describeChange } from '../utils/historyLabels'
 
 // Snapshot of document state that can be undone/redone
-interface DocumentSnapshot {
+export interface DocumentSnapshot {
   shapes: Shape[]
-  shapeOrder: string[]
+  paths: PathConfig[]  // Every path's order and settings (which path is active is not undoable)
+  layers: Layer[]
+  constraints: Constraint[]
+  variables: Variable[]
+  booleans: BooleanOutline[]
   globalStretch: number
-  closedPath: boolean
-  useStartPoint: boolean
-  useEndPoint: boolean
+  units: DocumentUnits  // Expressions are evaluated in these, so they go with the shapes
+}
+
+// One step in the undo tree: the document as it was after a change. Undo
+// moves to the parent; an edit after undoing starts a new branch and the
+// old one stays in the tree.
+export interface HistoryEntry {
+  id: number
+  parentId: number | null      // Null for the document as first opened
+  label: string                // What changed, e.g. "Move Circle 3"
+  time: number                 // When the change was recorded (ms since epoch)
+  snapshot: DocumentSnapshot
+  redoChildId: number | null   // Branch redo follows (the one last visited)
 }
 
 interface HistoryState {
   // State
-  undoStack: DocumentSnapshot[]
-  redoStack: DocumentSnapshot[]
+  entries: Record<number, HistoryEntry>
+  rootId: number | null
+  currentId: number | null     // Entry the document is at
   maxHistory: number
   isProgrammaticChange: boolean // Flag to prevent recording undo during undo/redo
   
   // Actions
-  pushState: (snapshot: DocumentSnapshot) => void
+  reset: (snapshot: DocumentSnapshot) => void  // Start a new tree at this state
+  record: (snapshot: DocumentSnapshot) => void // Add the state after a change under the current entry
   undo: () => void
   redo: () => void
+  jumpTo: (id: number) => void  // Restore any entry, on any branch
   clear: () => void
   
   // Computed
@@ -33,118 +51,196 @@ interface HistoryState {
   canRedo: () => boolean
 }
 
+let nextEntryId = 1
+
 export const useHistoryStore = create<HistoryState>()((set, get) => ({
-  undoStack: [],
-  redoStack: [],
+  entries: {},
+  rootId: null,
+  currentId: null,
   maxHistory: MAX_HISTORY,
   isProgrammaticChange: false,
   
-  pushState: (snapshot) => set((state) => {
+  reset: (snapshot) => {
+    const root: HistoryEntry = {
+      id: nextEntryId++,
+      parentId: null,
+      label: 'Open document',
+      time: Date.now(),
+      snapshot,
+      redoChildId: null
+    }
+    set({ entries: { [root.id]: root }, rootId: root.id, currentId: root.id })
+  },
+  
+  record: (snapshot) => set((state) => {
     // Don't record during undo/redo operations
-    if (state.isProgrammaticChange) return state
+    if (state.isProgrammaticChange || state.currentId === null) return state
     
-    const newUndoStack = [...state.undoStack, snapshot]
+    const current = state.entries[state.currentId]
+    const label = describeChange(current.snapshot, snapshot)
+    if (label === null) return state
     
-    // Trim stack if too long
-    if (newUndoStack.length > state.maxHistory) {
-      newUndoStack.shift()
+    const entry: HistoryEntry = {
+      id: nextEntryId++,
+      parentId: current.id,
+      label,
+      time: Date.now(),
+      snapshot,
+      redoChildId: null
+    }
+    const entries = {
+      ...state.entries,
+      [current.id]: { ...current, redoChildId: entry.id },
+      [entry.id]: entry
     }
     
     return {
-      undoStack: newUndoStack,
-      redoStack: [] // Clear redo stack on new action
+      ...pruneEntries(entries, state.rootId!, entry.id, state.maxHistory),
+      currentId: entry.id
     }
   }),
   
   undo: () => {
-    const state = get()
-    if (state.undoStack.length === 0) return
-    
-    // Get current state before undo to push to redo stack
-    const docStore = useDocumentStore.getState()
-    const currentSnapshot: DocumentSnapshot = {
-      shapes: docStore.shapes,
-      shapeOrder: docStore.shapeOrder,
-      globalStretch: docStore.globalStretch,
-      closedPath: docStore.closedPath,
-      useStartPoint: docStore.useStartPoint,
-      useEndPoint: docStore.useEndPoint
-    }
-    
-    // Get the state to restore
-    const newUndoStack = [...state.undoStack]
-    const snapshotToRestore = newUndoStack.pop()!
-    
-    // Mark as programmatic change to prevent recording
-    set({ isProgrammaticChange: true })
-    
-    // Restore the document state
-    useDocumentStore.setState({
-      shapes: snapshotToRestore.shapes,
-      shapeOrder: snapshotToRestore.shapeOrder,
-      globalStretch: snapshotToRestore.globalStretch,
-      closedPath: snapshotToRestore.closedPath,
-      useStartPoint: snapshotToRestore.useStartPoint,
-      useEndPoint: snapshotToRestore.useEndPoint
-    })
-    
-    // Update history stacks
-    set({
-      undoStack: newUndoStack,
-      redoStack: [...state.redoStack, currentSnapshot],
-      isProgrammaticChange: false
-    })
+    flushPendingChange()
+    const { entries, currentId } = get()
+    const parentId = currentId !== null ? entries[currentId].parentId : null
+    if (parentId === null) return
+    restoreEntry(parentId, currentId)
   },
   
   redo: () => {
-    const state = get()
-    if (state.redoStack.length === 0) return
-    
-    // Get current state to push to undo stack
-    const docStore = useDocumentStore.getState()
-    const currentSnapshot: DocumentSnapshot = {
-      shapes: docStore.shapes,
-      shapeOrder: docStore.shapeOrder,
-      globalStretch: docStore.globalStretch,
-      closedPath: docStore.closedPath,
-      useStartPoint: docStore.useStartPoint,
-      useEndPoint: docStore.useEndPoint
-    }
-    
-    // Get the state to restore
-    const newRedoStack = [...state.redoStack]
-    const snapshotToRestore = newRedoStack.pop()!
-    
-    // Mark as programmatic change to prevent recording
-    set({ isProgrammaticChange: true })
-    
-    // Restore the document state
-    useDocumentStore.setState({
-      shapes: snapshotToRestore.shapes,
-      shapeOrder: snapshotToRestore.shapeOrder,
-      globalStretch: snapshotToRestore.globalStretch,
-      closedPath: snapshotToRestore.closedPath,
-      useStartPoint: snapshotToRestore.useStartPoint,
-      useEndPoint: snapshotToRestore.useEndPoint
-    })
-    
-    // Update history stacks
-    set({
-      undoStack: [...state.undoStack, currentSnapshot],
-      redoStack: newRedoStack,
-      isProgrammaticChange: false
-    })
+    flushPendingChange()
+    const { entries, currentId } = get()
+    if (currentId === null) return
+    const childId = entries[currentId].redoChildId ?? childrenOf(entries, currentId).pop()?.id
+    if (childId === undefined) return
+    restoreEntry(childId, currentId)
   },
   
-  clear: () => set({
-    undoStack: [],
-    redoStack: []
-  }),
+  jumpTo: (id) => {
+    flushPendingChange()
+    const { entries, currentId } = get()
+    if (!entries[id] || id === currentId) return
+    restoreEntry(id, currentId)
+  },
+  
+  clear: () => get().reset(captureSnapshot()),
   
-  canUndo: () => get().undoStack.length > 0,
-  canRedo: () => get().redoStack.length > 0
+  canUndo: () => {
+    const { entries, currentId } = get()
+    return currentId !== null && entries[currentId].parentId !== null
+  },
+  canRedo: () => {
+    const { entries, currentId } = get()
+    return currentId !== null && childrenOf(entries, currentId).length > 0
+  }
 }))
 
+/**
+ * Children of an entry, oldest first
+ */
+export function childrenOf(entries: Record<number, HistoryEntry>, id: number): HistoryEntry[] {
+  return Object.values(entries).filter(entry => entry.parentId === id).sort((a, b) => a.id - b.id)
+}
+
+/**
+ * Entries from the root down to the given one
+ */
+function lineageOf(entries: Record<number, HistoryEntry>, id: number): number[] {
+  const lineage: number[] = []
+  for (let entryId: number | null = id; entryId !== null; entryId = entries[entryId].parentId) {
+    lineage.unshift(entryId)
+  }
+  return lineage
+}
+
+/**
+ * Drop the oldest entries beyond the limit: first leaves off the current
+ * line (abandoned branches), then the root when only the line is left
+ */
+function pruneEntries(
+  entries: Record<number, HistoryEntry>,
+  rootId: number,
+  currentId: number,
+  maxHistory: number
+): { entries: Record<number, HistoryEntry>, rootId: number } {
+  const kept = { ...entries }
+  let root = rootId
+  const line = new Set(lineageOf(kept, currentId))
+  
+  while (Object.keys(kept).length > maxHistory) {
+    const parents = new Set(Object.values(kept).map(entry => entry.parentId))
+    const leaf = Object.values(kept)
+      .filter(entry => !line.has(entry.id) && !parents.has(entry.id))
+      .sort((a, b) => a.id - b.id)[0]
+    
+    if (leaf) {
+      delete kept[leaf.id]
+      const parent = kept[leaf.parentId!]
+      if (parent.redoChildId === leaf.id) kept[parent.id] = { ...parent, redoChildId: null }
+    } else {
+      // Everything left is the line to the current entry, so the root has one child
+      const child = childrenOf(kept, root)[0]
+      delete kept[root]
+      line.delete(root)
+      kept[child.id] = { ...child, parentId: null }
+      root = child.id
+    }
+  }
+  
+  return { entries: kept, rootId: root }
+}
+
+/**
+ * Put the document back to an entry's state. Redo then leads back along the
+ * way it came: down the old line if the entry is above it, and to the entry
+ * from anywhere above it.
+ */
+function restoreEntry(id: number, fromId: number | null) {
+  const state = useHistoryStore.getState()
+  const entries = { ...state.entries }
+  const pointRedoAlong = (lineage: number[]) => {
+    for (let i = 0; i < lineage.length - 1; i++) {
+      entries[lineage[i]] = { ...entries[lineage[i]], redoChildId: lineage[i + 1] }
+    }
+  }
+  if (fromId !== null) pointRedoAlong(lineageOf(entries, fromId))
+  pointRedoAlong(lineageOf(entries, id))
+  
+  const snapshot = entries[id].snapshot
+  const docStore = useDocumentStore.getState()
+  
+  // Mark as programmatic change to prevent recording
+  useHistoryStore.setState({ isProgrammaticChange: true })
+  
+  // Restore the document state
+  useDocumentStore.setState({
+    shapes: snapshot.shapes,
+    ...withActivePath(snapshot.paths, docStore.activePathId),
+    ...withActiveLayer(snapshot.layers, docStore.activeLayerId),
+    constraints: snapshot.constraints,
+    variables: snapshot.variables,
+    booleans: snapshot.booleans,
+    globalStretch: snapshot.globalStretch,
+    units: snapshot.units
+  })
+  trackDocument(useDocumentStore.getState())
+  
+  useHistoryStore.setState({
+    entries,
+    currentId: id,
+    isProgrammaticChange: false
+  })
+}
+
+// Helper to keep the active layer valid when restoring layers
+function withActiveLayer(layers: Layer[], activeLayerId: string) {
+  return {
+    layers,
+    activeLayerId: layers.some(layer => layer.id === activeLayerId) ? activeLayerId : layers[0].id
+  }
+}
+
 // Helper to capture current state as a snapshot
 function captureSnapshot(): DocumentSnapshot {
   startMeasure('history.captureSnapshot')
@@ -152,11 +248,13 @@ function captureSnapshot(): DocumentSnapshot {
   // Use optimized deep clone instead of structuredClone (3-5x faster)
   const snapshot = {
     shapes: cloneShapesDeep(docStore.shapes as Shape[]),
-    shapeOrder: shallowCloneArray(docStore.shapeOrder),
+    paths: docStore.paths.map(path => ({ ...path, shapeOrder: shallowCloneArray(path.shapeOrder) })),
+    layers: docStore.layers.map(layer => ({ ...layer, style: { ...layer.style } })),
+    constraints: docStore.constraints,  // Constraints are replaced, never mutated
+    variables: docStore.variables,      // So are variables
+    booleans: docStore.booleans,        // And boolean outlines
     globalStretch: docStore.globalStretch,
-    closedPath: docStore.closedPath,
-    useStartPoint: docStore.useStartPoint,
-    useEndPoint: docStore.useEndPoint
+    units: docStore.units               // Units are replaced, never mutated
   }
   endMeasure('history.captureSnapshot')
   return snapshot
@@ -165,28 +263,49 @@ function captureSnapshot(): DocumentSnapshot {
 // Subscribe to document changes and auto-record history
 // Uses debouncing to batch rapid changes (like dragging)
 let debounceTimer: ReturnType<typeof setTimeout> | null = null
-let lastSnapshot: DocumentSnapshot | null = null
-let pendingSnapshot: DocumentSnapshot | null = null
 
 // Track last state references for quick comparison
 let lastShapesRef: Shape[] | null = null
-let lastOrderRef: string[] | null = null
+let lastPathsRef: PathConfig[] | null = null
+let lastLayersRef: Layer[] | null = null
+let lastConstraintsRef: Constraint[] | null = null
+let lastVariablesRef: Variable[] | null = null
+let lastBooleansRef: BooleanOutline[] | null = null
 let lastStretch: number | null = null
-let lastClosedPath: boolean | null = null
-let lastUseStartPoint: boolean | null = null
-let lastUseEndPoint: boolean | null = null
+let lastUnitsRef: DocumentUnits | null = null
+
+type TrackedDocument = ReturnType<typeof useDocumentStore.getState>
+
+// Remember the document's references as recorded (or restored)
+function trackDocument(state: TrackedDocument) {
+  lastShapesRef = state.shapes
+  lastPathsRef = state.paths
+  lastLayersRef = state.layers
+  lastConstraintsRef = state.constraints
+  lastVariablesRef = state.variables
+  lastBooleansRef = state.booleans
+  lastStretch = state.globalStretch
+  lastUnitsRef = state.units
+}
+
+// Record the change batch in progress now instead of when the debounce runs out
+function flushPendingChange() {
+  if (!debounceTimer) return
+  clearTimeout(debounceTimer)
+  recordPendingChange()
+}
+
+function recordPendingChange() {
+  debounceTimer = null
+  useHistoryStore.getState().record(captureSnapshot())
+  trackDocument(useDocumentStore.getState())
+}
 
 // Initialize the subscription
 export function initHistoryTracking() {
-  // Capture initial state
-  lastSnapshot = captureSnapshot()
-  const docStore = useDocumentStore.getState()
-  lastShapesRef = docStore.shapes
-  lastOrderRef = docStore.shapeOrder
-  lastStretch = docStore.globalStretch
-  lastClosedPath = docStore.closedPath
-  lastUseStartPoint = docStore.useStartPoint
-  lastUseEndPoint = docStore.useEndPoint
+  // The document as opened is the root of the tree
+  useHistoryStore.getState().reset(captureSnapshot())
+  trackDocument(useDocumentStore.getState())
   
   // Subscribe to document state changes (standard Zustand subscribe)
   const unsubscribe = useDocumentStore.subscribe((state) => {
@@ -196,45 +315,32 @@ export function initHistoryTracking() {
     if (historyState.isProgrammaticChange) return
     
     // Fast path: check reference equality first (most changes create new references)
+    // Any change to a path's order or settings replaces the paths array
     const shapesChanged = state.shapes !== lastShapesRef
-    const orderChanged = state.shapeOrder !== lastOrderRef
+    const pathsChanged = state.paths !== lastPathsRef
+    const layersChanged = state.layers !== lastLayersRef
+    const constraintsChanged = state.constraints !== lastConstraintsRef
+    const variablesChanged = state.variables !== lastVariablesRef
+    const booleansChanged = state.booleans !== lastBooleansRef
     const stretchChanged = state.globalStretch !== lastStretch
-    const closedPathChanged = state.closedPath !== lastClosedPath
-    const useStartPointChanged = state.useStartPoint !== lastUseStartPoint
-    const useEndPointChanged = state.useEndPoint !== lastUseEndPoint
+    const unitsChanged = state.units !== lastUnitsRef
     
     // If no references changed, no state changed
-    if (!shapesChanged && !orderChanged && !stretchChanged && !closedPathChanged && !useStartPointChanged && !useEndPointChanged) return
+    if (!shapesChanged && !pathsChanged && !layersChanged && !constraintsChanged && !variablesChanged && !booleansChanged && !stretchChanged && !unitsChanged) return
     
-    // Capture the previous state immediately if we haven't yet for this change batch
-    if (!pendingSnapshot && lastSnapshot) {
-      pendingSnapshot = lastSnapshot
-    }
-    
-    // Debounce rapid changes (for smooth dragging)
+    // Debounce rapid changes (for smooth dragging); the state after the
+    // batch becomes a child of the current entry
     if (debounceTimer) {
       clearTimeout(debounceTimer)
     }
-    
-    debounceTimer = setTimeout(() => {
-      // Push the state from before the change batch started
-      if (pendingSnapshot) {
-        useHistoryStore.getState().pushState(pendingSnapshot)
-        pendingSnapshot = null
-      }
-      // Update tracking for the next change batch
-      lastSnapshot = captureSnapshot()
-      lastShapesRef = state.shapes
-      lastOrderRef = state.shapeOrder
-      lastStretch = state.globalStretch
-      lastClosedPath = state.closedPath
-      lastUseStartPoint = state.useStartPoint
-      lastUseEndPoint = state.useEndPoint
-      debounceTimer = null
-    }, HISTORY_DEBOUNCE_MS)
+    debounceTimer = setTimeout(recordPendingChange, HISTORY_DEBOUNCE_MS)
   })
   
-  return unsubscribe
+  return () => {
+    unsubscribe()
+    if (debounceTimer) clearTimeout(debounceTimer)
+    debounceTimer = null
+  }
 }
 
 // Utility functions for external use
@@ -12,6 +12,12 @@ interface SettingsState {
   showGrid: boolean
   isolatePath: boolean  // When true, only show path (hide circles, grid, background)
   showSvgPreview: boolean  // Show/hide floating SVG preview window
+  showInspector: boolean   // Show the numeric inspector while shapes are selected
+  showDiagnostics: boolean // Show the diagnostics panel and highlight problems on the canvas
+  showHistory: boolean     // Show the undo history panel
+  showCentroid: boolean    // Mark the centroid of the active closed path
+  showArea: boolean        // Label the active closed path with its area
+  showInertia: boolean     // Draw the principal axes and inertia ellipse of the active closed path
   
   // Actions
   toggleSnap: () => void
@@ -25,6 +31,15 @@ interface SettingsState {
   setIsolatePath: (enabled: boolean) => void
   toggleSvgPreview: () => void
   setShowSvgPreview: (enabled: boolean) => void
+  toggleInspector: () => void
+  setShowInspector: (enabled: boolean) => void
+  toggleDiagnostics: () => void
+  setShowDiagnostics: (enabled: boolean) => void
+  toggleHistory: () => void
+  setShowHistory: (enabled: boolean) => void
+  toggleCentroid: () => void
+  toggleArea: () => void
+  toggleInertia: () => void
 }
 
 const MEASUREMENT_MODES: MeasurementMode[] = ['clean', 'detailed']
@@ -39,6 +54,12 @@ export const useSettingsStore = create<SettingsState>()(
       showGrid: true,
       isolatePath: false,
       showSvgPreview: true,
+      showInspector: true,
+      showDiagnostics: false,
+      showHistory: false,
+      showCentroid: false,
+      showArea: false,
+      showInertia: false,
       
       toggleSnap: () => set((state) => ({
         snapToGrid: !state.snapToGrid
@@ -74,7 +95,37 @@ export const useSettingsStore = create<SettingsState>()(
         showSvgPreview: !state.showSvgPreview
       })),
       
-      setShowSvgPreview: (enabled) => set({ showSvgPreview: enabled })
+      setShowSvgPreview: (enabled) => set({ showSvgPreview: enabled }),
+      
+      toggleInspector: () => set((state) => ({
+        showInspector: !state.showInspector
+      })),
+      
+      setShowInspector: (enabled) => set({ showInspector: enabled }),
+      
+      toggleDiagnostics: () => set((state) => ({
+        showDiagnostics: !state.showDiagnostics
+      })),
+      
+      setShowDiagnostics: (enabled) => set({ showDiagnostics: enabled }),
+      
+      toggleHistory: () => set((state) => ({
+        showHistory: !state.showHistory
+      })),
+      
+      setShowHistory: (enabled) => set({ showHistory: enabled }),
+      
+      toggleCentroid: () => set((state) => ({
+        showCentroid: !state.showCentroid
+      })),
+      
+      toggleArea: () => set((state) => ({
+        showArea: !state.showArea
+      })),
+      
+      toggleInertia: () => set((state) => ({
+        showInertia: !state.showInertia
+      }))
     }),
     {
       name: 'serpentine-settings',
@@ -85,7 +136,13 @@ export const useSettingsStore = create<SettingsState>()(
         gridSize: state.gridSize,
         measurementMode: state.measurementMode,
         showGrid: state.showGrid,
-        showSvgPreview: state.showSvgPreview
+        showSvgPreview: state.showSvgPreview,
+        showInspector: state.showInspector,
+        showDiagnostics: state.showDiagnostics,
+        showHistory: state.showHistory,
+        showCentroid: state.showCentroid,
+        showArea: state.showArea,
+        showInertia: state.showInertia
       })
     }
   )
@@ -13,28 +13,54 @@ export interface Rect {
 
 // Shape types
 export type Direction = 'cw' | 'ccw'  // Clockwise or counter-clockwise
+/**
+ * Kind of symmetry a mirror config produces:
+ * - dihedral: reflections across the planes plus the rotations between them
+ * - cyclic: rotations only, so every copy keeps the path's direction
+ */
+export type SymmetryType = 'dihedral' | 'cyclic'
+
 /**
  * Mirror configuration for N-way symmetry
- * - planeCount: number of reflection planes (0 = none, 1 = 2-way, 2 = 4-way, 3 = 6-way, etc.)
- * - startAngle: angle of first plane in radians (0 = vertical Y-axis)
+ * - planeCount: number of reflection planes (0 = none, 1 = 2-way, 2 = 4-way, 3 = 6-way, etc.);
+ *   for cyclic symmetry, the number of rotated sectors (2 = 2-fold, 3 = 3-fold, etc.)
+ * - startAngle: angle of first plane in radians (0 = vertical Y-axis); for cyclic
+ *   symmetry, the angle of the first sector boundary
+ * - origin: point every plane passes through (the world origin if unset)
+ * - symmetry: dihedral when unset
  * 
- * With N planes equally spaced, we get 2N-fold dihedral symmetry (2N-1 mirror copies)
+ * With N planes equally spaced, we get 2N-fold dihedral symmetry (2N-1 mirror copies);
+ * N-fold cyclic symmetry gives N-1 rotated copies
  */
 export interface MirrorConfig {
   planeCount: number
   startAngle: number
+  origin?: Point
+  symmetry?: SymmetryType
 }
 
+/**
+ * Non-destructive repetition of a set of a path's shapes (`shapeIds`).
+ * `count` is the number of instances, the originals included:
+ * - linear: instances `spacing` apart in the direction `angle` (radians, 0 = +X)
+ * - radial: instances `angle` apart (radians, positive = clockwise on screen), rotated about `center`
+ */
+export type ArrayConfig =
+  | { type: 'linear'; shapeIds: string[]; count: number; spacing: number; angle: number }
+  | { type: 'radial'; shapeIds: string[]; count: number; angle: number; center: Point }
+
+export type ArrayType = ArrayConfig['type']
+
 // Legacy type alias for backwards compatibility
 export type MirrorAxis = 'vertical' | 'horizontal' | 'both'
 
-export interface CircleShape {
-  id: string
-  type: 'circle'
-  name: string
-  center: Point
-  radius: number
-  direction: Direction  // Direction the path travels around this circle
+/**
+ * Settings shared by every shape the path can wrap around.
+ * The "angle" of a contact point is always the outward normal direction at that
+ * point, which for circles is simply the angle from the center.
+ */
+export interface TangentGeneratorProps {
+  direction: Direction  // Direction the path travels around this shape
   // Stretch: deforms the circular arc into an elliptical arc
   // 0 = circular arc (no stretch)
   // Positive = MORE elongated perpendicular to chord (more bulge)
@@ -50,16 +76,176 @@ export interface CircleShape {
   // 1.0 = default smooth curve, <1 = tighter curve, >1 = more extended curve
   entryTangentLength?: number  // Multiplier for entry tangent control point distance
   exitTangentLength?: number   // Multiplier for exit tangent control point distance
+  // Curvature blend: eases the connectors on either side of this shape's arc into it
+  // with curvature-continuous (G2) beziers instead of jumping from 0 to 1/r
+  // 0 / undefined = plain tangent join, 1 = longest blend
+  curvatureBlend?: number
   // Mirror: when enabled, creates a virtual mirrored circle across the vertical axis
   // The mirrored circle is inserted after all originals in reverse order
   mirrored?: boolean
+  // Seam: the path crosses a mirror plane here, from this (mirrored) shape to its own copy
+  // undefined = not a seam; the path crosses after its last shape and merges copies that coincide
+  seam?: SeamMode
+}
+
+/**
+ * How the path crosses a mirror plane at a seam shape:
+ * - cross: a straight connector across the plane joins the shape to its copy
+ * - wrap: the shape sits on the plane and the path wraps it once (its copy is merged into it)
+ */
+export type SeamMode = 'cross' | 'wrap'
+
+/**
+ * Anything that lives on a layer (shapes and paths).
+ * Items without a layer belong to the document's first layer.
+ */
+export interface LayerMember {
+  layerId?: string
+}
+
+/**
+ * Circle properties that can be driven by an expression over the document's
+ * variables. Expressions are in display units: lengths in the document unit,
+ * offsets in degrees, stretch in percent.
+ */
+export type ExpressionField = 'centerX' | 'centerY' | 'radius' | 'entryOffset' | 'exitOffset' | 'stretch'
+
+export interface CircleShape extends TangentGeneratorProps, LayerMember {
+  id: string
+  type: 'circle'
+  name: string
+  center: Point
+  radius: number
+  expressions?: Partial<Record<ExpressionField, string>>  // Fields bound to expressions
+}
+
+export interface EllipseShape extends TangentGeneratorProps, LayerMember {
+  id: string
+  type: 'ellipse'
+  name: string
+  center: Point
+  radiusX: number   // Semi-axis along the (rotated) local X axis
+  radiusY: number   // Semi-axis along the (rotated) local Y axis
+  rotation: number  // Rotation of the local X axis in radians
+}
+
+/**
+ * A convex polygon with rounded corners, wrapped as a single generator.
+ * Geometrically it is the convex hull of its corner circles. The outline is
+ * fixed, so stretch does not apply to it.
+ */
+export interface RoundedPolygonShape extends TangentGeneratorProps, LayerMember {
+  id: string
+  type: 'rounded-polygon'
+  name: string
+  center: Point
+  polygon: 'regular' | 'rect'  // Regular N-gon or rectangle
+  sides: number          // Number of sides (regular polygons only, >= 3)
+  circumradius: number   // Center to (unrounded) vertex distance (regular polygons only)
+  width: number          // Outer width (rectangles only)
+  height: number         // Outer height (rectangles only)
+  cornerRadius: number   // Radius of the rounded corners (clamped to fit the polygon)
+  rotation: number       // Rotation in radians
+}
+
+/**
+ * A zero-radius generator the path passes through exactly, giving a sharp
+ * corner. A positive fillet rounds that corner with an arc of the given radius
+ * tangent to both neighbouring connectors.
+ */
+export interface PinShape extends TangentGeneratorProps, LayerMember {
+  id: string
+  type: 'pin'
+  name: string
+  center: Point
+  fillet: number  // Corner fillet radius (0 = sharp corner)
 }
 
-// Extensible for Phase 2: ellipses, rounded polygons, etc.
-export type Shape = CircleShape
+export type Shape = CircleShape | EllipseShape | RoundedPolygonShape | PinShape
 
 export type ShapeType = Shape['type']
 
+/**
+ * One outline in the document: an ordered list of shape references with its
+ * own end and mirror settings. A shape can be referenced by several paths.
+ */
+export interface PathConfig extends LayerMember {
+  id: string
+  name: string
+  shapeOrder: string[]
+  closedPath: boolean     // Whether the path loops back to start
+  useStartPoint: boolean  // Whether to use tangent point on first shape (when not looping)
+  useEndPoint: boolean    // Whether to use tangent point on last shape (when not looping)
+  mirrorConfig: MirrorConfig
+  arrayConfig?: ArrayConfig  // Repeated copies of some of its shapes (none when unset)
+  offsets?: number[]      // Offset outlines to draw and export, in world units (positive = outward)
+}
+
+/**
+ * How a boolean outline combines its paths' outlines
+ */
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude'
+
+/**
+ * An outline derived from closed paths by a boolean operation, recomputed
+ * whenever they change. Subtract removes every later path from the first.
+ */
+export interface BooleanOutline extends LayerMember {
+  id: string
+  name: string
+  operation: BooleanOperation
+  pathIds: string[]       // Operand paths, in order
+}
+
+/**
+ * How a layer's paths are drawn and exported. Unset values use the defaults
+ * (theme/export stroke color, no fill, default width).
+ */
+export interface LayerStyle {
+  stroke?: string       // Path stroke color
+  fill?: string         // Path fill color
+  strokeWidth?: number  // Multiplier on the default stroke width
+}
+
+/**
+ * A group of shapes and paths that are shown, locked and styled together
+ */
+export interface Layer {
+  id: string
+  name: string
+  visible: boolean  // Hidden layers are not drawn, hit tested or exported
+  locked: boolean   // Locked layers are drawn but cannot be selected or dragged on the canvas
+  style: LayerStyle
+}
+
+/**
+ * Relationship between shapes that the editor keeps satisfied while editing
+ * - tangent: two circles touch (outside each other, or inside when `internal`)
+ * - distance: center distance equals `value`
+ * - equal-radius: two circles have the same radius
+ * - horizontal: centers have the same Y
+ * - on-mirror-plane: a center lies on the nearest mirror plane of its path
+ */
+export type ConstraintType = 'tangent' | 'distance' | 'equal-radius' | 'horizontal' | 'on-mirror-plane'
+
+export interface Constraint {
+  id: string
+  type: ConstraintType
+  shapeIds: string[]   // Two shapes, or one for 'on-mirror-plane'
+  value?: number       // Center distance in world units ('distance' only)
+  internal?: boolean   // The smaller circle touches the inside of the larger ('tangent' only)
+}
+
+/**
+ * A named document parameter (e.g. scaleLength = 648). The expression may
+ * refer to other variables.
+ */
+export interface Variable {
+  id: string
+  name: string
+  expression: string
+}
+
 // Path computation types
 export interface LineSegment {
   type: 'line'
@@ -119,6 +305,7 @@ export type DragMode =
   | 'tangent-entry-length'
   | 'tangent-exit-length'
   | 'marquee'
+  | 'mirror-origin'
   | null
 
 // Marquee selection mode: how the selection should be modified
@@ -153,6 +340,18 @@ export interface DragState {
 // Settings types
 export type MeasurementMode = 'clean' | 'detailed'
 
+// Real-world length units a document can be measured in
+export type LengthUnit = 'mm' | 'cm' | 'inch' | 'px'
+
+/**
+ * How world coordinates map to real lengths: one world unit is `scale` of
+ * `unit` (e.g. unit 'mm' with scale 0.5 draws 1 mm per 2 world units)
+ */
+export interface DocumentUnits {
+  unit: LengthUnit
+  scale: number
+}
+
 // File format types
 export interface SerpentineDocument {
   version: number
@@ -167,13 +366,35 @@ export interface SerpentineDocument {
     useStartPoint?: boolean // Whether to use tangent point on first circle (when not looping)
     useEndPoint?: boolean   // Whether to use tangent point on last circle (when not looping)
     mirrorConfig?: MirrorConfig  // Mirror configuration (planeCount + startAngle)
+    units?: LengthUnit      // Unit measurements are shown in (default px)
+    unitScale?: number      // Length of one world unit in that unit (default 1)
   }
   viewport?: {
     pan: Point
     zoom: number
   }
   shapes: Shape[]
+  pathOrder: string[]  // Order of the first path (kept so older versions can still open the file)
+  paths?: SerpentineDocumentPath[]
+  layers?: Layer[]
+  constraints?: Constraint[]
+  variables?: Variable[]
+  booleans?: BooleanOutline[]
+}
+
+/**
+ * A path as stored in a .serpentine file
+ */
+export interface SerpentineDocumentPath extends LayerMember {
+  id: string
+  name: string
   pathOrder: string[]
+  closedPath?: boolean
+  useStartPoint?: boolean
+  useEndPoint?: boolean
+  mirrorConfig?: MirrorConfig
+  arrayConfig?: ArrayConfig
+  offsets?: number[]
 }
 
 // Re-export theme types
@@ -199,5 +420,6 @@ export type HoverTarget =
   | { type: 'exit-offset-slot'; shapeId: string }
   | { type: 'entry-length-slot'; shapeId: string }
   | { type: 'exit-length-slot'; shapeId: string }
+  | { type: 'mirror-origin' }
   | null
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import type { PathSegment } from '../types'
+import { pathSegmentsToDxf } from './dxf'
+
+interface Group {
+  code: number
+  value: string
+}
+
+/**
+ * Split a DXF file into its group code / value pairs
+ */
+function parseGroups(dxf: string): Group[] {
+  const lines = dxf.trimEnd().split('\n')
+  expect(lines.length % 2).toBe(0)
+  const groups: Group[] = []
+  for (let i = 0; i < lines.length; i += 2) {
+    groups.push({ code: Number(lines[i]), value: lines[i + 1] })
+  }
+  return groups
+}
+
+/**
+ * Objects of one section, each as the groups from its 0 group to the next
+ */
+function sectionObjects(groups: Group[], name: string): Group[][] {
+  const start = groups.findIndex((g, i) => g.code === 2 && g.value === name && groups[i - 1]?.value === 'SECTION')
+  expect(start).toBeGreaterThan(0)
+  const objects: Group[][] = []
+  for (let i = start + 1; groups[i].value !== 'ENDSEC' || groups[i].code !== 0; i++) {
+    if (groups[i].code === 0) objects.push([])
+    objects[objects.length - 1].push(groups[i])
+  }
+  return objects
+}
+
+const valuesOf = (object: Group[], code: number) => object.filter(g => g.code === code).map(g => g.value)
+
+const segments: PathSegment[] = [
+  { type: 'line', start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 100 },
+  { type: 'arc', center: { x: 100, y: 50 }, radius: 50, startAngle: -Math.PI / 2, endAngle: Math.PI / 2, counterclockwise: false, length: 50 * Math.PI },
+  { type: 'arc', center: { x: 0, y: 0 }, radius: 10, startAngle: 0, endAngle: 0, counterclockwise: false, length: 20 * Math.PI },
+  {
+    type: 'ellipse-arc', center: { x: 50, y: 100 }, radiusX: 40, radiusY: 20, rotation: 0.3,
+    startAngle: 0, endAngle: Math.PI, counterclockwise: false, length: 100
+  },
+  { type: 'bezier', start: { x: 0, y: 100 }, cp1: { x: 0, y: 50 }, cp2: { x: 10, y: 10 }, end: { x: 0, y: 0 }, length: 100 }
+]
+
+describe('pathSegmentsToDxf', () => {
+  const dxf = pathSegmentsToDxf(
+    [{ segments, layer: 'Body' }, { segments: segments.slice(0, 1), layer: 'Reference' }],
+    'mm'
+  )
+  const groups = parseGroups(dxf)
+
+  it('writes the R2000 sections in order and ends with EOF', () => {
+    const sections = groups.filter((g, i) => g.code === 2 && groups[i - 1]?.value === 'SECTION').map(g => g.value)
+    expect(sections).toEqual(['HEADER', 'CLASSES', 'TABLES', 'BLOCKS', 'ENTITIES', 'OBJECTS'])
+    expect(groups[groups.length - 1]).toEqual({ code: 0, value: 'EOF' })
+  })
+
+  it('declares R2000, the units and a handle seed above every handle', () => {
+    const header = groups.map(g => g.value)
+    expect(header[header.indexOf('$ACADVER') + 1]).toBe('AC1015')
+    expect(header[header.indexOf('$INSUNITS') + 1]).toBe('4')
+
+    const handles = groups.filter(g => g.code === 5 || g.code === 105).map(g => parseInt(g.value, 16))
+    const seed = handles[0]
+    const objectHandles = handles.slice(1)
+    expect(groups[groups.findIndex(g => g.value === '$HANDSEED') + 1].code).toBe(5)
+    expect(new Set(objectHandles).size).toBe(objectHandles.length)
+    expect(Math.max(...objectHandles)).toBeLessThan(seed)
+  })
+
+  it('has the standard tables, with a layer for every path layer', () => {
+    const tables = sectionObjects(groups, 'TABLES').filter(object => object[0].value === 'TABLE')
+    expect(tables.map(table => valuesOf(table, 2)[0])).toEqual(
+      ['VPORT', 'LTYPE', 'LAYER', 'STYLE', 'VIEW', 'UCS', 'APPID', 'DIMSTYLE', 'BLOCK_RECORD']
+    )
+    for (const table of tables) expect(valuesOf(table, 100)).toContain('AcDbSymbolTable')
+
+    const layers = sectionObjects(groups, 'TABLES').filter(object => object[0].value === 'LAYER')
+    expect(layers.map(layer => valuesOf(layer, 2)[0])).toEqual(['0', 'Body', 'Reference'])
+    for (const layer of layers) {
+      expect(valuesOf(layer, 100)).toEqual(['AcDbSymbolTableRecord', 'AcDbLayerTableRecord'])
+    }
+  })
+
+  it('owns every entity by the model space block record, with subclass markers', () => {
+    const records = sectionObjects(groups, 'TABLES').filter(object => object[0].value === 'BLOCK_RECORD')
+    const modelSpace = records.find(record => valuesOf(record, 2)[0] === '*Model_Space')!
+    const modelSpaceHandle = valuesOf(modelSpace, 5)[0]
+
+    const blocks = sectionObjects(groups, 'BLOCKS')
+    expect(blocks.map(block => block[0].value)).toEqual(['BLOCK', 'ENDBLK', 'BLOCK', 'ENDBLK'])
+    expect(valuesOf(blocks[0], 330)).toEqual([modelSpaceHandle])
+
+    const entities = sectionObjects(groups, 'ENTITIES')
+    expect(entities.map(entity => entity[0].value)).toEqual(['LINE', 'ARC', 'CIRCLE', 'ELLIPSE', 'SPLINE', 'LINE'])
+    const subclasses: Record<string, string[]> = {
+      LINE: ['AcDbEntity', 'AcDbLine'],
+      ARC: ['AcDbEntity', 'AcDbCircle', 'AcDbArc'],
+      CIRCLE: ['AcDbEntity', 'AcDbCircle'],
+      ELLIPSE: ['AcDbEntity', 'AcDbEllipse'],
+      SPLINE: ['AcDbEntity', 'AcDbSpline']
+    }
+    for (const entity of entities) {
+      expect(valuesOf(entity, 5)).toHaveLength(1)
+      expect(valuesOf(entity, 330)).toEqual([modelSpaceHandle])
+      expect(valuesOf(entity, 100)).toEqual(subclasses[entity[0].value])
+    }
+    expect(entities.map(entity => valuesOf(entity, 8)[0])).toEqual(['Body', 'Body', 'Body', 'Body', 'Body', 'Reference'])
+  })
+
+  it('ends with a root dictionary holding the group dictionary', () => {
+    const objects = sectionObjects(groups, 'OBJECTS')
+    expect(objects.map(object => object[0].value)).toEqual(['DICTIONARY', 'DICTIONARY'])
+    const [root, groupDictionary] = objects
+    expect(valuesOf(root, 330)).toEqual(['0'])
+    expect(valuesOf(root, 3)).toEqual(['ACAD_GROUP'])
+    expect(valuesOf(root, 350)).toEqual(valuesOf(groupDictionary, 5))
+    expect(valuesOf(groupDictionary, 330)).toEqual(valuesOf(root, 5))
+  })
+})
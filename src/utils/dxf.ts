@@ -0,0 +1,372 @@
+import type { DocumentUnits, Point, PathSegment } from '../types'
+import { DEFAULT_UNITS, toMillimeters } from './units'
+import { normalizeAngle } from '../geometry/math'
+import { MM_PER_INCH } from '../constants'
+
+/**
+ * DXF Writer
+ *
+ * Writes paths as an AutoCAD R2000 (AC1015) drawing. R2000 readers expect
+ * more than the entities: every object carries a handle (group 5) and its
+ * owner's handle (330), entities and table records are tagged with their
+ * subclasses (group 100), and the file has the standard symbol tables, the
+ * model and paper space blocks and a root dictionary. This writes the
+ * smallest set of those that AutoCAD opens without repairs.
+ */
+
+export type DxfUnits = 'mm' | 'inch'
+
+/**
+ * A path to write as DXF entities, on the named DXF layer
+ */
+export interface DxfPath {
+  segments: PathSegment[]
+  layer: string
+}
+
+/**
+ * Units a DXF export uses by default: inches for inch documents, millimeters
+ * for everything else
+ */
+export function defaultDxfUnits(units: DocumentUnits): DxfUnits {
+  return units.unit === 'inch' ? 'inch' : 'mm'
+}
+
+/**
+ * Short name of DXF units for labels
+ */
+export function dxfUnitsLabel(units: DxfUnits): string {
+  return units === 'inch' ? 'in' : 'mm'
+}
+
+// $INSUNITS codes
+const INSUNITS = { mm: 4, inch: 1 } as const
+// Color 7 (white on dark backgrounds, black on light) for every layer
+const LAYER_COLOR = 7
+
+type GroupWriter = (code: number, value: string | number) => void
+
+/**
+ * Format a DXF number without exponent notation or trailing zeros
+ */
+function formatDxfNumber(value: number): string {
+  const fixed = value.toFixed(6).replace(/\.?0+$/, '')
+  return fixed === '-0' ? '0' : fixed
+}
+
+/**
+ * Group code writer appending to a list of lines
+ */
+function groupWriter(lines: string[]): GroupWriter {
+  return (code, value) => {
+    lines.push(String(code), typeof value === 'number' ? formatDxfNumber(value) : value)
+  }
+}
+
+/**
+ * Convert path segments to a DXF file. Arcs become ARC (or CIRCLE when they
+ * go all the way round), lines LINE, stretched arcs ELLIPSE and beziers
+ * cubic SPLINE entities, so nothing is flattened. Each distinct layer name
+ * gets a LAYER table entry.
+ *
+ * Coordinates are converted from world units to the given units through the
+ * document's units and the Y axis is flipped, since DXF Y points up. That flip turns every clockwise
+ * screen arc into a counterclockwise DXF one with its ends swapped.
+ */
+export function pathSegmentsToDxf(paths: DxfPath[], units: DxfUnits, documentUnits: DocumentUnits = DEFAULT_UNITS): string {
+  const scale = toMillimeters(1, documentUnits) / (units === 'mm' ? 1 : MM_PER_INCH)
+  let nextHandle = 1
+  const newHandle = () => (nextHandle++).toString(16).toUpperCase()
+
+  // Handles of the objects others refer to, allocated up front
+  const rootDictionary = newHandle()
+  const groupDictionary = newHandle()
+  const blockRecordTable = newHandle()
+  const modelSpace = newHandle()
+  const paperSpace = newHandle()
+
+  // ==========================================================================
+  // ENTITIES
+  // ==========================================================================
+
+  const entityLines: string[] = []
+  const group = groupWriter(entityLines)
+  const point = (code: number, p: Point) => {
+    group(code, p.x * scale)
+    group(code + 10, -p.y * scale)
+    group(code + 20, 0)
+  }
+  const degrees = (radians: number) => (normalizeAngle(radians) * 180) / Math.PI
+  const entity = (type: string, layer: string, subclass: string) => {
+    group(0, type)
+    group(5, newHandle())
+    group(330, modelSpace)
+    group(100, 'AcDbEntity')
+    group(8, layer)
+    group(100, subclass)
+  }
+
+  for (const { segments, layer } of paths) {
+    for (const seg of segments) {
+      if (seg.type === 'line') {
+        entity('LINE', layer, 'AcDbLine')
+        point(10, seg.start)
+        point(11, seg.end)
+
+      } else if (seg.type === 'arc') {
+        // Length carries the sweep, which also covers full circles
+        const sweep = seg.radius > 0 ? seg.length / seg.radius : 0
+        if (sweep >= Math.PI * 2 - 1e-9) {
+          entity('CIRCLE', layer, 'AcDbCircle')
+          point(10, seg.center)
+          group(40, seg.radius * scale)
+          continue
+        }
+        // DXF arcs run counterclockwise (Y up) from the start to the end angle
+        const endAngle = seg.startAngle + (seg.counterclockwise ? -sweep : sweep)
+        const [from, to] = seg.counterclockwise ? [seg.startAngle, endAngle] : [endAngle, seg.startAngle]
+        entity('ARC', layer, 'AcDbCircle')
+        point(10, seg.center)
+        group(40, seg.radius * scale)
+        group(100, 'AcDbArc')
+        group(50, degrees(-from))
+        group(51, degrees(-to))
+
+      } else if (seg.type === 'ellipse-arc') {
+        let sweep = seg.counterclockwise
+          ? normalizeAngle(seg.startAngle - seg.endAngle)
+          : normalizeAngle(seg.endAngle - seg.startAngle)
+        if (sweep === 0 && seg.length > 0) sweep = Math.PI * 2
+
+        // Flipping Y negates the rotation and the parameter
+        const rotation = -seg.rotation
+        // The major axis may be the local Y axis, which shifts the parameter
+        const majorIsX = seg.radiusX >= seg.radiusY
+        const major = majorIsX ? seg.radiusX : seg.radiusY
+        const majorAngle = majorIsX ? rotation : rotation + Math.PI / 2
+        const from = normalizeAngle(
+          (seg.counterclockwise ? -seg.startAngle : -seg.startAngle - sweep) - (majorIsX ? 0 : Math.PI / 2)
+        )
+
+        entity('ELLIPSE', layer, 'AcDbEllipse')
+        point(10, seg.center)
+        // Major axis end point relative to the center (already in DXF orientation)
+        group(11, Math.cos(majorAngle) * major * scale)
+        group(21, Math.sin(majorAngle) * major * scale)
+        group(31, 0)
+        group(40, Math.min(seg.radiusX, seg.radiusY) / major)
+        group(41, sweep >= Math.PI * 2 ? 0 : from)
+        group(42, sweep >= Math.PI * 2 ? Math.PI * 2 : normalizeAngle(from + sweep))
+
+      } else if (seg.type === 'bezier') {
+        // A single cubic bezier is a clamped degree 3 B-spline
+        entity('SPLINE', layer, 'AcDbSpline')
+        group(70, 8)  // Planar
+        group(71, 3)  // Degree
+        group(72, 8)  // Knots
+        group(73, 4)  // Control points
+        group(74, 0)  // Fit points
+        for (const knot of [0, 0, 0, 0, 1, 1, 1, 1]) group(40, knot)
+        for (const p of [seg.start, seg.cp1, seg.cp2, seg.end]) point(10, p)
+      }
+    }
+  }
+
+  // ==========================================================================
+  // TABLES
+  // ==========================================================================
+
+  const tableLines: string[] = []
+  const tableGroup = groupWriter(tableLines)
+
+  /**
+   * A symbol table with its records; each record writes its own fields after
+   * the common ones. DIMSTYLE records put their handle in group 105.
+   */
+  const table = (
+    name: string,
+    records: { subclass: string, write: (g: GroupWriter) => void }[],
+    handle: string = newHandle()
+  ) => {
+    tableGroup(0, 'TABLE')
+    tableGroup(2, name)
+    tableGroup(5, handle)
+    tableGroup(330, '0')
+    tableGroup(100, 'AcDbSymbolTable')
+    tableGroup(70, records.length)
+    if (name === 'DIMSTYLE') tableGroup(100, 'AcDbDimStyleTable')
+    for (const record of records) {
+      tableGroup(0, name)
+      tableGroup(name === 'DIMSTYLE' ? 105 : 5, newHandle())
+      tableGroup(330, handle)
+      tableGroup(100, 'AcDbSymbolTableRecord')
+      tableGroup(100, record.subclass)
+      record.write(tableGroup)
+    }
+    tableGroup(0, 'ENDTAB')
+  }
+
+  const linetype = (name: string, description: string) => ({
+    subclass: 'AcDbLinetypeTableRecord',
+    write: (g: GroupWriter) => {
+      g(2, name)
+      g(70, 0)
+      g(3, description)
+      g(72, 65)
+      g(73, 0)
+      g(40, 0)
+    }
+  })
+  const layerNames = [...new Set(['0', ...paths.map(path => path.layer)])]
+
+  table('VPORT', [{
+    subclass: 'AcDbViewportTableRecord',
+    write: (g) => {
+      g(2, '*Active')
+      g(70, 0)
+      g(10, 0); g(20, 0)
+      g(11, 1); g(21, 1)
+      g(12, 0); g(22, 0)
+      g(40, 100)
+      g(41, 1)
+    }
+  }])
+  table('LTYPE', [linetype('ByBlock', ''), linetype('ByLayer', ''), linetype('Continuous', 'Solid line')])
+  table('LAYER', layerNames.map(name => ({
+    subclass: 'AcDbLayerTableRecord',
+    write: (g: GroupWriter) => {
+      g(2, name)
+      g(70, 0)
+      g(62, LAYER_COLOR)
+      g(6, 'Continuous')
+    }
+  })))
+  table('STYLE', [{
+    subclass: 'AcDbTextStyleTableRecord',
+    write: (g) => {
+      g(2, 'Standard')
+      g(70, 0)
+      g(40, 0)
+      g(41, 1)
+      g(50, 0)
+      g(71, 0)
+      g(42, 2.5)
+      g(3, 'txt')
+      g(4, '')
+    }
+  }])
+  table('VIEW', [])
+  table('UCS', [])
+  table('APPID', [{
+    subclass: 'AcDbRegAppTableRecord',
+    write: (g) => {
+      g(2, 'ACAD')
+      g(70, 0)
+    }
+  }])
+  table('DIMSTYLE', [{
+    subclass: 'AcDbDimStyleTableRecord',
+    write: (g) => {
+      g(2, 'Standard')
+      g(70, 0)
+    }
+  }])
+
+  // Block records are written by hand: their handles are already taken
+  tableGroup(0, 'TABLE')
+  tableGroup(2, 'BLOCK_RECORD')
+  tableGroup(5, blockRecordTable)
+  tableGroup(330, '0')
+  tableGroup(100, 'AcDbSymbolTable')
+  tableGroup(70, 2)
+  for (const [name, handle] of [['*Model_Space', modelSpace], ['*Paper_Space', paperSpace]]) {
+    tableGroup(0, 'BLOCK_RECORD')
+    tableGroup(5, handle)
+    tableGroup(330, blockRecordTable)
+    tableGroup(100, 'AcDbSymbolTableRecord')
+    tableGroup(100, 'AcDbBlockTableRecord')
+    tableGroup(2, name)
+  }
+  tableGroup(0, 'ENDTAB')
+
+  // ==========================================================================
+  // BLOCKS
+  // ==========================================================================
+
+  const blockLines: string[] = []
+  const blockGroup = groupWriter(blockLines)
+  for (const [name, owner] of [['*Model_Space', modelSpace], ['*Paper_Space', paperSpace]]) {
+    blockGroup(0, 'BLOCK')
+    blockGroup(5, newHandle())
+    blockGroup(330, owner)
+    blockGroup(100, 'AcDbEntity')
+    blockGroup(8, '0')
+    blockGroup(100, 'AcDbBlockBegin')
+    blockGroup(2, name)
+    blockGroup(70, 0)
+    blockGroup(10, 0)
+    blockGroup(20, 0)
+    blockGroup(30, 0)
+    blockGroup(3, name)
+    blockGroup(1, '')
+    blockGroup(0, 'ENDBLK')
+    blockGroup(5, newHandle())
+    blockGroup(330, owner)
+    blockGroup(100, 'AcDbEntity')
+    blockGroup(8, '0')
+    blockGroup(100, 'AcDbBlockEnd')
+  }
+
+  // ==========================================================================
+  // OBJECTS
+  // ==========================================================================
+
+  const objectLines: string[] = []
+  const objectGroup = groupWriter(objectLines)
+  objectGroup(0, 'DICTIONARY')
+  objectGroup(5, rootDictionary)
+  objectGroup(330, '0')
+  objectGroup(100, 'AcDbDictionary')
+  objectGroup(281, 1)
+  objectGroup(3, 'ACAD_GROUP')
+  objectGroup(350, groupDictionary)
+  objectGroup(0, 'DICTIONARY')
+  objectGroup(5, groupDictionary)
+  objectGroup(330, rootDictionary)
+  objectGroup(100, 'AcDbDictionary')
+  objectGroup(281, 1)
+
+  // ==========================================================================
+  // FILE
+  // ==========================================================================
+
+  const lines: string[] = []
+  const fileGroup = groupWriter(lines)
+  const section = (name: string, body: string[]) => {
+    fileGroup(0, 'SECTION')
+    fileGroup(2, name)
+    lines.push(...body)
+    fileGroup(0, 'ENDSEC')
+  }
+
+  // Every handle is allocated by now, so the seed can follow them
+  const headerLines: string[] = []
+  const headerGroup = groupWriter(headerLines)
+  headerGroup(9, '$ACADVER')
+  headerGroup(1, 'AC1015')
+  headerGroup(9, '$HANDSEED')
+  headerGroup(5, newHandle())
+  headerGroup(9, '$INSUNITS')
+  headerGroup(70, INSUNITS[units])
+  headerGroup(9, '$MEASUREMENT')
+  headerGroup(70, units === 'mm' ? 1 : 0)
+
+  section('HEADER', headerLines)
+  section('CLASSES', [])
+  section('TABLES', tableLines)
+  section('BLOCKS', blockLines)
+  section('ENTITIES', entityLines)
+  section('OBJECTS', objectLines)
+  fileGroup(0, 'EOF')
+  return lines.join('\n') + '\n'
+}
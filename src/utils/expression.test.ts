@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateExpression, isValidIdentifier, expressionIdentifiers, renameIdentifier, parseFieldEdit, applyFieldEdit
+} from './expression'
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence and associativity', () => {
+    expect(evaluateExpression('1 + 2 * 3')).toBe(7)
+    expect(evaluateExpression('(1 + 2) * 3')).toBe(9)
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3)
+    expect(evaluateExpression('24 / 4 / 2')).toBe(3)
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512)
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4)
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5)
+    expect(evaluateExpression('--3')).toBe(3)
+  })
+
+  it('reads decimals and exponents', () => {
+    expect(evaluateExpression('.5 + 1.25')).toBe(1.75)
+    expect(evaluateExpression('1e3 / 2.5E-1')).toBe(4000)
+  })
+
+  it('looks up variables in scope', () => {
+    expect(evaluateExpression('0.55 * scaleLength', { scaleLength: 648 })).toBeCloseTo(356.4, 12)
+    expect(evaluateExpression('a_1 + b', { a_1: 2, b: 3 })).toBe(5)
+  })
+
+  it('rejects malformed input, unknown variables and non-finite results', () => {
+    expect(() => evaluateExpression('')).toThrow('Expected a number at position 1')
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"')
+    expect(() => evaluateExpression('1 2')).toThrow('Unexpected "2" at position 3')
+    expect(() => evaluateExpression('width * 2')).toThrow('Unknown variable "width"')
+    expect(() => evaluateExpression('1 / 0')).toThrow('Result is not a finite number')
+    // Inherited object properties are not variables
+    expect(() => evaluateExpression('toString')).toThrow('Unknown variable "toString"')
+  })
+})
+
+describe('identifiers', () => {
+  it('accepts names that start with a letter or _', () => {
+    expect(isValidIdentifier('width')).toBe(true)
+    expect(isValidIdentifier('_r2')).toBe(true)
+    expect(isValidIdentifier('2r')).toBe(false)
+    expect(isValidIdentifier('a-b')).toBe(false)
+    expect(isValidIdentifier('')).toBe(false)
+  })
+
+  it('lists referenced names without taking exponents for names', () => {
+    expect(expressionIdentifiers('a + 1e3 * (b2 - a)')).toEqual(['a', 'b2', 'a'])
+  })
+
+  it('renames whole references only', () => {
+    expect(renameIdentifier('r + r2 * (r)', 'r', 'radius')).toBe('radius + r2 * (radius)')
+  })
+})
+
+describe('field edits', () => {
+  it('parses absolute and relative edits', () => {
+    expect(parseFieldEdit('  ')).toBeNull()
+    expect(parseFieldEdit('120/2')).toEqual({ kind: 'absolute', value: 60, expression: '120/2' })
+    expect(parseFieldEdit('= -20')).toEqual({ kind: 'absolute', value: -20, expression: '-20' })
+    expect(parseFieldEdit('-5')).toEqual({ kind: 'relative', op: '-', value: 5 })
+    expect(parseFieldEdit('*w', { w: 3 })).toEqual({ kind: 'relative', op: '*', value: 3 })
+  })
+
+  it('applies edits to the current value', () => {
+    expect(applyFieldEdit({ kind: 'absolute', value: 7, expression: '7' }, 100)).toBe(7)
+    expect(applyFieldEdit({ kind: 'relative', op: '+', value: 5 }, 10)).toBe(15)
+    expect(applyFieldEdit({ kind: 'relative', op: '/', value: 4 }, 10)).toBe(2.5)
+    // Dividing by zero leaves the value alone
+    expect(applyFieldEdit({ kind: 'relative', op: '/', value: 0 }, 10)).toBe(10)
+  })
+})
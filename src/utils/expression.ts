@@ -0,0 +1,173 @@
+// ============================================================================
+// ARITHMETIC EXPRESSIONS
+// ============================================================================
+
+const IDENTIFIER_RE = /[A-Za-z_][A-Za-z0-9_]*/
+const NUMBER_RE = /(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/
+
+/**
+ * Evaluate an arithmetic expression with + - * / ^, parentheses, unary signs
+ * and named variables from `scope` (e.g. "120/2", "0.55 * scaleLength").
+ * Throws on malformed input, an unknown variable or a non-finite result.
+ */
+export function evaluateExpression(text: string, scope: Record<string, number> = {}): number {
+  let pos = 0
+
+  const skipSpaces = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+  }
+
+  const peek = (): string => {
+    skipSpaces()
+    return text[pos] ?? ''
+  }
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1}`)
+  }
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm()
+    while (peek() === '+' || peek() === '-') {
+      const op = text[pos++]
+      const rhs = parseTerm()
+      value = op === '+' ? value + rhs : value - rhs
+    }
+    return value
+  }
+
+  // term := unary (('*' | '/') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary()
+    while (peek() === '*' || peek() === '/') {
+      const op = text[pos++]
+      const rhs = parseUnary()
+      value = op === '*' ? value * rhs : value / rhs
+    }
+    return value
+  }
+
+  // unary := ('+' | '-') unary | power
+  const parseUnary = (): number => {
+    const c = peek()
+    if (c === '+' || c === '-') {
+      pos++
+      const value = parseUnary()
+      return c === '-' ? -value : value
+    }
+    return parsePower()
+  }
+
+  // power := primary ('^' unary)?  (right associative)
+  const parsePower = (): number => {
+    const base = parsePrimary()
+    if (peek() === '^') {
+      pos++
+      return Math.pow(base, parseUnary())
+    }
+    return base
+  }
+
+  // primary := number | variable | '(' expression ')'
+  const parsePrimary = (): number => {
+    if (peek() === '(') {
+      pos++
+      const value = parseExpression()
+      if (peek() !== ')') fail('Expected ")"')
+      pos++
+      return value
+    }
+    const name = new RegExp(`^${IDENTIFIER_RE.source}`).exec(text.slice(pos))
+    if (name) {
+      if (!Object.prototype.hasOwnProperty.call(scope, name[0])) {
+        throw new Error(`Unknown variable "${name[0]}"`)
+      }
+      pos += name[0].length
+      return scope[name[0]]
+    }
+    const match = new RegExp(`^${NUMBER_RE.source}`).exec(text.slice(pos))
+    if (!match) return fail('Expected a number')
+    pos += match[0].length
+    return parseFloat(match[0])
+  }
+
+  const value = parseExpression()
+  if (peek() !== '') fail(`Unexpected "${text[pos]}"`)
+  if (!Number.isFinite(value)) throw new Error('Result is not a finite number')
+  return value
+}
+
+/**
+ * Whether a name can be used as a variable
+ */
+export function isValidIdentifier(name: string): boolean {
+  return new RegExp(`^${IDENTIFIER_RE.source}$`).test(name)
+}
+
+/**
+ * Names of the variables an expression refers to
+ */
+export function expressionIdentifiers(text: string): string[] {
+  // Numbers are matched too so exponents like "1e3" are not taken for names
+  const tokens = text.match(new RegExp(`${IDENTIFIER_RE.source}|${NUMBER_RE.source}`, 'g')) ?? []
+  return tokens.filter(token => isValidIdentifier(token))
+}
+
+/**
+ * Replace every reference to a variable in an expression
+ */
+export function renameIdentifier(text: string, from: string, to: string): string {
+  return text.replace(new RegExp(`(?<![A-Za-z0-9_])${from}(?![A-Za-z0-9_])`, 'g'), to)
+}
+
+// ============================================================================
+// FIELD EDITS
+// ============================================================================
+
+export type RelativeOperator = '+' | '-' | '*' | '/'
+
+/**
+ * A value typed into a numeric field: either an absolute value for every
+ * selected item, or an operation applied to each item's current value.
+ * Absolute edits keep the expression text so fields can stay bound to it.
+ */
+export type FieldEdit =
+  | { kind: 'absolute'; value: number; expression: string }
+  | { kind: 'relative'; op: RelativeOperator; value: number }
+
+/**
+ * Parse what was typed into a numeric field:
+ * - "47.5" or "120/2"  sets the value
+ * - "=120/2" or "=-20"  sets the value (use "=" for negative values)
+ * - "+5", "-5", "*2", "/2"  changes each item's current value
+ *
+ * Returns null for empty input and throws on a malformed expression.
+ */
+export function parseFieldEdit(text: string, scope: Record<string, number> = {}): FieldEdit | null {
+  const trimmed = text.trim()
+  if (trimmed === '') return null
+
+  const first = trimmed[0]
+  if (first === '=') {
+    const expression = trimmed.slice(1).trim()
+    return { kind: 'absolute', value: evaluateExpression(expression, scope), expression }
+  }
+  if (first === '+' || first === '-' || first === '*' || first === '/') {
+    return { kind: 'relative', op: first, value: evaluateExpression(trimmed.slice(1), scope) }
+  }
+  return { kind: 'absolute', value: evaluateExpression(trimmed, scope), expression: trimmed }
+}
+
+/**
+ * New value of a field after an edit
+ */
+export function applyFieldEdit(edit: FieldEdit, current: number): number {
+  if (edit.kind === 'absolute') return edit.value
+  switch (edit.op) {
+    case '+': return current + edit.value
+    case '-': return current - edit.value
+    case '*': return current * edit.value
+    case '/': return edit.value !== 0 ? current / edit.value : current
+  }
+}
@@ -1,12 +1,21 @@
-import type { SerpentineDocument, Shape, Point, CircleShape, PathSegment, ArcSegment, EllipseArcSegment, LineSegment, BezierSegment } from '../types'
+import type { SerpentineDocument, SerpentineDocumentPath, Shape, LayerMember, Point, PathSegment, ArcSegment, EllipseArcSegment, LineSegment, BezierSegment } from '../types'
 import { useDocumentStore } from '../stores/documentStore'
 import { useViewportStore } from '../stores/viewportStore'
 import { useSettingsStore } from '../stores/settingsStore'
 import { useNotificationStore, reportError } from '../stores/notificationStore'
 import { fitToView } from './viewportActions'
-import { computeTangentHull } from '../geometry/path'
+import { getLayerOf, isOnVisibleLayer } from './layers'
+import { CONSTRAINT_ARITY } from '../geometry/constraints'
+import { LENGTH_UNITS, toDocumentUnits, unitSuffix } from './units'
+import { computePathHulls } from '../geometry/path'
+import { computePathOffsets } from '../geometry/offset'
+import { BOOLEAN_OPERATIONS, computeBooleanOutlines } from '../geometry/boolean'
 import { pointOnCircle } from '../geometry/math'
-import { MIN_CIRCLES } from '../constants'
+import { flattenSvgPath } from '../geometry/svgPath'
+import { fitCirclesToOutline } from '../geometry/outlineFit'
+import { pathSegmentsToDxf, defaultDxfUnits, type DxfUnits } from './dxf'
+import { MIN_CIRCLES, DEFAULT_IMPORT_TOLERANCE } from '../constants'
+import { isShapeType, getTangentShapeForType } from '../geometry/shapes/registry'
 import type { Preset } from './presets'
 
 /**
@@ -54,6 +63,7 @@ export function saveDocument(): void {
     const docState = useDocumentStore.getState()
     const viewportState = useViewportStore.getState()
     const settingsState = useSettingsStore.getState()
+    const firstPath = docState.paths[0]
     
     const doc: SerpentineDocument = {
       version: 1,
@@ -63,16 +73,34 @@ export function saveDocument(): void {
       settings: {
         gridSize: settingsState.gridSize,
         globalStretch: docState.globalStretch,
-        closedPath: docState.closedPath,
-        useStartPoint: docState.useStartPoint,
-        useEndPoint: docState.useEndPoint
+        closedPath: firstPath.closedPath,
+        useStartPoint: firstPath.useStartPoint,
+        useEndPoint: firstPath.useEndPoint,
+        units: docState.units.unit,
+        unitScale: docState.units.scale
       },
       viewport: {
         pan: viewportState.pan,
         zoom: viewportState.zoom
       },
       shapes: docState.shapes,
-      pathOrder: docState.shapeOrder
+      pathOrder: firstPath.shapeOrder,
+      paths: docState.paths.map(path => ({
+        id: path.id,
+        name: path.name,
+        pathOrder: path.shapeOrder,
+        closedPath: path.closedPath,
+        useStartPoint: path.useStartPoint,
+        useEndPoint: path.useEndPoint,
+        mirrorConfig: path.mirrorConfig,
+        arrayConfig: path.arrayConfig,
+        offsets: path.offsets,
+        layerId: path.layerId
+      })),
+      layers: docState.layers,
+      constraints: docState.constraints,
+      variables: docState.variables,
+      booleans: docState.booleans
     }
     
     const json = JSON.stringify(doc, null, 2)
@@ -158,6 +186,101 @@ export function loadDocument(): void {
   }
 }
 
+/**
+ * Import the `<path>` outlines of an SVG file as a new document. Each subpath
+ * becomes its own path, with circles fitted so its tangent hull stays within
+ * a tolerance of the outline. Element transforms are not applied.
+ */
+export function importSvg(): void {
+  try {
+    if (!confirmIfDirty('Import an SVG')) {
+      return
+    }
+    
+    const input = window.document.createElement('input')
+    input.type = 'file'
+    input.accept = '.svg,image/svg+xml'
+    
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+      
+      try {
+        const text = await file.text()
+        const svg = new DOMParser().parseFromString(text, 'image/svg+xml')
+        if (svg.getElementsByTagName('parsererror').length > 0) {
+          throw new Error('Invalid SVG. Please check the file is not corrupted.')
+        }
+        
+        const pathData = Array.from(svg.getElementsByTagName('path'))
+          .map(el => el.getAttribute('d') ?? '')
+          .filter(d => d.trim() !== '')
+        if (pathData.length === 0) {
+          throw new Error('The SVG has no <path> elements')
+        }
+        
+        const answer = window.prompt('Maximum deviation from the SVG outline (px)', String(DEFAULT_IMPORT_TOLERANCE))
+        if (answer === null) return
+        const tolerance = parseFloat(answer)
+        if (!(tolerance > 0)) {
+          throw new Error('The tolerance must be a positive number')
+        }
+        
+        const outlines = pathData.flatMap(d => flattenSvgPath(d, tolerance / 2))
+        if (outlines.length === 0) {
+          throw new Error('The SVG paths have no drawable outlines')
+        }
+        
+        const shapes: Shape[] = []
+        const paths: SerpentineDocumentPath[] = []
+        let maxDeviation = 0
+        for (const outline of outlines) {
+          const fit = fitCirclesToOutline(outline.points, outline.closed, tolerance)
+          shapes.push(...fit.shapes)
+          paths.push({
+            id: crypto.randomUUID(),
+            name: `Path ${paths.length + 1}`,
+            pathOrder: fit.shapeOrder,
+            closedPath: fit.closed,
+            // Open outlines run exactly from end pin to end pin
+            useStartPoint: false,
+            useEndPoint: false
+          })
+          maxDeviation = Math.max(maxDeviation, fit.maxDeviation)
+        }
+        
+        const name = file.name.replace(/\.svg$/i, '')
+        useDocumentStore.getState().loadDocument({
+          version: 1,
+          name,
+          shapes,
+          pathOrder: paths[0].pathOrder,
+          paths
+        })
+        useDocumentStore.getState().setFileName(name)
+        
+        requestAnimationFrame(() => {
+          fitToView(true)
+        })
+        
+        const summary = `${shapes.length} shapes in ${paths.length} path${paths.length === 1 ? '' : 's'}, max deviation ${maxDeviation.toFixed(2)}px`
+        if (maxDeviation > tolerance) {
+          useNotificationStore.getState().warning('SVG imported outside tolerance', summary)
+        } else {
+          useNotificationStore.getState().success('SVG imported', summary)
+        }
+        
+      } catch (err) {
+        reportError(err, 'Failed to import SVG')
+      }
+    }
+    
+    input.click()
+  } catch (error) {
+    reportError(error, 'Failed to open file picker')
+  }
+}
+
 /**
  * Load a preset document
  */
@@ -210,6 +333,79 @@ function validateDocument(data: unknown): string | null {
     return 'Document is missing path order data'
   }
   
+  if (doc.paths !== undefined) {
+    if (!Array.isArray(doc.paths)) {
+      return 'Document has invalid paths data'
+    }
+    for (let i = 0; i < doc.paths.length; i++) {
+      const path = doc.paths[i]
+      if (!path || typeof path.id !== 'string' || !Array.isArray(path.pathOrder)) {
+        return `Path ${i + 1} is invalid`
+      }
+      if (path.offsets !== undefined && (!Array.isArray(path.offsets) || !path.offsets.every(Number.isFinite))) {
+        return `Path ${i + 1} has invalid offsets`
+      }
+    }
+  }
+  
+  if (doc.settings?.units !== undefined && !LENGTH_UNITS.some(u => u.unit === doc.settings?.units)) {
+    return `Document has unknown units "${doc.settings.units}"`
+  }
+  
+  if (doc.settings?.unitScale !== undefined && !(doc.settings.unitScale > 0)) {
+    return 'Document has an invalid unit scale'
+  }
+  
+  if (doc.layers !== undefined) {
+    if (!Array.isArray(doc.layers)) {
+      return 'Document has invalid layers data'
+    }
+    for (let i = 0; i < doc.layers.length; i++) {
+      const layer = doc.layers[i]
+      if (!layer || typeof layer.id !== 'string' || typeof layer.name !== 'string') {
+        return `Layer ${i + 1} is invalid`
+      }
+    }
+  }
+  
+  if (doc.constraints !== undefined) {
+    if (!Array.isArray(doc.constraints)) {
+      return 'Document has invalid constraints data'
+    }
+    for (let i = 0; i < doc.constraints.length; i++) {
+      const constraint = doc.constraints[i]
+      if (!constraint || typeof constraint.id !== 'string' || !(constraint.type in CONSTRAINT_ARITY) ||
+          !Array.isArray(constraint.shapeIds) || constraint.shapeIds.length !== CONSTRAINT_ARITY[constraint.type]) {
+        return `Constraint ${i + 1} is invalid`
+      }
+    }
+  }
+  
+  if (doc.variables !== undefined) {
+    if (!Array.isArray(doc.variables)) {
+      return 'Document has invalid variables data'
+    }
+    for (let i = 0; i < doc.variables.length; i++) {
+      const variable = doc.variables[i]
+      if (!variable || typeof variable.id !== 'string' || typeof variable.name !== 'string' || typeof variable.expression !== 'string') {
+        return `Variable ${i + 1} is invalid`
+      }
+    }
+  }
+  
+  if (doc.booleans !== undefined) {
+    if (!Array.isArray(doc.booleans)) {
+      return 'Document has invalid boolean outlines data'
+    }
+    for (let i = 0; i < doc.booleans.length; i++) {
+      const outline = doc.booleans[i]
+      if (!outline || typeof outline.id !== 'string' || !(outline.operation in BOOLEAN_OPERATIONS) ||
+          !Array.isArray(outline.pathIds) || !outline.pathIds.every(id => typeof id === 'string')) {
+        return `Boolean outline ${i + 1} is invalid`
+      }
+    }
+  }
+  
   // Validate shapes
   for (let i = 0; i < doc.shapes.length; i++) {
     const shapeError = validateShape(doc.shapes[i], i)
@@ -238,10 +434,17 @@ function validateShape(shape: unknown, index: number): string | null {
     return `Shape ${index + 1} has invalid center coordinates`
   }
   
-  if (s.type === 'circle') {
-    if (typeof s.radius !== 'number' || s.radius <= 0) {
-      return `Shape ${index + 1} has invalid radius`
-    }
+  if (!isShapeType(s.type)) {
+    return `Shape ${index + 1} has unknown type "${s.type}"`
+  }
+  
+  if (s.seam !== undefined && s.seam !== 'cross' && s.seam !== 'wrap') {
+    return `Shape ${index + 1} has unknown seam "${s.seam}"`
+  }
+  
+  const shapeError = getTangentShapeForType(s.type).validate(s)
+  if (shapeError) {
+    return `Shape ${index + 1} ${shapeError}`
   }
   
   return null
@@ -255,7 +458,8 @@ function isValidPoint(point: unknown): point is Point {
 }
 
 /**
- * Convert path segments to an SVG path string
+ * Convert path segments to an SVG path string, starting a new sub-path where
+ * a segment needs one
  */
 export function pathSegmentsToSvgPath(segments: PathSegment[], closed: boolean): string {
   if (segments.length === 0) return ''
@@ -269,7 +473,7 @@ export function pathSegmentsToSvgPath(segments: PathSegment[], closed: boolean):
       const startPt = pointOnCircle(arc.center, arc.radius, arc.startAngle)
       const endPt = pointOnCircle(arc.center, arc.radius, arc.endAngle)
       
-      if (!started) {
+      if (!started || seg.needsMoveTo) {
         commands.push(`M ${startPt.x.toFixed(3)} ${startPt.y.toFixed(3)}`)
         started = true
       }
@@ -316,7 +520,7 @@ export function pathSegmentsToSvgPath(segments: PathSegment[], closed: boolean):
         y: ellipse.center.y + endLocalX * sinR + endLocalY * cosR
       }
       
-      if (!started) {
+      if (!started || seg.needsMoveTo) {
         commands.push(`M ${startPt.x.toFixed(3)} ${startPt.y.toFixed(3)}`)
         started = true
       }
@@ -342,7 +546,7 @@ export function pathSegmentsToSvgPath(segments: PathSegment[], closed: boolean):
     } else if (seg.type === 'line') {
       const line = seg as LineSegment
       
-      if (!started) {
+      if (!started || seg.needsMoveTo) {
         commands.push(`M ${line.start.x.toFixed(3)} ${line.start.y.toFixed(3)}`)
         started = true
       }
@@ -352,7 +556,7 @@ export function pathSegmentsToSvgPath(segments: PathSegment[], closed: boolean):
     } else if (seg.type === 'bezier') {
       const bezier = seg as BezierSegment
       
-      if (!started) {
+      if (!started || seg.needsMoveTo) {
         commands.push(`M ${bezier.start.x.toFixed(3)} ${bezier.start.y.toFixed(3)}`)
         started = true
       }
@@ -476,39 +680,43 @@ export interface SvgExportOptions {
 }
 
 /**
- * Export the current path as an SVG file
+ * Export every path and boolean outline as an SVG file, one <path> element each
  */
 export function exportSvg(options: SvgExportOptions = {}): void {
   try {
     const docState = useDocumentStore.getState()
     
-    const circles = docState.shapes.filter((s): s is CircleShape => s.type === 'circle')
+    const circles = docState.shapes
     
     if (circles.length < MIN_CIRCLES) {
       useNotificationStore.getState().warning('Cannot export', `Need at least ${MIN_CIRCLES} circle to export a path`)
       return
     }
     
-    const pathData = computeTangentHull(
+    // Paths on hidden layers are left out
+    const visiblePaths = docState.paths.filter(path => isOnVisibleLayer(path, docState.layers))
+    const hulls = computePathHulls(circles, visiblePaths, docState.globalStretch)
+      .filter(({ pathData }) => pathData.segments.length > 0)
+    // Boolean outlines on hidden layers are left out too, but their operands need not be visible
+    const booleans = computeBooleanOutlines(
       circles,
-      docState.shapeOrder,
-      docState.globalStretch,
-      docState.closedPath,
-      docState.useStartPoint,
-      docState.useEndPoint,
-      docState.mirrorConfig
-    )
+      docState.paths,
+      docState.booleans.filter(outline => isOnVisibleLayer(outline, docState.layers)),
+      docState.globalStretch
+    ).filter(({ pathData }) => pathData.segments.length > 0)
     
-    if (pathData.segments.length === 0) {
+    if (hulls.length === 0 && booleans.length === 0) {
       useNotificationStore.getState().warning('Cannot export', 'No valid path to export')
       return
     }
     
-    // Generate SVG path string
-    const svgPathD = pathSegmentsToSvgPath(pathData.segments, docState.closedPath)
+    // Offset outlines are exported as extra paths after their path
+    const offsets = hulls.map(({ path, pathData }) => computePathOffsets(pathData, path))
     
-    // Calculate bounds for viewBox
-    const bounds = calculatePathBounds(pathData.segments)
+    // Calculate bounds for viewBox (covering every path, offset and boolean outline)
+    const bounds = calculatePathBounds(
+      [...hulls, ...offsets.flat().map(pathData => ({ pathData })), ...booleans].flatMap(({ pathData }) => pathData.segments)
+    )
     
     // Calculate stroke width based on shape size (same logic as FloatingPreview)
     const baseWidth = bounds.maxX - bounds.minX
@@ -516,9 +724,13 @@ export function exportSvg(options: SvgExportOptions = {}): void {
     const baseDimension = Math.max(baseWidth, baseHeight, 1)
     const strokeWidthValue = options.strokeWidth ?? 2
     const scaledStrokeWidth = (strokeWidthValue / 100) * baseDimension
+    // Layer styles multiply the stroke width of their paths
+    const widthScale = (member: LayerMember) => getLayerOf(member, docState.layers)?.style.strokeWidth ?? 1
+    const members = [...hulls.map(({ path }) => path), ...booleans.map(({ outline }) => outline)]
+    const maxStrokeWidth = Math.max(...members.map(member => scaledStrokeWidth * widthScale(member)))
     
     // Add padding based on stroke width
-    const strokePadding = scaledStrokeWidth / 2
+    const strokePadding = maxStrokeWidth / 2
     const padding = baseDimension * 0.05 + strokePadding * 1.5
     
     const viewBoxX = bounds.minX - padding
@@ -526,32 +738,64 @@ export function exportSvg(options: SvgExportOptions = {}): void {
     const viewBoxWidth = bounds.maxX - bounds.minX + padding * 2
     const viewBoxHeight = bounds.maxY - bounds.minY + padding * 2
     
-    // Determine fill and stroke settings
-    const strokeColor = options.strokeColor ?? '#000000'
-    const fillColor = options.fillColor ?? '#000000'
-    const hasFill = options.fill ?? false
-    const hasStroke = scaledStrokeWidth > 0
-    
-    // Build fill attribute
-    const fillAttr = hasFill ? `fill="${fillColor}"` : 'fill="none"'
-    
-    // Build stroke attributes (only include if stroke width > 0)
-    const strokeAttr = hasStroke 
-      ? `stroke="${strokeColor}" 
-        stroke-width="${scaledStrokeWidth.toFixed(3)}" 
+    // One <path> per document path or boolean outline, with its layer's style overriding the export options
+    const styleAttributes = (member: LayerMember) => {
+      const style = getLayerOf(member, docState.layers)?.style ?? {}
+      
+      // Determine fill and stroke settings
+      const strokeColor = style.stroke ?? options.strokeColor ?? '#000000'
+      const fillColor = style.fill ?? options.fillColor ?? '#000000'
+      const hasFill = style.fill !== undefined || (options.fill ?? false)
+      const pathStrokeWidth = scaledStrokeWidth * widthScale(member)
+      const hasStroke = pathStrokeWidth > 0
+      
+      // Build fill attribute
+      const fillAttr = hasFill ? `fill="${fillColor}"` : 'fill="none"'
+      
+      // Build stroke attributes (only include if stroke width > 0)
+      const strokeAttr = hasStroke 
+        ? `stroke="${strokeColor}" 
+        stroke-width="${pathStrokeWidth.toFixed(3)}" 
         stroke-linecap="round" 
         stroke-linejoin="round"`
-      : 'stroke="none"'
+        : 'stroke="none"'
+      
+      return { fillAttr, strokeAttr }
+    }
+    
+    const pathElements = hulls.map(({ path, pathData }, index) => {
+      const { fillAttr, strokeAttr } = styleAttributes(path)
+      const offsetElements = offsets[index].map(offsetData => `
+  <path d="${pathSegmentsToSvgPath(offsetData.segments, path.closedPath)}" 
+        fill="none"
+        ${strokeAttr}/>`).join('')
+      
+      return `  <path d="${pathSegmentsToSvgPath(pathData.segments, path.closedPath)}" 
+        ${fillAttr}
+        ${strokeAttr}/>${offsetElements}`
+    })
+    
+    // Each boolean outline is a single <path>, holes included as extra sub-paths
+    const booleanElements = booleans.map(({ outline, pathData }) => {
+      const { fillAttr, strokeAttr } = styleAttributes(outline)
+      return `  <path d="${pathSegmentsToSvgPath(pathData.segments, true)}" 
+        ${fillAttr}
+        fill-rule="evenodd"
+        ${strokeAttr}/>`
+    })
+    
+    // Physical size in the document's units, so the file prints and imports at scale
+    const suffix = unitSuffix(docState.units.unit)
+    const svgWidth = `${+toDocumentUnits(viewBoxWidth, docState.units).toFixed(3)}${suffix}`
+    const svgHeight = `${+toDocumentUnits(viewBoxHeight, docState.units).toFixed(3)}${suffix}`
     
     // Create SVG document
     const svg = `<?xml version="1.0" encoding="UTF-8"?>
 <svg xmlns="http://www.w3.org/2000/svg" 
      viewBox="${viewBoxX.toFixed(3)} ${viewBoxY.toFixed(3)} ${viewBoxWidth.toFixed(3)} ${viewBoxHeight.toFixed(3)}"
-     width="${viewBoxWidth.toFixed(0)}" 
-     height="${viewBoxHeight.toFixed(0)}">
-  <path d="${svgPathD}" 
-        ${fillAttr}
-        ${strokeAttr}/>
+     width="${svgWidth}" 
+     height="${svgHeight}">
+${[...pathElements, ...booleanElements].join('\n')}
 </svg>
 `
     
@@ -573,3 +817,64 @@ export function exportSvg(options: SvgExportOptions = {}): void {
     reportError(error, 'Failed to export SVG')
   }
 }
+
+export interface DxfExportOptions {
+  /** Units the drawing is written in (defaults to inches for inch documents, else mm) */
+  units?: DxfUnits
+}
+
+/**
+ * Export every visible path and boolean outline as a DXF file, each on a DXF
+ * layer named after its document layer
+ */
+export function exportDxf(options: DxfExportOptions = {}): void {
+  try {
+    const docState = useDocumentStore.getState()
+    const units = options.units ?? defaultDxfUnits(docState.units)
+    
+    const visiblePaths = docState.paths.filter(path => isOnVisibleLayer(path, docState.layers))
+    const hulls = computePathHulls(docState.shapes, visiblePaths, docState.globalStretch)
+      .filter(({ pathData }) => pathData.segments.length > 0)
+    const booleans = computeBooleanOutlines(
+      docState.shapes,
+      docState.paths,
+      docState.booleans.filter(outline => isOnVisibleLayer(outline, docState.layers)),
+      docState.globalStretch
+    ).filter(({ pathData }) => pathData.segments.length > 0)
+    
+    if (hulls.length === 0 && booleans.length === 0) {
+      useNotificationStore.getState().warning('Cannot export', 'No valid path to export')
+      return
+    }
+    
+    // DXF layer names cannot contain these characters
+    const layerName = (member: LayerMember) => (getLayerOf(member, docState.layers)?.name ?? '0').replace(/[<>/\\":;?*|=`]/g, '_')
+    // Offset outlines go on the same DXF layer as their path
+    const dxf = pathSegmentsToDxf(
+      [
+        ...hulls.flatMap(({ path, pathData }) =>
+          [pathData, ...computePathOffsets(pathData, path)].map(outline => ({ segments: outline.segments, layer: layerName(path) }))
+        ),
+        ...booleans.map(({ outline, pathData }) => ({ segments: pathData.segments, layer: layerName(outline) }))
+      ],
+      units,
+      docState.units
+    )
+    
+    const blob = new Blob([dxf], { type: 'application/dxf' })
+    const url = URL.createObjectURL(blob)
+    
+    const a = window.document.createElement('a')
+    a.href = url
+    const fileName = docState.fileName || 'path'
+    a.download = `${fileName.replace(/[^a-z0-9]/gi, '_')}.dxf`
+    window.document.body.appendChild(a)
+    a.click()
+    window.document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+    
+    useNotificationStore.getState().success('DXF exported', `${fileName}.dxf (${units === 'mm' ? 'millimeters' : 'inches'})`)
+  } catch (error) {
+    reportError(error, 'Failed to export DXF')
+  }
+}
@@ -0,0 +1,136 @@
+import type { Shape, PathConfig } from '../types'
+import type { DocumentSnapshot } from '../stores/historyStore'
+
+/**
+ * History Labels
+ *
+ * Names for undo history entries ("Move Circle 3", "Change stretch"),
+ * worked out by comparing the document before and after a change. History
+ * is recorded from document changes rather than from the actions that made
+ * them, so the label describes what changed, the most telling change first.
+ */
+
+// Shape fields in the order they name an edit: the first one changed wins
+const SHAPE_EDIT_LABELS: [string, (name: string) => string][] = [
+  ['name', name => `Rename ${name}`],
+  ['radius', name => `Resize ${name}`],
+  ['radiusX', name => `Resize ${name}`],
+  ['radiusY', name => `Resize ${name}`],
+  ['circumradius', name => `Resize ${name}`],
+  ['width', name => `Resize ${name}`],
+  ['height', name => `Resize ${name}`],
+  ['polygon', name => `Change shape of ${name}`],
+  ['sides', name => `Change sides of ${name}`],
+  ['cornerRadius', name => `Change corners of ${name}`],
+  ['fillet', name => `Change fillet of ${name}`],
+  ['rotation', name => `Rotate ${name}`],
+  ['direction', name => `Reverse ${name}`],
+  ['mirrored', name => `Toggle mirror on ${name}`],
+  ['seam', name => `Change seam of ${name}`],
+  ['stretch', name => `Change stretch of ${name}`],
+  ['entryOffset', name => `Change offset of ${name}`],
+  ['exitOffset', name => `Change offset of ${name}`],
+  ['entryTangentLength', name => `Change tangent length of ${name}`],
+  ['exitTangentLength', name => `Change tangent length of ${name}`],
+  ['curvatureBlend', name => `Change blend of ${name}`],
+  ['layerId', name => `Move ${name} to another layer`],
+  ['expressions', name => `Edit expressions of ${name}`],
+  ['center', name => `Move ${name}`]
+]
+
+// Path settings in the same spirit
+const PATH_EDIT_LABELS: [string, (before: PathConfig, after: PathConfig) => string][] = [
+  ['name', (_, after) => `Rename ${after.name}`],
+  ['shapeOrder', (before, after) =>
+    after.shapeOrder.length > before.shapeOrder.length ? `Add to ${after.name}`
+      : after.shapeOrder.length < before.shapeOrder.length ? `Remove from ${after.name}`
+      : `Reorder ${after.name}`],
+  ['closedPath', (_, after) => `${after.closedPath ? 'Close' : 'Open'} ${after.name}`],
+  ['useStartPoint', (_, after) => `Change ends of ${after.name}`],
+  ['useEndPoint', (_, after) => `Change ends of ${after.name}`],
+  ['mirrorConfig', (_, after) => `Change mirror of ${after.name}`],
+  ['arrayConfig', (_, after) => `Change array of ${after.name}`],
+  ['offsets', (_, after) => `Change offsets of ${after.name}`],
+  ['layerId', (_, after) => `Move ${after.name} to another layer`]
+]
+
+/**
+ * Fields whose values differ between two versions of an object
+ */
+function changedFields<T extends object>(before: T, after: T): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys].filter(key =>
+    JSON.stringify((before as Record<string, unknown>)[key]) !== JSON.stringify((after as Record<string, unknown>)[key])
+  )
+}
+
+/**
+ * Items added, removed and changed between two lists of objects with IDs
+ */
+function diffById<T extends { id: string }>(before: T[], after: T[]) {
+  const beforeById = new Map(before.map(item => [item.id, item]))
+  const afterIds = new Set(after.map(item => item.id))
+  return {
+    added: after.filter(item => !beforeById.has(item.id)),
+    removed: before.filter(item => !afterIds.has(item.id)),
+    changed: after.flatMap(item => {
+      const previous = beforeById.get(item.id)
+      if (!previous) return []
+      const fields = changedFields(previous, item)
+      return fields.length > 0 ? [{ before: previous, after: item, fields }] : []
+    })
+  }
+}
+
+function countLabel(verb: string, items: { name: string }[], noun: string): string {
+  return items.length === 1 ? `${verb} ${items[0].name}` : `${verb} ${items.length} ${noun}`
+}
+
+function shapeEditLabel(shape: Shape, fields: string[]): string {
+  const match = SHAPE_EDIT_LABELS.find(([field]) => fields.includes(field))
+  return match ? match[1](shape.name) : `Edit ${shape.name}`
+}
+
+function pathEditLabel(before: PathConfig, after: PathConfig, fields: string[]): string {
+  const match = PATH_EDIT_LABELS.find(([field]) => fields.includes(field))
+  return match ? match[1](before, after) : `Edit ${after.name}`
+}
+
+/**
+ * Name for the change from one document snapshot to the next, or null when
+ * nothing in the document changed
+ */
+export function describeChange(before: DocumentSnapshot, after: DocumentSnapshot): string | null {
+  const shapes = diffById(before.shapes, after.shapes)
+  const paths = diffById(before.paths, after.paths)
+
+  // Adding or removing shapes also edits path orders, so it comes first
+  if (shapes.added.length > 0) return countLabel('Add', shapes.added, 'shapes')
+  if (shapes.removed.length > 0) return countLabel('Delete', shapes.removed, 'shapes')
+  if (paths.added.length > 0) return countLabel('Add', paths.added, 'paths')
+  if (paths.removed.length > 0) return countLabel('Delete', paths.removed, 'paths')
+  // Changing units re-evaluates expression-bound shapes along with it
+  if (JSON.stringify(before.units) !== JSON.stringify(after.units)) return 'Change units'
+
+  if (shapes.changed.length === 1) {
+    const { after: shape, fields } = shapes.changed[0]
+    return shapeEditLabel(shape, fields)
+  }
+  if (shapes.changed.length > 1) {
+    // Constraints and groups move several shapes at once
+    const moved = shapes.changed.every(change => change.fields.every(field => field === 'center'))
+    return `${moved ? 'Move' : 'Edit'} ${shapes.changed.length} shapes`
+  }
+
+  if (paths.changed.length > 0) {
+    const { before: path, after: changed, fields } = paths.changed[0]
+    return paths.changed.length === 1 ? pathEditLabel(path, changed, fields) : `Edit ${paths.changed.length} paths`
+  }
+
+  if (before.globalStretch !== after.globalStretch) return 'Change stretch'
+  if (JSON.stringify(before.layers) !== JSON.stringify(after.layers)) return 'Edit layers'
+  if (before.constraints !== after.constraints) return 'Edit constraints'
+  if (before.variables !== after.variables) return 'Edit variables'
+  if (before.booleans !== after.booleans) return 'Edit boolean outlines'
+  return null
+}
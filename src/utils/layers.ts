@@ -0,0 +1,37 @@
+import type { Layer, LayerMember } from '../types'
+
+/**
+ * Create a new visible, unlocked layer with the default style
+ */
+export function createLayer(name: string): Layer {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    visible: true,
+    locked: false,
+    style: {}
+  }
+}
+
+/**
+ * Get the layer a shape or path belongs to. Items without a layer, or whose
+ * layer no longer exists, belong to the first layer.
+ */
+export function getLayerOf(item: LayerMember, layers: Layer[]): Layer | undefined {
+  return (item.layerId !== undefined ? layers.find(l => l.id === item.layerId) : undefined) ?? layers[0]
+}
+
+/**
+ * Whether an item's layer is shown
+ */
+export function isOnVisibleLayer(item: LayerMember, layers: Layer[]): boolean {
+  return getLayerOf(item, layers)?.visible ?? true
+}
+
+/**
+ * Whether an item can be picked on the canvas (its layer is shown and not locked)
+ */
+export function isOnEditableLayer(item: LayerMember, layers: Layer[]): boolean {
+  const layer = getLayerOf(item, layers)
+  return !layer || (layer.visible && !layer.locked)
+}
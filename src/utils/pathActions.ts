@@ -0,0 +1,222 @@
+import type { PathConfig, BooleanOperation, ArrayConfig, DocumentUnits, Point } from '../types'
+import { useDocumentStore } from '../stores/documentStore'
+import { useSelectionStore } from '../stores/selectionStore'
+import { useNotificationStore } from '../stores/notificationStore'
+import { mirrorOrigin } from '../geometry/path'
+import { toDocumentUnits, fromDocumentUnits, unitSuffix } from './units'
+import { evaluateExpression } from './expression'
+
+// Most instances an array may have (each one copies its whole set of shapes)
+const MAX_ARRAY_COUNT = 100
+
+/**
+ * Ask for the offset outlines of the active path, as a comma-separated list
+ * of distances in document units (positive = outward, e.g. "6, -3")
+ */
+export function promptPathOffsets(): void {
+  const { activePathId, paths, units, setPathOffsets } = useDocumentStore.getState()
+  const path = paths.find(p => p.id === activePathId)
+  if (!path) return
+
+  const current = (path.offsets ?? []).map(offset => +toDocumentUnits(offset, units).toFixed(4)).join(', ')
+  const answer = window.prompt(
+    `Offset distances for "${path.name}" in ${unitSuffix(units.unit)} (positive grows outward, separate with commas)`,
+    current
+  )
+  if (answer === null) return
+
+  try {
+    const offsets = answer.split(',')
+      .map(part => part.trim())
+      .filter(part => part !== '')
+      .map(part => evaluateExpression(part))
+      .filter(offset => offset !== 0)
+      .map(offset => fromDocumentUnits(offset, units))
+    setPathOffsets(path.id, offsets)
+    useNotificationStore.getState().success(
+      offsets.length > 0 ? 'Offsets updated' : 'Offsets removed',
+      offsets.length > 0 ? `${offsets.length} offset outline${offsets.length === 1 ? '' : 's'} on ${path.name}` : path.name
+    )
+  } catch (error) {
+    useNotificationStore.getState().warning('Invalid offset', (error as Error).message)
+  }
+}
+
+/**
+ * An array as the text of the array prompt
+ */
+function formatArrayConfig(config: ArrayConfig, units: DocumentUnits): string {
+  const length = (value: number) => +toDocumentUnits(value, units).toFixed(4)
+  const degrees = (angle: number) => +(angle * 180 / Math.PI).toFixed(4)
+  return config.type === 'linear'
+    ? `linear ${config.count} ${length(config.spacing)} ${degrees(config.angle)}`
+    : `radial ${config.count} ${degrees(config.angle)} ${length(config.center.x)} ${length(config.center.y)}`
+}
+
+/**
+ * Parse the array prompt: "linear COUNT SPACING [ANGLE]" or
+ * "radial COUNT ANGLE [X Y]", each value an expression. Radial arrays turn
+ * about `defaultCenter` unless given a center. Throws on malformed input.
+ */
+function parseArrayConfig(text: string, shapeIds: string[], units: DocumentUnits, defaultCenter: Point): ArrayConfig {
+  const [type, ...args] = text.split(/\s+/)
+  const values = args.map(arg => evaluateExpression(arg))
+  const count = values[0]
+  const checkCount = () => {
+    if (!Number.isInteger(count) || count < 2 || count > MAX_ARRAY_COUNT) {
+      throw new Error(`Count must be a whole number from 2 to ${MAX_ARRAY_COUNT}`)
+    }
+  }
+
+  switch (type.toLowerCase()) {
+    case 'linear': {
+      if (values.length < 2 || values.length > 3) throw new Error('Use "linear COUNT SPACING [ANGLE]"')
+      checkCount()
+      if (values[1] === 0) throw new Error('Spacing must not be zero')
+      return {
+        type: 'linear',
+        shapeIds,
+        count,
+        spacing: fromDocumentUnits(values[1], units),
+        angle: (values[2] ?? 0) * Math.PI / 180
+      }
+    }
+    case 'radial': {
+      if (values.length !== 2 && values.length !== 4) throw new Error('Use "radial COUNT ANGLE [X Y]"')
+      checkCount()
+      if (values[1] % 360 === 0) throw new Error('Angle must not be a whole number of turns')
+      return {
+        type: 'radial',
+        shapeIds,
+        count,
+        angle: values[1] * Math.PI / 180,
+        center: values.length === 4
+          ? { x: fromDocumentUnits(values[2], units), y: fromDocumentUnits(values[3], units) }
+          : defaultCenter
+      }
+    }
+    default:
+      throw new Error('Start with "linear" or "radial"')
+  }
+}
+
+/**
+ * Ask for the array of the active path: "linear COUNT SPACING [ANGLE]" or
+ * "radial COUNT ANGLE [X Y]", lengths in document units and angles in degrees
+ * (radial arrays turn about the mirror origin unless given a center).
+ * Repeats the selected shapes on the path, or the current set when nothing
+ * is selected; an empty answer removes the array.
+ */
+export function promptPathArray(): void {
+  const { activePathId, paths, units, setArrayConfig } = useDocumentStore.getState()
+  const path = paths.find(p => p.id === activePathId)
+  if (!path) return
+
+  const selected = useSelectionStore.getState().selectedIds.filter(id => path.shapeOrder.includes(id))
+  const shapeIds = selected.length > 0 ? selected : path.arrayConfig?.shapeIds ?? []
+  if (shapeIds.length === 0) {
+    useNotificationStore.getState().warning('Nothing to array', `Select shapes on ${path.name} to repeat`)
+    return
+  }
+
+  const answer = window.prompt(
+    `Array of ${shapeIds.length} shape${shapeIds.length === 1 ? '' : 's'} on "${path.name}": ` +
+    `"linear COUNT SPACING [ANGLE]" or "radial COUNT ANGLE [X Y]", in ${unitSuffix(units.unit)} and degrees. Leave empty to remove.`,
+    path.arrayConfig ? formatArrayConfig(path.arrayConfig, units) : `linear 3 ${+toDocumentUnits(100, units).toFixed(4)}`
+  )
+  if (answer === null) return
+
+  if (answer.trim() === '') {
+    if (path.arrayConfig) {
+      setArrayConfig(undefined)
+      useNotificationStore.getState().success('Array removed', path.name)
+    }
+    return
+  }
+
+  try {
+    const config = parseArrayConfig(answer.trim(), shapeIds, units, mirrorOrigin(path.mirrorConfig))
+    setArrayConfig(config)
+    useNotificationStore.getState().success(
+      path.arrayConfig ? 'Array updated' : 'Array added',
+      `${config.count} × ${shapeIds.length} shape${shapeIds.length === 1 ? '' : 's'} on ${path.name}`
+    )
+  } catch (error) {
+    useNotificationStore.getState().warning('Invalid array', (error as Error).message)
+  }
+}
+
+// Operator symbols in the boolean outline prompt
+const BOOLEAN_SYMBOLS: Record<string, BooleanOperation> = {
+  '+': 'union',
+  '-': 'subtract',
+  '&': 'intersect',
+  '^': 'exclude'
+}
+
+/**
+ * Parse a boolean outline formula such as "Body - Neck pocket - Soundhole"
+ * into its operation and operand paths. Throws on unknown paths, open paths or
+ * mixed operators.
+ */
+function parseBooleanFormula(formula: string, paths: PathConfig[]): { operation: BooleanOperation; pathIds: string[] } {
+  const tokens = formula.split(/\s*([+\-&^])\s*/)
+  const names = tokens.filter((_, i) => i % 2 === 0)
+  const symbols = new Set(tokens.filter((_, i) => i % 2 === 1))
+  if (names.length < 2) throw new Error('Combine at least two paths, e.g. "Body - Soundhole"')
+  if (symbols.size > 1) throw new Error('Use a single operator throughout (+, -, & or ^)')
+
+  const pathIds = names.map(name => {
+    const path = paths.find(p => p.name === name) ?? paths.find(p => p.name.toLowerCase() === name.toLowerCase())
+    if (!path) throw new Error(name === '' ? 'Missing path name' : `No path named "${name}"`)
+    if (!path.closedPath) throw new Error(`"${path.name}" is not a closed path`)
+    return path.id
+  })
+  return { operation: BOOLEAN_SYMBOLS[[...symbols][0]], pathIds }
+}
+
+/**
+ * Ask for the boolean outline built on the active path, as a formula of path
+ * names joined by + (union), - (subtract), & (intersect) or ^ (exclude).
+ * Edits the outline whose first operand is the active path, if there is one;
+ * an empty answer removes it.
+ */
+export function promptBooleanOutline(): void {
+  const { activePathId, paths, booleans, addBoolean, updateBoolean, removeBoolean } = useDocumentStore.getState()
+  const path = paths.find(p => p.id === activePathId)
+  if (!path) return
+
+  const existing = booleans.find(outline => outline.pathIds[0] === path.id)
+  const symbolOf = (operation: BooleanOperation) => Object.keys(BOOLEAN_SYMBOLS).find(s => BOOLEAN_SYMBOLS[s] === operation)
+  const current = existing
+    ? existing.pathIds.map(id => paths.find(p => p.id === id)?.name ?? '').join(` ${symbolOf(existing.operation)} `)
+    : `${path.name} - `
+  const answer = window.prompt(
+    'Boolean outline: path names joined by + (union), - (subtract), & (intersect) or ^ (exclude). Leave empty to remove.',
+    current
+  )
+  if (answer === null) return
+
+  if (answer.trim() === '') {
+    if (existing) {
+      removeBoolean(existing.id)
+      useNotificationStore.getState().success('Boolean outline removed', existing.name)
+    }
+    return
+  }
+
+  try {
+    const { operation, pathIds } = parseBooleanFormula(answer.trim(), paths)
+    if (existing) {
+      updateBoolean(existing.id, { operation, pathIds })
+    } else {
+      addBoolean(operation, pathIds)
+    }
+    useNotificationStore.getState().success(
+      existing ? 'Boolean outline updated' : 'Boolean outline added',
+      `${operation} of ${pathIds.length} paths`
+    )
+  } catch (error) {
+    useNotificationStore.getState().warning('Invalid boolean outline', (error as Error).message)
+  }
+}
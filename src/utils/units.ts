@@ -0,0 +1,73 @@
+import type { DocumentUnits, LengthUnit } from '../types'
+import { MM_PER_INCH, PX_PER_INCH } from '../constants'
+
+export const DEFAULT_UNITS: DocumentUnits = { unit: 'px', scale: 1 }
+
+/**
+ * Units offered in the document settings, with their display suffix
+ */
+export const LENGTH_UNITS: { unit: LengthUnit; label: string; suffix: string; decimals: number }[] = [
+  { unit: 'mm', label: 'Millimeters', suffix: 'mm', decimals: 1 },
+  { unit: 'cm', label: 'Centimeters', suffix: 'cm', decimals: 2 },
+  { unit: 'inch', label: 'Inches', suffix: 'in', decimals: 3 },
+  { unit: 'px', label: 'Pixels', suffix: 'px', decimals: 1 }
+]
+
+// Pixels are CSS pixels (1/96 inch) when converted to physical units
+const MM_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  inch: MM_PER_INCH,
+  px: MM_PER_INCH / PX_PER_INCH
+}
+
+function unitInfo(unit: LengthUnit) {
+  return LENGTH_UNITS.find(u => u.unit === unit) ?? LENGTH_UNITS[LENGTH_UNITS.length - 1]
+}
+
+/**
+ * Convert a world length to the document unit
+ */
+export function toDocumentUnits(value: number, units: DocumentUnits): number {
+  return value * units.scale
+}
+
+/**
+ * Convert a length in the document unit to world units
+ */
+export function fromDocumentUnits(value: number, units: DocumentUnits): number {
+  return units.scale > 0 ? value / units.scale : value
+}
+
+/**
+ * Convert a world length to millimeters
+ */
+export function toMillimeters(value: number, units: DocumentUnits): number {
+  return value * units.scale * MM_PER_UNIT[units.unit]
+}
+
+/**
+ * Format a world length in the document unit, e.g. "356.0 mm"
+ */
+export function formatLength(value: number, units: DocumentUnits, decimals?: number): string {
+  const info = unitInfo(units.unit)
+  return `${toDocumentUnits(value, units).toFixed(decimals ?? info.decimals)} ${info.suffix}`
+}
+
+/**
+ * Display suffix of a unit ("mm", "in", ...)
+ */
+export function unitSuffix(unit: LengthUnit): string {
+  return unitInfo(unit).suffix
+}
+
+/**
+ * Format a world area (power 2) or second moment of area (power 4) in the
+ * document unit, e.g. "1520.5 mm²". Large values switch to exponent notation.
+ */
+export function formatLengthPower(value: number, units: DocumentUnits, power: 2 | 4): string {
+  const info = unitInfo(units.unit)
+  const scaled = value * units.scale ** power
+  const text = Math.abs(scaled) >= 1e6 ? scaled.toExponential(3) : scaled.toFixed(info.decimals)
+  return `${text} ${info.suffix}${power === 2 ? '²' : '⁴'}`
+}
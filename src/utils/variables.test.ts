@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import type { CircleShape, DocumentUnits, Variable } from '../types'
+import { createCircle } from '../geometry/shapes/Circle'
+import { evaluateVariables, applyExpressions, releaseEditedExpressions, renameError, nextVariableName } from './variables'
+import { MIN_CIRCLE_RADIUS } from '../constants'
+
+const variable = (id: string, name: string, expression: string): Variable => ({ id, name, expression })
+
+// 1 world unit is 0.5 mm
+const units: DocumentUnits = { unit: 'mm', scale: 0.5 }
+
+describe('evaluateVariables', () => {
+  it('evaluates variables that refer to each other in any order', () => {
+    const { values, errors } = evaluateVariables([
+      variable('1', 'area', 'width * height'),
+      variable('2', 'width', '2 * height'),
+      variable('3', 'height', '15')
+    ])
+    expect(values).toEqual({ area: 450, width: 30, height: 15 })
+    expect(errors).toEqual({})
+  })
+
+  it('reports invalid and duplicate names', () => {
+    const { values, errors } = evaluateVariables([
+      variable('1', '9lives', '1'),
+      variable('2', 'size', '2'),
+      variable('3', 'size', '3')
+    ])
+    expect(values).toEqual({ size: 2 })
+    expect(Object.keys(errors)).toEqual(['1', '3'])
+    expect(errors['3']).toBe('"size" is already defined')
+  })
+
+  it('reports cycles and the variables that depend on them', () => {
+    const { values, errors } = evaluateVariables([
+      variable('1', 'a', 'b + 1'),
+      variable('2', 'b', 'a + 1'),
+      variable('3', 'c', 'a * 2'),
+      variable('4', 'd', '4')
+    ])
+    expect(values).toEqual({ d: 4 })
+    // The cycle is found where evaluation started
+    expect(errors['1']).toBe('Circular reference')
+    expect(errors['2']).toBe('"a" has an error')
+    expect(errors['3']).toBe('"a" has an error')
+  })
+
+  it('reports malformed expressions and unknown names', () => {
+    const { errors } = evaluateVariables([variable('1', 'a', '2 *'), variable('2', 'b', 'missing')])
+    expect(errors['1']).toMatch(/^Expected a number/)
+    expect(errors['2']).toBe('Unknown variable "missing"')
+  })
+})
+
+describe('renameError / nextVariableName', () => {
+  const variables = [variable('1', 'var1', '1'), variable('2', 'width', '2')]
+
+  it('rejects invalid or taken names but allows keeping the same name', () => {
+    expect(renameError(variables, '1', 'width')).toBe('"width" is already defined')
+    expect(renameError(variables, '1', 'no spaces')).not.toBeNull()
+    expect(renameError(variables, '1', 'var1')).toBeNull()
+    expect(renameError(variables, '1', 'height')).toBeNull()
+  })
+
+  it('picks the next unused name', () => {
+    expect(nextVariableName(variables)).toBe('var3')
+    expect(nextVariableName([...variables, variable('3', 'var3', '3')])).toBe('var4')
+  })
+})
+
+describe('applyExpressions', () => {
+  const bound = (expressions: CircleShape['expressions']): CircleShape =>
+    ({ ...createCircle({ x: 0, y: 0 }, 20, 'c'), expressions })
+
+  it('sets bound fields from their expressions, in document units', () => {
+    const shapes = [bound({ centerX: 'w / 2', radius: 'w', entryOffset: '90', stretch: '50' })]
+    const [circle] = applyExpressions(shapes, { w: 40 }, units) as CircleShape[]
+    expect(circle.center).toEqual({ x: 40, y: 0 })
+    expect(circle.radius).toBe(80)
+    expect(circle.entryOffset).toBeCloseTo(Math.PI / 2, 12)
+    expect(circle.stretch).toBe(0.5)
+  })
+
+  it('keeps the array when nothing changes', () => {
+    const shapes = [bound({ radius: '10' }), createCircle({ x: 5, y: 5 }, 10, 'd')]
+    expect(applyExpressions(shapes, {}, units)).toBe(shapes)
+  })
+
+  it('keeps the current value of fields whose expression fails, and clamps the radius', () => {
+    const shapes = [bound({ centerY: 'missing', radius: '0' })]
+    const [circle] = applyExpressions(shapes, {}, units) as CircleShape[]
+    expect(circle.center.y).toBe(0)
+    expect(circle.radius).toBe(MIN_CIRCLE_RADIUS)
+  })
+})
+
+describe('releaseEditedExpressions', () => {
+  const before: CircleShape = { ...createCircle({ x: 0, y: 0 }, 20, 'c'), expressions: { centerX: 'a', radius: 'r' } }
+
+  it('unbinds the fields an edit changed', () => {
+    const after = { ...before, center: { x: 10, y: 0 } }
+    const released = releaseEditedExpressions(before, after, { center: after.center }, units) as CircleShape
+    expect(released.expressions).toEqual({ radius: 'r' })
+  })
+
+  it('drops the expressions entirely when none are left', () => {
+    const after = { ...before, center: { x: 10, y: 0 }, radius: 30 }
+    const released = releaseEditedExpressions(before, after, { center: after.center, radius: 30 }, units) as CircleShape
+    expect(released.expressions).toBeUndefined()
+  })
+
+  it('keeps expressions the edit set itself', () => {
+    const expressions = { centerX: 'b' }
+    const after = { ...before, center: { x: 10, y: 0 }, expressions }
+    expect(releaseEditedExpressions(before, after, { center: after.center, expressions }, units)).toBe(after)
+  })
+})
@@ -0,0 +1,210 @@
+import type { Shape, CircleShape, Variable, ExpressionField, DocumentUnits } from '../types'
+import { evaluateExpression, expressionIdentifiers, isValidIdentifier } from './expression'
+import { toDocumentUnits, fromDocumentUnits } from './units'
+import { MIN_CIRCLE_RADIUS } from '../constants'
+
+/**
+ * Create a variable with a fresh id
+ */
+export function createVariable(name: string, expression: string): Variable {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    expression
+  }
+}
+
+/**
+ * A name like "var1" that no variable uses yet
+ */
+export function nextVariableName(variables: Variable[]): string {
+  const names = new Set(variables.map(v => v.name))
+  let i = variables.length + 1
+  while (names.has(`var${i}`)) i++
+  return `var${i}`
+}
+
+/**
+ * Why a variable can't be renamed to `name`, or null when it can. Renaming
+ * rewrites every reference, so a bad name would break them all and a taken
+ * one would merge them with the other variable's for good.
+ */
+export function renameError(variables: Variable[], id: string, name: string): string | null {
+  if (!isValidIdentifier(name)) return 'Names start with a letter and use letters, digits and _'
+  if (variables.some(v => v.id !== id && v.name === name)) return `"${name}" is already defined`
+  return null
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+export interface VariableValues {
+  values: Record<string, number>  // By variable name, for variables that evaluate
+  errors: Record<string, string>  // By variable id
+}
+
+/**
+ * Evaluate every variable, following references between them. Variables with
+ * an invalid or duplicate name, a malformed expression, a reference cycle or a
+ * reference to a failing variable get an error instead of a value.
+ */
+export function evaluateVariables(variables: Variable[]): VariableValues {
+  const values: Record<string, number> = {}
+  const errors: Record<string, string> = {}
+  const byName = new Map<string, Variable>()
+
+  for (const variable of variables) {
+    if (!isValidIdentifier(variable.name)) {
+      errors[variable.id] = 'Names start with a letter and use letters, digits and _'
+    } else if (byName.has(variable.name)) {
+      errors[variable.id] = `"${variable.name}" is already defined`
+    } else {
+      byName.set(variable.name, variable)
+    }
+  }
+
+  const visiting = new Set<string>()
+
+  const evaluate = (variable: Variable): boolean => {
+    if (variable.name in values) return true
+    if (errors[variable.id]) return false
+    if (visiting.has(variable.id)) {
+      errors[variable.id] = 'Circular reference'
+      return false
+    }
+    visiting.add(variable.id)
+
+    for (const name of expressionIdentifiers(variable.expression)) {
+      const dependency = byName.get(name)
+      if (dependency && !evaluate(dependency)) {
+        visiting.delete(variable.id)
+        errors[variable.id] ??= `"${name}" has an error`
+        return false
+      }
+    }
+
+    visiting.delete(variable.id)
+    try {
+      values[variable.name] = evaluateExpression(variable.expression, values)
+      return true
+    } catch (error) {
+      errors[variable.id] = (error as Error).message
+      return false
+    }
+  }
+
+  for (const variable of byName.values()) evaluate(variable)
+  return { values, errors }
+}
+
+// ============================================================================
+// SHAPE EXPRESSIONS
+// ============================================================================
+
+/**
+ * Reads and writes a shape property in display units (document units,
+ * degrees, percent), the units its expressions are written in
+ */
+export interface FieldAccessor {
+  get: (shape: Shape, units: DocumentUnits) => number
+  set: (shape: Shape, value: number, units: DocumentUnits) => Partial<Shape>
+}
+
+// Zero offsets and stretch are stored as unset, like the sliders do
+const offsetFromDegrees = (degrees: number) => degrees === 0 ? undefined : degrees * Math.PI / 180
+
+export const EXPRESSION_FIELDS: Record<ExpressionField, FieldAccessor> = {
+  centerX: {
+    get: (shape, units) => toDocumentUnits(shape.center.x, units),
+    set: (shape, value, units) => ({ center: { x: fromDocumentUnits(value, units), y: shape.center.y } })
+  },
+  centerY: {
+    get: (shape, units) => toDocumentUnits(shape.center.y, units),
+    set: (shape, value, units) => ({ center: { x: shape.center.x, y: fromDocumentUnits(value, units) } })
+  },
+  radius: {
+    get: (shape, units) => toDocumentUnits((shape as CircleShape).radius, units),
+    set: (_shape, value, units) => ({ radius: Math.max(MIN_CIRCLE_RADIUS, fromDocumentUnits(value, units)) })
+  },
+  entryOffset: {
+    get: shape => (shape.entryOffset ?? 0) * 180 / Math.PI,
+    set: (_shape, value) => ({ entryOffset: offsetFromDegrees(value) })
+  },
+  exitOffset: {
+    get: shape => (shape.exitOffset ?? 0) * 180 / Math.PI,
+    set: (_shape, value) => ({ exitOffset: offsetFromDegrees(value) })
+  },
+  stretch: {
+    get: shape => (shape.stretch ?? 0) * 100,
+    set: (_shape, value) => ({ stretch: Math.max(-1, Math.min(1, value / 100)) })
+  }
+}
+
+const FIELD_NAMES = Object.keys(EXPRESSION_FIELDS) as ExpressionField[]
+
+/**
+ * Error of each expression on a shape that cannot be evaluated
+ */
+export function expressionErrors(shape: Shape, values: Record<string, number>): Partial<Record<ExpressionField, string>> {
+  const errors: Partial<Record<ExpressionField, string>> = {}
+  if (shape.type !== 'circle' || !shape.expressions) return errors
+  for (const field of FIELD_NAMES) {
+    const expression = shape.expressions[field]
+    if (expression === undefined) continue
+    try {
+      evaluateExpression(expression, values)
+    } catch (error) {
+      errors[field] = (error as Error).message
+    }
+  }
+  return errors
+}
+
+/**
+ * Re-evaluate the expression-bound fields of every circle. Fields whose
+ * expression fails keep their current value. Returns the original array if
+ * no value changed.
+ */
+export function applyExpressions(shapes: Shape[], values: Record<string, number>, units: DocumentUnits): Shape[] {
+  let changed = false
+  const result = shapes.map(shape => {
+    if (shape.type !== 'circle' || !shape.expressions) return shape
+    let updated: Shape = shape
+    for (const field of FIELD_NAMES) {
+      const expression = shape.expressions[field]
+      if (expression === undefined) continue
+      let value: number
+      try {
+        value = evaluateExpression(expression, values)
+      } catch {
+        continue
+      }
+      const accessor = EXPRESSION_FIELDS[field]
+      if (Math.abs(accessor.get(updated, units) - value) < 1e-9) continue
+      updated = { ...updated, ...accessor.set(updated, value, units) } as Shape
+    }
+    if (updated !== shape) changed = true
+    return updated
+  })
+  return changed ? result : shapes
+}
+
+/**
+ * Drop the expressions of fields an edit changed directly (dragging a bound
+ * circle unbinds its center), unless the edit set the expressions itself
+ */
+export function releaseEditedExpressions(before: Shape, after: Shape, updates: Partial<Shape>, units: DocumentUnits): Shape {
+  if (after.type !== 'circle' || !after.expressions || 'expressions' in updates) return after
+  let expressions = after.expressions
+  for (const field of FIELD_NAMES) {
+    if (expressions[field] === undefined) continue
+    const accessor = EXPRESSION_FIELDS[field]
+    if (Math.abs(accessor.get(before, units) - accessor.get(after, units)) > 1e-9) {
+      const { [field]: _released, ...rest } = expressions
+      expressions = rest
+    }
+  }
+  if (expressions === after.expressions) return after
+  return { ...after, expressions: Object.keys(expressions).length > 0 ? expressions : undefined }
+}
@@ -1,10 +1,10 @@
+import type { Point } from '../types'
 import { useDocumentStore } from '../stores/documentStore'
 import { useViewportStore } from '../stores/viewportStore'
 import { useCanvasStore } from '../stores/canvasStore'
 import { useNotificationStore } from '../stores/notificationStore'
-import { getShapesBounds } from '../geometry/shapes/Circle'
+import { getShapesBounds } from '../geometry/shapes/registry'
 import { getMirroredCircles } from '../geometry/path'
-import type { CircleShape } from '../types'
 
 /**
  * Fit the viewport to show all shapes (including mirrored shapes)
@@ -12,7 +12,7 @@ import type { CircleShape } from '../types'
  * @returns true if fit was performed, false if no shapes to fit
  */
 export function fitToView(silent = false): boolean {
-  const { shapes, shapeOrder, mirrorConfig } = useDocumentStore.getState()
+  const { shapes, shapeOrder, mirrorConfig, arrayConfig } = useDocumentStore.getState()
   const { width, height } = useCanvasStore.getState()
   const fitToRect = useViewportStore.getState().fitToRect
   const info = useNotificationStore.getState().info
@@ -22,8 +22,8 @@ export function fitToView(silent = false): boolean {
     return false
   }
   
-  // Include mirrored circles in the bounds calculation
-  const mirroredCircles = getMirroredCircles(shapes as CircleShape[], mirrorConfig, shapeOrder)
+  // Include array and mirror copies in the bounds calculation
+  const mirroredCircles = getMirroredCircles(shapes, mirrorConfig, shapeOrder, arrayConfig)
   const allShapes = [...shapes, ...mirroredCircles]
   
   const bounds = getShapesBounds(allShapes)
@@ -45,3 +45,12 @@ export function resetView(): void {
   useNotificationStore.getState().info('View reset')
 }
 
+
+/**
+ * Pan so a world point sits in the middle of the canvas, keeping the zoom
+ */
+export function centerOn(point: Point): void {
+  const { width, height } = useCanvasStore.getState()
+  const { zoom, setPan } = useViewportStore.getState()
+  setPan({ x: width / 2 - point.x * zoom, y: height / 2 - point.y * zoom })
+}